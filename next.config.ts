@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Proof of delivery photos are uploaded through a server action
+      bodySizeLimit: '6mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,235 @@
+'use server';
+
+import connectDB from '@/lib/mongoose';
+import CashSessionModel from '@/models/cash-session-model';
+import OrderModel from '@/models/order-model';
+import UserModel from '@/models/user-model';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import { startOfDay, endOfDay } from 'date-fns';
+import { authorize, requireSelfOrPermission, AuthorizationError } from '@/lib/authorization';
+import { hasPermission } from '@/lib/permissions';
+import { expectedCash } from '@/lib/payments';
+import type { CashSession, User } from '@/types';
+
+function toPlainObject(doc: any): CashSession {
+    const plain = doc.toObject({ getters: true, versionKey: false });
+    plain.id = plain._id.toString();
+    delete plain._id;
+
+    if (plain.deliveryPerson && typeof plain.deliveryPerson === 'object' && plain.deliveryPerson._id) {
+        plain.deliveryPerson.id = plain.deliveryPerson._id.toString();
+        delete plain.deliveryPerson._id;
+        delete plain.deliveryPerson.password;
+        if (plain.deliveryPerson.activeRoute) {
+            plain.deliveryPerson.activeRoute = plain.deliveryPerson.activeRoute.toString();
+        }
+    }
+
+    plain.collections = plain.collections.map((collection: any) => ({
+        ...collection,
+        order: collection.order.toString(),
+        collectedAt: collection.collectedAt.toISOString(),
+    }));
+
+    for (const field of ['openedAt', 'closedAt', 'approvedAt', 'createdAt', 'updatedAt']) {
+        if (plain[field] instanceof Date) plain[field] = plain[field].toISOString();
+    }
+    return plain;
+}
+
+const CashAmountSchema = z.coerce.number().int({ message: "Ingresa el monto en pesos, sin decimales." }).min(0, { message: "El monto no puede ser negativo." });
+
+const CloseCashSessionSchema = z.object({
+    countedCash: CashAmountSchema,
+    notes: z.string().trim().max(500).optional(),
+});
+
+function revalidateCashPages() {
+    revalidatePath('/dashboard/cuadre-caja');
+    revalidatePath('/dashboard/domiciliarios');
+    revalidatePath('/dashboard');
+}
+
+/**
+ * Sessions opened on the given day plus any still waiting to be closed or approved, newest first.
+ * Without cash.view a user only sees their own.
+ */
+export async function getCashSessions(date: Date) {
+    try {
+        const authSession = await authorize('getCashSessions');
+        await connectDB();
+        const filter: Record<string, unknown> = {
+            $or: [
+                { openedAt: { $gte: startOfDay(date), $lte: endOfDay(date) } },
+                { status: { $in: ['open', 'pending_approval'] } },
+            ],
+        };
+        if (!hasPermission(authSession, 'cash.view')) {
+            filter.deliveryPerson = new mongoose.Types.ObjectId(authSession.userId);
+        }
+
+        const sessions = await CashSessionModel.find(filter)
+            .populate<{ deliveryPerson: User }>('deliveryPerson')
+            .sort({ openedAt: -1 });
+        return sessions.map(toPlainObject);
+    } catch (error) {
+        console.error('Error fetching cash sessions:', error);
+        return [];
+    }
+}
+
+/**
+ * Starts a courier's shift with the change float they take from the pharmacy.
+ * Opening someone else's shift needs cash.manage.
+ */
+export async function openCashSession(deliveryPersonId: string, openingFloat: number) {
+    const validatedFloat = CashAmountSchema.safeParse(openingFloat);
+    if (!validatedFloat.success) {
+        return { success: false, message: validatedFloat.error.errors[0].message };
+    }
+
+    try {
+        const authSession = await authorize('openCashSession');
+        requireSelfOrPermission(authSession, 'cash.manage', deliveryPersonId);
+        await connectDB();
+        const courier = await UserModel.findById(deliveryPersonId);
+        if (!courier || courier.role !== 'delivery') {
+            return { success: false, message: 'Domiciliario no encontrado.' };
+        }
+        if (await CashSessionModel.exists({ deliveryPerson: deliveryPersonId, status: 'open' })) {
+            return { success: false, message: `${courier.name} ya tiene un turno abierto.` };
+        }
+
+        const cashSession = await CashSessionModel.create({
+            deliveryPerson: courier._id,
+            openingFloat: validatedFloat.data,
+            openedByName: authSession.userName,
+        });
+        if (courier.status === 'offline') {
+            await UserModel.findByIdAndUpdate(deliveryPersonId, { status: 'available' });
+        }
+
+        await cashSession.populate<{ deliveryPerson: User }>('deliveryPerson');
+        revalidateCashPages();
+        return { success: true, message: 'Turno abierto.', session: toPlainObject(cashSession) };
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        // Two openings at once: the unique index on open sessions lets only one through
+        if (error?.code === 11000) {
+            return { success: false, message: 'El domiciliario ya tiene un turno abierto.' };
+        }
+        console.error('Error opening cash session:', error);
+        return { success: false, message: 'No se pudo abrir el turno. Revisa la conexión a la base de datos.' };
+    }
+}
+
+/**
+ * Ends a shift with the cash staff counted when the courier hands it back. A session that does
+ * not match what was expected waits for an admin or agent to approve the difference.
+ */
+export async function closeCashSession(sessionId: string, formData: z.infer<typeof CloseCashSessionSchema>) {
+    const validatedFields = CloseCashSessionSchema.safeParse(formData);
+    if (!validatedFields.success) {
+        return { success: false, message: validatedFields.error.errors[0].message };
+    }
+    const { countedCash, notes } = validatedFields.data;
+
+    try {
+        const authSession = await authorize('closeCashSession');
+        await connectDB();
+        const cashSession = await CashSessionModel.findById(sessionId);
+        if (!cashSession || cashSession.status !== 'open') {
+            return { success: false, message: 'El turno no existe o ya fue cerrado.' };
+        }
+
+        const ordersOnTheRoad = await OrderModel.countDocuments({
+            assignedTo: cashSession.deliveryPerson,
+            status: { $in: ['assigned', 'in_transit'] },
+        });
+        if (ordersOnTheRoad > 0) {
+            return { success: false, message: 'Entrega o devuelve los pedidos asignados antes de cerrar el turno.' };
+        }
+
+        const difference = countedCash - expectedCash(cashSession);
+        if (difference !== 0 && !notes) {
+            return { success: false, message: 'Explica la diferencia entre el efectivo contado y el esperado.' };
+        }
+
+        // Matching on the status keeps a session from being closed twice
+        const closedSession = await CashSessionModel.findOneAndUpdate(
+            { _id: sessionId, status: 'open' },
+            {
+                $set: {
+                    status: difference === 0 ? 'closed' : 'pending_approval',
+                    countedCash,
+                    difference,
+                    closingNotes: notes || undefined,
+                    closedAt: new Date(),
+                    closedByName: authSession.userName,
+                },
+            },
+            { new: true }
+        ).populate<{ deliveryPerson: User }>('deliveryPerson');
+        if (!closedSession) {
+            return { success: false, message: 'El turno cambió mientras lo cerrabas. Recarga la página e inténtalo de nuevo.' };
+        }
+
+        await UserModel.findByIdAndUpdate(cashSession.deliveryPerson, { status: 'offline', $unset: { currentLocation: 1 } });
+
+        revalidateCashPages();
+        return {
+            success: true,
+            message: difference === 0 ? 'Turno cerrado sin diferencias.' : 'Turno cerrado. La diferencia queda pendiente de aprobación.',
+            session: toPlainObject(closedSession),
+        };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error closing cash session:', error);
+        return { success: false, message: 'No se pudo cerrar el turno. Revisa la conexión a la base de datos.' };
+    }
+}
+
+/**
+ * Accepts the difference of a closed shift. After this the session is locked.
+ */
+export async function approveCashSessionDifference(sessionId: string, notes: string) {
+    const approvalNotes = notes.trim();
+    if (!approvalNotes) {
+        return { success: false, message: 'Escribe una nota para aprobar la diferencia.' };
+    }
+
+    try {
+        const authSession = await authorize('approveCashSessionDifference');
+        await connectDB();
+        const approvedSession = await CashSessionModel.findOneAndUpdate(
+            { _id: sessionId, status: 'pending_approval' },
+            {
+                $set: {
+                    status: 'closed',
+                    approvedByName: authSession.userName,
+                    approvedAt: new Date(),
+                    approvalNotes,
+                },
+            },
+            { new: true }
+        ).populate<{ deliveryPerson: User }>('deliveryPerson');
+        if (!approvedSession) {
+            return { success: false, message: 'El turno no está pendiente de aprobación.' };
+        }
+
+        revalidateCashPages();
+        return { success: true, message: 'Diferencia aprobada. El turno quedó cerrado.', session: toPlainObject(approvedSession) };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error approving cash session difference:', error);
+        return { success: false, message: 'No se pudo aprobar la diferencia. Revisa la conexión a la base de datos.' };
+    }
+}
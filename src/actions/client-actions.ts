@@ -4,6 +4,7 @@ import connectDB from '@/lib/mongoose';
 import ClientModel, { ClientDocument } from '@/models/client-model';
 import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
+import { authorize, AuthorizationError } from '@/lib/authorization';
 
 const ClientFormSchema = z.object({
     fullName: z.string().min(3, { message: "El nombre debe tener al menos 3 caracteres." }),
@@ -19,6 +20,7 @@ function toPlainObject(doc: ClientDocument): any {
 
 export async function getClients() {
   try {
+    await authorize('getClients');
     await connectDB();
     const clients = await ClientModel.find({}).sort({ createdAt: -1 });
     const plainClients = clients.map(toPlainObject);
@@ -37,6 +39,7 @@ export async function createClient(formData: { fullName: string; phone: string;
   }
 
   try {
+    await authorize('createClient');
     await connectDB();
     const newClient = new ClientModel({
         fullName: validatedFields.data.fullName,
@@ -47,6 +50,9 @@ export async function createClient(formData: { fullName: string; phone: string;
     revalidatePath('/dashboard/clientes');
     return { success: true, message: `Cliente ${validatedFields.data.fullName} creado.` };
   } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+        return { success: false, message: error.message };
+    }
     console.error('Error creating client:', error);
     // Handle duplicate key error for the phone number
     if (error.code === 11000 || error.message.includes('duplicate key')) {
@@ -63,6 +69,7 @@ export async function updateClient(id: string, formData: { fullName: string; pho
     }
 
     try {
+        await authorize('updateClient');
         await connectDB();
         await ClientModel.findByIdAndUpdate(id, { 
             fullName: validatedFields.data.fullName, 
@@ -71,6 +78,9 @@ export async function updateClient(id: string, formData: { fullName: string; pho
         revalidatePath('/dashboard/clientes');
         return { success: true, message: 'Cliente actualizado.' };
     } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
         console.error('Error updating client:', error);
         return { success: false, message: 'No se pudo actualizar el cliente. Revisa la conexión a la base de datos.' };
     }
@@ -78,11 +88,15 @@ export async function updateClient(id: string, formData: { fullName: string; pho
 
 export async function deleteClient(id: string) {
     try {
+        await authorize('deleteClient');
         await connectDB();
         await ClientModel.findByIdAndDelete(id);
         revalidatePath('/dashboard/clientes');
         return { success: true, message: 'Cliente eliminado.' };
     } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
         console.error('Error deleting client:', error);
         return { success: false, message: 'No se pudo eliminar el cliente. Revisa la conexión a la base de datos.' };
     }
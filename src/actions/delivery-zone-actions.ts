@@ -0,0 +1,126 @@
+'use server';
+
+import connectDB from '@/lib/mongoose';
+import DeliveryZoneModel, { DeliveryZoneDocument } from '@/models/delivery-zone-model';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { authorize, AuthorizationError } from '@/lib/authorization';
+
+const DeliveryZoneFormSchema = z.object({
+    name: z.string().trim().min(2, { message: "Ponle un nombre a la zona." }).max(60),
+    fee: z.coerce.number().int().min(0, { message: "La tarifa no puede ser negativa." }).optional(),
+    polygon: z.object({
+        type: z.literal('Polygon'),
+        // A closed ring repeats its first position, so a triangle has four
+        coordinates: z.array(z.array(z.array(z.number()).length(2)).min(4, { message: "La zona necesita al menos tres puntos." })).length(1),
+    }),
+});
+
+function toPlainObject(doc: DeliveryZoneDocument): any {
+    const plain = doc.toObject({ getters: true, versionKey: false });
+    plain.id = plain._id.toString();
+    delete plain._id;
+    delete plain.createdAt;
+    delete plain.updatedAt;
+    return plain;
+}
+
+function revalidateZonePages() {
+    revalidatePath('/dashboard/configuracion');
+    revalidatePath('/dashboard/rutas');
+}
+
+// MongoDB refuses to index a polygon whose border crosses itself
+const isInvalidGeometryError = (error: any) => error?.code === 16755 || /Can't extract geo keys|Loop is not valid|Edges \d+ and \d+ cross/.test(error?.message ?? '');
+
+export async function getDeliveryZones() {
+    try {
+        await authorize('getDeliveryZones');
+        await connectDB();
+        const zones = await DeliveryZoneModel.find({}).sort({ name: 1 });
+        return zones.map(toPlainObject);
+    } catch (error) {
+        console.error('Error fetching delivery zones:', error);
+        return [];
+    }
+}
+
+export async function createDeliveryZone(formData: z.input<typeof DeliveryZoneFormSchema>) {
+    const validatedFields = DeliveryZoneFormSchema.safeParse(formData);
+    if (!validatedFields.success) {
+        return { success: false, message: validatedFields.error.issues[0]?.message || 'Datos inválidos. Por favor, revisa la zona.' };
+    }
+
+    try {
+        await authorize('createDeliveryZone');
+        await connectDB();
+        const zone = await DeliveryZoneModel.create(validatedFields.data);
+        revalidateZonePages();
+        return { success: true, message: `Zona ${zone.name} creada.`, zone: toPlainObject(zone) };
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error creating delivery zone:', error);
+        if (error.code === 11000) {
+            return { success: false, message: 'Ya existe una zona con ese nombre.' };
+        }
+        if (isInvalidGeometryError(error)) {
+            return { success: false, message: 'El borde de la zona se cruza consigo mismo. Dibújala de nuevo sin cruzar líneas.' };
+        }
+        return { success: false, message: 'No se pudo crear la zona. Revisa la conexión a la base de datos.' };
+    }
+}
+
+export async function updateDeliveryZone(id: string, formData: Pick<z.input<typeof DeliveryZoneFormSchema>, 'name' | 'fee'>) {
+    const validatedFields = DeliveryZoneFormSchema.pick({ name: true, fee: true }).safeParse(formData);
+    if (!validatedFields.success) {
+        return { success: false, message: validatedFields.error.issues[0]?.message || 'Datos inválidos. Por favor, revisa la zona.' };
+    }
+
+    try {
+        await authorize('updateDeliveryZone');
+        await connectDB();
+        const { name, fee } = validatedFields.data;
+        // Clearing the fee puts the zone back on the distance-based price
+        const update = fee === undefined ? { $set: { name }, $unset: { fee: 1 } } : { $set: { name, fee } };
+        const zone = await DeliveryZoneModel.findByIdAndUpdate(id, update, { new: true });
+        if (!zone) {
+            return { success: false, message: 'La zona ya no existe.' };
+        }
+        revalidateZonePages();
+        return { success: true, message: `Zona ${zone.name} actualizada.`, zone: toPlainObject(zone) };
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error updating delivery zone:', error);
+        if (error.code === 11000) {
+            return { success: false, message: 'Ya existe una zona con ese nombre.' };
+        }
+        return { success: false, message: 'No se pudo actualizar la zona. Revisa la conexión a la base de datos.' };
+    }
+}
+
+/**
+ * Orders already tagged with the zone keep its id and name; they simply stop
+ * matching any zone in the filters.
+ */
+export async function deleteDeliveryZone(id: string) {
+    try {
+        await authorize('deleteDeliveryZone');
+        await connectDB();
+        const zone = await DeliveryZoneModel.findByIdAndDelete(id);
+        if (!zone) {
+            return { success: false, message: 'La zona ya no existe.' };
+        }
+        revalidateZonePages();
+        return { success: true, message: `Zona ${zone.name} eliminada.` };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error deleting delivery zone:', error);
+        return { success: false, message: 'No se pudo eliminar la zona. Revisa la conexión a la base de datos.' };
+    }
+}
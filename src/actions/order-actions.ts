@@ -5,15 +5,32 @@ import connectDB from '@/lib/mongoose';
 import OrderModel, { type OrderDocument } from '@/models/order-model';
 import ClientModel from '@/models/client-model';
 import UserModel from '@/models/user-model';
+import ProductModel from '@/models/product-model';
 import type { Client } from '@/models/client-model';
 import type { User } from '@/models/user-model';
 import { revalidatePath } from 'next/cache';
-import type { OrderStatus, Role } from '@/types';
+import type { Order, OrderItem, OrderStatus, Role, CourierTrack, FlaggedDeliveriesByCourier, Payment, CourierCashSummary } from '@/types';
 import { z } from 'zod';
 import { subDays, startOfDay, endOfDay, format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import mongoose from 'mongoose';
 import { sendWhatsAppNotification } from '@/lib/whatsapp';
+import { reserveOrderStock, applyOrderStockTransition, InsufficientStockError } from '@/lib/inventory';
+import { authorize, requirePermission, requireSelfOrPermission, AuthorizationError, type AuthSession } from '@/lib/authorization';
+import { hasPermission } from '@/lib/permissions';
+import { canTransition, ORDER_STATUS_LABELS, FAILED_DELIVERY_REASON_LABELS } from '@/lib/order-status';
+import { addStopToRoute, removeStopFromRoute, closeRouteIfFinished } from '@/lib/delivery-routes';
+import RouteModel from '@/models/route-model';
+import { parseAddress, isSameAddress } from '@/lib/address';
+import { publishDispatchEvent } from '@/lib/dispatch-events';
+import { getFileStorage, decodeDataUrl, EXTENSIONS_BY_CONTENT_TYPE } from '@/lib/storage';
+import LocationPingModel from '@/models/location-ping-model';
+import { haversineMeters } from '@/lib/geo';
+import { readPharmacySettings } from '@/lib/pharmacy-settings';
+import { quoteDeliveryFee } from '@/lib/delivery-fee';
+import DeliveryZoneModel from '@/models/delivery-zone-model';
+import { legacyPayments, paymentTotals, summarizeCourierCash, VERIFIABLE_PAYMENT_METHODS } from '@/lib/payments';
+import { recordCashCollection } from '@/lib/cash-sessions';
 
 // Helper to convert Mongoose doc to plain object, including nested ones
 function toPlainObject(doc: any): any {
@@ -34,6 +51,10 @@ function toPlainObject(doc: any): any {
         plain.assignedTo.id = plain.assignedTo._id.toString();
         delete plain.assignedTo._id;
 
+        if (plain.assignedTo.activeRoute) {
+            plain.assignedTo.activeRoute = plain.assignedTo.activeRoute.toString();
+        }
+
         // Manually handle currentLocation conversion if it exists
         if (plain.assignedTo.currentLocation && plain.assignedTo.currentLocation.coordinates) {
             plain.assignedTo.currentLocation = {
@@ -43,6 +64,51 @@ function toPlainObject(doc: any): any {
         }
     }
     
+    if (Array.isArray(plain.statusHistory)) {
+        plain.statusHistory = plain.statusHistory.map((change: any) => ({
+            ...change,
+            changedBy: change.changedBy?.toString(),
+            changedAt: change.changedAt instanceof Date ? change.changedAt.toISOString() : change.changedAt,
+        }));
+    }
+
+    if (!plain.payments?.length) {
+        plain.payments = legacyPayments(plain);
+    }
+    plain.payments = plain.payments.map((payment: any) => ({
+        ...payment,
+        verifiedAt: payment.verifiedAt instanceof Date ? payment.verifiedAt.toISOString() : payment.verifiedAt,
+    }));
+    delete plain.paymentMethod;
+    delete plain.paymentAmount;
+
+    // Orders from before delivery fees were charged only stored the products' total
+    plain.deliveryFee = plain.deliveryFee ?? 0;
+    plain.subtotal = plain.subtotal ?? plain.total - plain.deliveryFee;
+    if (plain.deliveryZone) {
+        plain.deliveryZone = plain.deliveryZone.toString();
+    }
+
+    if (Array.isArray(plain.failedAttempts)) {
+        plain.failedAttempts = plain.failedAttempts.map((attempt: any) => ({
+            ...attempt,
+            deliveryPerson: attempt.deliveryPerson?.toString(),
+            attemptedAt: attempt.attemptedAt instanceof Date ? attempt.attemptedAt.toISOString() : attempt.attemptedAt,
+            goodsReturnedAt: attempt.goodsReturnedAt instanceof Date ? attempt.goodsReturnedAt.toISOString() : attempt.goodsReturnedAt,
+        }));
+    }
+
+    if (plain.proofOfDelivery?.capturedAt instanceof Date) {
+        plain.proofOfDelivery.capturedAt = plain.proofOfDelivery.capturedAt.toISOString();
+    }
+
+    if (plain.timeWindow) {
+        plain.timeWindow = {
+            start: new Date(plain.timeWindow.start).toISOString(),
+            end: new Date(plain.timeWindow.end).toISOString(),
+        };
+    }
+    
     // Ensure createdAt is a string
     if (plain.createdAt instanceof Date) {
         plain.createdAt = plain.createdAt.toISOString();
@@ -54,10 +120,33 @@ function toPlainObject(doc: any): any {
     return plain;
 }
 
+// Orders on the route keep the route's sequence; any others go last in their current order
+function sortByStopSequence(orders: any[], stopSequence: string[]) {
+    const position = (orderId: string) => {
+        const index = stopSequence.indexOf(orderId);
+        return index === -1 ? stopSequence.length : index;
+    };
+    return [...orders].sort((a, b) => position(a.id) - position(b.id));
+}
+
+// Builds the audit entry stored in an order's statusHistory
+function buildStatusChange(status: OrderStatus, authSession: AuthSession, reason?: string) {
+    return {
+        status,
+        changedAt: new Date(),
+        changedBy: authSession.userId,
+        changedByName: authSession.userName,
+        reason: reason?.trim() || undefined,
+    };
+}
+
+/** Without orders.view a user only gets the orders assigned to them. */
 export async function getOrders() {
     try {
+        const authSession = await authorize('getOrders');
         await connectDB();
-        const orders = await OrderModel.find({})
+        const filter = hasPermission(authSession, 'orders.view') ? {} : { assignedTo: authSession.userId };
+        const orders = await OrderModel.find(filter)
             .populate<{client: Client}>('client')
             .populate<{createdBy: User}>('createdBy')
             .populate<{assignedTo: User}>('assignedTo')
@@ -72,6 +161,8 @@ export async function getOrders() {
 
 export async function getOrdersByDeliveryPerson(userId: string) {
     try {
+        const authSession = await authorize('getOrdersByDeliveryPerson');
+        requireSelfOrPermission(authSession, 'orders.view', userId);
         await connectDB();
         const orders = await OrderModel.find({ 
             assignedTo: userId,
@@ -80,9 +171,13 @@ export async function getOrdersByDeliveryPerson(userId: string) {
             .populate<{client: Client}>('client')
             .populate<{createdBy: User}>('createdBy')
             .populate<{assignedTo: User}>('assignedTo')
-            .sort({ createdAt: 1 }); // Sort by oldest first for route order
+            .sort({ createdAt: 1 }); // Oldest first for orders that are not on a route yet
+
+        // Couriers follow the sequence stored on their route, which is what the dispatcher planned
+        const route = await RouteModel.findOne({ deliveryPerson: userId, status: { $in: ['planned', 'in_progress'] } });
+        const stopSequence = route ? route.stops.map(stop => stop.toString()) : [];
         
-        return orders.map(toPlainObject);
+        return sortByStopSequence(orders.map(toPlainObject), stopSequence);
     } catch (error) {
         console.error(`Error fetching orders for user ${userId}:`, error);
         return [];
@@ -91,6 +186,7 @@ export async function getOrdersByDeliveryPerson(userId: string) {
 
 export async function getOrdersByClientId(clientId: string) {
     try {
+        await authorize('getOrdersByClientId');
         await connectDB();
         const orders = await OrderModel.find({ client: clientId })
             .populate<{client: Client}>('client')
@@ -107,6 +203,7 @@ export async function getOrdersByClientId(clientId: string) {
 
 export async function getDeliveredOrdersByDeliveryPerson(userId: string) {
     try {
+        await authorize('getDeliveredOrdersByDeliveryPerson');
         await connectDB();
         const orders = await OrderModel.find({ 
             assignedTo: userId,
@@ -124,6 +221,69 @@ export async function getDeliveredOrdersByDeliveryPerson(userId: string) {
     }
 }
 
+// GPS fixes closer than this to the last counted point are treated as noise while standing still
+const MIN_TRACK_STEP_METERS = 15;
+
+/**
+ * Rebuilds where a courier went on a given day from their location pings,
+ * with the orders they delivered that day to overlay on the path.
+ */
+export async function getCourierTrack(userId: string, date: Date): Promise<CourierTrack> {
+    try {
+        await authorize('getCourierTrack');
+        await connectDB();
+        const dateStart = startOfDay(date);
+        const dateEnd = endOfDay(date);
+
+        const [pings, orders] = await Promise.all([
+            LocationPingModel.find({ deliveryPerson: userId, recordedAt: { $gte: dateStart, $lte: dateEnd } }).sort({ recordedAt: 1 }),
+            OrderModel.find({
+                assignedTo: userId,
+                status: 'delivered',
+                statusHistory: { $elemMatch: { status: 'delivered', changedAt: { $gte: dateStart, $lte: dateEnd } } },
+            })
+                .populate<{client: Client}>('client')
+                .populate<{createdBy: User}>('createdBy')
+                .populate<{assignedTo: User}>('assignedTo'),
+        ]);
+
+        let distanceMeters = 0;
+        let lastCounted: { lat: number; lng: number } | null = null;
+        for (const ping of pings) {
+            if (!lastCounted) {
+                lastCounted = ping;
+                continue;
+            }
+            const step = haversineMeters(lastCounted, ping);
+            if (step >= MIN_TRACK_STEP_METERS) {
+                distanceMeters += step;
+                lastCounted = ping;
+            }
+        }
+
+        const deliveredAt = (order: Order) => order.statusHistory?.find(change => change.status === 'delivered')?.changedAt ?? order.createdAt;
+        const deliveredOrders = orders
+            .map(toPlainObject)
+            .sort((a: Order, b: Order) => new Date(deliveredAt(a)).getTime() - new Date(deliveredAt(b)).getTime());
+
+        return {
+            pings: pings.map(ping => ({
+                id: ping.id as string,
+                deliveryPerson: userId,
+                lat: ping.lat,
+                lng: ping.lng,
+                bearing: ping.bearing,
+                recordedAt: ping.recordedAt.toISOString(),
+            })),
+            deliveredOrders,
+            distanceMeters: Math.round(distanceMeters),
+        };
+    } catch (error) {
+        console.error(`Error fetching the track of user ${userId}:`, error);
+        return { pings: [], deliveredOrders: [], distanceMeters: 0 };
+    }
+}
+
 
 const OrderFormSchema = z.object({
   clientName: z.string().min(3, { message: "El nombre debe tener al menos 3 caracteres." }),
@@ -134,31 +294,112 @@ const OrderFormSchema = z.object({
     lng: z.number().optional(),
   }),
   items: z.array(z.object({
-      id: z.string(),
-      name: z.string(),
-      quantity: z.number().int().positive(),
+      productId: z.string().min(1),
+      quantity: z.number().int().positive({ message: "La cantidad debe ser mayor a cero." }),
+      // The unit price the agent saw, checked against the catalog to catch stale prices
       price: z.number().positive()
   })).min(1, { message: "El pedido debe tener al menos un producto." }),
-  total: z.coerce.number().positive({ message: "El total debe ser un número positivo." }),
-  paymentMethod: z.enum(['cash', 'transfer']),
-  paymentAmount: z.coerce.number().optional(),
-  createdBy: z.string(),
+  payments: z.array(z.object({
+      method: z.enum(['cash', 'transfer', 'card', 'nequi', 'daviplata']),
+      amount: z.coerce.number().positive({ message: "Cada pago debe tener un monto mayor a cero." }),
+      tendered: z.coerce.number().optional(),
+      reference: z.string().trim().max(60).optional(),
+  })).min(1, { message: "El pedido debe tener al menos un pago." }),
+  // The fee the agent quoted to the client, checked against the server's own quote
+  deliveryFee: z.number().int().min(0),
   deliveryNotes: z.string().optional(),
+  timeWindow: z.object({
+    start: z.coerce.date(),
+    end: z.coerce.date(),
+  }).refine(window => window.end > window.start, { message: "La franja de entrega debe terminar después de empezar." }).optional(),
+  priority: z.enum(['normal', 'high', 'urgent']).default('normal'),
 });
 
 
-export async function createOrder(formData: z.infer<typeof OrderFormSchema>) {
+export async function createOrder(formData: z.input<typeof OrderFormSchema>) {
     const validatedFields = OrderFormSchema.safeParse(formData);
     if (!validatedFields.success) {
         const errorMessages = validatedFields.error.issues.map(issue => issue.message).join(' ');
         return { success: false, message: `Datos de pedido inválidos: ${errorMessages}` };
     }
 
-    const { clientName, clientPhone, deliveryLocation, items, total, paymentMethod, paymentAmount, createdBy, deliveryNotes } = validatedFields.data;
+    const { clientName, clientPhone, deliveryLocation: typedLocation, items: requestedItems, payments: requestedPayments, deliveryFee: quotedFee, deliveryNotes, timeWindow, priority } = validatedFields.data;
 
     try {
+        // The order is credited to whoever is logged in, never to an id sent by the browser
+        const authSession = await authorize('createOrder');
         await connectDB();
+
+        // Line items and the total always come from the catalog, never from the client
+        const productIds = requestedItems.map(item => item.productId);
+        if (!productIds.every(id => mongoose.Types.ObjectId.isValid(id))) {
+            return { success: false, message: 'El pedido contiene productos inválidos.' };
+        }
+        const products = await ProductModel.find({ _id: { $in: productIds } });
+        const productsById = new Map(products.map(product => [product.id as string, product]));
+
+        const items: OrderItem[] = [];
+        for (const requested of requestedItems) {
+            const product = productsById.get(requested.productId);
+            if (!product) {
+                return { success: false, message: 'Uno de los productos del pedido ya no existe en el catálogo.' };
+            }
+            if (product.price !== requested.price) {
+                return { success: false, message: `El precio de ${product.name} cambió. Actualiza el pedido e inténtalo de nuevo.` };
+            }
+            items.push({
+                id: product.id as string,
+                sku: product.sku,
+                name: product.name,
+                quantity: requested.quantity,
+                price: product.price,
+            });
+        }
+        const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+        if (typedLocation.lat === undefined || typedLocation.lng === undefined) {
+            return { success: false, message: 'Ubica la dirección en el mapa para calcular el domicilio.' };
+        }
+        const pharmacySettings = await readPharmacySettings();
+        const deliveryZone = await DeliveryZoneModel.findOne({
+            polygon: { $geoIntersects: { $geometry: { type: 'Point', coordinates: [typedLocation.lng, typedLocation.lat] } } },
+        });
+        // Without any zone drawn the pharmacy has not limited its coverage yet
+        if (!deliveryZone && pharmacySettings.outOfCoveragePolicy === 'block' && await DeliveryZoneModel.exists({})) {
+            return { success: false, message: 'La dirección está fuera de las zonas de cobertura de la farmacia.' };
+        }
+        const { fee: deliveryFee } = quoteDeliveryFee(
+            pharmacySettings.deliveryPricing,
+            { lat: pharmacySettings.lat, lng: pharmacySettings.lng },
+            { lat: typedLocation.lat, lng: typedLocation.lng },
+            subtotal,
+            deliveryZone ?? undefined,
+        );
+        if (deliveryFee !== quotedFee) {
+            return { success: false, message: `El valor del domicilio cambió a ${deliveryFee.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}. Actualiza el pedido e inténtalo de nuevo.` };
+        }
+        const total = subtotal + deliveryFee;
+
+        // The split has to add up to the catalog total; change is only ever owed on cash
+        if (requestedPayments.reduce((sum, payment) => sum + payment.amount, 0) !== total) {
+            return { success: false, message: `Los pagos deben sumar el total del pedido (${total.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}).` };
+        }
+        const payments: Payment[] = [];
+        for (const { method, amount, tendered, reference } of requestedPayments) {
+            if (method !== 'cash') {
+                const verificationStatus = VERIFIABLE_PAYMENT_METHODS.includes(method) ? 'pending_verification' : undefined;
+                payments.push({ method, amount, reference: reference || undefined, verificationStatus });
+                continue;
+            }
+            if (tendered && tendered < amount) {
+                return { success: false, message: 'El monto con el que paga el cliente es menor al pago en efectivo.' };
+            }
+            payments.push({ method, amount, tendered: tendered || undefined, change: tendered && tendered > amount ? tendered - amount : undefined });
+        }
         
+        // Stored in canonical form so the same address typed differently is not saved twice
+        const deliveryLocation = { ...parseAddress(typedLocation.address), lat: typedLocation.lat, lng: typedLocation.lng };
+
         let client = await ClientModel.findOne({ phone: clientPhone });
 
         if (!client) {
@@ -169,7 +410,7 @@ export async function createOrder(formData: z.infer<typeof OrderFormSchema>) {
             });
             await client.save();
         } else {
-            const addressExists = client.addresses.some(addr => addr.address === deliveryLocation.address);
+            const addressExists = client.addresses.some(addr => isSameAddress(addr, deliveryLocation));
             if (!addressExists) {
                 client.addresses.push(deliveryLocation);
                 await client.save();
@@ -180,18 +421,34 @@ export async function createOrder(formData: z.infer<typeof OrderFormSchema>) {
             client: client._id,
             deliveryLocation,
             items,
+            subtotal,
+            deliveryFee,
+            deliveryZone: deliveryZone?._id,
+            deliveryZoneName: deliveryZone?.name,
             total,
-            paymentMethod,
-            paymentAmount,
-            createdBy,
+            payments,
+            createdBy: authSession.userId,
             deliveryNotes,
+            timeWindow,
+            priority,
             status: 'pending',
+            statusHistory: [buildStatusChange('pending', authSession)],
         });
 
-        await newOrder.save();
+        // The order is only saved if every one of its units could be reserved
+        const dbSession = await mongoose.startSession();
+        try {
+            await dbSession.withTransaction(async () => {
+                await newOrder.save({ session: dbSession });
+                await reserveOrderStock(items, { orderId: newOrder.id as string, userId: authSession.userId, session: dbSession });
+            });
+        } finally {
+            await dbSession.endSession();
+        }
 
         revalidatePath('/dashboard/pedidos');
         revalidatePath('/dashboard/rutas');
+        revalidatePath('/dashboard/productos');
 
         const populatedOrder = await OrderModel.findById(newOrder._id)
             .populate<{client: Client}>('client')
@@ -202,73 +459,285 @@ export async function createOrder(formData: z.infer<typeof OrderFormSchema>) {
 
         // Fire-and-forget notification
         sendWhatsAppNotification(plainOrder.client.phone, 'created', plainOrder);
+        publishDispatchEvent({ type: 'order.created', order: plainOrder });
 
         return { success: true, message: 'Pedido creado exitosamente.', order: plainOrder };
 
     } catch (error: any) {
+        if (error instanceof InsufficientStockError || error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
         console.error('Error creating order:', error);
         return { success: false, message: 'No se pudo crear el pedido. Revisa la conexión a la base de datos.' };
     }
 }
 
 
-export async function updateOrderStatus(orderId: string, status: OrderStatus, assignedTo?: User) {
+type OrderStatusResult = { success: boolean; message: string; order?: Order };
+type AssignedCourier = Pick<User, 'id' | 'name'>;
+
+// Deliveries go through deliverOrder, which stores the proof of delivery first
+export async function updateOrderStatus(orderId: string, status: OrderStatus, assignedToId?: string, reason?: string): Promise<OrderStatusResult> {
+    try {
+        const authSession = await authorize('updateOrderStatus');
+        requirePermission(authSession, status === 'cancelled' ? 'orders.cancel' : 'orders.assign');
+
+        // The courier is loaded here rather than trusted from the browser
+        let assignedTo: AssignedCourier | undefined;
+        if (assignedToId) {
+            await connectDB();
+            const courier = mongoose.isValidObjectId(assignedToId) ? await UserModel.findById(assignedToId).select('name role accountStatus').lean() : null;
+            if (!courier || courier.role !== 'delivery' || courier.accountStatus === 'suspended') {
+                return { success: false, message: 'El domiciliario no existe o no está activo.' };
+            }
+            assignedTo = { id: courier._id.toString(), name: courier.name };
+        }
+        return await changeOrderStatus(authSession, orderId, status, assignedTo, reason);
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        throw error;
+    }
+}
+
+// Photos are resized in the browser before upload, this only stops abuse
+const MAX_PROOF_PHOTO_BYTES = 5 * 1024 * 1024;
+const PROOF_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Missing FormData fields arrive as null, which z.coerce would turn into 0
+const optionalFormNumber = (schema: z.ZodNumber) =>
+    z.preprocess(value => (value === null || value === '' ? undefined : Number(value)), schema.optional());
+
+const ProofOfDeliverySchema = z.object({
+    recipientName: z.string().trim().min(3, { message: "Escribe el nombre de quien recibe el pedido." }),
+    recipientId: z.string().trim().regex(/^\d{5,12}$/, { message: "La cédula debe tener entre 5 y 12 dígitos." }),
+    photo: z.instanceof(File, { message: "Toma una foto de la entrega." })
+        .refine(file => file.size > 0 && file.size <= MAX_PROOF_PHOTO_BYTES, { message: "La foto no es válida o pesa demasiado." })
+        .refine(file => PROOF_PHOTO_TYPES.includes(file.type), { message: "La foto debe ser JPG, PNG o WebP." }),
+    signature: z.string().startsWith('data:image/png;base64,', { message: "Falta la firma de quien recibe." }),
+    // The device may not share its location; the delivery is then flagged instead of rejected
+    lat: optionalFormNumber(z.number().min(-90).max(90)),
+    lng: optionalFormNumber(z.number().min(-180).max(180)),
+    accuracy: optionalFormNumber(z.number().min(0)),
+});
+
+/**
+ * Marks an order delivered together with its proof of delivery. The form carries the photo
+ * as a file, the signature as a PNG data URL from the canvas, the recipient's name and cédula,
+ * and the courier's GPS position, which is checked against the delivery address.
+ */
+export async function deliverOrder(orderId: string, formData: FormData): Promise<OrderStatusResult> {
+    const validatedFields = ProofOfDeliverySchema.safeParse({
+        recipientName: formData.get('recipientName'),
+        recipientId: formData.get('recipientId'),
+        photo: formData.get('photo'),
+        signature: formData.get('signature'),
+        lat: formData.get('lat'),
+        lng: formData.get('lng'),
+        accuracy: formData.get('accuracy'),
+    });
+    if (!validatedFields.success) {
+        return { success: false, message: validatedFields.error.errors[0].message };
+    }
+    const { recipientName, recipientId, photo, signature, lat, lng, accuracy } = validatedFields.data;
+
+    try {
+        const authSession = await authorize('deliverOrder');
+        await connectDB();
+
+        // Checked before storing anything so a stale screen does not leave files behind
+        const order = await OrderModel.findById(orderId).lean();
+        if (!order) {
+            return { success: false, message: 'Pedido no encontrado.' };
+        }
+        requireSelfOrPermission(authSession, 'orders.assign', order.assignedTo?.toString());
+        if (!canTransition(order.status, 'delivered')) {
+            return { success: false, message: `No se puede pasar un pedido de "${ORDER_STATUS_LABELS[order.status]}" a "${ORDER_STATUS_LABELS.delivered}".` };
+        }
+
+        const signatureFile = decodeDataUrl(signature);
+        if (!signatureFile) {
+            return { success: false, message: 'Falta la firma de quien recibe.' };
+        }
+
+        const storage = getFileStorage();
+        const keyPrefix = `proof-of-delivery/${orderId}/${Date.now()}`;
+        const [photoUrl, signatureUrl] = await Promise.all([
+            storage.save(`${keyPrefix}-photo${EXTENSIONS_BY_CONTENT_TYPE[photo.type]}`, Buffer.from(await photo.arrayBuffer()), photo.type),
+            storage.save(`${keyPrefix}-signature.png`, signatureFile.data, signatureFile.contentType),
+        ]);
+
+        const { deliveryGeofenceMeters } = await readPharmacySettings();
+        const confirmedAt = lat !== undefined && lng !== undefined ? { lat, lng, accuracyMeters: accuracy } : undefined;
+        const { lat: stopLat, lng: stopLng } = order.deliveryLocation;
+        const distanceMeters = confirmedAt && stopLat && stopLng
+            ? Math.round(haversineMeters(confirmedAt, { lat: stopLat, lng: stopLng }))
+            : undefined;
+        // Without a position there is nothing proving the courier was at the door
+        const outsideGeofence = !confirmedAt || (distanceMeters !== undefined && distanceMeters > (deliveryGeofenceMeters || 150));
+
+        return changeOrderStatus(authSession, orderId, 'delivered', undefined, undefined, {
+            proofOfDelivery: {
+                photoUrl,
+                signatureUrl,
+                recipientName,
+                recipientId,
+                capturedAt: new Date(),
+                confirmedAt,
+                distanceMeters,
+                outsideGeofence,
+            },
+        });
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error saving proof of delivery:', error);
+        return { success: false, message: 'No se pudo guardar la prueba de entrega. Inténtalo de nuevo.' };
+    }
+}
+
+// What happened at the door, recorded together with the status change it causes
+type DeliveryOutcome = {
+    proofOfDelivery?: OrderDocument['proofOfDelivery'];
+    failedAttempt?: OrderDocument['failedAttempts'][number];
+};
+
+async function changeOrderStatus(
+    authSession: AuthSession,
+    orderId: string,
+    status: OrderStatus,
+    assignedTo?: AssignedCourier,
+    reason?: string,
+    { proofOfDelivery, failedAttempt }: DeliveryOutcome = {}
+): Promise<OrderStatusResult> {
     try {
         await connectDB();
         
-        const updatePayload: { status: OrderStatus; assignedTo?: mongoose.Types.ObjectId | null } = { status };
+        const updatePayload: {
+            status: OrderStatus;
+            assignedTo?: mongoose.Types.ObjectId | null;
+            proofOfDelivery?: OrderDocument['proofOfDelivery'];
+        } = { status };
         let deliveryPersonId = assignedTo?.id;
 
         const orderBeforeUpdate = await OrderModel.findById(orderId).lean();
         if (!orderBeforeUpdate) {
             return { success: false, message: 'Pedido no encontrado.' };
         }
+
+        const previousStatus = orderBeforeUpdate.status;
+        if (!canTransition(previousStatus, status, !!failedAttempt)) {
+            return { success: false, message: `No se puede pasar un pedido de "${ORDER_STATUS_LABELS[previousStatus]}" a "${ORDER_STATUS_LABELS[status]}".` };
+        }
+        if (status === 'delivered' && !proofOfDelivery) {
+            return { success: false, message: 'Para entregar el pedido registra la foto, la firma y los datos de quien lo recibe.' };
+        }
+        if (status === 'assigned' && !assignedTo) {
+            return { success: false, message: 'Debes seleccionar un domiciliario para asignar el pedido.' };
+        }
+        if (status === 'assigned' && previousStatus === 'assigned' && orderBeforeUpdate.assignedTo?.toString() === assignedTo?.id) {
+            return { success: false, message: `El pedido ya está asignado a ${assignedTo?.name}.` };
+        }
         
         if (assignedTo) {
             updatePayload.assignedTo = new mongoose.Types.ObjectId(assignedTo.id);
-            // Also update the delivery person's status to 'in_route'
-            await UserModel.findByIdAndUpdate(assignedTo.id, { status: 'in_route' });
         } else if (status === 'pending') {
             updatePayload.assignedTo = null;
         }
+        if (proofOfDelivery) {
+            updatePayload.proofOfDelivery = proofOfDelivery;
+        }
 
+        const previousCourierId = orderBeforeUpdate.assignedTo?.toString();
         if (!deliveryPersonId) {
-             deliveryPersonId = orderBeforeUpdate.assignedTo?.toString();
+             deliveryPersonId = previousCourierId;
         }
 
-        const updatedOrderDoc = await OrderModel.findByIdAndUpdate(orderId, { $set: updatePayload }, { new: true });
+        let updatedOrderDoc: OrderDocument | null = null;
+
+        // Stock movements and the status change are committed or rolled back together
+        const dbSession = await mongoose.startSession();
+        try {
+            await dbSession.withTransaction(async () => {
+                // Matching on the previous status keeps two concurrent changes from both being applied
+                updatedOrderDoc = await OrderModel.findOneAndUpdate(
+                    { _id: orderId, status: previousStatus },
+                    {
+                        $set: updatePayload,
+                        $push: {
+                            statusHistory: buildStatusChange(status, authSession, reason),
+                            ...(failedAttempt && { failedAttempts: failedAttempt }),
+                        },
+                    },
+                    { new: true, session: dbSession }
+                );
+                if (!updatedOrderDoc) return;
+
+                await applyOrderStockTransition(orderBeforeUpdate.items, previousStatus, status, {
+                    orderId,
+                    userId: authSession.userId,
+                    session: dbSession,
+                });
+
+                // Delivered orders stay on their route as completed stops
+                if (status === 'assigned' || status === 'pending' || status === 'cancelled') {
+                    await removeStopFromRoute(orderId, dbSession);
+                }
+                if (status === 'assigned' && assignedTo) {
+                    await addStopToRoute(assignedTo.id, orderId, dbSession);
+                }
+                if (status === 'delivered' && previousCourierId) {
+                    const payments = orderBeforeUpdate.payments?.length ? orderBeforeUpdate.payments : legacyPayments(orderBeforeUpdate);
+                    await recordCashCollection(previousCourierId, orderId, paymentTotals(payments).cash, dbSession);
+                }
+            });
+        } finally {
+            await dbSession.endSession();
+        }
 
         if (!updatedOrderDoc) {
-             return { success: false, message: 'No se pudo actualizar el pedido.' };
+             return { success: false, message: 'El pedido cambió mientras lo actualizabas. Recarga la página e inténtalo de nuevo.' };
         }
-        
+
+        if (assignedTo) {
+            // Also update the delivery person's status to 'in_route'
+            await UserModel.findByIdAndUpdate(assignedTo.id, { status: 'in_route' });
+        }
+
         // --- NEW LOGIC: Check if delivery person should become 'available' ---
-        if ((status === 'delivered' || status === 'cancelled') && deliveryPersonId) {
+        // On a reassignment it is the previous courier who may have run out of orders
+        const releasedDeliveryPersonId = status === 'assigned' ? previousCourierId : deliveryPersonId;
+        if (status !== 'in_transit' && releasedDeliveryPersonId && releasedDeliveryPersonId !== assignedTo?.id) {
             const remainingOrdersCount = await OrderModel.countDocuments({
-                assignedTo: new mongoose.Types.ObjectId(deliveryPersonId),
+                assignedTo: new mongoose.Types.ObjectId(releasedDeliveryPersonId),
                 status: { $in: ['in_transit', 'assigned'] }
             });
 
             if (remainingOrdersCount === 0) {
-                // This was the last delivery, set person to 'available'
-                await UserModel.findByIdAndUpdate(deliveryPersonId, { status: 'available' });
+                // This was the last delivery, set person to 'available' and close the route
+                await closeRouteIfFinished(releasedDeliveryPersonId);
+                await UserModel.findByIdAndUpdate(releasedDeliveryPersonId, { status: 'available' });
             }
         }
         // --- END NEW LOGIC ---
 
-        const updatedOrder = await OrderModel.findById(updatedOrderDoc._id)
+        const updatedOrder = await OrderModel.findById(orderId)
             .populate<{client: Client}>('client')
             .populate<{createdBy: User}>('createdBy')
             .populate<{assignedTo: User}>('assignedTo');
 
         const plainOrder = toPlainObject(updatedOrder);
+        publishDispatchEvent({ type: 'order.updated', order: plainOrder, previousDeliveryPersonId: previousCourierId });
         
-        // Send notification based on the new status
-        if (status === 'assigned') { // Only send notification on first assignment
-            await sendWhatsAppNotification(plainOrder.client.phone, 'in_transit', plainOrder);
-        } else if (status === 'delivered') {
+        // The in-transit message goes out when the courier starts the route, see startDeliveryRoute
+        if (status === 'delivered') {
             await sendWhatsAppNotification(plainOrder.client.phone, 'delivered', plainOrder);
         }
+        if (failedAttempt) {
+            await sendWhatsAppNotification(plainOrder.client.phone, 'failed_attempt', plainOrder);
+        }
 
 
         revalidatePath('/dashboard/pedidos');
@@ -277,17 +746,219 @@ export async function updateOrderStatus(orderId: string, status: OrderStatus, as
         revalidatePath('/dashboard/cuadre-caja');
         revalidatePath('/dashboard');
         revalidatePath('/dashboard/domiciliarios');
+        revalidatePath('/dashboard/productos');
         
-        return { success: true, message: `Estado del pedido actualizado a ${status}.`, order: plainOrder };
+        return { success: true, message: `Estado del pedido actualizado a ${ORDER_STATUS_LABELS[status]}.`, order: plainOrder };
 
-    } catch (error) {
+    } catch (error: any) {
+        if (error instanceof InsufficientStockError) {
+            return { success: false, message: error.message };
+        }
+        // Two changes opening the courier's route or cash session at once: the unique indexes let only one through
+        if (error?.code === 11000) {
+            return { success: false, message: 'El domiciliario tuvo otro cambio al mismo tiempo. Inténtalo de nuevo.' };
+        }
         console.error('Error updating order status:', error);
         return { success: false, message: 'No se pudo actualizar el estado del pedido. Revisa la conexión a la base de datos.' };
     }
 }
 
-export async function getDashboardStats(user?: User) {
+const FailedAttemptSchema = z.object({
+    reason: z.enum(['absent', 'wrong_address', 'refused', 'no_cash'], { message: "Selecciona el motivo." }),
+    notes: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Records that the courier could not deliver an order. The order goes back to the pending
+ * queue to be planned again, and its goods are expected back at the pharmacy.
+ */
+export async function recordFailedAttempt(orderId: string, formData: z.infer<typeof FailedAttemptSchema>): Promise<OrderStatusResult> {
+    const validatedFields = FailedAttemptSchema.safeParse(formData);
+    if (!validatedFields.success) {
+        return { success: false, message: validatedFields.error.errors[0].message };
+    }
+    const { reason, notes } = validatedFields.data;
+
     try {
+        const authSession = await authorize('recordFailedAttempt');
+        await connectDB();
+        const order = await OrderModel.findById(orderId).populate<{assignedTo: User}>('assignedTo').lean();
+        if (!order) {
+            return { success: false, message: 'Pedido no encontrado.' };
+        }
+        requireSelfOrPermission(authSession, 'orders.assign', order.assignedTo?._id?.toString());
+        if (order.status !== 'in_transit') {
+            return { success: false, message: 'Solo se puede registrar un intento fallido de un pedido en camino.' };
+        }
+
+        const attemptNumber = (order.failedAttempts?.length ?? 0) + 1;
+        const historyReason = [`Intento ${attemptNumber} fallido: ${FAILED_DELIVERY_REASON_LABELS[reason]}`, notes].filter(Boolean).join('. ');
+
+        return changeOrderStatus(authSession, orderId, 'pending', undefined, historyReason, {
+            failedAttempt: {
+                reason,
+                notes: notes || undefined,
+                deliveryPerson: order.assignedTo?._id as mongoose.Types.ObjectId | undefined,
+                deliveryPersonName: order.assignedTo?.name,
+                attemptedAt: new Date(),
+            },
+        });
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error recording failed delivery attempt:', error);
+        return { success: false, message: 'No se pudo registrar el intento de entrega. Revisa la conexión a la base de datos.' };
+    }
+}
+
+// Indexes go into update paths, so anything but a plain array position is refused before building them
+function isArrayIndex(value: unknown, length: number): value is number {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+}
+
+/**
+ * Confirms the pharmacy got back the goods of a failed attempt, closing it in the cash reconciliation.
+ */
+export async function confirmGoodsReturned(orderId: string, attemptIndex: number) {
+    try {
+        const authSession = await authorize('confirmGoodsReturned');
+        await connectDB();
+        const order = await OrderModel.findById(orderId, { failedAttempts: 1 }).lean();
+        if (!order || !isArrayIndex(attemptIndex, order.failedAttempts?.length ?? 0)) {
+            return { success: false, message: 'La devolución ya fue registrada o el intento no existe.' };
+        }
+        const updatedOrder = await OrderModel.findOneAndUpdate(
+            { _id: orderId, [`failedAttempts.${attemptIndex}.goodsReturnedAt`]: { $exists: false } },
+            {
+                $set: {
+                    [`failedAttempts.${attemptIndex}.goodsReturnedAt`]: new Date(),
+                    [`failedAttempts.${attemptIndex}.goodsReceivedByName`]: authSession.userName,
+                },
+            },
+            { new: true }
+        )
+            .populate<{client: Client}>('client')
+            .populate<{createdBy: User}>('createdBy')
+            .populate<{assignedTo: User}>('assignedTo');
+
+        if (!updatedOrder) {
+            return { success: false, message: 'La devolución ya fue registrada o el intento no existe.' };
+        }
+
+        revalidatePath('/dashboard/cuadre-caja');
+        return { success: true, message: 'Mercancía recibida en la farmacia.', order: toPlainObject(updatedOrder) };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error confirming returned goods:', error);
+        return { success: false, message: 'No se pudo registrar la devolución. Revisa la conexión a la base de datos.' };
+    }
+}
+
+/**
+ * Sends out every order assigned to the logged-in courier at once. The orders move to in_transit,
+ * the courier gets a new active route and each client receives the in-transit message.
+ */
+export async function startDeliveryRoute() {
+    try {
+        const authSession = await authorize('startDeliveryRoute');
+        const deliveryPersonId = authSession.userId;
+        await connectDB();
+
+        const deliveryPerson = await UserModel.findById(deliveryPersonId);
+        if (!deliveryPerson || deliveryPerson.role !== 'delivery') {
+            return { success: false, message: 'Domiciliario no encontrado.' };
+        }
+
+        const assignedOrders = await OrderModel.find({ assignedTo: deliveryPersonId, status: 'assigned' }).select('_id');
+        if (assignedOrders.length === 0) {
+            return { success: false, message: 'No tienes pedidos asignados para iniciar una ruta.' };
+        }
+        const orderIds = assignedOrders.map(order => new mongoose.Types.ObjectId(order.id as string));
+
+        let routeId = '';
+        let stopSequence: string[] = [];
+
+        // Assigned and in-transit orders both keep their units reserved, so no stock moves here
+        const dbSession = await mongoose.startSession();
+        try {
+            await dbSession.withTransaction(async () => {
+                let route = await RouteModel.findOne({ deliveryPerson: deliveryPersonId, status: { $in: ['planned', 'in_progress'] } }).session(dbSession);
+                if (!route) {
+                    route = new RouteModel({ deliveryPerson: deliveryPersonId, stops: [] });
+                }
+                // Orders assigned before routes were tracked are not on any route yet
+                for (const orderId of orderIds) {
+                    if (!route.stops.some(stop => stop.equals(orderId))) {
+                        route.stops.push(orderId);
+                    }
+                }
+                route.status = 'in_progress';
+                route.startedAt = route.startedAt ?? new Date();
+                await route.save({ session: dbSession });
+                routeId = route.id as string;
+                stopSequence = route.stops.map(stop => stop.toString());
+
+                await OrderModel.updateMany(
+                    { _id: { $in: orderIds }, status: 'assigned' },
+                    {
+                        $set: { status: 'in_transit' },
+                        $push: { statusHistory: buildStatusChange('in_transit', authSession, `Inicio de ruta #${routeId.slice(-6)}`) },
+                    },
+                    { session: dbSession }
+                );
+                await UserModel.findByIdAndUpdate(deliveryPersonId, { status: 'in_route', activeRoute: route._id }, { session: dbSession });
+            });
+        } finally {
+            await dbSession.endSession();
+        }
+
+        const startedOrders = await OrderModel.find({ _id: { $in: orderIds }, status: 'in_transit' })
+            .populate<{client: Client}>('client')
+            .populate<{createdBy: User}>('createdBy')
+            .populate<{assignedTo: User}>('assignedTo');
+        const plainOrders = sortByStopSequence(startedOrders.map(toPlainObject), stopSequence);
+        plainOrders.forEach(order => publishDispatchEvent({ type: 'order.updated', order, previousDeliveryPersonId: deliveryPersonId }));
+
+        await Promise.all(plainOrders.map(order => sendWhatsAppNotification(order.client.phone, 'in_transit', order)));
+
+        revalidatePath('/dashboard/pedidos');
+        revalidatePath('/dashboard/rutas');
+        revalidatePath('/dashboard/mis-rutas');
+        revalidatePath('/dashboard');
+        revalidatePath('/dashboard/domiciliarios');
+
+        return { success: true, message: `Ruta iniciada con ${plainOrders.length} pedido(s).`, orders: plainOrders, routeId };
+
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        if (error?.code === 11000) {
+            return { success: false, message: 'Tu ruta cambió mientras la iniciabas. Inténtalo de nuevo.' };
+        }
+        console.error('Error starting delivery route:', error);
+        return { success: false, message: 'No se pudo iniciar la ruta. Revisa la conexión a la base de datos.' };
+    }
+}
+
+// An order's total minus its transfers not verified yet (or rejected), which are not money the pharmacy has
+const confirmedRevenueExpression = {
+    $subtract: ['$total', {
+        $sum: {
+            $map: {
+                input: { $filter: { input: { $ifNull: ['$payments', []] }, cond: { $in: ['$$this.verificationStatus', ['pending_verification', 'rejected']] } } },
+                in: '$$this.amount',
+            },
+        },
+    }],
+};
+
+export async function getDashboardStats() {
+    try {
+        const authSession = await authorize('getDashboardStats');
         await connectDB();
 
         const todayStart = startOfDay(new Date());
@@ -300,17 +971,18 @@ export async function getDashboardStats(user?: User) {
         const weeklyDeliveredMatch = { status: 'delivered', createdAt: { $gte: sevenDaysAgo } };
         const pendingMatch = { status: { $in: ['in_transit', 'assigned'] } };
         
-        // If a delivery person is provided, scope all queries to them
-        const userFilter = user?.role === 'delivery' ? { assignedTo: new mongoose.Types.ObjectId(user.id) } : {};
+        // Without orders.view the figures only cover the user's own orders
+        const userFilter = hasPermission(authSession, 'orders.view') ? {} : { assignedTo: new mongoose.Types.ObjectId(authSession.userId) };
 
         const dailyOrdersCount = await OrderModel.countDocuments({ ...dailyMatch, ...userFilter });
         const pendingDeliveriesCount = await OrderModel.countDocuments({ ...pendingMatch, ...userFilter });
 
         const dailyRevenueResult = await OrderModel.aggregate([
             { $match: { ...deliveredDailyMatch, ...userFilter } },
-            { $group: { _id: null, total: { $sum: '$total' } } }
+            { $group: { _id: null, total: { $sum: confirmedRevenueExpression }, unconfirmed: { $sum: { $subtract: ['$total', confirmedRevenueExpression] } } } }
         ]);
         const dailyRevenue = dailyRevenueResult.length > 0 ? dailyRevenueResult[0].total : 0;
+        const unverifiedRevenue = dailyRevenueResult.length > 0 ? dailyRevenueResult[0].unconfirmed : 0;
         
         const recentOrdersForUser = await OrderModel.find(userFilter)
             .sort({ createdAt: -1 })
@@ -327,7 +999,7 @@ export async function getDashboardStats(user?: User) {
                         month: { $month: "$createdAt" },
                         day: { $dayOfMonth: "$createdAt" },
                     },
-                    revenue: { $sum: '$total' }
+                    revenue: { $sum: confirmedRevenueExpression }
                 }
             },
             { $sort: { "_id.year": 1, "_id.month": 1, "_id.day": 1 } }
@@ -355,6 +1027,7 @@ export async function getDashboardStats(user?: User) {
             dailyOrders: dailyOrdersCount,
             pendingDeliveries: pendingDeliveriesCount,
             dailyRevenue,
+            unverifiedRevenue,
             recentOrders,
             weeklyRevenue: weeklyRevenueData
         };
@@ -365,6 +1038,7 @@ export async function getDashboardStats(user?: User) {
             dailyOrders: 0,
             pendingDeliveries: 0,
             dailyRevenue: 0,
+            unverifiedRevenue: 0,
             recentOrders: [],
             weeklyRevenue: Array(7).fill(0).map((_, i) => ({
                 day: format(subDays(new Date(), 6 - i), 'E', { locale: es }).charAt(0).toUpperCase(),
@@ -374,8 +1048,211 @@ export async function getDashboardStats(user?: User) {
     }
 }
 
-export async function getCashReconciliationData(date: Date, user?: User) {
+/**
+ * Deliveries confirmed outside the geofence (or without a location) in the given period,
+ * grouped per courier next to how many orders that courier delivered in total.
+ */
+export async function getFlaggedDeliveriesReport(from: Date, to: Date): Promise<FlaggedDeliveriesByCourier[]> {
+    try {
+        await authorize('getFlaggedDeliveriesReport');
+        await connectDB();
+        const deliveredInPeriod = {
+            status: 'delivered',
+            'proofOfDelivery.capturedAt': { $gte: startOfDay(from), $lte: endOfDay(to) },
+        };
+
+        const [flaggedOrders, deliveredCounts] = await Promise.all([
+            OrderModel.find({ ...deliveredInPeriod, 'proofOfDelivery.outsideGeofence': true })
+                .populate<{client: Client}>('client')
+                .populate<{createdBy: User}>('createdBy')
+                .populate<{assignedTo: User}>('assignedTo')
+                .sort({ 'proofOfDelivery.capturedAt': -1 }),
+            OrderModel.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+                { $match: deliveredInPeriod },
+                { $group: { _id: '$assignedTo', count: { $sum: 1 } } },
+            ]),
+        ]);
+
+        const report: Record<string, FlaggedDeliveriesByCourier> = {};
+        for (const order of flaggedOrders.map(toPlainObject) as Order[]) {
+            if (!order.assignedTo) continue;
+            const courierId = order.assignedTo.id;
+            report[courierId] ??= {
+                deliveryPerson: order.assignedTo,
+                deliveredCount: deliveredCounts.find(count => count._id?.toString() === courierId)?.count ?? 0,
+                flaggedOrders: [],
+            };
+            report[courierId].flaggedOrders.push(order);
+        }
+
+        return Object.values(report).sort((a, b) => b.flaggedOrders.length - a.flaggedOrders.length);
+    } catch (error) {
+        console.error('Error fetching flagged deliveries report:', error);
+        return [];
+    }
+}
+
+/**
+ * Orders with a failed delivery attempt on the given day, whose goods the couriers have to bring back.
+ */
+export async function getReturnsForReconciliation(date: Date) {
+    try {
+        const authSession = await authorize('getReturnsForReconciliation');
+        await connectDB();
+        const attemptFilter: Record<string, unknown> = { attemptedAt: { $gte: startOfDay(date), $lte: endOfDay(date) } };
+        if (!hasPermission(authSession, 'cash.view')) {
+            attemptFilter.deliveryPerson = new mongoose.Types.ObjectId(authSession.userId);
+        }
+
+        const orders = await OrderModel.find({ failedAttempts: { $elemMatch: attemptFilter } })
+            .populate<{client: Client}>('client')
+            .populate<{assignedTo: User}>('assignedTo')
+            .sort({ updatedAt: -1 });
+
+        return orders.map(toPlainObject);
+    } catch (error) {
+        console.error('Error fetching returns for reconciliation:', error);
+        return [];
+    }
+}
+
+/**
+ * Orders with a transfer still to be checked in the bank app, oldest first so none waits forever.
+ */
+export async function getTransferVerificationQueue() {
+    try {
+        await authorize('getTransferVerificationQueue');
+        await connectDB();
+        const orders = await OrderModel.find({ status: { $ne: 'cancelled' }, 'payments.verificationStatus': 'pending_verification' })
+            .populate<{client: Client}>('client')
+            .populate<{assignedTo: User}>('assignedTo')
+            .sort({ createdAt: 1 });
+        return orders.map(toPlainObject);
+    } catch (error) {
+        console.error('Error fetching transfer verification queue:', error);
+        return [];
+    }
+}
+
+const PaymentReceiptSchema = z.instanceof(File, { message: "Selecciona la imagen del comprobante." })
+    .refine(file => file.size > 0 && file.size <= MAX_PROOF_PHOTO_BYTES, { message: "La imagen no es válida o pesa demasiado." })
+    .refine(file => PROOF_PHOTO_TYPES.includes(file.type), { message: "El comprobante debe ser JPG, PNG o WebP." });
+
+/**
+ * Attaches the screenshot of a transfer to one of the order's payments so the agent can match it in the bank app.
+ */
+export async function uploadPaymentReceipt(orderId: string, paymentIndex: number, formData: FormData) {
+    const validatedReceipt = PaymentReceiptSchema.safeParse(formData.get('receipt'));
+    if (!validatedReceipt.success) {
+        return { success: false, message: validatedReceipt.error.errors[0].message };
+    }
+    const receipt = validatedReceipt.data;
+
+    try {
+        const authSession = await authorize('uploadPaymentReceipt');
+        await connectDB();
+        const order = await OrderModel.findById(orderId).lean();
+        const payment = order && isArrayIndex(paymentIndex, order.payments?.length ?? 0) ? order.payments[paymentIndex] : undefined;
+        if (!order || !payment?.verificationStatus) {
+            return { success: false, message: 'El pago no existe o no es una transferencia.' };
+        }
+        if (payment.verificationStatus === 'verified') {
+            return { success: false, message: 'La transferencia ya fue verificada.' };
+        }
+        if (!hasPermission(authSession, 'transfers.verify') && order.assignedTo?.toString() !== authSession.userId) {
+            return { success: false, message: 'Solo puedes subir comprobantes de tus pedidos.' };
+        }
+
+        const receiptUrl = await getFileStorage().save(
+            `payment-receipts/${orderId}/${Date.now()}-${paymentIndex}${EXTENSIONS_BY_CONTENT_TYPE[receipt.type]}`,
+            Buffer.from(await receipt.arrayBuffer()),
+            receipt.type
+        );
+
+        // A new receipt for a rejected transfer sends it back to the queue
+        const updatedOrder = await OrderModel.findOneAndUpdate(
+            { _id: orderId, [`payments.${paymentIndex}.verificationStatus`]: { $in: ['pending_verification', 'rejected'] } },
+            {
+                $set: { [`payments.${paymentIndex}.receiptUrl`]: receiptUrl, [`payments.${paymentIndex}.verificationStatus`]: 'pending_verification' },
+                $unset: { [`payments.${paymentIndex}.rejectionReason`]: 1 },
+            },
+            { new: true }
+        )
+            .populate<{client: Client}>('client')
+            .populate<{assignedTo: User}>('assignedTo');
+        if (!updatedOrder) {
+            return { success: false, message: 'La transferencia ya fue verificada.' };
+        }
+
+        revalidatePath('/dashboard/transferencias');
+        revalidatePath('/dashboard/cuadre-caja');
+        return { success: true, message: 'Comprobante guardado.', order: toPlainObject(updatedOrder) };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error uploading payment receipt:', error);
+        return { success: false, message: 'No se pudo guardar el comprobante. Inténtalo de nuevo.' };
+    }
+}
+
+/**
+ * Records the agent's check of a transfer in the bank app. Only verified transfers count as confirmed revenue.
+ */
+export async function reviewTransferPayment(orderId: string, paymentIndex: number, decision: 'verified' | 'rejected', rejectionReason?: string) {
+    const reason = rejectionReason?.trim();
+    if (decision === 'rejected' && !reason) {
+        return { success: false, message: 'Escribe por qué se rechaza la transferencia.' };
+    }
+
+    try {
+        const authSession = await authorize('reviewTransferPayment');
+        await connectDB();
+        const order = await OrderModel.findById(orderId, { payments: 1 }).lean();
+        if (!order || !isArrayIndex(paymentIndex, order.payments?.length ?? 0)) {
+            return { success: false, message: 'La transferencia ya fue revisada o no existe.' };
+        }
+        const updatedOrder = await OrderModel.findOneAndUpdate(
+            { _id: orderId, [`payments.${paymentIndex}.verificationStatus`]: 'pending_verification' },
+            {
+                $set: {
+                    [`payments.${paymentIndex}.verificationStatus`]: decision,
+                    [`payments.${paymentIndex}.verifiedByName`]: authSession.userName,
+                    [`payments.${paymentIndex}.verifiedAt`]: new Date(),
+                    ...(reason && { [`payments.${paymentIndex}.rejectionReason`]: reason }),
+                },
+            },
+            { new: true }
+        )
+            .populate<{client: Client}>('client')
+            .populate<{assignedTo: User}>('assignedTo');
+        if (!updatedOrder) {
+            return { success: false, message: 'La transferencia ya fue revisada o no existe.' };
+        }
+
+        revalidatePath('/dashboard/transferencias');
+        revalidatePath('/dashboard/cuadre-caja');
+        revalidatePath('/dashboard');
+        return {
+            success: true,
+            message: decision === 'verified' ? 'Transferencia verificada.' : 'Transferencia rechazada.',
+            order: toPlainObject(updatedOrder),
+        };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error reviewing transfer payment:', error);
+        return { success: false, message: 'No se pudo registrar la verificación. Revisa la conexión a la base de datos.' };
+    }
+}
+
+/**
+ * Delivered orders of the day and, per courier, what they collected and the cash they must hand in.
+ */
+export async function getCashReconciliationData(date: Date): Promise<{ orders: Order[]; couriers: CourierCashSummary[] }> {
     try {
+        const authSession = await authorize('getCashReconciliationData');
         await connectDB();
         const dateStart = startOfDay(date);
         const dateEnd = endOfDay(date);
@@ -385,9 +1262,9 @@ export async function getCashReconciliationData(date: Date, user?: User) {
             createdAt: { $gte: dateStart, $lte: dateEnd }
         };
 
-        const userFilter = user?.role === 'delivery'
-            ? { assignedTo: new mongoose.Types.ObjectId(user.id) }
-            : {};
+        const userFilter = hasPermission(authSession, 'cash.view')
+            ? {}
+            : { assignedTo: new mongoose.Types.ObjectId(authSession.userId) };
         
         const filter = { ...baseFilter, ...userFilter };
         
@@ -396,10 +1273,11 @@ export async function getCashReconciliationData(date: Date, user?: User) {
             .populate<{assignedTo: User}>('assignedTo')
             .sort({ createdAt: -1 });
 
-        return orders.map(toPlainObject);
+        const plainOrders: Order[] = orders.map(toPlainObject);
+        return { orders: plainOrders, couriers: summarizeCourierCash(plainOrders) };
     } catch (error) {
         console.error('Error fetching cash reconciliation data:', error);
-        return [];
+        return { orders: [], couriers: [] };
     }
 }
 
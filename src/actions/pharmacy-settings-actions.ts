@@ -2,9 +2,12 @@
 'use server';
 
 import connectDB from '@/lib/mongoose';
-import PharmacySettingsModel, { PharmacySettingsDocument } from '@/models/pharmacy-settings-model';
+import PharmacySettingsModel from '@/models/pharmacy-settings-model';
+import { readPharmacySettings, toPlainSettings, DEFAULT_PHARMACY_SETTINGS, PHARMACY_SETTINGS_ID } from '@/lib/pharmacy-settings';
 import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
+import type { OutOfCoveragePolicy } from '@/types';
+import { authorize, AuthorizationError } from '@/lib/authorization';
 
 const PharmacySettingsSchema = z.object({
     name: z.string().min(3, { message: "El nombre debe tener al menos 3 caracteres." }),
@@ -12,47 +15,32 @@ const PharmacySettingsSchema = z.object({
     phone: z.string().min(7, { message: "El teléfono debe tener al menos 7 dígitos." }),
     lat: z.coerce.number(),
     lng: z.coerce.number(),
+    maxOrdersPerRoute: z.coerce.number().int().min(1, { message: "Cada ruta debe admitir al menos 1 pedido." }).max(50),
+    routeOptimizer: z.enum(['openrouteservice', 'local']),
+    geocoder: z.enum(['openrouteservice', 'nominatim', 'gazetteer']),
+    locationRetentionDays: z.coerce.number().int().min(1, { message: "Conserva el recorrido al menos 1 día." }).max(365),
+    deliveryGeofenceMeters: z.coerce.number().int().min(10, { message: "El radio debe ser de al menos 10 metros." }).max(5000),
 });
 
-function toPlainObject(doc: PharmacySettingsDocument | null): any {
-    if (!doc) return null;
-    const plain = doc.toObject({ getters: true, versionKey: false });
-    plain.id = plain._id.toString();
-    delete plain._id;
-    delete plain.singleton; // Don't expose this implementation detail
-    return plain;
-}
-
-const SINGLETON_ID = 'main_pharmacy';
-const defaultSettings = {
-    name: 'Droguería Avenida',
-    address: 'Avenida Cra 30 # 22-10, Bogotá',
-    phone: '601-555-4321',
-    lat: 8.250876,
-    lng: -73.358425,
-};
-
+const DeliveryPricingSchema = z.object({
+    baseFee: z.coerce.number().int().min(0, { message: "La tarifa base no puede ser negativa." }),
+    perKmFee: z.coerce.number().int().min(0, { message: "La tarifa por kilómetro no puede ser negativa." }),
+    freeDeliveryThreshold: z.coerce.number().int().min(0),
+    nightSurcharge: z.coerce.number().int().min(0),
+    nightStartHour: z.coerce.number().int().min(0).max(23),
+    nightEndHour: z.coerce.number().int().min(0).max(23),
+});
 
 export async function getPharmacySettings() {
     try {
-        await connectDB();
-        
-        const settings = await PharmacySettingsModel.findOneAndUpdate(
-            { singleton: SINGLETON_ID },
-            { 
-                $setOnInsert: {
-                    singleton: SINGLETON_ID,
-                    ...defaultSettings
-                }
-            },
-            { upsert: true, new: true }
-        );
-
-        return toPlainObject(settings);
+        await authorize('getPharmacySettings');
+        return await readPharmacySettings();
     } catch (error) {
+        // A caller who may not read the settings gets the error, not made-up values
+        if (error instanceof AuthorizationError) throw error;
         console.error('Error fetching pharmacy settings:', error);
         // Return default values on error to prevent crashing the page
-        return defaultSettings;
+        return DEFAULT_PHARMACY_SETTINGS;
     }
 }
 
@@ -63,12 +51,13 @@ export async function updatePharmacySettings(formData: z.infer<typeof PharmacySe
     }
 
     try {
+        await authorize('updatePharmacySettings');
         await connectDB();
         
         const { lat, lng, ...otherData } = validatedFields.data;
 
         const updatedSettings = await PharmacySettingsModel.findOneAndUpdate(
-            { singleton: SINGLETON_ID },
+            { singleton: PHARMACY_SETTINGS_ID },
             { 
                 $set: {
                     ...otherData,
@@ -84,11 +73,76 @@ export async function updatePharmacySettings(formData: z.infer<typeof PharmacySe
         revalidatePath('/dashboard/rutas');
         revalidatePath('/dashboard/mis-rutas');
 
-        return { success: true, message: 'Información de la farmacia actualizada.', settings: toPlainObject(updatedSettings) };
+        return { success: true, message: 'Información de la farmacia actualizada.', settings: toPlainSettings(updatedSettings) };
     } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
         console.error('Error updating pharmacy settings:', error);
         return { success: false, message: 'No se pudo actualizar la información de la farmacia. Revisa la conexión a la base de datos.' };
     }
 }
 
-    
\ No newline at end of file
+    
+export async function updateDeliveryPricing(pricing: z.input<typeof DeliveryPricingSchema>) {
+    const validatedFields = DeliveryPricingSchema.safeParse(pricing);
+    if (!validatedFields.success) {
+        return { success: false, message: validatedFields.error.issues[0]?.message || 'Datos inválidos. Por favor, revisa las tarifas.' };
+    }
+
+    try {
+        await authorize('updateDeliveryPricing');
+        await connectDB();
+
+        const updatedSettings = await PharmacySettingsModel.findOneAndUpdate(
+            { singleton: PHARMACY_SETTINGS_ID },
+            { $set: { deliveryPricing: validatedFields.data } },
+            { new: true }
+        );
+        if (!updatedSettings) {
+            return { success: false, message: 'Guarda primero la información de la farmacia.' };
+        }
+
+        revalidatePath('/dashboard/configuracion');
+        revalidatePath('/dashboard/rutas');
+
+        return { success: true, message: 'Tarifas de domicilio actualizadas.', settings: toPlainSettings(updatedSettings) };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error updating delivery pricing:', error);
+        return { success: false, message: 'No se pudieron guardar las tarifas de domicilio. Revisa la conexión a la base de datos.' };
+    }
+}
+
+export async function updateOutOfCoveragePolicy(policy: OutOfCoveragePolicy) {
+    if (policy !== 'block' && policy !== 'warn') {
+        return { success: false, message: 'Opción de cobertura inválida.' };
+    }
+
+    try {
+        await authorize('updateOutOfCoveragePolicy');
+        await connectDB();
+
+        const updatedSettings = await PharmacySettingsModel.findOneAndUpdate(
+            { singleton: PHARMACY_SETTINGS_ID },
+            { $set: { outOfCoveragePolicy: policy } },
+            { new: true }
+        );
+        if (!updatedSettings) {
+            return { success: false, message: 'Guarda primero la información de la farmacia.' };
+        }
+
+        revalidatePath('/dashboard/configuracion');
+        revalidatePath('/dashboard/rutas');
+
+        return { success: true, message: policy === 'block' ? 'Los pedidos fuera de cobertura se bloquearán.' : 'Los pedidos fuera de cobertura solo mostrarán una advertencia.', settings: toPlainSettings(updatedSettings) };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error updating out-of-coverage policy:', error);
+        return { success: false, message: 'No se pudo guardar la cobertura. Revisa la conexión a la base de datos.' };
+    }
+}
@@ -0,0 +1,217 @@
+'use server';
+
+import connectDB from '@/lib/mongoose';
+import ProductModel, { ProductDocument } from '@/models/product-model';
+import StockMovementModel from '@/models/stock-movement-model';
+import { recordStockAdjustment } from '@/lib/inventory';
+import { authorize, AuthorizationError } from '@/lib/authorization';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+
+// Products whose available units (stock minus reserved) fall to this level are flagged on the dashboard
+const LOW_STOCK_THRESHOLD = 5;
+
+const ProductFormSchema = z.object({
+    sku: z.string().trim().min(2, { message: "El SKU debe tener al menos 2 caracteres." }),
+    name: z.string().trim().min(3, { message: "El nombre debe tener al menos 3 caracteres." }),
+    presentation: z.string().trim().min(2, { message: "La presentación es obligatoria." }),
+    price: z.coerce.number().positive({ message: "El precio debe ser un número positivo." }),
+    stock: z.coerce.number().int({ message: "El stock debe ser un número entero." }).min(0, { message: "El stock no puede ser negativo." }),
+    barcode: z.string().trim().optional().or(z.literal('')),
+});
+
+function toPlainObject(doc: ProductDocument): any {
+    const plain = doc.toObject({ getters: true, versionKey: false });
+    plain.id = plain._id.toString();
+    delete plain._id;
+    if (plain.createdAt instanceof Date) plain.createdAt = plain.createdAt.toISOString();
+    if (plain.updatedAt instanceof Date) plain.updatedAt = plain.updatedAt.toISOString();
+    return plain;
+}
+
+function handleDuplicateKeyError(error: any) {
+    const field = error.keyPattern ? Object.keys(error.keyPattern)[0] : undefined;
+    if (field === 'barcode') {
+        return { success: false, message: 'Ya existe un producto con este código de barras.' };
+    }
+    return { success: false, message: 'Ya existe un producto con este SKU.' };
+}
+
+export async function getProducts() {
+    try {
+        await authorize('getProducts');
+        await connectDB();
+        const products = await ProductModel.find({}).sort({ name: 1 });
+        return products.map(toPlainObject);
+    } catch (error) {
+        console.error('Error fetching products:', error);
+        // Return empty array on DB connection error to prevent crash
+        return [];
+    }
+}
+
+export async function getLowStockProducts() {
+    try {
+        await authorize('getLowStockProducts');
+        await connectDB();
+        const products = await ProductModel.find({
+            $expr: { $lte: [{ $subtract: ['$stock', '$reserved'] }, LOW_STOCK_THRESHOLD] }
+        }).sort({ stock: 1 });
+        return products.map(toPlainObject);
+    } catch (error) {
+        console.error('Error fetching low stock products:', error);
+        return [];
+    }
+}
+
+export async function getStockMovements(productId: string) {
+    try {
+        await authorize('getStockMovements');
+        await connectDB();
+        const movements = await StockMovementModel.find({ product: productId })
+            .populate('user', 'name')
+            .sort({ createdAt: -1 })
+            .limit(100)
+            .lean();
+
+        return movements.map((movement: any) => ({
+            id: movement._id.toString(),
+            product: movement.product.toString(),
+            order: movement.order?.toString(),
+            user: movement.user?.name,
+            type: movement.type,
+            quantity: movement.quantity,
+            stockDelta: movement.stockDelta,
+            reservedDelta: movement.reservedDelta,
+            createdAt: movement.createdAt.toISOString(),
+        }));
+    } catch (error) {
+        console.error(`Error fetching stock movements for product ${productId}:`, error);
+        return [];
+    }
+}
+
+export async function createProduct(formData: z.infer<typeof ProductFormSchema>) {
+    const validatedFields = ProductFormSchema.safeParse(formData);
+    if (!validatedFields.success) {
+        const errorMessages = validatedFields.error.issues.map(issue => issue.message).join(' ');
+        return { success: false, message: `Datos inválidos: ${errorMessages}` };
+    }
+
+    const { barcode, ...productData } = validatedFields.data;
+
+    try {
+        const authSession = await authorize('createProduct');
+        await connectDB();
+        const dbSession = await mongoose.startSession();
+
+        try {
+            await dbSession.withTransaction(async () => {
+                const [newProduct] = await ProductModel.create([{
+                    ...productData,
+                    // An empty barcode must be omitted so the sparse unique index ignores it
+                    barcode: barcode || undefined,
+                }], { session: dbSession });
+
+                await recordStockAdjustment(newProduct.id, 0, productData.stock, {
+                    userId: authSession.userId,
+                    session: dbSession,
+                });
+            });
+        } finally {
+            await dbSession.endSession();
+        }
+
+        revalidatePath('/dashboard/productos');
+        revalidatePath('/dashboard/rutas');
+        return { success: true, message: `Producto ${productData.name} creado.` };
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error creating product:', error);
+        if (error.code === 11000) {
+            return handleDuplicateKeyError(error);
+        }
+        return { success: false, message: 'No se pudo crear el producto. Revisa la conexión a la base de datos.' };
+    }
+}
+
+export async function updateProduct(id: string, formData: z.infer<typeof ProductFormSchema>) {
+    const validatedFields = ProductFormSchema.safeParse(formData);
+    if (!validatedFields.success) {
+        const errorMessages = validatedFields.error.issues.map(issue => issue.message).join(' ');
+        return { success: false, message: `Datos inválidos: ${errorMessages}` };
+    }
+
+    const { barcode, ...productData } = validatedFields.data;
+
+    try {
+        const authSession = await authorize('updateProduct');
+        await connectDB();
+
+        const update = barcode
+            ? { $set: { ...productData, barcode } }
+            : { $set: productData, $unset: { barcode: 1 } };
+
+        let previous: ProductDocument | null = null;
+        const dbSession = await mongoose.startSession();
+        try {
+            await dbSession.withTransaction(async () => {
+                // Matching on reserved keeps a reservation made meanwhile from ending up above the stock
+                previous = await ProductModel.findOneAndUpdate(
+                    { _id: id, reserved: { $lte: productData.stock } },
+                    update,
+                    { new: false, runValidators: true, session: dbSession }
+                );
+                if (!previous) return;
+
+                await recordStockAdjustment(id, previous.stock, productData.stock, {
+                    userId: authSession.userId,
+                    session: dbSession,
+                });
+            });
+        } finally {
+            await dbSession.endSession();
+        }
+
+        if (!previous) {
+            const current = await ProductModel.findById(id).select('reserved');
+            if (!current) {
+                return { success: false, message: 'Producto no encontrado.' };
+            }
+            return { success: false, message: `Hay ${current.reserved} unidades reservadas por pedidos abiertos. El stock no puede ser menor.` };
+        }
+
+        revalidatePath('/dashboard/productos');
+        revalidatePath('/dashboard/rutas');
+        return { success: true, message: 'Producto actualizado.' };
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error updating product:', error);
+        if (error.code === 11000) {
+            return handleDuplicateKeyError(error);
+        }
+        return { success: false, message: 'No se pudo actualizar el producto. Revisa la conexión a la base de datos.' };
+    }
+}
+
+export async function deleteProduct(id: string) {
+    try {
+        await authorize('deleteProduct');
+        await connectDB();
+        await ProductModel.findByIdAndDelete(id);
+        revalidatePath('/dashboard/productos');
+        revalidatePath('/dashboard/rutas');
+        return { success: true, message: 'Producto eliminado.' };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error deleting product:', error);
+        return { success: false, message: 'No se pudo eliminar el producto. Revisa la conexión a la base de datos.' };
+    }
+}
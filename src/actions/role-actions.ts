@@ -0,0 +1,117 @@
+'use server';
+
+import connectDB from '@/lib/mongoose';
+import CustomRoleModel, { CustomRoleDocument } from '@/models/custom-role-model';
+import UserModel from '@/models/user-model';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { authorize, AuthorizationError } from '@/lib/authorization';
+import { ALL_PERMISSIONS } from '@/lib/permissions';
+import type { Permission } from '@/types';
+
+const CustomRoleFormSchema = z.object({
+    name: z.string().trim().min(3, { message: "El nombre del rol debe tener al menos 3 caracteres." }).max(40),
+    description: z.string().trim().max(160).optional(),
+    baseRole: z.enum(['agent', 'delivery']),
+    permissions: z.array(z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]])),
+});
+
+function toPlainObject(doc: CustomRoleDocument): any {
+    const plain = doc.toObject({ getters: true, versionKey: false });
+    plain.id = plain._id.toString();
+    delete plain._id;
+    delete plain.createdAt;
+    delete plain.updatedAt;
+    return plain;
+}
+
+export async function getCustomRoles() {
+    try {
+        await authorize('getCustomRoles');
+        await connectDB();
+        const roles = await CustomRoleModel.find({}).sort({ name: 1 });
+        return roles.map(toPlainObject);
+    } catch (error) {
+        console.error('Error fetching custom roles:', error);
+        return [];
+    }
+}
+
+export async function createCustomRole(formData: z.input<typeof CustomRoleFormSchema>) {
+    const validatedFields = CustomRoleFormSchema.safeParse(formData);
+    if (!validatedFields.success) {
+        return { success: false, message: validatedFields.error.issues[0]?.message || 'Datos inválidos. Por favor, revisa el rol.' };
+    }
+
+    try {
+        await authorize('createCustomRole');
+        await connectDB();
+        const role = await CustomRoleModel.create(validatedFields.data);
+        revalidatePath('/dashboard/configuracion');
+        return { success: true, message: `Rol ${role.name} creado.`, role: toPlainObject(role) };
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error creating custom role:', error);
+        if (error.code === 11000) {
+            return { success: false, message: 'Ya existe un rol con ese nombre.' };
+        }
+        return { success: false, message: 'No se pudo crear el rol. Revisa la conexión a la base de datos.' };
+    }
+}
+
+/**
+ * The base role cannot change: it would silently turn the role's holders into
+ * couriers or back. The new permissions apply on each holder's next action.
+ */
+export async function updateCustomRole(id: string, formData: Omit<z.input<typeof CustomRoleFormSchema>, 'baseRole'>) {
+    const validatedFields = CustomRoleFormSchema.omit({ baseRole: true }).safeParse(formData);
+    if (!validatedFields.success) {
+        return { success: false, message: validatedFields.error.issues[0]?.message || 'Datos inválidos. Por favor, revisa el rol.' };
+    }
+
+    try {
+        await authorize('updateCustomRole');
+        await connectDB();
+        const role = await CustomRoleModel.findByIdAndUpdate(id, { $set: validatedFields.data }, { new: true });
+        if (!role) {
+            return { success: false, message: 'El rol ya no existe.' };
+        }
+        revalidatePath('/dashboard/configuracion');
+        return { success: true, message: `Rol ${role.name} actualizado.`, role: toPlainObject(role) };
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error updating custom role:', error);
+        if (error.code === 11000) {
+            return { success: false, message: 'Ya existe un rol con ese nombre.' };
+        }
+        return { success: false, message: 'No se pudo actualizar el rol. Revisa la conexión a la base de datos.' };
+    }
+}
+
+/** Refused while any user still holds the role, so nobody is left without one. */
+export async function deleteCustomRole(id: string) {
+    try {
+        await authorize('deleteCustomRole');
+        await connectDB();
+        const holders = await UserModel.countDocuments({ customRole: id });
+        if (holders > 0) {
+            return { success: false, message: `${holders === 1 ? 'Un usuario tiene' : `${holders} usuarios tienen`} este rol. Cámbiales el rol antes de eliminarlo.` };
+        }
+        const role = await CustomRoleModel.findByIdAndDelete(id);
+        if (!role) {
+            return { success: false, message: 'El rol ya no existe.' };
+        }
+        revalidatePath('/dashboard/configuracion');
+        return { success: true, message: `Rol ${role.name} eliminado.` };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error deleting custom role:', error);
+        return { success: false, message: 'No se pudo eliminar el rol. Revisa la conexión a la base de datos.' };
+    }
+}
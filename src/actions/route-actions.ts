@@ -0,0 +1,174 @@
+'use server';
+
+import connectDB from '@/lib/mongoose';
+import RouteModel, { RouteDocument } from '@/models/route-model';
+import OrderModel from '@/models/order-model';
+import UserModel from '@/models/user-model';
+import { optimizePharmacyRoute } from '@/ai/flows/optimize-pharmacy-route';
+import { readPharmacySettings } from '@/lib/pharmacy-settings';
+import { revalidatePath } from 'next/cache';
+import type { Route } from '@/types';
+import { authorize, AuthorizationError } from '@/lib/authorization';
+import { hasPermission } from '@/lib/permissions';
+
+function toPlainObject(doc: RouteDocument): Route {
+    const plain = doc.toObject({ getters: true, versionKey: false });
+    plain.id = plain._id.toString();
+    delete plain._id;
+    plain.deliveryPerson = plain.deliveryPerson.toString();
+    plain.stops = plain.stops.map((stop: any) => stop.toString());
+    for (const field of ['optimizedAt', 'startedAt', 'completedAt', 'createdAt', 'updatedAt']) {
+        if (plain[field] instanceof Date) plain[field] = plain[field].toISOString();
+    }
+    return plain;
+}
+
+/** Without orders.view a user only gets their own route. */
+export async function getOpenRoutes() {
+    try {
+        const authSession = await authorize('getOpenRoutes');
+        await connectDB();
+        const filter: Record<string, unknown> = { status: { $in: ['planned', 'in_progress'] } };
+        if (!hasPermission(authSession, 'orders.view')) {
+            filter.deliveryPerson = authSession.userId;
+        }
+        const routes = await RouteModel.find(filter).sort({ createdAt: 1 });
+        return routes.map(toPlainObject);
+    } catch (error) {
+        console.error('Error fetching open routes:', error);
+        return [];
+    }
+}
+
+/**
+ * Reorders the stops still to be delivered on a route and stores the optimized
+ * sequence, polyline and estimates so dispatcher and courier see the same plan.
+ */
+export async function optimizeRoute(routeId: string) {
+    try {
+        await authorize('optimizeRoute');
+        await connectDB();
+
+        const route = await RouteModel.findById(routeId);
+        if (!route || (route.status !== 'planned' && route.status !== 'in_progress')) {
+            return { success: false, message: 'La ruta no existe o ya fue cerrada.' };
+        }
+
+        const openOrders = await OrderModel.find({ _id: { $in: route.stops }, status: { $in: ['assigned', 'in_transit'] } });
+        if (openOrders.length === 0) {
+            return { success: false, message: 'La ruta no tiene pedidos por entregar.' };
+        }
+
+        // A courier already on the road is routed from where they are, otherwise from the pharmacy
+        let startCoords: { lat: number; lng: number };
+        const pharmacySettings = await readPharmacySettings();
+        const deliveryPerson = await UserModel.findById(route.deliveryPerson);
+        const courierLocation = deliveryPerson?.currentLocation as any;
+        if (route.status === 'in_progress' && courierLocation?.coordinates) {
+            startCoords = { lng: courierLocation.coordinates[0], lat: courierLocation.coordinates[1] };
+        } else {
+            startCoords = { lat: pharmacySettings.lat, lng: pharmacySettings.lng };
+        }
+
+        const { routes, unassigned, solver } = await optimizePharmacyRoute({
+            startCoords,
+            orders: openOrders.map(order => ({
+                orderId: order.id as string,
+                address: order.deliveryLocation.address,
+                coords: order.deliveryLocation.lat != null && order.deliveryLocation.lng != null
+                    ? { lat: order.deliveryLocation.lat, lng: order.deliveryLocation.lng }
+                    : undefined,
+                timeWindow: order.timeWindow && {
+                    start: order.timeWindow.start.toISOString(),
+                    end: order.timeWindow.end.toISOString(),
+                },
+                priority: order.priority,
+            })),
+            solver: pharmacySettings.routeOptimizer,
+        });
+        const result = routes[0];
+        if (!result) {
+            const reason = unassigned[0]?.reason ?? 'El optimizador no devolvió una ruta para estos pedidos.';
+            return { success: false, message: `No se pudo ubicar ningún pedido en la ruta. ${reason}` };
+        }
+
+        // Stops already closed keep their place at the front; stops the optimizer could not place go last
+        const openIds = new Set(openOrders.map(order => order.id as string));
+        const optimizedIds = result.optimizedRoute.map(stop => stop.orderId);
+        const closedStops = route.stops.filter(stop => !openIds.has(stop.toString()));
+        const unplacedStops = route.stops.filter(stop => openIds.has(stop.toString()) && !optimizedIds.includes(stop.toString()));
+        const optimizedStops = optimizedIds
+            .map(orderId => route.stops.find(stop => stop.toString() === orderId))
+            .filter((stop): stop is NonNullable<typeof stop> => !!stop);
+
+        route.stops = [...closedStops, ...optimizedStops, ...unplacedStops];
+        route.encodedPolyline = result.encodedPolyline;
+        route.estimatedDistanceMeters = result.distanceMeters;
+        route.estimatedDurationSeconds = result.durationSeconds;
+        route.optimizedAt = new Date();
+        await route.save();
+
+        revalidatePath('/dashboard/rutas');
+        revalidatePath('/dashboard/mis-rutas');
+        revalidatePath('/dashboard');
+
+        const solverNote = solver === 'local' ? ' (calculada sin conexión, en línea recta)' : '';
+        const unassignedNote = unassigned.length > 0 ? ` ${unassigned.length} pedido(s) quedaron al final sin optimizar: ${unassigned[0].reason}` : '';
+        return {
+            success: true,
+            message: `Ruta optimizada${solverNote}: ${result.estimatedDistance}, ${result.estimatedTime}.${unassignedNote}`,
+            route: toPlainObject(route),
+            unassigned,
+        };
+
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error(`Error optimizing route ${routeId}:`, error);
+        return { success: false, message: `No se pudo optimizar la ruta. ${error.message}` };
+    }
+}
+
+/**
+ * Stores the optimizer's plan on a courier's route after its orders were assigned as proposed.
+ * The plan is only kept if the route holds exactly those orders in that order.
+ */
+export async function saveRoutePlan(
+    deliveryPersonId: string,
+    plan: { orderIds: string[]; encodedPolyline: string; distanceMeters: number; durationSeconds: number }
+) {
+    try {
+        await authorize('saveRoutePlan');
+        await connectDB();
+
+        const route = await RouteModel.findOne({ deliveryPerson: deliveryPersonId, status: { $in: ['planned', 'in_progress'] } });
+        if (!route) {
+            return { success: false, message: 'El domiciliario no tiene una ruta abierta.' };
+        }
+
+        const stops = route.stops.map(stop => stop.toString());
+        const matchesPlan = stops.length === plan.orderIds.length && stops.every((stop, index) => stop === plan.orderIds[index]);
+        if (!matchesPlan) {
+            return { success: false, message: 'La ruta cambió desde que se calculó la propuesta.' };
+        }
+
+        route.encodedPolyline = plan.encodedPolyline;
+        route.estimatedDistanceMeters = plan.distanceMeters;
+        route.estimatedDurationSeconds = plan.durationSeconds;
+        route.optimizedAt = new Date();
+        await route.save();
+
+        revalidatePath('/dashboard/rutas');
+        revalidatePath('/dashboard/mis-rutas');
+        revalidatePath('/dashboard');
+
+        return { success: true, message: 'Plan de ruta guardado.', route: toPlainObject(route) };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error(`Error saving route plan for user ${deliveryPersonId}:`, error);
+        return { success: false, message: 'No se pudo guardar el plan de la ruta. Revisa la conexión a la base de datos.' };
+    }
+}
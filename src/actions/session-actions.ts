@@ -0,0 +1,73 @@
+'use server';
+
+import connectDB from '@/lib/mongoose';
+import UserSessionModel, { UserSessionDocument } from '@/models/user-session-model';
+import { authorize, requireSelfOrPermission, AuthorizationError } from '@/lib/authorization';
+import { revokeUserSessions } from '@/lib/session-store';
+import type { UserSession } from '@/types';
+
+function toPlainObject(doc: UserSessionDocument, currentSessionId: string): UserSession {
+    return {
+        id: doc.id as string,
+        user: doc.user.toString(),
+        ip: doc.ip,
+        userAgent: doc.userAgent,
+        createdAt: doc.createdAt.toISOString(),
+        lastSeenAt: doc.lastSeenAt.toISOString(),
+        current: doc.id === currentSessionId,
+    };
+}
+
+/** The user's open sessions, most recently used first. */
+export async function getUserSessions(userId: string): Promise<UserSession[]> {
+    try {
+        const authSession = await authorize('getUserSessions');
+        requireSelfOrPermission(authSession, 'users.manage', userId);
+        await connectDB();
+        const sessions = await UserSessionModel.find({ user: userId, expiresAt: { $gt: new Date() } }).sort({ lastSeenAt: -1 });
+        return sessions.map(session => toPlainObject(session, authSession.sessionId));
+    } catch (error) {
+        console.error('Error fetching sessions:', error);
+        return [];
+    }
+}
+
+export async function revokeUserSession(sessionId: string) {
+    try {
+        const authSession = await authorize('revokeUserSession');
+        if (sessionId === authSession.sessionId) {
+            return { success: false, message: 'Para cerrar esta sesión usa Cerrar Sesión.' };
+        }
+        await connectDB();
+        const session = await UserSessionModel.findById(sessionId).select('user');
+        if (!session) {
+            return { success: false, message: 'La sesión ya estaba cerrada.' };
+        }
+        requireSelfOrPermission(authSession, 'users.manage', session.user.toString());
+        await session.deleteOne();
+        return { success: true, message: 'Sesión cerrada.' };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error revoking session:', error);
+        return { success: false, message: 'No se pudo cerrar la sesión.' };
+    }
+}
+
+/** Closes every session of the user; on one's own account the current session stays open. */
+export async function revokeAllUserSessions(userId: string) {
+    try {
+        const authSession = await authorize('revokeAllUserSessions');
+        requireSelfOrPermission(authSession, 'users.manage', userId);
+        await connectDB();
+        const closed = await revokeUserSessions(userId, userId === authSession.userId ? authSession.sessionId : undefined);
+        return { success: true, message: closed === 1 ? 'Se cerró 1 sesión.' : `Se cerraron ${closed} sesiones.` };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error revoking sessions:', error);
+        return { success: false, message: 'No se pudieron cerrar las sesiones.' };
+    }
+}
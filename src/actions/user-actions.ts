@@ -3,17 +3,32 @@
 
 import connectDB from '@/lib/mongoose';
 import UserModel, { UserDocument } from '@/models/user-model';
+import CustomRoleModel from '@/models/custom-role-model';
+import mongoose from 'mongoose';
 import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
-import type { Role, DeliveryStatus } from '@/types';
+import { passwordSchema, PASSWORD_HISTORY_SIZE } from '@/lib/password-policy';
+import { sendPasswordResetCode } from '@/lib/whatsapp';
+import { randomInt } from 'crypto';
+import type { Role, DeliveryStatus, FailedLogin } from '@/types';
 import bcrypt from 'bcryptjs';
+import { publishDispatchEvent } from '@/lib/dispatch-events';
+import LocationPingModel from '@/models/location-ping-model';
+import { readPharmacySettings } from '@/lib/pharmacy-settings';
+import { addDays, addMinutes, subMinutes } from 'date-fns';
+import { authorize, requirePermission, requireSelfOrPermission, AuthorizationError, type AuthSession } from '@/lib/authorization';
+import { hasPermission, resolvePermissions } from '@/lib/permissions';
+import { getLoginClient, isLockedOut, isResetThrottled, recordFailedLogin, LOCKOUT_MINUTES } from '@/lib/login-throttle';
+import FailedLoginModel from '@/models/failed-login-model';
+import { revokeUserSessions } from '@/lib/session-store';
+import OrderModel from '@/models/order-model';
 
 // Schema for creating a user (password is required)
 const UserCreateSchema = z.object({
     name: z.string().min(3, { message: "El nombre debe tener al menos 3 caracteres." }),
     phone: z.string().regex(/^\d{10}$/, { message: "El teléfono debe tener 10 dígitos." }),
     cedula: z.string().min(5, { message: "La cédula debe tener al menos 5 caracteres." }),
-    password: z.string().min(6, { message: "La contraseña debe tener al menos 6 caracteres." }),
+    password: passwordSchema,
     role: z.enum(['admin', 'agent', 'delivery']),
 });
 
@@ -23,16 +38,39 @@ const UserUpdateSchema = z.object({
     phone: z.string().regex(/^\d{10}$/, { message: "El teléfono debe tener 10 dígitos." }).optional(),
     cedula: z.string().min(5, { message: "La cédula debe tener al menos 5 caracteres." }).optional(),
     avatarUrl: z.string().url({ message: "Por favor, ingresa una URL de imagen válida." }).optional().or(z.literal('')),
-    password: z.string().min(6, { message: "La contraseña debe tener al menos 6 caracteres." }).optional().or(z.literal('')),
-    role: z.enum(['admin', 'agent', 'delivery']).optional(),
+    password: passwordSchema.optional().or(z.literal('')),
 });
 
+const BUILT_IN_ROLES: Role[] = ['admin', 'agent', 'delivery'];
+
 
 function toPlainObject(doc: UserDocument | null): any {
     if (!doc) return null;
     const plain = doc.toObject({ getters: true, versionKey: false });
     plain.id = plain._id.toString();
     delete plain._id;
+    // Password hashes and reset codes never leave the server
+    delete plain.password;
+    delete plain.passwordHistory;
+    delete plain.passwordReset;
+
+    if (plain.activeRoute) {
+        plain.activeRoute = plain.activeRoute.toString();
+    }
+    for (const field of ['suspendedAt', 'lastLoginAt']) {
+        if (plain[field] instanceof Date) plain[field] = plain[field].toISOString();
+    }
+    plain.accountStatus = plain.accountStatus ?? 'active';
+
+    // Queries populate the custom role so the browser gets its name and permissions
+    const customRole = plain.customRole?.permissions ? plain.customRole : null;
+    if (customRole) {
+        plain.customRoleName = customRole.name;
+        plain.customRole = customRole._id.toString();
+    } else if (plain.customRole) {
+        plain.customRole = plain.customRole.toString();
+    }
+    plain.permissions = resolvePermissions(plain.role, customRole);
 
     // Manually handle currentLocation conversion if it exists
     if (plain.currentLocation && plain.currentLocation.coordinates) {
@@ -45,6 +83,29 @@ function toPlainObject(doc: UserDocument | null): any {
     return plain;
 }
 
+const REUSED_PASSWORD_MESSAGE = `No puedes reutilizar ninguna de tus últimas ${PASSWORD_HISTORY_SIZE} contraseñas.`;
+
+/**
+ * Hashes `password` as the user's new one and moves the current hash into the
+ * history. Returns null when it matches the current or a recent password.
+ */
+async function rotatePassword(user: Pick<UserDocument, 'password' | 'passwordHistory'>, password: string) {
+    const recentHashes = [user.password, ...(user.passwordHistory ?? [])].filter((hash): hash is string => !!hash).slice(0, PASSWORD_HISTORY_SIZE);
+    for (const hash of recentHashes) {
+        if (await bcrypt.compare(password, hash)) return null;
+    }
+    return {
+        password: await bcrypt.hash(password, 10),
+        passwordHistory: recentHashes.slice(0, PASSWORD_HISTORY_SIZE - 1),
+    };
+}
+
+// Couriers need couriers.manage, every other account users.manage, and anyone may edit their own profile
+function canManageUser(authSession: AuthSession, target: { id: string; role: Role }) {
+    if (authSession.userId === target.id) return true;
+    return hasPermission(authSession, target.role === 'delivery' ? 'couriers.manage' : 'users.manage');
+}
+
 
 export async function loginUser(credentials: { cedula: string, password?: string }) {
     const { cedula, password } = credentials;
@@ -55,10 +116,18 @@ export async function loginUser(credentials: { cedula: string, password?: string
 
     try {
         await connectDB();
+        const client = await getLoginClient();
         
-        const user = await UserModel.findOne({ cedula });
+        const user = await UserModel.findOne({ cedula }).select('+password').populate('customRole');
+
+        // Checked before the password so a locked cédula cannot keep guessing
+        if (await isLockedOut(cedula, client, user?.lastLoginAt)) {
+            await recordFailedLogin(cedula, client, 'locked_out');
+            return { success: false, message: `Demasiados intentos fallidos. Espera ${LOCKOUT_MINUTES} minutos e inténtalo de nuevo.` };
+        }
         
         if (!user) {
+            await recordFailedLogin(cedula, client, 'unknown_user');
             return { success: false, message: 'Usuario no encontrado.' };
         }
 
@@ -69,9 +138,18 @@ export async function loginUser(credentials: { cedula: string, password?: string
         const isPasswordCorrect = await bcrypt.compare(password, user.password);
 
         if (!isPasswordCorrect) {
+            await recordFailedLogin(cedula, client, 'wrong_password');
             return { success: false, message: 'Cédula o contraseña incorrecta.' };
         }
 
+        if (user.accountStatus === 'suspended') {
+            await recordFailedLogin(cedula, client, 'suspended');
+            return { success: false, message: 'Tu cuenta está suspendida. Habla con un administrador.' };
+        }
+
+        user.lastLoginAt = new Date();
+        await UserModel.updateOne({ _id: user._id }, { $set: { lastLoginAt: user.lastLoginAt } });
+
         return { success: true, user: toPlainObject(user) };
 
     } catch (error) {
@@ -83,8 +161,10 @@ export async function loginUser(credentials: { cedula: string, password?: string
 
 export async function getUsers(role: Role) {
   try {
+    const authSession = await authorize('getUsers');
+    if (role !== 'delivery') requirePermission(authSession, 'users.manage');
     await connectDB();
-    const users = await UserModel.find({ role }).sort({ createdAt: -1 });
+    const users = await UserModel.find({ role }).populate('customRole').sort({ createdAt: -1 });
     return users.map(toPlainObject);
   } catch (error) {
     console.error(`Error fetching users with role ${role}:`, error);
@@ -95,8 +175,9 @@ export async function getUsers(role: Role) {
 
 export async function getAllUsers() {
   try {
+    await authorize('getAllUsers');
     await connectDB();
-    const users = await UserModel.find({}).sort({ role: 1, name: 1 });
+    const users = await UserModel.find({}).populate('customRole').sort({ role: 1, name: 1 });
     return users.map(toPlainObject);
   } catch (error) {
     console.error(`Error fetching all users:`, error);
@@ -107,8 +188,9 @@ export async function getAllUsers() {
 
 export async function getUserByCedula(cedula: string) {
     try {
+        await authorize('getUserByCedula');
         await connectDB();
-        const user = await UserModel.findOne({ cedula });
+        const user = await UserModel.findOne({ cedula }).populate('customRole');
         return toPlainObject(user);
     } catch (error) {
         console.error(`Error fetching user with cedula ${cedula}:`, error);
@@ -116,12 +198,18 @@ export async function getUserByCedula(cedula: string) {
     }
 }
 
+/** Looking up someone else needs users.manage. */
 export async function getUserById(id: string) {
     try {
+        const authSession = await authorize('getUserById');
+        requireSelfOrPermission(authSession, 'users.manage', id);
         await connectDB();
-        const user = await UserModel.findById(id);
+        const user = await UserModel.findById(id).populate('customRole');
         return toPlainObject(user);
     } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return null;
+        }
         console.error(`Error fetching user with id ${id}:`, error);
         throw new Error('Failed to fetch user.');
     }
@@ -137,6 +225,8 @@ export async function createUser(formData: z.infer<typeof UserCreateSchema>) {
     const { name, phone, cedula, password, role } = validatedFields.data;
     
     try {
+        const authSession = await authorize('createUser');
+        requirePermission(authSession, role === 'delivery' ? 'couriers.manage' : 'users.manage');
         await connectDB();
 
         const existingUser = await UserModel.findOne({ $or: [{ cedula }, { phone }] });
@@ -156,6 +246,8 @@ export async function createUser(formData: z.infer<typeof UserCreateSchema>) {
             phone,
             cedula,
             password: hashedPassword,
+            // The admin chose this password, so the user replaces it on first login
+            mustChangePassword: true,
             role: role,
             status: role === 'delivery' ? 'offline' : 'offline', // Start as offline
         });
@@ -168,6 +260,9 @@ export async function createUser(formData: z.infer<typeof UserCreateSchema>) {
         return { success: true, message: `Usuario ${name} creado exitosamente como ${role}.` };
 
     } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
         console.error('Error saving new user:', error);
         if (error.code === 11000) {
             const field = Object.keys(error.keyValue)[0];
@@ -197,21 +292,39 @@ export async function updateUser(id: string, formData: z.infer<typeof UserUpdate
     const { password, ...updateData } = validatedFields.data;
 
     try {
+        const authSession = await authorize('updateUser');
         await connectDB();
+
+        const target = await UserModel.findById(id).select('role +password +passwordHistory');
+        if (!target) {
+            return { success: false, message: 'Usuario no encontrado.' };
+        }
+        if (!canManageUser(authSession, { id: target.id as string, role: target.role })) {
+            return { success: false, message: 'No tienes permiso para editar este usuario.' };
+        }
+        const isSelf = authSession.userId === id;
         
         const updatePayload: any = { ...updateData };
 
         if (password) {
-            updatePayload.password = await bcrypt.hash(password, 10);
+            const rotated = await rotatePassword(target, password);
+            if (!rotated) {
+                return { success: false, message: REUSED_PASSWORD_MESSAGE };
+            }
+            // A password someone else typed is only good for the next login
+            Object.assign(updatePayload, rotated, { mustChangePassword: !isSelf });
         }
 
-        const user = await UserModel.findByIdAndUpdate(id, { $set: updatePayload }, { new: true, runValidators: true });
+        const user = await UserModel.findByIdAndUpdate(id, { $set: updatePayload }, { new: true, runValidators: true }).populate('customRole');
         
         if (!user) {
             return { success: false, message: 'Usuario no encontrado.' };
         }
         
         const plainUser = toPlainObject(user);
+        if (password) {
+            await revokeUserSessions(id, isSelf ? authSession.sessionId : undefined);
+        }
 
         // Revalidate all paths where users might appear
         revalidatePath('/dashboard/agentes');
@@ -223,6 +336,9 @@ export async function updateUser(id: string, formData: z.infer<typeof UserUpdate
         return { success: true, message: 'Usuario actualizado exitosamente.', user: plainUser };
 
     } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
         console.error('Error updating user:', error);
         if (error.code === 11000 && error.keyPattern?.cedula) {
             return { success: false, message: 'La cédula ya está en uso por otro usuario.' };
@@ -234,25 +350,297 @@ export async function updateUser(id: string, formData: z.infer<typeof UserUpdate
 
 export async function deleteUser(id: string) {
     try {
+        const authSession = await authorize('deleteUser');
+        if (authSession.userId === id) {
+            return { success: false, message: 'No puedes eliminar tu propia cuenta.' };
+        }
         await connectDB();
+        const target = await UserModel.findById(id).select('role');
+        if (!target) {
+            return { success: false, message: 'Usuario no encontrado.' };
+        }
+        // Unlike editing, deleting is never allowed on one's own account, so the permission is always required
+        if (!hasPermission(authSession, target.role === 'delivery' ? 'couriers.manage' : 'users.manage')) {
+            return { success: false, message: 'No tienes permiso para eliminar este usuario.' };
+        }
+
         const user = await UserModel.findByIdAndDelete(id);
         if (!user) {
             return { success: false, message: 'Usuario no encontrado.' };
         }
+        await revokeUserSessions(id);
         
         if(user.role === 'agent') revalidatePath('/dashboard/agentes');
         if(user.role === 'delivery') revalidatePath('/dashboard/domiciliarios');
 
         return { success: true, message: 'Usuario eliminado.' };
     } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
         console.error('Error deleting user:', error);
         return { success: false, message: 'No se pudo eliminar el usuario.' };
     }
 }
 
-export async function updateUserLocation(userId: string, location: { lat: number, lng: number, bearing: number }) {
+/**
+ * Replaces the signed-in user's password after checking the current one. This is
+ * also how a user clears `mustChangePassword`; their other sessions are closed.
+ */
+export async function changePassword(formData: { currentPassword: string; newPassword: string }) {
+    const validatedPassword = passwordSchema.safeParse(formData.newPassword);
+    if (!validatedPassword.success) {
+        return { success: false, message: validatedPassword.error.issues[0].message };
+    }
+
+    try {
+        const authSession = await authorize('changePassword');
+        await connectDB();
+        const user = await UserModel.findById(authSession.userId).select('+password +passwordHistory');
+        if (!user) {
+            return { success: false, message: 'Usuario no encontrado.' };
+        }
+        if (!await bcrypt.compare(formData.currentPassword, user.password || '')) {
+            return { success: false, message: 'La contraseña actual no es correcta.' };
+        }
+        const rotated = await rotatePassword(user, validatedPassword.data);
+        if (!rotated) {
+            return { success: false, message: REUSED_PASSWORD_MESSAGE };
+        }
+
+        await UserModel.updateOne({ _id: user._id }, { $set: { ...rotated, mustChangePassword: false } });
+        await revokeUserSessions(authSession.userId, authSession.sessionId);
+        return { success: true, message: 'Contraseña actualizada.' };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error changing password:', error);
+        return { success: false, message: 'No se pudo cambiar la contraseña.' };
+    }
+}
+
+// A reset code lasts this long, may be tried this many times, and is sent at most once per interval
+const RESET_CODE_MINUTES = 10;
+const RESET_CODE_MAX_ATTEMPTS = 5;
+const RESET_CODE_RESEND_MINUTES = 1;
+
+/**
+ * Sends a one-time code to the WhatsApp of the account with this cédula. Called
+ * from the login page without a session, so the answer is the same whether or
+ * not the cédula exists, and every request counts toward the per-cédula and per-IP limits.
+ */
+export async function requestPasswordReset(cedula: string) {
+    const sentMessage = { success: true, message: 'Si la cédula está registrada, te enviamos un código por WhatsApp al teléfono de la cuenta.' };
+    if (!cedula?.trim()) {
+        return { success: false, message: 'Escribe tu cédula.' };
+    }
+
+    try {
+        await connectDB();
+        const client = await getLoginClient();
+        if (await isLockedOut(cedula.trim(), client) || await isResetThrottled(cedula.trim(), client)) {
+            return { success: false, message: 'Demasiadas solicitudes. Espera un rato e inténtalo de nuevo.' };
+        }
+        await recordFailedLogin(cedula.trim(), client, 'reset_requested');
+
+        const user = await UserModel.findOne({ cedula: cedula.trim() }).select('phone accountStatus +passwordReset');
+        if (!user || user.accountStatus === 'suspended') {
+            return sentMessage;
+        }
+        // The code already sent stays valid; answering differently would reveal the account
+        if (user.passwordReset && user.passwordReset.sentAt > subMinutes(new Date(), RESET_CODE_RESEND_MINUTES)) {
+            return sentMessage;
+        }
+
+        const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+        const now = new Date();
+        await UserModel.updateOne({ _id: user._id }, {
+            $set: {
+                passwordReset: { codeHash: await bcrypt.hash(code, 10), expiresAt: addMinutes(now, RESET_CODE_MINUTES), attempts: 0, sentAt: now },
+            },
+        });
+        if (!await sendPasswordResetCode(user.phone, code, RESET_CODE_MINUTES)) {
+            console.error(`Password reset code for user ${user.id} could not be sent over WhatsApp.`);
+        }
+        return sentMessage;
+    } catch (error) {
+        console.error('Error requesting password reset:', error);
+        return { success: false, message: 'No se pudo enviar el código. Revisa la conexión a la base de datos.' };
+    }
+}
+
+/**
+ * Sets a new password with the code from `requestPasswordReset` and closes every session
+ * of the account. Wrong codes count toward the cédula's login lockout.
+ */
+export async function resetPasswordWithCode(formData: { cedula: string; code: string; newPassword: string }) {
+    const validatedPassword = passwordSchema.safeParse(formData.newPassword);
+    if (!validatedPassword.success) {
+        return { success: false, message: validatedPassword.error.issues[0].message };
+    }
+    const invalidCode = { success: false, message: 'El código no es válido o ya venció. Pide uno nuevo.' };
+
     try {
         await connectDB();
+        const cedula = formData.cedula?.trim() ?? '';
+        const client = await getLoginClient();
+        if (await isLockedOut(cedula, client)) {
+            return { success: false, message: `Demasiados intentos fallidos. Espera ${LOCKOUT_MINUTES} minutos e inténtalo de nuevo.` };
+        }
+
+        // The attempt is claimed before comparing, so parallel guesses cannot go past the limit
+        const user = await UserModel.findOneAndUpdate(
+            {
+                cedula,
+                accountStatus: { $ne: 'suspended' },
+                'passwordReset.expiresAt': { $gt: new Date() },
+                'passwordReset.attempts': { $lt: RESET_CODE_MAX_ATTEMPTS },
+            },
+            { $inc: { 'passwordReset.attempts': 1 } },
+            { new: true }
+        ).select('+password +passwordHistory +passwordReset');
+        if (!user?.passwordReset || !await bcrypt.compare(formData.code?.trim() ?? '', user.passwordReset.codeHash)) {
+            await recordFailedLogin(cedula, client, 'wrong_reset_code');
+            return invalidCode;
+        }
+        const rotated = await rotatePassword(user, validatedPassword.data);
+        if (!rotated) {
+            return { success: false, message: REUSED_PASSWORD_MESSAGE };
+        }
+
+        await UserModel.updateOne({ _id: user._id }, { $set: { ...rotated, mustChangePassword: false }, $unset: { passwordReset: 1 } });
+        await revokeUserSessions(user.id as string);
+        return { success: true, message: 'Contraseña restablecida. Ya puedes iniciar sesión.' };
+    } catch (error) {
+        console.error('Error resetting password:', error);
+        return { success: false, message: 'No se pudo restablecer la contraseña. Revisa la conexión a la base de datos.' };
+    }
+}
+
+/**
+ * Gives a user one of the built-in roles or a custom role, identified by its id.
+ * A custom role also sets `role` to its base role, which decides whether the
+ * user is treated as a courier. Nobody may change their own role.
+ */
+export async function assignUserRole(userId: string, roleId: string) {
+    try {
+        const authSession = await authorize('assignUserRole');
+        if (authSession.userId === userId) {
+            return { success: false, message: 'No puedes cambiar tu propio rol.' };
+        }
+        await connectDB();
+
+        let update: { role: Role; customRole: string | null };
+        if (BUILT_IN_ROLES.includes(roleId as Role)) {
+            update = { role: roleId as Role, customRole: null };
+        } else {
+            const customRole = mongoose.isValidObjectId(roleId) ? await CustomRoleModel.findById(roleId) : null;
+            if (!customRole) {
+                return { success: false, message: 'El rol no existe.' };
+            }
+            update = { role: customRole.baseRole, customRole: customRole.id as string };
+        }
+
+        const user = await UserModel.findByIdAndUpdate(userId, { $set: update }, { new: true }).populate('customRole');
+        if (!user) {
+            return { success: false, message: 'Usuario no encontrado.' };
+        }
+        // The user signs in again so the pages they have open match the new role
+        await revokeUserSessions(userId);
+
+        revalidatePath('/dashboard/agentes');
+        revalidatePath('/dashboard/domiciliarios');
+        revalidatePath('/dashboard/configuracion');
+        return { success: true, message: `Rol de ${user.name} actualizado.`, user: toPlainObject(user) };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error assigning role:', error);
+        return { success: false, message: 'No se pudo cambiar el rol.' };
+    }
+}
+
+/**
+ * Suspends or reactivates an account. A suspended user cannot sign in and their
+ * open sessions are revoked. A courier with orders on the road has to finish or
+ * hand them back first.
+ */
+export async function setUserSuspended(userId: string, suspended: boolean) {
+    try {
+        const authSession = await authorize('setUserSuspended');
+        if (authSession.userId === userId) {
+            return { success: false, message: 'No puedes suspender tu propia cuenta.' };
+        }
+        await connectDB();
+
+        const target = await UserModel.findById(userId).select('role');
+        if (!target) {
+            return { success: false, message: 'Usuario no encontrado.' };
+        }
+        if (!canManageUser(authSession, { id: target.id as string, role: target.role })) {
+            return { success: false, message: 'No tienes permiso para suspender este usuario.' };
+        }
+        if (suspended && target.role === 'delivery' && await OrderModel.exists({ assignedTo: userId, status: { $in: ['assigned', 'in_transit'] } })) {
+            return { success: false, message: 'El domiciliario tiene pedidos asignados. Reasígnalos antes de suspenderlo.' };
+        }
+
+        const update = suspended
+            ? { $set: { accountStatus: 'suspended', suspendedAt: new Date(), status: 'offline' }, $unset: { currentLocation: 1 } }
+            : { $set: { accountStatus: 'active' }, $unset: { suspendedAt: 1 } };
+        const user = await UserModel.findByIdAndUpdate(userId, update, { new: true }).populate('customRole');
+        if (!user) {
+            return { success: false, message: 'Usuario no encontrado.' };
+        }
+        if (suspended) await revokeUserSessions(userId);
+
+        revalidatePath('/dashboard/agentes');
+        revalidatePath('/dashboard/domiciliarios');
+        revalidatePath('/dashboard/configuracion');
+        return {
+            success: true,
+            message: suspended ? `La cuenta de ${user.name} quedó suspendida.` : `La cuenta de ${user.name} está activa de nuevo.`,
+            user: toPlainObject(user),
+        };
+    } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error changing account status:', error);
+        return { success: false, message: 'No se pudo cambiar el estado de la cuenta.' };
+    }
+}
+
+/** The most recent rejected logins, newest first, with the account name when the cédula exists. */
+export async function getRecentFailedLogins(limit = 100): Promise<FailedLogin[]> {
+    try {
+        await authorize('getRecentFailedLogins');
+        await connectDB();
+        const attempts = await FailedLoginModel.find({}).sort({ attemptedAt: -1 }).limit(limit).lean();
+        const users = await UserModel.find({ cedula: { $in: [...new Set(attempts.map(attempt => attempt.cedula))] } }).select('cedula name').lean();
+        const namesByCedula = new Map(users.map(user => [user.cedula, user.name]));
+
+        return attempts.map(attempt => ({
+            id: attempt._id.toString(),
+            cedula: attempt.cedula,
+            userName: namesByCedula.get(attempt.cedula),
+            ip: attempt.ip,
+            userAgent: attempt.userAgent,
+            reason: attempt.reason,
+            attemptedAt: attempt.attemptedAt.toISOString(),
+        }));
+    } catch (error) {
+        console.error('Error fetching failed logins:', error);
+        return [];
+    }
+}
+
+/** Stores the logged-in courier's GPS fix. */
+export async function updateUserLocation(location: { lat: number, lng: number, bearing: number }) {
+    try {
+        const { userId } = await authorize('updateUserLocation');
+        await connectDB();
         
         // Find the user to check their current status
         const user = await UserModel.findById(userId);
@@ -273,18 +661,42 @@ export async function updateUserLocation(userId: string, location: { lat: number
                 status: 'in_route', // Ensure status remains in_route
             }
         });
+
+        // currentLocation only holds the latest fix, the pings keep the whole path
+        const { locationRetentionDays } = await readPharmacySettings();
+        const recordedAt = new Date();
+        await LocationPingModel.create({
+            deliveryPerson: userId,
+            lat: location.lat,
+            lng: location.lng,
+            bearing: location.bearing,
+            recordedAt,
+            expiresAt: addDays(recordedAt, locationRetentionDays || 30),
+        });
+
+        publishDispatchEvent({
+            type: 'courier.location',
+            deliveryPersonId: userId,
+            location: { lat: location.lat, lng: location.lng },
+            bearing: location.bearing,
+        });
         revalidatePath('/dashboard');
         revalidatePath('/dashboard/rutas');
         revalidatePath('/dashboard/domiciliarios');
         return { success: true };
     } catch (error) {
-        console.error(`Error updating location for user ${userId}:`, error);
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
+        console.error('Error updating courier location:', error);
         return { success: false, message: 'Could not update location.' };
     }
 }
 
 export async function updateUserStatus(userId: string, status: DeliveryStatus) {
     try {
+        const authSession = await authorize('updateUserStatus');
+        requireSelfOrPermission(authSession, 'couriers.manage', userId);
         await connectDB();
         const updatePayload: { status: DeliveryStatus, currentLocation?: any } = { status };
 
@@ -293,7 +705,7 @@ export async function updateUserStatus(userId: string, status: DeliveryStatus) {
             updatePayload.currentLocation = undefined;
         }
 
-        const user = await UserModel.findByIdAndUpdate(userId, { $set: updatePayload }, { new: true });
+        const user = await UserModel.findByIdAndUpdate(userId, { $set: updatePayload }, { new: true }).populate('customRole');
         
         if (!user) {
             return { success: false, message: 'Usuario no encontrado.' };
@@ -306,6 +718,9 @@ export async function updateUserStatus(userId: string, status: DeliveryStatus) {
         
         return { success: true, user: toPlainObject(user) };
     } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return { success: false, message: error.message };
+        }
         console.error(`Error updating status for user ${userId}:`, error);
         return { success: false, message: `No se pudo actualizar el estado a ${status}.` };
     }
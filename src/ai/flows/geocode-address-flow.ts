@@ -1,6 +1,8 @@
 'use server';
 /**
- * @fileOverview A flow for geocoding addresses using OpenRouteService API.
+ * @fileOverview A flow for geocoding addresses through the configured geocoder provider,
+ * with a persistent cache so each address is only looked up once. Gazetteer results are
+ * neighbourhood centres rather than the address itself, so they are not cached.
  *
  * - geocodeAddress - A function that converts a street address into geographic coordinates.
  * - GeocodeAddressInput - The input type for the geocodeAddress function.
@@ -8,6 +10,12 @@
  */
 
 import { z } from 'zod';
+import connectDB from '@/lib/mongoose';
+import GeocodeCacheModel, { type GeocoderName } from '@/models/geocode-cache-model';
+import { GEOCODERS } from '@/lib/geocoders';
+import { normalizeAddress, parseAddress, geocodingQuery } from '@/lib/address';
+import { readPharmacySettings } from '@/lib/pharmacy-settings';
+import { authorize } from '@/lib/authorization';
 
 const GeocodeAddressInputSchema = z.object({
   address: z.string().describe('The full street address to geocode, e.g., "Carrera 15 # 100-50, Bogotá, Colombia".'),
@@ -21,49 +29,39 @@ const GeocodeAddressOutputSchema = z.object({
 export type GeocodeAddressOutput = z.infer<typeof GeocodeAddressOutputSchema>;
 
 export async function geocodeAddress(input: GeocodeAddressInput): Promise<GeocodeAddressOutput> {
-  const apiKey = process.env.OPENROUTESERVICE_API_KEY;
-  if (!apiKey || apiKey === 'tu_clave_de_api') {
-    throw new Error("OpenRouteService API key is not configured in .env file.");
-  }
-
-  const url = new URL('https://api.openrouteservice.org/geocode/search');
-  url.searchParams.append('text', input.address);
-  // Focus search around Ocaña to improve results
-  url.searchParams.append('focus.point.lon', '-73.358425'); 
-  url.searchParams.append('focus.point.lat', '8.250876');
-  // Add a boundary to limit the search area to roughly the region of Ocaña
-  url.searchParams.append('boundary.country', 'COL');
-  url.searchParams.append('layers', 'address,street');
-
+  await authorize('geocodeAddress');
+  // Variations of the same address share one cache entry and one lookup
+  const query = geocodingQuery(parseAddress(input.address));
+  const normalizedAddress = normalizeAddress(query);
 
   try {
-    const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-            'Authorization': apiKey,
-            'Content-Type': 'application/json'
-        }
-    });
-    
-    if (response.status === 403) {
-      throw new Error("OpenRouteService API error: Forbidden. Check if the API key is valid or has enough credits.");
-    }
-    
-    const data = await response.json();
+    await connectDB();
 
-    if (!response.ok) {
-      const errorDetails = data?.error?.message || response.statusText;
-      throw new Error(`OpenRouteService API error: ${errorDetails}`);
+    const cached = await GeocodeCacheModel.findOneAndUpdate({ normalizedAddress }, { $inc: { hits: 1 } }, { new: true });
+    if (cached) {
+      return { lat: cached.lat, lng: cached.lng };
     }
 
-    if (data.features && data.features.length > 0) {
-      const [lng, lat] = data.features[0].geometry.coordinates;
-      return { lat, lng };
-    } else {
+    // The provider configured for the pharmacy is asked for results near the pharmacy
+    const settings = await readPharmacySettings();
+    const provider: GeocoderName = settings.geocoder || 'openrouteservice';
+    const coordinates = await GEOCODERS[provider].geocode(query, { lat: settings.lat, lng: settings.lng });
+
+    if (!coordinates) {
       throw new Error(`Geocoding failed for address: ${input.address}. No results found.`);
     }
+
+    if (provider !== 'gazetteer') {
+      await GeocodeCacheModel.updateOne(
+        { normalizedAddress },
+        { $setOnInsert: { normalizedAddress, address: query, ...coordinates, provider } },
+        { upsert: true }
+      );
+    }
+
+    return coordinates;
   } catch (error: any) {
-    console.error("Error during OpenRouteService geocoding request:", error);
+    console.error("Error during geocoding request:", error);
     throw new Error(`Geocoding failed: ${error.message}`);
   }
 }
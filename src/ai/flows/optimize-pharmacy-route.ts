@@ -1,30 +1,55 @@
 
 'use server';
 /**
- * @fileOverview An AI flow for optimizing pharmacy delivery routes using OpenRouteService API.
+ * @fileOverview An AI flow for optimizing pharmacy delivery routes using OpenRouteService API,
+ * with a local heuristic solver for when the API is unavailable or not wanted.
  *
- * - optimizePharmacyRoute - A function that calculates the most efficient route for a list of orders.
+ * - optimizePharmacyRoute - A function that splits a list of orders between the available couriers and calculates the most efficient route for each,
+ *   honouring delivery time windows and priorities and reporting the orders that do not fit.
  * - OptimizeRouteInput - The input type for the optimizePharmacyRoute function.
  * - OptimizeRouteOutput - The return type for the optimizePharmacyRoute function.
  */
 
 import { z } from 'zod';
 import { geocodeAddress } from './geocode-address-flow';
+import { solveRoutesLocally, describeUnassignedOrder, type LocatedOrderStop } from '@/lib/local-route-optimizer';
+import { authorize } from '@/lib/authorization';
 
 const AddressSchema = z.string().describe('The full address, e.g., "Street Name #123, City, State, Country".');
 
 const OrderStopSchema = z.object({
   orderId: z.string().describe('The unique identifier for the order.'),
   address: AddressSchema.describe('The delivery address for this order.'),
+  coords: z.object({
+    lat: z.number(),
+    lng: z.number(),
+  }).optional().describe('The stored coordinates of the address. Required by the local solver.'),
+  timeWindow: z.object({
+    start: z.string(),
+    end: z.string(),
+  }).optional().describe('ISO dates between which the customer wants to receive the order.'),
+  priority: z.enum(['normal', 'high', 'urgent']).optional().describe('Urgent orders are kept over others when not every order fits.'),
 });
 export type OrderStop = z.infer<typeof OrderStopSchema>;
 
+const VehicleSchema = z.object({
+  id: z.string().describe('The delivery person who drives this vehicle.'),
+  start: z.object({
+    lat: z.number(),
+    lng: z.number(),
+  }).describe('Where the vehicle starts: the pharmacy or the courier\'s current location.'),
+  capacity: z.number().int().positive().describe('The maximum number of orders this vehicle can carry.'),
+});
+export type Vehicle = z.infer<typeof VehicleSchema>;
+
 const OptimizeRouteInputSchema = z.object({
   startCoords: z.object({
     lat: z.number(),
     lng: z.number(),
   }).describe("The starting coordinates (latitude and longitude) for the route."),
   orders: z.array(OrderStopSchema).describe('A list of orders that need to be delivered.'),
+  vehicles: z.array(VehicleSchema).optional().describe('The couriers to split the orders between. When omitted, a single vehicle starts at startCoords.'),
+  solver: z.enum(['openrouteservice', 'local']).optional().describe('Which solver to use. OpenRouteService falls back to the local solver when it fails.'),
 });
 export type OptimizeRouteInput = z.infer<typeof OptimizeRouteInputSchema>;
 
@@ -33,46 +58,103 @@ const OptimizedRouteStopSchema = z.object({
     stopNumber: z.number().describe('The sequential position of this stop in the optimized route (starting from 1).'),
 });
 
-const OptimizeRouteOutputSchema = z.object({
+const UnassignedOrderSchema = z.object({
+  orderId: z.string().describe('The ID of the order that could not be placed on any route.'),
+  reason: z.string().describe('Why the order was left out, shown to the dispatcher.'),
+});
+export type UnassignedOrder = z.infer<typeof UnassignedOrderSchema>;
+
+const ProposedRouteSchema = z.object({
+  vehicleId: z.string().optional().describe('The vehicle (delivery person) this route is proposed for. Empty for the single-vehicle case.'),
   optimizedRoute: z.array(OptimizedRouteStopSchema).describe('An ordered list of stops representing the most efficient route.'),
   estimatedTime: z.string().describe('Estimated total travel time for the route, in a human-readable format (e.g., "45 minutes").'),
   estimatedDistance: z.string().describe('Estimated total travel distance for the route, in a human-readable format (e.g., "15 km").'),
   encodedPolyline: z.string().describe('The encoded polyline string for the entire optimized route path.'),
+  distanceMeters: z.number().describe('Total travel distance for the route, in meters.'),
+  durationSeconds: z.number().describe('Total travel time for the route, including service time at each stop, in seconds.'),
+});
+export type ProposedRoute = z.infer<typeof ProposedRouteSchema>;
+
+const OptimizeRouteOutputSchema = z.object({
+  routes: z.array(ProposedRouteSchema).describe('One route per vehicle that received at least one order.'),
+  unassigned: z.array(UnassignedOrderSchema).describe('Orders that could not be geocoded or did not fit in any vehicle\'s capacity or time window.'),
+  solver: z.enum(['openrouteservice', 'local']).describe('The solver that produced the plan. Local plans use straight-line distances.'),
 });
 export type OptimizeRouteOutput = z.infer<typeof OptimizeRouteOutputSchema>;
 
 
+// The optimization API favours jobs with a higher priority (0-100) when not all of them can be served
+const PRIORITY_WEIGHTS: Record<NonNullable<OrderStop['priority']>, number> = {
+  normal: 0,
+  high: 50,
+  urgent: 100,
+};
+
+// Vehicles are available for the rest of the working day from the moment the plan is made
+const PLANNING_HORIZON_SECONDS = 12 * 60 * 60;
+
+const toEpochSeconds = (isoDate: string) => Math.floor(new Date(isoDate).getTime() / 1000);
+
 export async function optimizePharmacyRoute(input: OptimizeRouteInput): Promise<OptimizeRouteOutput> {
+  await authorize('optimizePharmacyRoute');
+  if (input.orders.length === 0) {
+      return { routes: [], unassigned: [], solver: input.solver ?? 'openrouteservice' };
+  }
+
+  const vehicles: Vehicle[] = input.vehicles && input.vehicles.length > 0
+    ? input.vehicles
+    : [{ id: '', start: input.startCoords, capacity: input.orders.length }];
+
+  if (input.solver === 'local') {
+    return optimizeLocally(input.orders, vehicles);
+  }
+
+  try {
+    return await optimizeWithOpenRouteService(input.orders, vehicles);
+  } catch (error) {
+    // A missing key, exhausted credits or a network failure must not stop dispatch
+    console.error("OpenRouteService optimization failed, using the local solver instead:", error);
+    return optimizeLocally(input.orders, vehicles);
+  }
+}
+
+function optimizeLocally(orders: OrderStop[], vehicles: Vehicle[]): OptimizeRouteOutput {
+  const located = orders.filter((order): order is LocatedOrderStop => !!order.coords);
+  const withoutCoords = orders
+    .filter(order => !order.coords)
+    .map(order => ({ orderId: order.orderId, reason: 'El pedido no tiene coordenadas guardadas para calcular la ruta sin conexión.' }));
+
+  const { routes, unassigned } = solveRoutesLocally(located, vehicles);
+  return { routes, unassigned: [...withoutCoords, ...unassigned], solver: 'local' };
+}
+
+async function optimizeWithOpenRouteService(orders: OrderStop[], vehicles: Vehicle[]): Promise<OptimizeRouteOutput> {
   const apiKey = process.env.OPENROUTESERVICE_API_KEY;
   if (!apiKey || apiKey === 'tu_clave_de_api') {
     throw new Error("OpenRouteService API key is not configured in .env file.");
   }
-  
-  if (input.orders.length === 0) {
-      return {
-          optimizedRoute: [],
-          estimatedTime: "0 minutes",
-          estimatedDistance: "0 km",
-          encodedPolyline: "",
-      };
-  }
 
   try {
-    // 1. Geocode all order addresses to get coordinates
-    const startCoords = input.startCoords; // Use coordinates directly
-    const orderCoordsPromises = input.orders.map(async (order) => ({
-      orderId: order.orderId,
-      coords: await geocodeAddress({ address: order.address })
+    // 1. Use the stored coordinates, geocoding only the addresses that have none. An address
+    // that cannot be found only leaves its own order out of the plan.
+    const orderCoordsPromises = orders.map(async (order) => ({
+      ...order,
+      coords: order.coords ?? await geocodeAddress({ address: order.address }).catch(() => undefined)
     }));
     const orderCoords = await Promise.all(orderCoordsPromises);
     
     // Ensure we have valid coordinates before proceeding
-    const validOrderCoords = orderCoords.filter(order => order.coords && typeof order.coords.lat === 'number' && typeof order.coords.lng === 'number');
+    const validOrderCoords = orderCoords.filter((order): order is LocatedOrderStop => !!order.coords && typeof order.coords.lat === 'number' && typeof order.coords.lng === 'number');
+    const unassigned: UnassignedOrder[] = orderCoords
+      .filter(order => !validOrderCoords.some(valid => valid.orderId === order.orderId))
+      .map(order => ({ orderId: order.orderId, reason: 'No se pudo ubicar la dirección en el mapa.' }));
 
     if (validOrderCoords.length === 0) {
-        throw new Error("No valid coordinates could be found for any of the orders.");
+        return { routes: [], unassigned, solver: 'openrouteservice' };
     }
 
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
 
     // 2. Prepare the request for OpenRouteService Optimization API
     const requestBody = {
@@ -80,14 +162,21 @@ export async function optimizePharmacyRoute(input: OptimizeRouteInput): Promise<
         id: index, // Use index as job ID
         location: [order.coords.lng, order.coords.lat],
         service: 300, // Service time at location in seconds (e.g., 5 minutes)
+        delivery: [1], // Every order takes one slot of the vehicle's capacity
+        priority: PRIORITY_WEIGHTS[order.priority ?? 'normal'],
+        ...(order.timeWindow && {
+          time_windows: [[toEpochSeconds(order.timeWindow.start), toEpochSeconds(order.timeWindow.end)]],
+        }),
       })),
-      vehicles: [{
-        id: 1,
+      vehicles: vehicles.map((vehicle, index) => ({
+        id: index, // Use index as vehicle ID
         profile: 'driving-car', // or 'cycling-regular', 'foot-walking'
-        start: [startCoords.lng, startCoords.lat],
+        start: [vehicle.start.lng, vehicle.start.lat],
         // The 'end' property is intentionally omitted to finish at the last stop
-        capacity: [100], // Example capacity, can be adjusted
-      }],
+        capacity: [vehicle.capacity],
+        // Time windows are absolute, so vehicles must be placed on the same clock
+        time_window: [nowSeconds, nowSeconds + PLANNING_HORIZON_SECONDS],
+      })),
       options: {
         g: true // To get the geometry
       }
@@ -116,15 +205,22 @@ export async function optimizePharmacyRoute(input: OptimizeRouteInput): Promise<
        throw new Error(`OpenRouteService API error: ${errorDetails}`);
     }
     
-    // The optimization endpoint returns 'routes' which is an array, but we only have one vehicle, so we take the first.
-    if (data.routes && data.routes.length > 0) {
-        const route = data.routes[0];
-        
+    // Jobs that did not fit in any vehicle's capacity or time window are reported instead of failing the whole plan
+    for (const job of data.unassigned ?? []) {
+        const order = validOrderCoords[job.id];
+        if (order) {
+            unassigned.push({ orderId: order.orderId, reason: describeUnassignedOrder(order) });
+        }
+    }
+
+    // The optimization endpoint returns one entry in 'routes' for every vehicle that was given at least one job.
+    const routes = (data.routes ?? []).map((route: any) => {
+        // The job id comes back as `id` on each step (older API versions used `job`)
+        const jobIndexOf = (step: any): number => step.id ?? step.job;
         const optimizedRouteStops = route.steps
-          .filter((step: any) => step && step.type === 'job' && validOrderCoords[step.job_id])
+          .filter((step: any) => step && step.type === 'job' && validOrderCoords[jobIndexOf(step)])
           .map((step: any, index: number) => {
-            const originalOrderIndex = step.job_id;
-            const originalOrder = validOrderCoords[originalOrderIndex];
+            const originalOrder = validOrderCoords[jobIndexOf(step)];
             return {
               orderId: originalOrder.orderId,
               stopNumber: index + 1,
@@ -134,25 +230,24 @@ export async function optimizePharmacyRoute(input: OptimizeRouteInput): Promise<
         // Correctly access data from the route object itself, not a summary
         const totalDistanceMeters = route.distance;
         const totalDurationSeconds = route.duration;
-        const encodedPolyline = route.geometry;
-        
-        const estimatedDistance = `${(totalDistanceMeters / 1000).toFixed(1)} km`;
-        const estimatedTime = `${Math.round(totalDurationSeconds / 60)} minutes`;
         
         return {
+            vehicleId: vehicles[route.vehicle]?.id || undefined,
             optimizedRoute: optimizedRouteStops,
-            estimatedDistance,
-            estimatedTime,
-            encodedPolyline,
+            estimatedDistance: `${(totalDistanceMeters / 1000).toFixed(1)} km`,
+            estimatedTime: `${Math.round(totalDurationSeconds / 60)} minutes`,
+            encodedPolyline: route.geometry,
+            distanceMeters: totalDistanceMeters,
+            durationSeconds: totalDurationSeconds,
         };
-    } else if (data.unassigned && data.unassigned.length > 0) {
-        const unassignedReason = data.unassigned[0].reason;
-        throw new Error(`Could not optimize route. Some orders were unassigned. Reason: ${unassignedReason}`);
-    }
-    else {
+    });
+
+    if (routes.length === 0 && unassigned.length === 0) {
         throw new Error("Could not optimize route. The API response did not contain a valid route.");
     }
 
+    return { routes, unassigned, solver: 'openrouteservice' };
+
   } catch(error: any) {
     console.error("Error during route optimization request:", error);
     throw new Error(`Route optimization failed: ${error.message}`);
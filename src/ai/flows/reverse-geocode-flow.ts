@@ -8,6 +8,7 @@
  */
 
 import { z } from 'zod';
+import { authorize } from '@/lib/authorization';
 
 const ReverseGeocodeInputSchema = z.object({
   lat: z.number().describe('The latitude of the location.'),
@@ -21,6 +22,7 @@ const ReverseGeocodeOutputSchema = z.object({
 export type ReverseGeocodeOutput = z.infer<typeof ReverseGeocodeOutputSchema>;
 
 export async function reverseGeocode(input: ReverseGeocodeInput): Promise<ReverseGeocodeOutput> {
+  await authorize('reverseGeocode');
   const apiKey = process.env.OPENROUTESERVICE_API_KEY;
   if (!apiKey || apiKey === 'tu_clave_de_api') {
     throw new Error("OpenRouteService API key is not configured in .env file.");
@@ -0,0 +1,89 @@
+import { loadSession, requireSession, AuthorizationError, type AuthSession } from '@/lib/authorization';
+import { hasPermission } from '@/lib/permissions';
+import { subscribeToDispatchEvents } from '@/lib/dispatch-events';
+import type { DispatchEvent } from '@/types';
+import { NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+// Proxies close idle connections, so a comment line is sent every so often. The
+// session is checked again on each one, so a revoked or suspended user stops listening.
+const KEEP_ALIVE_INTERVAL_MS = 25000;
+
+// Without orders.view a user only hears about their own orders; courier positions need couriers.view
+function isVisibleTo(event: DispatchEvent, session: AuthSession) {
+  if (event.type === 'courier.location') return hasPermission(session, 'couriers.view');
+  if (hasPermission(session, 'orders.view')) return true;
+  return event.order.assignedTo?.id === session.userId || (event.type === 'order.updated' && event.previousDeliveryPersonId === session.userId);
+}
+
+export async function GET(request: Request) {
+  let session: AuthSession;
+  try {
+    session = await requireSession();
+  } catch {
+    return NextResponse.json({ error: 'No active session' }, { status: 401 });
+  }
+  if (session.mustChangePassword) {
+    return NextResponse.json({ error: 'Password change required' }, { status: 403 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup(); // The client went away between two events
+        }
+      };
+
+      const unsubscribe = subscribeToDispatchEvents(event => {
+        if (isVisibleTo(event, session)) {
+          send(`data: ${JSON.stringify(event)}\n\n`);
+        }
+      });
+      const close = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      const keepAlive = setInterval(async () => {
+        try {
+          session = await loadSession(session.sessionId, session.userId);
+        } catch (error) {
+          if (error instanceof AuthorizationError) return close();
+          // A database hiccup is not a reason to drop the stream; the next tick checks again
+          console.error('API Events session check error:', error);
+        }
+        if (session.mustChangePassword) return close();
+        send(': keep-alive\n\n');
+      }, KEEP_ALIVE_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', close);
+
+      send(': connected\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,58 @@
+import { requireSession, type AuthSession } from '@/lib/authorization';
+import { hasPermission } from '@/lib/permissions';
+import { getFileStorage, isSafeStorageKey } from '@/lib/storage';
+import connectDB from '@/lib/mongoose';
+import OrderModel from '@/models/order-model';
+import mongoose from 'mongoose';
+import { NextResponse } from 'next/server';
+
+/**
+ * Uploads are stored as `<folder>/<orderId>/...`, so a file is visible to whoever may
+ * see its order: orders.view, the courier it is assigned to, or transfers.verify for receipts.
+ */
+async function canViewFile(key: string, session: AuthSession) {
+  if (hasPermission(session, 'orders.view')) return true;
+  const [folder, orderId] = key.split('/');
+  if (folder === 'payment-receipts' && hasPermission(session, 'transfers.verify')) return true;
+  if (!mongoose.isValidObjectId(orderId)) return false;
+
+  await connectDB();
+  const order = await OrderModel.findById(orderId).select('assignedTo').lean();
+  return order?.assignedTo?.toString() === session.userId;
+}
+
+export async function GET(request: Request, { params }: { params: Promise<{ key: string[] }> }) {
+  let session: AuthSession;
+  try {
+    session = await requireSession();
+  } catch {
+    return NextResponse.json({ error: 'No active session' }, { status: 401 });
+  }
+  if (session.mustChangePassword) {
+    return NextResponse.json({ error: 'Password change required' }, { status: 403 });
+  }
+
+  try {
+    const key = (await params).key.join('/');
+    // Files of orders the user may not see answer the same as missing ones
+    if (!isSafeStorageKey(key) || !await canViewFile(key, session)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const file = await getFileStorage().read(key);
+    if (!file) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return new Response(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        // Every upload gets a new key, so a URL always points to the same file
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('API Files error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { loginUser } from '@/actions/user-actions';
-import { createSession } from '@/lib/auth';
+import { openUserSession } from '@/lib/session-store';
+import { getLoginClient } from '@/lib/login-throttle';
 import { NextResponse } from 'next/server';
 
 export async function POST(request: Request) {
@@ -8,8 +9,8 @@ export async function POST(request: Request) {
     const result = await loginUser({ cedula, password });
 
     if (result.success && result.user) {
-      // Create a session for the user
-      await createSession(result.user.id, result.user.role, result.user.name, result.user.avatarUrl || '');
+      // Store a session for the user and point the cookie at it
+      await openUserSession(result.user, await getLoginClient());
 
       return NextResponse.json({ success: true, user: result.user });
     } else {
@@ -1,12 +1,22 @@
-import { deleteSession } from '@/lib/auth';
+import { closeCurrentSession } from '@/lib/session-store';
 import { NextResponse } from 'next/server';
 
 export async function POST() {
   try {
-    await deleteSession();
+    await closeCurrentSession();
     return NextResponse.json({ success: true, message: 'Sesión cerrada exitosamente.' });
   } catch (error) {
     console.error('API Logout error:', error);
     return NextResponse.json({ success: false, message: 'Error al cerrar sesión.' }, { status: 500 });
   }
 }
+
+// The dashboard sends users here when their session was revoked, so the stale cookie is dropped
+export async function GET(request: Request) {
+  try {
+    await closeCurrentSession();
+  } catch (error) {
+    console.error('API Logout error:', error);
+  }
+  return NextResponse.redirect(new URL('/', request.url));
+}
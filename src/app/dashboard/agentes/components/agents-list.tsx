@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import type { User } from '@/types';
+import { hasPermission } from '@/lib/permissions';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
@@ -35,7 +36,7 @@ export function AgentsList({ initialAgents, currentUser }: AgentsListProps) {
     return (
         <>
             <div className="text-right mb-4">
-                 {currentUser.role === 'admin' && (
+                 {hasPermission(currentUser, 'users.manage') && (
                     <Button onClick={() => setCreateDialogOpen(true)}>
                         <PlusCircle className="mr-2" />
                         Añadir Agente
@@ -6,6 +6,8 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge, type BadgeProps } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ProofOfDeliveryDetails } from '../../pedidos/components/proof-of-delivery-details';
 import type { Order, Client, OrderStatus } from '@/types';
 import { getOrdersByClientId } from '@/actions/order-actions';
 import { formatDistanceToNow } from 'date-fns';
@@ -57,7 +59,7 @@ export function ClientHistoryDialog({ open, onOpenChange, client }: ClientHistor
 
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
-            <DialogContent className="sm:max-w-xl">
+            <DialogContent className="sm:max-w-2xl">
                 <DialogHeader>
                     <DialogTitle>Historial de Pedidos de {client.fullName}</DialogTitle>
                     <DialogDescription>
@@ -78,6 +80,7 @@ export function ClientHistoryDialog({ open, onOpenChange, client }: ClientHistor
                                     <TableHead>Pedido</TableHead>
                                     <TableHead>Estado</TableHead>
                                     <TableHead>Fecha</TableHead>
+                                    <TableHead>Recibió</TableHead>
                                     <TableHead className="text-right">Total</TableHead>
                                 </TableRow>
                             </TableHeader>
@@ -87,6 +90,20 @@ export function ClientHistoryDialog({ open, onOpenChange, client }: ClientHistor
                                         <TableCell className="font-medium">#{order.id.slice(-6)}</TableCell>
                                         <TableCell><StatusBadge status={order.status} /></TableCell>
                                         <TableCell>{formatDistanceToNow(new Date(order.createdAt), { addSuffix: true, locale: es })}</TableCell>
+                                        <TableCell>
+                                            {order.proofOfDelivery ? (
+                                                <Popover>
+                                                    <PopoverTrigger asChild>
+                                                        <Button variant="link" className="h-auto p-0">{order.proofOfDelivery.recipientName}</Button>
+                                                    </PopoverTrigger>
+                                                    <PopoverContent className="w-80">
+                                                        <ProofOfDeliveryDetails proof={order.proofOfDelivery} />
+                                                    </PopoverContent>
+                                                </Popover>
+                                            ) : (
+                                                <span className="text-muted-foreground">—</span>
+                                            )}
+                                        </TableCell>
                                         <TableCell className="text-right">{order.total.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}</TableCell>
                                     </TableRow>
                                 ))}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import type { User, Client } from '@/types';
+import { hasPermission } from '@/lib/permissions';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
@@ -47,7 +48,7 @@ export function ClientsList({ initialClients, currentUser }: ClientsListProps) {
     return (
         <>
             <div className="text-right mb-4">
-                {currentUser.role === 'admin' && (
+                {hasPermission(currentUser, 'clients.create') && (
                     <Button onClick={() => setCreateDialogOpen(true)}>
                         <PlusCircle className="mr-2" />
                         Añadir Cliente
@@ -80,32 +81,34 @@ export function ClientsList({ initialClients, currentUser }: ClientsListProps) {
                                     <DropdownMenuContent align="end">
                                         <DropdownMenuLabel>Acciones</DropdownMenuLabel>
                                         <DropdownMenuItem onSelect={() => setViewingHistory(cliente)}>Ver Historial</DropdownMenuItem>
-                                        <DropdownMenuItem onSelect={() => setEditingClient(cliente)}>Editar Cliente</DropdownMenuItem>
-                                        
-                                        <AlertDialog>
-                                            <AlertDialogTrigger asChild>
-                                                 <DropdownMenuItem
-                                                    onSelect={(e) => e.preventDefault()}
-                                                    className="text-destructive"
-                                                >
-                                                    Eliminar
-                                                </DropdownMenuItem>
-                                            </AlertDialogTrigger>
-                                            <AlertDialogContent>
-                                                <AlertDialogHeader>
-                                                <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
-                                                <AlertDialogDescription>
-                                                    Esta acción no se puede deshacer. Esto eliminará permanentemente al cliente
-                                                    y todos sus datos asociados.
-                                                </AlertDialogDescription>
-                                                </AlertDialogHeader>
-                                                <AlertDialogFooter>
-                                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                                                <AlertDialogAction onClick={() => handleDelete(cliente.id)}>Continuar</AlertDialogAction>
-                                                </AlertDialogFooter>
-                                            </AlertDialogContent>
-                                        </AlertDialog>
-
+                                        {hasPermission(currentUser, 'clients.edit') && (
+                                            <DropdownMenuItem onSelect={() => setEditingClient(cliente)}>Editar Cliente</DropdownMenuItem>
+                                        )}
+                                        {hasPermission(currentUser, 'clients.delete') && (
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild>
+                                                     <DropdownMenuItem
+                                                        onSelect={(e) => e.preventDefault()}
+                                                        className="text-destructive"
+                                                    >
+                                                        Eliminar
+                                                    </DropdownMenuItem>
+                                                </AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader>
+                                                    <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
+                                                    <AlertDialogDescription>
+                                                        Esta acción no se puede deshacer. Esto eliminará permanentemente al cliente
+                                                        y todos sus datos asociados.
+                                                    </AlertDialogDescription>
+                                                    </AlertDialogHeader>
+                                                    <AlertDialogFooter>
+                                                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                                    <AlertDialogAction onClick={() => handleDelete(cliente.id)}>Continuar</AlertDialogAction>
+                                                    </AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        )}
                                     </DropdownMenuContent>
                                 </DropdownMenu>
                             </TableCell>
@@ -1,9 +1,11 @@
 
 'use client';
 
+import { useState } from 'react';
 import dynamic from 'next/dynamic';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { RouteInfo } from '@/components/dashboard/map-component';
+import type { RouteInfo, CourierLocation } from '@/components/dashboard/map-component';
+import { useDispatchEvents } from '@/hooks/use-dispatch-events';
 import type { Order, Location } from '@/types';
 
 // Dynamically import the map component with ssr: false
@@ -19,11 +21,20 @@ interface DashboardMapProps {
 }
 
 export function DashboardMap({ pharmacyLocation, routes, pendingOrders }: DashboardMapProps) {
+    const [courierLocations, setCourierLocations] = useState<Record<string, CourierLocation>>({});
+
+    useDispatchEvents(event => {
+        if (event.type === 'courier.location') {
+            setCourierLocations(current => ({ ...current, [event.deliveryPersonId]: { ...event.location, bearing: event.bearing } }));
+        }
+    });
+
     return (
         <MapComponent 
             pharmacyLocation={pharmacyLocation} 
             routes={routes} 
             pendingOrders={pendingOrders}
+            courierLocations={courierLocations}
             className="w-full h-[400px] rounded-lg z-0"
         />
     );
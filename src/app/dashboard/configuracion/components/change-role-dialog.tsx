@@ -1,18 +1,21 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import type { User, Role } from '@/types';
+import { Loader2 } from 'lucide-react';
+import type { User, Role, CustomRole } from '@/types';
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { useToast } from '@/hooks/use-toast';
+import { assignUserRole } from '@/actions/user-actions';
 
 interface ChangeRoleDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
     user: User | null;
-    onRoleChanged: (userId: string, newRole: Role) => void;
+    customRoles: CustomRole[];
+    onRoleChanged: (user: User) => void;
 }
 
 const roles: { id: Role, name: string, description: string }[] = [
@@ -21,27 +24,44 @@ const roles: { id: Role, name: string, description: string }[] = [
     { id: 'delivery', name: 'Domiciliario', description: 'Solo ve sus rutas y cuadre de caja.' },
 ];
 
-export function ChangeRoleDialog({ open, onOpenChange, user, onRoleChanged }: ChangeRoleDialogProps) {
-    const [selectedRole, setSelectedRole] = useState<Role | undefined>(user?.role);
+export function ChangeRoleDialog({ open, onOpenChange, user, customRoles, onRoleChanged }: ChangeRoleDialogProps) {
+    // Built-in roles are selected by name and custom roles by id
+    const [selectedRole, setSelectedRole] = useState<string | undefined>(user?.customRole || user?.role);
+    const [isSaving, setIsSaving] = useState(false);
     const { toast } = useToast();
 
     useEffect(() => {
         if (user) {
-            setSelectedRole(user.role);
+            setSelectedRole(user.customRole || user.role);
         }
     }, [user]);
-    
+
     if (!user) return null;
-    
-    const handleSave = () => {
-        if (selectedRole) {
-            onRoleChanged(user.id, selectedRole);
+
+    const roleOptions = [
+        ...roles,
+        ...customRoles.map(role => ({
+            id: role.id,
+            name: role.name,
+            description: role.description || `Basado en ${roles.find(r => r.id === role.baseRole)?.name}.`,
+        })),
+    ];
+
+    const handleSave = async () => {
+        if (!selectedRole) return;
+        setIsSaving(true);
+        const result = await assignUserRole(user.id, selectedRole);
+        if (result.success && result.user) {
+            onRoleChanged(result.user);
             toast({
                 title: "Rol Actualizado",
-                description: `El rol de ${user.name} ha sido cambiado a ${roles.find(r => r.id === selectedRole)?.name || selectedRole}.`,
+                description: `El rol de ${user.name} ha sido cambiado a ${roleOptions.find(r => r.id === selectedRole)?.name || selectedRole}.`,
             });
             onOpenChange(false);
+        } else {
+            toast({ variant: 'destructive', title: 'Error', description: result.message });
         }
+        setIsSaving(false);
     };
 
     return (
@@ -53,13 +73,13 @@ export function ChangeRoleDialog({ open, onOpenChange, user, onRoleChanged }: Ch
                         Selecciona el nuevo rol para <strong>{user.name}</strong>.
                     </DialogDescription>
                 </DialogHeader>
-                <div className="py-4">
-                    <RadioGroup 
-                        value={selectedRole} 
-                        onValueChange={(value: Role) => setSelectedRole(value)}
+                <div className="py-4 max-h-[60vh] overflow-y-auto">
+                    <RadioGroup
+                        value={selectedRole}
+                        onValueChange={setSelectedRole}
                         className="space-y-2"
                     >
-                        {roles.map((role) => (
+                        {roleOptions.map((role) => (
                              <Label key={role.id} htmlFor={role.id} className="flex items-start gap-4 rounded-lg border p-4 cursor-pointer hover:bg-muted/50 has-[:checked]:bg-muted has-[:checked]:border-primary transition-all">
                                 <RadioGroupItem value={role.id} id={role.id} />
                                 <div className="grid gap-1.5">
@@ -72,7 +92,10 @@ export function ChangeRoleDialog({ open, onOpenChange, user, onRoleChanged }: Ch
                 </div>
                 <DialogFooter>
                     <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
-                    <Button type="button" onClick={handleSave}>Guardar Cambios</Button>
+                    <Button type="button" onClick={handleSave} disabled={isSaving}>
+                        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Guardar Cambios
+                    </Button>
                 </DialogFooter>
             </DialogContent>
         </Dialog>
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from '@/hooks/use-toast';
+import { createCustomRole, updateCustomRole, deleteCustomRole } from '@/actions/role-actions';
+import { COURIER_PERMISSION, PERMISSION_GROUPS, PERMISSION_LABELS, ROLE_PERMISSIONS } from '@/lib/permissions';
+import type { CustomRole, Permission } from '@/types';
+
+const BASE_ROLE_LABELS: Record<CustomRole['baseRole'], string> = {
+    agent: 'Personal de la farmacia',
+    delivery: 'Domiciliario',
+};
+
+interface CustomRolesCardProps {
+    roles: CustomRole[];
+    onRolesChange: (roles: CustomRole[]) => void;
+}
+
+export function CustomRolesCard({ roles, onRolesChange }: CustomRolesCardProps) {
+    const [isEditorOpen, setEditorOpen] = useState(false);
+    const [editingRole, setEditingRole] = useState<CustomRole | null>(null);
+    const [deletingRole, setDeletingRole] = useState<CustomRole | null>(null);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [baseRole, setBaseRole] = useState<CustomRole['baseRole']>('agent');
+    const [permissions, setPermissions] = useState<Permission[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const { toast } = useToast();
+
+    const openEditor = (role: CustomRole | null) => {
+        setEditingRole(role);
+        setName(role?.name ?? '');
+        setDescription(role?.description ?? '');
+        setBaseRole(role?.baseRole ?? 'agent');
+        // A new role starts from the defaults of its base role
+        setPermissions(role?.permissions ?? ROLE_PERMISSIONS.agent);
+        setEditorOpen(true);
+    };
+
+    const handleBaseRoleChange = (value: CustomRole['baseRole']) => {
+        setBaseRole(value);
+        setPermissions(ROLE_PERMISSIONS[value]);
+    };
+
+    const togglePermission = (permission: Permission, checked: boolean) => {
+        setPermissions(prev => checked ? [...prev, permission] : prev.filter(p => p !== permission));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const granted = baseRole === 'delivery' ? permissions : permissions.filter(p => p !== COURIER_PERMISSION);
+        const result = editingRole
+            ? await updateCustomRole(editingRole.id, { name, description, permissions: granted })
+            : await createCustomRole({ name, description, baseRole, permissions: granted });
+        if (result.success && result.role) {
+            const savedRole: CustomRole = result.role;
+            onRolesChange(editingRole
+                ? roles.map(role => (role.id === savedRole.id ? savedRole : role))
+                : [...roles, savedRole].sort((a, b) => a.name.localeCompare(b.name)));
+            toast({ title: 'Rol Guardado', description: result.message });
+            setEditorOpen(false);
+        } else {
+            toast({ variant: 'destructive', title: 'Error al guardar el rol', description: result.message });
+        }
+        setIsSaving(false);
+    };
+
+    const handleConfirmDelete = async () => {
+        if (!deletingRole) return;
+        const result = await deleteCustomRole(deletingRole.id);
+        if (result.success) {
+            onRolesChange(roles.filter(role => role.id !== deletingRole.id));
+            toast({ title: 'Rol Eliminado', description: result.message });
+        } else {
+            toast({ variant: 'destructive', title: 'Error al eliminar', description: result.message });
+        }
+        setDeletingRole(null);
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                    <CardTitle>Roles Personalizados</CardTitle>
+                    <CardDescription>
+                        Define qué puede hacer cada grupo de usuarios, por ejemplo un cajero que solo verifica transferencias y cuadra caja.
+                    </CardDescription>
+                </div>
+                <Button type="button" variant="outline" onClick={() => openEditor(null)}>
+                    <PlusCircle className="mr-2 h-4 w-4" />
+                    Nuevo Rol
+                </Button>
+            </CardHeader>
+            <CardContent>
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Rol</TableHead>
+                            <TableHead>Tipo</TableHead>
+                            <TableHead>Permisos</TableHead>
+                            <TableHead><span className="sr-only">Acciones</span></TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {roles.length > 0 ? roles.map(role => (
+                            <TableRow key={role.id}>
+                                <TableCell>
+                                    <div className="font-medium">{role.name}</div>
+                                    {role.description && <div className="text-xs text-muted-foreground">{role.description}</div>}
+                                </TableCell>
+                                <TableCell><Badge variant="outline">{BASE_ROLE_LABELS[role.baseRole]}</Badge></TableCell>
+                                <TableCell>{role.permissions.length}</TableCell>
+                                <TableCell className="text-right">
+                                    <Button type="button" size="icon" variant="ghost" onClick={() => openEditor(role)}>
+                                        <Pencil className="h-4 w-4" />
+                                        <span className="sr-only">Editar rol</span>
+                                    </Button>
+                                    <Button type="button" size="icon" variant="ghost" onClick={() => setDeletingRole(role)}>
+                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                        <span className="sr-only">Eliminar rol</span>
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        )) : (
+                            <TableRow>
+                                <TableCell colSpan={4} className="h-24 text-center">No hay roles personalizados.</TableCell>
+                            </TableRow>
+                        )}
+                    </TableBody>
+                </Table>
+            </CardContent>
+
+            <Dialog open={isEditorOpen} onOpenChange={setEditorOpen}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>{editingRole ? `Editar ${editingRole.name}` : 'Nuevo Rol'}</DialogTitle>
+                        <DialogDescription>
+                            Los cambios aplican a todos los usuarios con este rol desde su siguiente acción.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+                        <div className="grid sm:grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="role-name">Nombre</Label>
+                                <Input id="role-name" placeholder="Cajero" value={name} onChange={(e) => setName(e.target.value)} />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="role-description">Descripción (opcional)</Label>
+                                <Input id="role-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Tipo de Usuario</Label>
+                            <RadioGroup
+                                value={baseRole}
+                                onValueChange={handleBaseRoleChange}
+                                className="flex gap-6"
+                                disabled={!!editingRole}
+                            >
+                                {(Object.keys(BASE_ROLE_LABELS) as CustomRole['baseRole'][]).map(value => (
+                                    <div key={value} className="flex items-center gap-2">
+                                        <RadioGroupItem value={value} id={`base-role-${value}`} />
+                                        <Label htmlFor={`base-role-${value}`} className="font-normal">{BASE_ROLE_LABELS[value]}</Label>
+                                    </div>
+                                ))}
+                            </RadioGroup>
+                            <p className="text-xs text-muted-foreground">
+                                Los domiciliarios reciben rutas, turnos de caja y rastreo GPS. El tipo no se puede cambiar después de crear el rol.
+                            </p>
+                        </div>
+                        {PERMISSION_GROUPS.map(group => (
+                            <div key={group.label} className="space-y-2">
+                                <p className="text-sm font-semibold">{group.label}</p>
+                                <div className="grid sm:grid-cols-2 gap-2">
+                                    {group.permissions.map(permission => (
+                                        <div key={permission} className="flex items-center gap-2">
+                                            <Checkbox
+                                                id={`permission-${permission}`}
+                                                checked={permissions.includes(permission)}
+                                                onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                                                disabled={permission === COURIER_PERMISSION && baseRole !== 'delivery'}
+                                            />
+                                            <Label htmlFor={`permission-${permission}`} className="font-normal">{PERMISSION_LABELS[permission]}</Label>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => setEditorOpen(false)}>Cancelar</Button>
+                        <Button type="button" onClick={handleSave} disabled={isSaving || name.trim().length < 3}>
+                            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Guardar Rol
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <AlertDialog open={!!deletingRole} onOpenChange={(open) => !open && setDeletingRole(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>¿Eliminar el rol {deletingRole?.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            Solo se puede eliminar un rol que ningún usuario tenga asignado.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Volver</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleConfirmDelete}>Eliminar</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </Card>
+    );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from '@/hooks/use-toast';
+import { updateDeliveryPricing } from '@/actions/pharmacy-settings-actions';
+import { DEFAULT_DELIVERY_PRICING } from '@/lib/delivery-fee';
+import type { PharmacySettings } from '@/models/pharmacy-settings-model';
+
+const formSchema = z.object({
+    baseFee: z.coerce.number().int().min(0, { message: "La tarifa no puede ser negativa." }),
+    perKmFee: z.coerce.number().int().min(0, { message: "La tarifa no puede ser negativa." }),
+    freeDeliveryThreshold: z.coerce.number().int().min(0, { message: "El monto no puede ser negativo." }),
+    nightSurcharge: z.coerce.number().int().min(0, { message: "El recargo no puede ser negativo." }),
+    nightStartHour: z.coerce.number().int().min(0).max(23, { message: "Usa una hora entre 0 y 23." }),
+    nightEndHour: z.coerce.number().int().min(0).max(23, { message: "Usa una hora entre 0 y 23." }),
+});
+
+interface DeliveryPricingFormProps {
+    settings: PharmacySettings;
+    onSaved: (settings: PharmacySettings) => void;
+}
+
+export function DeliveryPricingForm({ settings, onSaved }: DeliveryPricingFormProps) {
+    const { toast } = useToast();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+        defaultValues: DEFAULT_DELIVERY_PRICING,
+    });
+
+    useEffect(() => {
+        form.reset(settings.deliveryPricing ?? DEFAULT_DELIVERY_PRICING);
+    }, [settings, form]);
+
+    const onSubmit = async (values: z.infer<typeof formSchema>) => {
+        const result = await updateDeliveryPricing(values);
+        if (result.success && result.settings) {
+            onSaved(result.settings);
+            toast({ title: "Tarifas Actualizadas", description: result.message });
+        } else {
+            toast({ variant: 'destructive', title: 'Error al guardar', description: result.message });
+        }
+    };
+
+    return (
+        <Card>
+            <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)}>
+                    <CardHeader>
+                        <CardTitle>Tarifas de Domicilio</CardTitle>
+                        <CardDescription>El valor del domicilio se calcula al ubicar la dirección del pedido y se suma al total que paga el cliente. Las zonas con tarifa fija reemplazan la tarifa base y los kilómetros.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="grid sm:grid-cols-2 gap-4">
+                            <FormField
+                                control={form.control}
+                                name="baseFee"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Tarifa Base</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" min={0} step={100} {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="perKmFee"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Valor por Kilómetro</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" min={0} step={100} {...field} />
+                                        </FormControl>
+                                        <FormDescription>En línea recta desde la farmacia.</FormDescription>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="freeDeliveryThreshold"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Domicilio Gratis Desde</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" min={0} step={1000} {...field} />
+                                        </FormControl>
+                                        <FormDescription>Valor de los productos. Deja 0 para no ofrecer domicilio gratis.</FormDescription>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="nightSurcharge"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Recargo Nocturno</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" min={0} step={100} {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="nightStartHour"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Recargo Desde (hora)</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" min={0} max={23} {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="nightEndHour"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Recargo Hasta (hora)</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" min={0} max={23} {...field} />
+                                        </FormControl>
+                                        <FormDescription>Hora de Colombia, de 0 a 23. Ej: de 21 a 6.</FormDescription>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+                    </CardContent>
+                    <CardFooter className="border-t px-6 py-4">
+                        <Button type="submit" disabled={form.formState.isSubmitting}>
+                            {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Guardar Tarifas
+                        </Button>
+                    </CardFooter>
+                </form>
+            </Form>
+        </Card>
+    );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Loader2, Pencil, PenLine, Trash2, Undo2, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { createDeliveryZone, updateDeliveryZone, deleteDeliveryZone } from '@/actions/delivery-zone-actions';
+import { updateOutOfCoveragePolicy } from '@/actions/pharmacy-settings-actions';
+import type { PharmacySettings } from '@/models/pharmacy-settings-model';
+import type { DeliveryZone } from '@/types';
+
+const ZoneMapEditor = dynamic(() => import('./zone-map-editor'), {
+    ssr: false,
+    loading: () => <Skeleton className="w-full h-full min-h-[400px] rounded-lg" />,
+});
+
+const formatCurrency = (amount: number) => amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
+
+type LatLng = { lat: number; lng: number };
+
+interface DeliveryZonesCardProps {
+    settings: PharmacySettings;
+    initialZones: DeliveryZone[];
+    onSettingsSaved: (settings: PharmacySettings) => void;
+}
+
+export function DeliveryZonesCard({ settings, initialZones, onSettingsSaved }: DeliveryZonesCardProps) {
+    const [zones, setZones] = useState(initialZones);
+    const [isDrawing, setIsDrawing] = useState(false);
+    const [draftPoints, setDraftPoints] = useState<LatLng[]>([]);
+    const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+    const [deletingZone, setDeletingZone] = useState<DeliveryZone | null>(null);
+    const [zoneName, setZoneName] = useState('');
+    const [zoneFee, setZoneFee] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const { toast } = useToast();
+
+    const center = { lat: settings.lat || 8.250876, lng: settings.lng || -73.358425 };
+    const isEditingDetails = isDrawing || !!editingZone;
+
+    const resetEditor = () => {
+        setIsDrawing(false);
+        setDraftPoints([]);
+        setEditingZone(null);
+        setZoneName('');
+        setZoneFee('');
+    };
+
+    const handleStartEditing = (zone: DeliveryZone) => {
+        resetEditor();
+        setEditingZone(zone);
+        setZoneName(zone.name);
+        setZoneFee(zone.fee !== undefined ? String(zone.fee) : '');
+    };
+
+    const handleSaveZone = async () => {
+        // An empty fee keeps the zone on the distance-based price
+        const fee = zoneFee.trim() === '' ? undefined : Number(zoneFee);
+        setIsSaving(true);
+        const result = editingZone
+            ? await updateDeliveryZone(editingZone.id, { name: zoneName, fee })
+            : await createDeliveryZone({
+                name: zoneName,
+                fee,
+                polygon: {
+                    type: 'Polygon',
+                    coordinates: [[...draftPoints, draftPoints[0]].map(point => [point.lng, point.lat])],
+                },
+            });
+        if (result.success && result.zone) {
+            const savedZone: DeliveryZone = result.zone;
+            setZones(prev => editingZone
+                ? prev.map(zone => (zone.id === savedZone.id ? savedZone : zone))
+                : [...prev, savedZone].sort((a, b) => a.name.localeCompare(b.name)));
+            toast({ title: 'Zona Guardada', description: result.message });
+            resetEditor();
+        } else {
+            toast({ variant: 'destructive', title: 'Error al guardar la zona', description: result.message });
+        }
+        setIsSaving(false);
+    };
+
+    const handleConfirmDelete = async () => {
+        if (!deletingZone) return;
+        const result = await deleteDeliveryZone(deletingZone.id);
+        if (result.success) {
+            setZones(prev => prev.filter(zone => zone.id !== deletingZone.id));
+            toast({ title: 'Zona Eliminada', description: result.message });
+        } else {
+            toast({ variant: 'destructive', title: 'Error al eliminar', description: result.message });
+        }
+        setDeletingZone(null);
+    };
+
+    const handlePolicyChange = async (block: boolean) => {
+        const result = await updateOutOfCoveragePolicy(block ? 'block' : 'warn');
+        if (result.success && result.settings) {
+            onSettingsSaved(result.settings);
+            toast({ title: 'Cobertura Actualizada', description: result.message });
+        } else {
+            toast({ variant: 'destructive', title: 'Error al guardar', description: result.message });
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Zonas de Cobertura</CardTitle>
+                <CardDescription>
+                    Dibuja en el mapa los barrios y veredas donde entregamos. Cada pedido queda marcado con su zona. Sin zonas dibujadas se acepta cualquier dirección.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                        <Label htmlFor="block-out-of-coverage" className="font-semibold">Bloquear Pedidos Fuera de Cobertura</Label>
+                        <p className="text-sm text-muted-foreground">Si está apagado, el pedido se puede guardar pero el agente ve una advertencia.</p>
+                    </div>
+                    <Switch
+                        id="block-out-of-coverage"
+                        checked={settings.outOfCoveragePolicy === 'block'}
+                        onCheckedChange={handlePolicyChange}
+                    />
+                </div>
+                <div className="grid lg:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                        {isEditingDetails ? (
+                            <div className="space-y-3 rounded-lg border p-4 bg-muted/50">
+                                <p className="text-sm font-medium">
+                                    {editingZone
+                                        ? `Editando ${editingZone.name}`
+                                        : `Haz clic en el mapa para marcar el borde de la zona (${draftPoints.length} ${draftPoints.length === 1 ? 'punto' : 'puntos'}).`}
+                                </p>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="space-y-1">
+                                        <Label htmlFor="zone-name" className="text-xs">Nombre</Label>
+                                        <Input id="zone-name" placeholder="Centro" value={zoneName} onChange={(e) => setZoneName(e.target.value)} />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label htmlFor="zone-fee" className="text-xs">Tarifa Fija (opcional)</Label>
+                                        <Input id="zone-fee" type="number" min={0} step={100} placeholder="Por distancia" value={zoneFee} onChange={(e) => setZoneFee(e.target.value)} />
+                                    </div>
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                    <Button
+                                        type="button"
+                                        size="sm"
+                                        onClick={handleSaveZone}
+                                        disabled={isSaving || zoneName.trim().length < 2 || (!editingZone && draftPoints.length < 3)}
+                                    >
+                                        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                        Guardar Zona
+                                    </Button>
+                                    {isDrawing && (
+                                        <Button type="button" size="sm" variant="outline" onClick={() => setDraftPoints(prev => prev.slice(0, -1))} disabled={draftPoints.length === 0}>
+                                            <Undo2 className="mr-2 h-4 w-4" />
+                                            Deshacer Punto
+                                        </Button>
+                                    )}
+                                    <Button type="button" size="sm" variant="ghost" onClick={resetEditor} disabled={isSaving}>
+                                        <X className="mr-2 h-4 w-4" />
+                                        Cancelar
+                                    </Button>
+                                </div>
+                            </div>
+                        ) : (
+                            <Button type="button" variant="outline" onClick={() => { resetEditor(); setIsDrawing(true); }}>
+                                <PenLine className="mr-2 h-4 w-4" />
+                                Dibujar Zona
+                            </Button>
+                        )}
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Zona</TableHead>
+                                    <TableHead>Tarifa</TableHead>
+                                    <TableHead><span className="sr-only">Acciones</span></TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {zones.length > 0 ? zones.map(zone => (
+                                    <TableRow key={zone.id}>
+                                        <TableCell className="font-medium">{zone.name}</TableCell>
+                                        <TableCell>{zone.fee !== undefined ? formatCurrency(zone.fee) : <span className="text-muted-foreground">Por distancia</span>}</TableCell>
+                                        <TableCell className="text-right">
+                                            <Button type="button" size="icon" variant="ghost" onClick={() => handleStartEditing(zone)}>
+                                                <Pencil className="h-4 w-4" />
+                                                <span className="sr-only">Editar zona</span>
+                                            </Button>
+                                            <Button type="button" size="icon" variant="ghost" onClick={() => setDeletingZone(zone)}>
+                                                <Trash2 className="h-4 w-4 text-destructive" />
+                                                <span className="sr-only">Eliminar zona</span>
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                )) : (
+                                    <TableRow>
+                                        <TableCell colSpan={3} className="h-24 text-center">No hay zonas dibujadas.</TableCell>
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                    </div>
+                    <div className="rounded-lg border overflow-hidden">
+                        <ZoneMapEditor
+                            center={center}
+                            zones={zones}
+                            selectedZoneId={editingZone?.id}
+                            isDrawing={isDrawing}
+                            draftPoints={draftPoints}
+                            onAddPoint={(point) => setDraftPoints(prev => [...prev, point])}
+                        />
+                    </div>
+                </div>
+            </CardContent>
+            <AlertDialog open={!!deletingZone} onOpenChange={(open) => !open && setDeletingZone(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>¿Eliminar la zona {deletingZone?.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            Los pedidos ya tomados conservan la zona, pero las direcciones nuevas dentro de ella quedarán fuera de cobertura.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Volver</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleConfirmDelete}>Eliminar</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </Card>
+    );
+}
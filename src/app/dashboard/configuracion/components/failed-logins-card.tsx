@@ -0,0 +1,64 @@
+'use client';
+
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import type { FailedLogin, FailedLoginReason } from '@/types';
+
+const REASON_CONFIG: Record<FailedLoginReason, { text: string; variant: BadgeProps['variant'] }> = {
+    unknown_user: { text: 'Cédula no registrada', variant: 'outline' },
+    wrong_password: { text: 'Contraseña incorrecta', variant: 'secondary' },
+    wrong_reset_code: { text: 'Código incorrecto', variant: 'secondary' },
+    suspended: { text: 'Cuenta suspendida', variant: 'outline' },
+    locked_out: { text: 'Bloqueado', variant: 'destructive' },
+    reset_requested: { text: 'Código de recuperación', variant: 'outline' },
+};
+
+export function FailedLoginsCard({ attempts }: { attempts: FailedLogin[] }) {
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Intentos de Ingreso Fallidos</CardTitle>
+                <CardDescription>
+                    Tras varios intentos fallidos la cédula o la dirección IP quedan bloqueadas por unos minutos. Aquí ves los más recientes, junto con las solicitudes de código de recuperación.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Fecha</TableHead>
+                            <TableHead>Cédula</TableHead>
+                            <TableHead>IP</TableHead>
+                            <TableHead>Motivo</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {attempts.length > 0 ? attempts.map(attempt => (
+                            <TableRow key={attempt.id}>
+                                <TableCell className="whitespace-nowrap">{format(new Date(attempt.attemptedAt), "d MMM, h:mm a", { locale: es })}</TableCell>
+                                <TableCell>
+                                    <div className="font-medium">{attempt.cedula}</div>
+                                    {attempt.userName && <div className="text-xs text-muted-foreground">{attempt.userName}</div>}
+                                </TableCell>
+                                <TableCell>
+                                    <div>{attempt.ip}</div>
+                                    {attempt.userAgent && <div className="text-xs text-muted-foreground truncate max-w-[220px]" title={attempt.userAgent}>{attempt.userAgent}</div>}
+                                </TableCell>
+                                <TableCell>
+                                    <Badge variant={REASON_CONFIG[attempt.reason].variant}>{REASON_CONFIG[attempt.reason].text}</Badge>
+                                </TableCell>
+                            </TableRow>
+                        )) : (
+                            <TableRow>
+                                <TableCell colSpan={4} className="h-24 text-center">No hay intentos fallidos recientes.</TableCell>
+                            </TableRow>
+                        )}
+                    </TableBody>
+                </Table>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { getUserSessions, revokeUserSession, revokeAllUserSessions } from '@/actions/session-actions';
+import type { UserSession } from '@/types';
+
+// Good enough to tell the user's devices apart; the full string is in the tooltip
+function describeDevice(userAgent?: string) {
+    if (!userAgent) return { label: 'Dispositivo desconocido', mobile: false };
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+        : /Chrome\//.test(userAgent) ? 'Chrome'
+        : /Firefox\//.test(userAgent) ? 'Firefox'
+        : /Safari\//.test(userAgent) ? 'Safari'
+        : 'Navegador';
+    const system = /Android/.test(userAgent) ? 'Android'
+        : /iPhone|iPad/.test(userAgent) ? 'iOS'
+        : /Windows/.test(userAgent) ? 'Windows'
+        : /Mac OS X/.test(userAgent) ? 'macOS'
+        : /Linux/.test(userAgent) ? 'Linux'
+        : '';
+    return { label: system ? `${browser} en ${system}` : browser, mobile: /Mobile|Android|iPhone/.test(userAgent) };
+}
+
+interface UserSessionsListProps {
+    userId: string;
+    // On one's own account the current session is kept when closing the rest
+    isOwnAccount: boolean;
+}
+
+export function UserSessionsList({ userId, isOwnAccount }: UserSessionsListProps) {
+    const [sessions, setSessions] = useState<UserSession[] | null>(null);
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+    const { toast } = useToast();
+
+    const loadSessions = useCallback(async () => {
+        setSessions(await getUserSessions(userId));
+    }, [userId]);
+
+    useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    const handleRevoke = async (sessionId: string) => {
+        setRevokingId(sessionId);
+        const result = await revokeUserSession(sessionId);
+        if (result.success) {
+            setSessions(prev => prev?.filter(session => session.id !== sessionId) ?? null);
+        } else {
+            toast({ variant: 'destructive', title: 'Error', description: result.message });
+        }
+        setRevokingId(null);
+    };
+
+    const handleRevokeAll = async () => {
+        setRevokingId('all');
+        const result = await revokeAllUserSessions(userId);
+        if (result.success) {
+            toast({ title: 'Sesiones Cerradas', description: result.message });
+            await loadSessions();
+        } else {
+            toast({ variant: 'destructive', title: 'Error', description: result.message });
+        }
+        setRevokingId(null);
+    };
+
+    if (!sessions) {
+        return (
+            <div className="space-y-2">
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+            </div>
+        );
+    }
+
+    const otherSessions = sessions.filter(session => !session.current);
+
+    return (
+        <div className="space-y-3">
+            {sessions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">No hay sesiones abiertas.</p>
+            )}
+            {sessions.map(session => {
+                const device = describeDevice(session.userAgent);
+                const DeviceIcon = device.mobile ? Smartphone : Monitor;
+                return (
+                    <div key={session.id} className="flex items-center gap-4 rounded-lg border p-3">
+                        <DeviceIcon className="h-5 w-5 text-muted-foreground shrink-0" />
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                                <span className="font-medium" title={session.userAgent}>{device.label}</span>
+                                {session.current && <Badge variant="secondary">Esta sesión</Badge>}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                IP {session.ip} · Inició {format(new Date(session.createdAt), "d MMM, h:mm a", { locale: es })} · Activa {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true, locale: es })}
+                            </p>
+                        </div>
+                        {!session.current && (
+                            <Button type="button" size="sm" variant="ghost" onClick={() => handleRevoke(session.id)} disabled={!!revokingId}>
+                                {revokingId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+                                <span className="sr-only">Cerrar sesión</span>
+                            </Button>
+                        )}
+                    </div>
+                );
+            })}
+            {otherSessions.length > 0 && (
+                <Button type="button" variant="outline" onClick={handleRevokeAll} disabled={!!revokingId}>
+                    {revokingId === 'all' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {isOwnAccount ? 'Cerrar las Demás Sesiones' : 'Cerrar Todas las Sesiones'}
+                </Button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import type { Map as LeafletMap, LayerGroup } from 'leaflet';
+import type { DeliveryZone } from '@/types';
+
+type LatLng = { lat: number; lng: number };
+
+interface ZoneMapEditorProps {
+    center: LatLng;
+    zones: DeliveryZone[];
+    selectedZoneId?: string | null;
+    isDrawing: boolean;
+    draftPoints: LatLng[];
+    onAddPoint: (point: LatLng) => void;
+}
+
+// GeoJSON stores [lng, lat]; Leaflet wants [lat, lng] and no closing position
+const toLeafletRing = (zone: DeliveryZone) => zone.polygon.coordinates[0].slice(0, -1).map(([lng, lat]) => [lat, lng] as [number, number]);
+
+const ZoneMapEditor = ({ center, zones, selectedZoneId, isDrawing, draftPoints, onAddPoint }: ZoneMapEditorProps) => {
+    const mapContainerRef = useRef<HTMLDivElement>(null);
+    const mapRef = useRef<LeafletMap | null>(null);
+    const zonesLayerRef = useRef<LayerGroup | null>(null);
+    const draftLayerRef = useRef<LayerGroup | null>(null);
+    // Read from the click handler, which is only bound once
+    const drawingRef = useRef({ isDrawing, onAddPoint });
+    drawingRef.current = { isDrawing, onAddPoint };
+
+    useEffect(() => {
+        if (!mapContainerRef.current || mapRef.current) return;
+
+        const map = L.map(mapContainerRef.current).setView([center.lat, center.lng], 14);
+        L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+            attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        }).addTo(map);
+        L.circleMarker([center.lat, center.lng], { radius: 6, color: 'hsl(var(--primary))', fillOpacity: 1 })
+            .bindTooltip('Farmacia')
+            .addTo(map);
+
+        zonesLayerRef.current = L.layerGroup().addTo(map);
+        draftLayerRef.current = L.layerGroup().addTo(map);
+        map.on('click', (event) => {
+            if (drawingRef.current.isDrawing) {
+                drawingRef.current.onAddPoint({ lat: event.latlng.lat, lng: event.latlng.lng });
+            }
+        });
+        mapRef.current = map;
+
+        // Invalidate size after a short delay to ensure the container is visible
+        setTimeout(() => {
+            mapRef.current?.invalidateSize();
+        }, 400);
+
+        return () => {
+            map.remove();
+            mapRef.current = null;
+        };
+    }, [center.lat, center.lng]);
+
+    useEffect(() => {
+        const layer = zonesLayerRef.current;
+        if (!layer) return;
+        layer.clearLayers();
+        zones.forEach(zone => {
+            const isSelected = zone.id === selectedZoneId;
+            L.polygon(toLeafletRing(zone), {
+                color: isSelected ? 'hsl(var(--destructive))' : 'hsl(var(--primary))',
+                weight: isSelected ? 3 : 2,
+                fillOpacity: isSelected ? 0.25 : 0.1,
+            })
+                .bindTooltip(zone.fee !== undefined ? `${zone.name} · ${zone.fee.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}` : zone.name, { sticky: true })
+                .addTo(layer);
+        });
+    }, [zones, selectedZoneId]);
+
+    useEffect(() => {
+        const layer = draftLayerRef.current;
+        if (!layer) return;
+        layer.clearLayers();
+        if (draftPoints.length === 0) return;
+        const latLngs = draftPoints.map(point => [point.lat, point.lng] as [number, number]);
+        if (draftPoints.length >= 3) {
+            L.polygon(latLngs, { color: 'hsl(var(--accent))', dashArray: '6 4', fillOpacity: 0.15 }).addTo(layer);
+        } else {
+            L.polyline(latLngs, { color: 'hsl(var(--accent))', dashArray: '6 4' }).addTo(layer);
+        }
+        latLngs.forEach(latLng => L.circleMarker(latLng, { radius: 4, color: 'hsl(var(--accent))', fillOpacity: 1 }).addTo(layer));
+    }, [draftPoints]);
+
+    useEffect(() => {
+        mapContainerRef.current?.style.setProperty('cursor', isDrawing ? 'crosshair' : '');
+    }, [isDrawing]);
+
+    return <div ref={mapContainerRef} className="w-full h-full min-h-[400px]" />;
+};
+
+export default ZoneMapEditor;
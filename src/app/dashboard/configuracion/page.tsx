@@ -6,26 +6,38 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { passwordSchema } from '@/lib/password-policy';
 import dynamic from 'next/dynamic';
 import type { BadgeProps } from "@/components/ui/badge";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import type { User, Role } from "@/types";
+import type { User, Role, DeliveryZone, CustomRole, FailedLogin } from "@/types";
 import { MoreHorizontal, Shield, Loader2 } from "lucide-react";
 import { ChangeRoleDialog } from "./components/change-role-dialog";
+import { DeliveryPricingForm } from "./components/delivery-pricing-form";
+import { DeliveryZonesCard } from "./components/delivery-zones-card";
+import { CustomRolesCard } from "./components/custom-roles-card";
+import { FailedLoginsCard } from "./components/failed-logins-card";
+import { UserSessionsList } from "./components/user-sessions-list";
 import { EditAgentDialog } from '../agentes/components/edit-agent-dialog';
 import { EditDeliveryPersonDialog } from '../domiciliarios/components/edit-delivery-person-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { getAllUsers, updateUser, getUserById } from '@/actions/user-actions';
+import { getAllUsers, updateUser, getUserById, setUserSuspended, getRecentFailedLogins } from '@/actions/user-actions';
 import { getPharmacySettings, updatePharmacySettings } from '@/actions/pharmacy-settings-actions';
+import { getDeliveryZones } from '@/actions/delivery-zone-actions';
+import { getCustomRoles } from '@/actions/role-actions';
+import { hasPermission } from '@/lib/permissions';
 import type { PharmacySettings } from '@/models/pharmacy-settings-model';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -46,7 +58,7 @@ const profileFormSchema = z.object({
     cedula: z.string().min(5, { message: "La cédula debe tener al menos 5 caracteres." }),
     phone: z.string().regex(/^\d{10}$/, { message: "El teléfono debe tener 10 dígitos." }),
     avatarUrl: z.string().url({ message: "Por favor, ingresa una URL de imagen válida." }).optional().or(z.literal('')),
-    password: z.string().min(6, { message: "La contraseña debe tener al menos 6 caracteres." }).optional().or(z.literal('')),
+    password: passwordSchema.optional().or(z.literal('')),
 });
 
 const pharmacyFormSchema = z.object({
@@ -55,16 +67,31 @@ const pharmacyFormSchema = z.object({
     phone: z.string().min(7, { message: "El teléfono debe tener al menos 7 dígitos." }),
     lat: z.coerce.number(),
     lng: z.coerce.number(),
+    maxOrdersPerRoute: z.coerce.number().int().min(1, { message: "Cada ruta debe admitir al menos 1 pedido." }).max(50, { message: "Máximo 50 pedidos por ruta." }),
+    routeOptimizer: z.enum(['openrouteservice', 'local']),
+    geocoder: z.enum(['openrouteservice', 'nominatim', 'gazetteer']),
+    locationRetentionDays: z.coerce.number().int().min(1, { message: "Conserva el recorrido al menos 1 día." }).max(365, { message: "Máximo 365 días." }),
+    deliveryGeofenceMeters: z.coerce.number().int().min(10, { message: "El radio debe ser de al menos 10 metros." }).max(5000, { message: "Máximo 5000 metros." }),
 });
 
+const GEOCODER_OPTIONS = [
+    { value: 'openrouteservice', label: 'OpenRouteService' },
+    { value: 'nominatim', label: 'Nominatim propio (NOMINATIM_URL)' },
+    { value: 'gazetteer', label: 'Barrios de Ocaña (sin conexión, aproximado)' },
+] as const;
 
 export default function ConfiguracionPage() {
     const [users, setUsers] = useState<User[]>([]);
     const [currentUser, setCurrentUser] = useState<User | null>(null);
     const [pharmacySettings, setPharmacySettings] = useState<PharmacySettings | null>(null);
+    const [deliveryZones, setDeliveryZones] = useState<DeliveryZone[]>([]);
+    const [customRoles, setCustomRoles] = useState<CustomRole[]>([]);
+    const [failedLogins, setFailedLogins] = useState<FailedLogin[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [selectedUserForRoleChange, setSelectedUserForRoleChange] = useState<User | null>(null);
     const [editingUser, setEditingUser] = useState<User | null>(null);
+    const [suspendingUser, setSuspendingUser] = useState<User | null>(null);
+    const [sessionsUser, setSessionsUser] = useState<User | null>(null);
     const { toast } = useToast();
     
     const profileForm = useForm<z.infer<typeof profileFormSchema>>({
@@ -74,7 +101,7 @@ export default function ConfiguracionPage() {
     
     const pharmacyForm = useForm<z.infer<typeof pharmacyFormSchema>>({
         resolver: zodResolver(pharmacyFormSchema),
-        defaultValues: { name: '', address: '', phone: '', lat: 0, lng: 0 }
+        defaultValues: { name: '', address: '', phone: '', lat: 0, lng: 0, maxOrdersPerRoute: 8, routeOptimizer: 'openrouteservice', geocoder: 'openrouteservice', locationRetentionDays: 30, deliveryGeofenceMeters: 150 }
     });
 
     const avatarUrl = profileForm.watch('avatarUrl');
@@ -87,15 +114,22 @@ export default function ConfiguracionPage() {
                 if (!sessionRes.ok) throw new Error("No session");
                 const session = await sessionRes.json();
                 
-                const [allUsers, loggedInUser, settings] = await Promise.all([
+                // Lists the user may not see come back empty
+                const [allUsers, loggedInUser, settings, zones, roles, attempts] = await Promise.all([
                     getAllUsers(),
                     getUserById(session.userId),
-                    getPharmacySettings()
+                    getPharmacySettings(),
+                    getDeliveryZones(),
+                    getCustomRoles(),
+                    getRecentFailedLogins()
                 ]);
 
                 setUsers(allUsers);
                 setCurrentUser(loggedInUser);
                 setPharmacySettings(settings);
+                setDeliveryZones(zones);
+                setCustomRoles(roles);
+                setFailedLogins(attempts);
 
             } catch (error) {
                 console.error("Failed to load configuration data:", error);
@@ -132,25 +166,32 @@ export default function ConfiguracionPage() {
                 phone: pharmacySettings.phone,
                 lat: pharmacySettings.lat || 0,
                 lng: pharmacySettings.lng || 0,
+                maxOrdersPerRoute: pharmacySettings.maxOrdersPerRoute || 8,
+                routeOptimizer: pharmacySettings.routeOptimizer || 'openrouteservice',
+                geocoder: pharmacySettings.geocoder || 'openrouteservice',
+                locationRetentionDays: pharmacySettings.locationRetentionDays || 30,
+                deliveryGeofenceMeters: pharmacySettings.deliveryGeofenceMeters || 150,
             });
         }
     }, [pharmacySettings, pharmacyForm]);
 
-    const handleRoleChanged = async (userId: string, newRole: Role) => {
-        const result = await updateUser(userId, { role: newRole });
+    const replaceUserInList = (updatedUser: User) => {
+        setUsers(currentUsers =>
+            currentUsers.map(user =>
+                user.id === updatedUser.id ? updatedUser : user
+            )
+        );
+    };
+
+    const handleToggleSuspension = async (user: User) => {
+        const result = await setUserSuspended(user.id, user.accountStatus !== 'suspended');
         if (result.success && result.user) {
-            setUsers(currentUsers =>
-                currentUsers.map(user =>
-                    user.id === userId ? result.user! : user
-                )
-            );
-            toast({
-                title: "Rol Actualizado",
-                description: `El rol de ${result.user.name} ha sido cambiado.`,
-            });
+            replaceUserInList(result.user);
+            toast({ title: 'Cuenta Actualizada', description: result.message });
         } else {
             toast({ variant: 'destructive', title: 'Error', description: result.message });
         }
+        setSuspendingUser(null);
     };
 
     const handleUserUpdated = (updatedUser: User) => {
@@ -194,6 +235,9 @@ export default function ConfiguracionPage() {
         }
     };
 
+    const canManageUsers = hasPermission(currentUser, 'users.manage');
+    const canManageRoles = hasPermission(currentUser, 'roles.manage');
+
     const openChangeRoleDialog = (user: User) => {
         setSelectedUserForRoleChange(user);
     };
@@ -238,8 +282,11 @@ export default function ConfiguracionPage() {
                     <TabsList className="flex md:flex-col h-auto items-start bg-transparent p-0 border-b md:border-b-0 md:border-r">
                         <TabsTrigger value="perfil" className="w-full justify-start data-[state=active]:bg-muted data-[state=active]:shadow-none px-4 py-2">Mi Perfil</TabsTrigger>
                         <TabsTrigger value="farmacia" className="w-full justify-start data-[state=active]:bg-muted data-[state=active]:shadow-none px-4 py-2">Farmacia</TabsTrigger>
+                        {hasPermission(currentUser, 'settings.edit') && (
+                            <TabsTrigger value="domicilios" className="w-full justify-start data-[state=active]:bg-muted data-[state=active]:shadow-none px-4 py-2">Domicilios</TabsTrigger>
+                        )}
                         <TabsTrigger value="notificaciones" className="w-full justify-start data-[state=active]:bg-muted data-[state=active]:shadow-none px-4 py-2">Notificaciones</TabsTrigger>
-                        {currentUser?.role === 'admin' && (
+                        {(canManageUsers || canManageRoles) && (
                             <TabsTrigger value="usuarios" className="w-full justify-start data-[state=active]:bg-muted data-[state=active]:shadow-none px-4 py-2">
                                 <Shield className="mr-2 h-4 w-4" />
                                 Gestión de Usuarios
@@ -249,7 +296,7 @@ export default function ConfiguracionPage() {
                     </TabsList>
 
                     <div className="flex-1">
-                        <TabsContent value="perfil">
+                        <TabsContent value="perfil" className="space-y-6">
                             <Card>
                                 <Form {...profileForm}>
                                     <form onSubmit={profileForm.handleSubmit(onProfileSubmit)}>
@@ -341,6 +388,17 @@ export default function ConfiguracionPage() {
                                     </form>
                                 </Form>
                             </Card>
+                            {currentUser && (
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>Sesiones Activas</CardTitle>
+                                        <CardDescription>Los dispositivos donde tu cuenta está abierta. Cierra los que no reconozcas.</CardDescription>
+                                    </CardHeader>
+                                    <CardContent>
+                                        <UserSessionsList userId={currentUser.id} isOwnAccount />
+                                    </CardContent>
+                                </Card>
+                            )}
                         </TabsContent>
 
                         <TabsContent value="farmacia">
@@ -393,6 +451,93 @@ export default function ConfiguracionPage() {
                                                             </FormItem>
                                                         )}
                                                     />
+                                                    <FormField
+                                                        control={pharmacyForm.control}
+                                                        name="maxOrdersPerRoute"
+                                                        render={({ field }) => (
+                                                            <FormItem>
+                                                                <FormLabel>Pedidos Máximos por Ruta</FormLabel>
+                                                                <FormControl>
+                                                                    <Input type="number" min={1} {...field} />
+                                                                </FormControl>
+                                                                <FormDescription>Capacidad de cada domiciliario al repartir pedidos con el optimizador.</FormDescription>
+                                                                <FormMessage />
+                                                            </FormItem>
+                                                        )}
+                                                    />
+                                                    <FormField
+                                                        control={pharmacyForm.control}
+                                                        name="locationRetentionDays"
+                                                        render={({ field }) => (
+                                                            <FormItem>
+                                                                <FormLabel>Días de Historial de Recorridos</FormLabel>
+                                                                <FormControl>
+                                                                    <Input type="number" min={1} max={365} {...field} />
+                                                                </FormControl>
+                                                                <FormDescription>Las ubicaciones GPS de los domiciliarios se borran automáticamente después de este tiempo.</FormDescription>
+                                                                <FormMessage />
+                                                            </FormItem>
+                                                        )}
+                                                    />
+                                                    <FormField
+                                                        control={pharmacyForm.control}
+                                                        name="deliveryGeofenceMeters"
+                                                        render={({ field }) => (
+                                                            <FormItem>
+                                                                <FormLabel>Radio de Confirmación de Entrega (metros)</FormLabel>
+                                                                <FormControl>
+                                                                    <Input type="number" min={10} max={5000} {...field} />
+                                                                </FormControl>
+                                                                <FormDescription>Las entregas confirmadas más lejos de la dirección del cliente quedan marcadas para revisión.</FormDescription>
+                                                                <FormMessage />
+                                                            </FormItem>
+                                                        )}
+                                                    />
+                                                    <FormField
+                                                        control={pharmacyForm.control}
+                                                        name="routeOptimizer"
+                                                        render={({ field }) => (
+                                                            <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                                                                <div className="space-y-0.5">
+                                                                    <FormLabel>Optimizar sin Conexión</FormLabel>
+                                                                    <FormDescription>
+                                                                        Calcula las rutas en el servidor con distancias en línea recta, sin usar OpenRouteService. Si está apagado, se usa igualmente cuando OpenRouteService falla.
+                                                                    </FormDescription>
+                                                                </div>
+                                                                <FormControl>
+                                                                    <Switch
+                                                                        checked={field.value === 'local'}
+                                                                        onCheckedChange={(checked) => field.onChange(checked ? 'local' : 'openrouteservice')}
+                                                                    />
+                                                                </FormControl>
+                                                            </FormItem>
+                                                        )}
+                                                    />
+                                                    <FormField
+                                                        control={pharmacyForm.control}
+                                                        name="geocoder"
+                                                        render={({ field }) => (
+                                                            <FormItem className="space-y-3">
+                                                                <FormLabel>Proveedor de Geocodificación</FormLabel>
+                                                                <FormControl>
+                                                                    <RadioGroup onValueChange={field.onChange} value={field.value} className="space-y-1">
+                                                                        {GEOCODER_OPTIONS.map(option => (
+                                                                            <FormItem key={option.value} className="flex items-center space-x-2 space-y-0">
+                                                                                <FormControl>
+                                                                                    <RadioGroupItem value={option.value} id={`geocoder-${option.value}`} />
+                                                                                </FormControl>
+                                                                                <FormLabel htmlFor={`geocoder-${option.value}`} className="font-normal cursor-pointer">
+                                                                                    {option.label}
+                                                                                </FormLabel>
+                                                                            </FormItem>
+                                                                        ))}
+                                                                    </RadioGroup>
+                                                                </FormControl>
+                                                                <FormDescription>Las direcciones ya ubicadas se guardan y no se vuelven a consultar.</FormDescription>
+                                                                <FormMessage />
+                                                            </FormItem>
+                                                        )}
+                                                    />
                                                 </div>
                                                 <div className="min-h-[300px] md:min-h-0 md:h-auto rounded-lg border overflow-hidden">
                                                     {pharmacySettings && (
@@ -418,6 +563,13 @@ export default function ConfiguracionPage() {
                             </Card>
                         </TabsContent>
 
+                        {hasPermission(currentUser, 'settings.edit') && pharmacySettings && (
+                            <TabsContent value="domicilios" className="space-y-6">
+                                <DeliveryPricingForm settings={pharmacySettings} onSaved={setPharmacySettings} />
+                                <DeliveryZonesCard settings={pharmacySettings} initialZones={deliveryZones} onSettingsSaved={setPharmacySettings} />
+                            </TabsContent>
+                        )}
+
                         <TabsContent value="notificaciones">
                              <Card>
                                 <CardHeader>
@@ -446,59 +598,75 @@ export default function ConfiguracionPage() {
                             </Card>
                         </TabsContent>
 
-                        {currentUser?.role === 'admin' && (
-                            <TabsContent value="usuarios">
-                                <Card>
-                                    <CardHeader>
-                                        <CardTitle>Gestión de Usuarios y Roles</CardTitle>
-                                        <CardDescription>
-                                            Añade, edita y gestiona los roles y permisos de los usuarios del sistema.
-                                        </CardDescription>
-                                    </CardHeader>
-                                    <CardContent>
-                                        <Table>
-                                            <TableHeader>
-                                                <TableRow>
-                                                    <TableHead>Nombre</TableHead>
-                                                    <TableHead>Rol Asignado</TableHead>
-                                                    <TableHead>
-                                                        <span className="sr-only">Acciones</span>
-                                                    </TableHead>
-                                                </TableRow>
-                                            </TableHeader>
-                                            <TableBody>
-                                                {users.map((user) => (
-                                                    <TableRow key={user.id}>
-                                                        <TableCell className="font-medium">{user.name}</TableCell>
-                                                        <TableCell>
-                                                            <Badge variant={roleConfig[user.role].variant}>
-                                                                {roleConfig[user.role].text}
-                                                            </Badge>
-                                                        </TableCell>
-                                                        <TableCell>
-                                                            <DropdownMenu>
-                                                                <DropdownMenuTrigger asChild>
-                                                                    <Button aria-haspopup="true" size="icon" variant="ghost" disabled={user.id === currentUser?.id}>
-                                                                        <MoreHorizontal className="h-4 w-4" />
-                                                                        <span className="sr-only">Toggle menu</span>
-                                                                    </Button>
-                                                                </DropdownMenuTrigger>
-                                                                <DropdownMenuContent align="end">
-                                                                    <DropdownMenuLabel>Acciones</DropdownMenuLabel>
-                                                                    <DropdownMenuItem onSelect={() => setEditingUser(user)}>
-                                                                        Editar Usuario
-                                                                    </DropdownMenuItem>
-                                                                    <DropdownMenuItem onSelect={() => openChangeRoleDialog(user)}>Cambiar Rol</DropdownMenuItem>
-                                                                    <DropdownMenuItem className="text-destructive" disabled>Suspender</DropdownMenuItem>
-                                                                </DropdownMenuContent>
-                                                            </DropdownMenu>
-                                                        </TableCell>
+                        {(canManageUsers || canManageRoles) && (
+                            <TabsContent value="usuarios" className="space-y-6">
+                                {canManageUsers && (
+                                    <Card>
+                                        <CardHeader>
+                                            <CardTitle>Gestión de Usuarios y Roles</CardTitle>
+                                            <CardDescription>
+                                                Añade, edita y gestiona los roles y permisos de los usuarios del sistema.
+                                            </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                            <Table>
+                                                <TableHeader>
+                                                    <TableRow>
+                                                        <TableHead>Nombre</TableHead>
+                                                        <TableHead>Rol Asignado</TableHead>
+                                                        <TableHead>
+                                                            <span className="sr-only">Acciones</span>
+                                                        </TableHead>
                                                     </TableRow>
-                                                ))}
-                                            </TableBody>
-                                        </Table>
-                                    </CardContent>
-                                </Card>
+                                                </TableHeader>
+                                                <TableBody>
+                                                    {users.map((user) => (
+                                                        <TableRow key={user.id}>
+                                                            <TableCell className="font-medium">{user.name}</TableCell>
+                                                            <TableCell>
+                                                                <div className="flex flex-wrap gap-2">
+                                                                    <Badge variant={roleConfig[user.role].variant}>
+                                                                        {user.customRoleName || roleConfig[user.role].text}
+                                                                    </Badge>
+                                                                    {user.accountStatus === 'suspended' && <Badge variant="destructive">Suspendido</Badge>}
+                                                                </div>
+                                                            </TableCell>
+                                                            <TableCell>
+                                                                <DropdownMenu>
+                                                                    <DropdownMenuTrigger asChild>
+                                                                        <Button aria-haspopup="true" size="icon" variant="ghost" disabled={user.id === currentUser?.id}>
+                                                                            <MoreHorizontal className="h-4 w-4" />
+                                                                            <span className="sr-only">Toggle menu</span>
+                                                                        </Button>
+                                                                    </DropdownMenuTrigger>
+                                                                    <DropdownMenuContent align="end">
+                                                                        <DropdownMenuLabel>Acciones</DropdownMenuLabel>
+                                                                        <DropdownMenuItem onSelect={() => setEditingUser(user)}>
+                                                                            Editar Usuario
+                                                                        </DropdownMenuItem>
+                                                                        {canManageRoles && (
+                                                                            <DropdownMenuItem onSelect={() => openChangeRoleDialog(user)}>Cambiar Rol</DropdownMenuItem>
+                                                                        )}
+                                                                        <DropdownMenuItem onSelect={() => setSessionsUser(user)}>Ver Sesiones</DropdownMenuItem>
+                                                                        {user.accountStatus === 'suspended' ? (
+                                                                            <DropdownMenuItem onSelect={() => handleToggleSuspension(user)}>Reactivar</DropdownMenuItem>
+                                                                        ) : (
+                                                                            <DropdownMenuItem className="text-destructive" onSelect={() => setSuspendingUser(user)}>Suspender</DropdownMenuItem>
+                                                                        )}
+                                                                    </DropdownMenuContent>
+                                                                </DropdownMenu>
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    ))}
+                                                </TableBody>
+                                            </Table>
+                                        </CardContent>
+                                    </Card>
+                                )}
+                                {canManageUsers && <FailedLoginsCard attempts={failedLogins} />}
+                                {canManageRoles && (
+                                    <CustomRolesCard roles={customRoles} onRolesChange={setCustomRoles} />
+                                )}
                             </TabsContent>
                         )}
 
@@ -527,9 +695,35 @@ export default function ConfiguracionPage() {
                 open={!!selectedUserForRoleChange}
                 onOpenChange={(open) => !open && setSelectedUserForRoleChange(null)}
                 user={selectedUserForRoleChange}
-                onRoleChanged={handleRoleChanged}
+                customRoles={customRoles}
+                onRoleChanged={replaceUserInList}
             />
 
+            <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Sesiones de {sessionsUser?.name}</DialogTitle>
+                        <DialogDescription>Cerrar una sesión obliga a iniciar sesión de nuevo en ese dispositivo.</DialogDescription>
+                    </DialogHeader>
+                    {sessionsUser && <UserSessionsList userId={sessionsUser.id} isOwnAccount={false} />}
+                </DialogContent>
+            </Dialog>
+
+            <AlertDialog open={!!suspendingUser} onOpenChange={(open) => !open && setSuspendingUser(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>¿Suspender la cuenta de {suspendingUser?.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            No podrá iniciar sesión y sus sesiones abiertas dejarán de funcionar. Puedes reactivar la cuenta cuando quieras.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Volver</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => suspendingUser && handleToggleSuspension(suspendingUser)}>Suspender</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+
             <EditAgentDialog
                 open={!!(editingUser && editingUser.role === 'agent')}
                 onOpenChange={(open) => !open && setEditingUser(null)}
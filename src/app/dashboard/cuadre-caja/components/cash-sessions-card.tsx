@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Lock, LogIn, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from '@/hooks/use-toast';
+import { approveCashSessionDifference } from '@/actions/cash-session-actions';
+import { expectedCash } from '@/lib/payments';
+import type { CashSession, CashSessionStatus, User } from '@/types';
+import { OpenCashSessionDialog } from './open-cash-session-dialog';
+import { CloseCashSessionDialog } from './close-cash-session-dialog';
+
+const formatCurrency = (amount: number) => amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
+
+const statusConfig: Record<CashSessionStatus, { text: string, variant: BadgeProps['variant'] }> = {
+    open: { text: "Abierto", variant: 'accent' },
+    pending_approval: { text: "Por Aprobar", variant: 'destructive' },
+    closed: { text: "Cerrado", variant: 'success' },
+};
+
+interface CashSessionsCardProps {
+    sessions: CashSession[];
+    deliveryPeople: User[]; // Couriers a shift can be opened for
+    canClose: boolean;
+    canApprove: boolean;
+    onSessionChange: (session: CashSession) => void;
+}
+
+export function CashSessionsCard({ sessions, deliveryPeople, canClose, canApprove, onSessionChange }: CashSessionsCardProps) {
+    const [isOpening, setIsOpening] = useState(false);
+    const [closingSession, setClosingSession] = useState<CashSession | null>(null);
+    const [approvingSession, setApprovingSession] = useState<CashSession | null>(null);
+    const [approvalNotes, setApprovalNotes] = useState('');
+    const { toast } = useToast();
+
+    const couriersWithOpenShift = new Set(sessions.filter(session => session.status === 'open').map(session => session.deliveryPerson.id));
+    const couriersWithoutShift = deliveryPeople.filter(person => !couriersWithOpenShift.has(person.id));
+
+    const handleConfirmApproval = async () => {
+        if (!approvingSession) return;
+        const result = await approveCashSessionDifference(approvingSession.id, approvalNotes);
+        if (result.success && result.session) {
+            toast({ title: 'Diferencia Aprobada', description: result.message });
+            onSessionChange(result.session);
+        } else {
+            toast({ variant: 'destructive', title: 'Error al aprobar', description: result.message });
+        }
+        setApprovingSession(null);
+        setApprovalNotes('');
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2"><Wallet className="h-5 w-5" /> Turnos de Caja</CardTitle>
+                    <CardDescription>Base entregada, efectivo recaudado y lo contado al cierre de cada turno.</CardDescription>
+                </div>
+                {couriersWithoutShift.length > 0 && (
+                    <Button size="sm" onClick={() => setIsOpening(true)}>
+                        <LogIn className="mr-2 h-4 w-4" />
+                        Abrir Turno
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent>
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Domiciliario</TableHead>
+                            <TableHead>Apertura</TableHead>
+                            <TableHead className="text-right">Base</TableHead>
+                            <TableHead className="text-right">Recaudado</TableHead>
+                            <TableHead className="text-right">Esperado</TableHead>
+                            <TableHead className="text-right">Contado</TableHead>
+                            <TableHead className="text-right">Diferencia</TableHead>
+                            <TableHead>Estado</TableHead>
+                            <TableHead><span className="sr-only">Acciones</span></TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {sessions.length > 0 ? sessions.map(session => (
+                            <TableRow key={session.id}>
+                                <TableCell className="font-medium">{session.deliveryPerson.name}</TableCell>
+                                <TableCell>{format(new Date(session.openedAt), "d MMM, h:mm a", { locale: es })}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(session.openingFloat)}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(session.cashCollected)}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(expectedCash(session))}</TableCell>
+                                <TableCell className="text-right">{session.countedCash !== undefined ? formatCurrency(session.countedCash) : '—'}</TableCell>
+                                <TableCell className={`text-right ${session.difference && session.difference < 0 ? 'text-destructive font-semibold' : ''}`}>
+                                    {session.difference !== undefined ? formatCurrency(session.difference) : '—'}
+                                </TableCell>
+                                <TableCell>
+                                    <Badge variant={statusConfig[session.status].variant}>{statusConfig[session.status].text}</Badge>
+                                    {session.approvedByName && (
+                                        <p className="text-xs text-muted-foreground mt-1">Aprobó {session.approvedByName}</p>
+                                    )}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                    {session.status === 'open' && canClose && (
+                                        <Button size="sm" variant="outline" onClick={() => setClosingSession(session)}>Cerrar</Button>
+                                    )}
+                                    {session.status === 'pending_approval' && canApprove && (
+                                        <Button size="sm" variant="outline" onClick={() => setApprovingSession(session)}>Aprobar</Button>
+                                    )}
+                                    {session.status === 'closed' && <Lock className="ml-auto h-4 w-4 text-muted-foreground" aria-label="Turno cerrado" />}
+                                </TableCell>
+                            </TableRow>
+                        )) : (
+                            <TableRow>
+                                <TableCell colSpan={9} className="h-24 text-center">No hay turnos para esta fecha.</TableCell>
+                            </TableRow>
+                        )}
+                    </TableBody>
+                </Table>
+            </CardContent>
+            <OpenCashSessionDialog
+                open={isOpening}
+                onOpenChange={setIsOpening}
+                deliveryPeople={couriersWithoutShift}
+                onOpened={onSessionChange}
+            />
+            <CloseCashSessionDialog
+                session={closingSession}
+                open={!!closingSession}
+                onOpenChange={(open) => { if (!open) setClosingSession(null) }}
+                onClosed={onSessionChange}
+            />
+            <AlertDialog open={!!approvingSession} onOpenChange={(open) => { if (!open) { setApprovingSession(null); setApprovalNotes(''); } }}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>¿Aprobar la diferencia de {approvingSession && formatCurrency(approvingSession.difference ?? 0)}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {approvingSession?.closingNotes
+                                ? `Explicación de ${approvingSession.closedByName || 'quien cerró el turno'}: "${approvingSession.closingNotes}".`
+                                : 'El turno no tiene explicación registrada.'} Una vez aprobado el turno queda bloqueado.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="approval-notes">Nota de aprobación</Label>
+                        <Textarea
+                            id="approval-notes"
+                            placeholder="Ej: Se descuenta del pago de la quincena."
+                            value={approvalNotes}
+                            onChange={(e) => setApprovalNotes(e.target.value)}
+                        />
+                    </div>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Volver</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleConfirmApproval} disabled={!approvalNotes.trim()}>Aprobar</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </Card>
+    );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, LogOut } from 'lucide-react';
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from '@/hooks/use-toast';
+import { closeCashSession } from '@/actions/cash-session-actions';
+import { expectedCash } from '@/lib/payments';
+import { cn } from '@/lib/utils';
+import type { CashSession } from '@/types';
+
+const formSchema = z.object({
+    countedCash: z.coerce.number().int({ message: "Ingresa el monto en pesos, sin decimales." }).min(0, { message: "El monto no puede ser negativo." }),
+    notes: z.string().max(500).optional(),
+});
+
+const formatCurrency = (amount: number) => amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
+
+interface CloseCashSessionDialogProps {
+    session: CashSession | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onClosed: (session: CashSession) => void;
+}
+
+export function CloseCashSessionDialog({ session, open, onOpenChange, onClosed }: CloseCashSessionDialogProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { toast } = useToast();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+        defaultValues: { countedCash: 0, notes: "" },
+    });
+
+    useEffect(() => {
+        if (open && session) {
+            form.reset({ countedCash: expectedCash(session), notes: "" });
+        }
+    }, [open, session, form]);
+
+    const countedCash = Number(form.watch('countedCash')) || 0;
+
+    const onSubmit = async (values: z.infer<typeof formSchema>) => {
+        if (!session) return;
+        setIsSubmitting(true);
+        const result = await closeCashSession(session.id, values);
+        if (result.success && result.session) {
+            toast({ title: 'Turno Cerrado', description: result.message });
+            onClosed(result.session);
+            onOpenChange(false);
+        } else {
+            toast({ variant: 'destructive', title: 'Error al cerrar el turno', description: result.message });
+        }
+        setIsSubmitting(false);
+    };
+
+    if (!session) return null;
+
+    const expected = expectedCash(session);
+    const difference = countedCash - expected;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Cerrar Turno de {session.deliveryPerson.name}</DialogTitle>
+                    <DialogDescription>
+                        Cuenta el efectivo que entrega el domiciliario. Un turno cerrado ya no se puede modificar.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-2 text-sm">
+                    <div className="flex justify-between"><span className="text-muted-foreground">Base de vueltos</span><span>{formatCurrency(session.openingFloat)}</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Efectivo recaudado ({session.collections.length} pedidos)</span><span>{formatCurrency(session.cashCollected)}</span></div>
+                    <div className="flex justify-between font-semibold"><span>Efectivo esperado</span><span>{formatCurrency(expected)}</span></div>
+                </div>
+                <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <FormField
+                            control={form.control}
+                            name="countedCash"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Efectivo Contado</FormLabel>
+                                    <FormControl>
+                                        <Input type="number" inputMode="numeric" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <p className={cn("text-sm font-medium", difference < 0 ? "text-destructive" : difference > 0 ? "text-accent" : "text-success")}>
+                            {difference === 0
+                                ? 'El efectivo cuadra.'
+                                : `${difference < 0 ? 'Faltante' : 'Sobrante'} de ${formatCurrency(Math.abs(difference))}. Quedará pendiente de aprobación.`}
+                        </p>
+                        {difference !== 0 && (
+                            <FormField
+                                control={form.control}
+                                name="notes"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Explicación de la Diferencia</FormLabel>
+                                        <FormControl>
+                                            <Textarea placeholder="Ej: Un cliente pagó con un billete que no tenía vueltos exactos." {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        )}
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancelar</Button>
+                            <Button type="submit" variant="destructive" disabled={isSubmitting}>
+                                {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+                                Cerrar Turno
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    );
+}
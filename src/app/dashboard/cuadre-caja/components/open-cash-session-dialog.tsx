@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, LogIn } from 'lucide-react';
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { openCashSession } from '@/actions/cash-session-actions';
+import type { CashSession, User } from '@/types';
+
+const formSchema = z.object({
+    deliveryPersonId: z.string({ required_error: "Selecciona el domiciliario." }).min(1, { message: "Selecciona el domiciliario." }),
+    openingFloat: z.coerce.number().int({ message: "Ingresa el monto en pesos, sin decimales." }).min(0, { message: "El monto no puede ser negativo." }),
+});
+
+interface OpenCashSessionDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    deliveryPeople: User[]; // Couriers without an open shift; a courier opening their own shift passes only themselves
+    onOpened: (session: CashSession) => void;
+}
+
+export function OpenCashSessionDialog({ open, onOpenChange, deliveryPeople, onOpened }: OpenCashSessionDialogProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { toast } = useToast();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+        defaultValues: { deliveryPersonId: "", openingFloat: 0 },
+    });
+
+    useEffect(() => {
+        if (open) {
+            form.reset({ deliveryPersonId: deliveryPeople.length === 1 ? deliveryPeople[0].id : "", openingFloat: 0 });
+        }
+    }, [open, deliveryPeople, form]);
+
+    const onSubmit = async (values: z.infer<typeof formSchema>) => {
+        setIsSubmitting(true);
+        const result = await openCashSession(values.deliveryPersonId, values.openingFloat);
+        if (result.success && result.session) {
+            toast({ title: 'Turno Abierto', description: `Turno de ${result.session.deliveryPerson.name} abierto con una base de ${values.openingFloat.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}.` });
+            onOpened(result.session);
+            onOpenChange(false);
+        } else {
+            toast({ variant: 'destructive', title: 'Error al abrir el turno', description: result.message });
+        }
+        setIsSubmitting(false);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Abrir Turno</DialogTitle>
+                    <DialogDescription>
+                        Registra el efectivo que el domiciliario recibe de la farmacia para dar vueltos.
+                    </DialogDescription>
+                </DialogHeader>
+                <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        {deliveryPeople.length > 1 && (
+                            <FormField
+                                control={form.control}
+                                name="deliveryPersonId"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Domiciliario</FormLabel>
+                                        <Select onValueChange={field.onChange} value={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger><SelectValue placeholder="Selecciona un domiciliario" /></SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {deliveryPeople.map(person => (
+                                                    <SelectItem key={person.id} value={person.id}>{person.name}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        )}
+                        <FormField
+                            control={form.control}
+                            name="openingFloat"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Base de Vueltos</FormLabel>
+                                    <FormControl>
+                                        <Input type="number" inputMode="numeric" placeholder="50000" {...field} />
+                                    </FormControl>
+                                    <FormDescription>Se suma al efectivo que debe entregar al cerrar el turno.</FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancelar</Button>
+                            <Button type="submit" disabled={isSubmitting}>
+                                {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+                                Abrir Turno
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -2,22 +2,28 @@
 'use client';
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from "@/components/ui/table";
 import { Badge, type BadgeProps } from "@/components/ui/badge";
-import { Smartphone, HandCoins, Users, PackageCheck, LogIn, LogOut, CalendarIcon, Loader2, Wifi, WifiOff } from "lucide-react";
+import { Smartphone, HandCoins, Users, PackageCheck, PackageX, CalendarIcon, Wifi, WifiOff, AlertTriangle } from "lucide-react";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { getCashReconciliationData } from "@/actions/order-actions";
-import { getUserById, updateUserStatus } from "@/actions/user-actions";
-import type { Order, User, DeliveryStatus } from '@/types';
+import { getCashReconciliationData, getReturnsForReconciliation, confirmGoodsReturned } from "@/actions/order-actions";
+import { getUserById, getUsers } from "@/actions/user-actions";
+import { getCashSessions } from "@/actions/cash-session-actions";
+import type { Order, User, CourierCashSummary, PaymentMethod, CashSession } from '@/types';
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
-import { format } from "date-fns";
+import { FAILED_DELIVERY_REASON_LABELS } from "@/lib/order-status";
+import { hasPermission } from "@/lib/permissions";
+import { PAYMENT_METHOD_LABELS, PAYMENT_VERIFICATION_LABELS, paymentTotals, isConfirmedPayment } from "@/lib/payments";
+import { format, isSameDay } from "date-fns";
 import { es } from 'date-fns/locale';
 import { useToast } from "@/hooks/use-toast";
+import { CashSessionsCard } from "./components/cash-sessions-card";
 
 // --- Reusable Components ---
 const formatCurrency = (amount: number) => amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
@@ -45,13 +51,18 @@ const OrdersTable = ({ orders, showFooter }: { orders: Order[], showFooter?: boo
         <TableBody>
             {orders.length > 0 ? (
                 orders.map((order) => (
-                    <TableRow key={order.id}>
+                    <TableRow key={order.id} className={cn(!order.payments.every(isConfirmedPayment) && "bg-destructive/5")}>
                         <TableCell className="font-medium">#{order.id.slice(-6)}</TableCell>
                         <TableCell>{order.client.fullName}</TableCell>
                         <TableCell>
-                            <Badge variant={order.paymentMethod === 'cash' ? 'success' : 'accent'}>
-                                {order.paymentMethod === 'cash' ? 'Efectivo' : 'Transferencia'}
-                            </Badge>
+                            <div className="flex flex-wrap gap-1">
+                                {order.payments.map((payment, index) => (
+                                    <Badge key={index} variant={payment.method === 'cash' ? 'success' : isConfirmedPayment(payment) ? 'accent' : 'destructive'}>
+                                        {PAYMENT_METHOD_LABELS[payment.method]}{order.payments.length > 1 && ` ${formatCurrency(payment.amount)}`}
+                                        {payment.verificationStatus && payment.verificationStatus !== 'verified' && ` · ${PAYMENT_VERIFICATION_LABELS[payment.verificationStatus]}`}
+                                    </Badge>
+                                ))}
+                            </div>
                         </TableCell>
                         <TableCell className="text-right">{formatCurrency(order.total)}</TableCell>
                     </TableRow>
@@ -77,14 +88,117 @@ const OrdersTable = ({ orders, showFooter }: { orders: Order[], showFooter?: boo
     </Table>
 );
 
+// Every method is paid into the pharmacy's accounts except cash, which the courier carries
+const electronicTotal = (totals: Record<PaymentMethod, number>) => totals.transfer + totals.card + totals.nequi + totals.daviplata;
+
+const UnverifiedTransfersAlert = ({ orders, showQueueLink }: { orders: Order[], showQueueLink?: boolean }) => {
+    const unconfirmed = orders.flatMap(order => order.payments).filter(payment => !isConfirmedPayment(payment));
+    if (unconfirmed.length === 0) return null;
+    const amount = unconfirmed.reduce((sum, payment) => sum + payment.amount, 0);
+
+    return (
+        <div className="md:col-span-2 lg:col-span-4 flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg border border-destructive/50 bg-destructive/5 p-4 text-sm">
+            <div className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <span>
+                    {unconfirmed.length} {unconfirmed.length === 1 ? 'pago electrónico' : 'pagos electrónicos'} por {formatCurrency(amount)} sin verificar o rechazados. No cuentan como recaudo confirmado.
+                </span>
+            </div>
+            {showQueueLink && (
+                <Button asChild size="sm" variant="outline">
+                    <Link href="/dashboard/transferencias">Verificar Transferencias</Link>
+                </Button>
+            )}
+        </div>
+    );
+};
+
+const CashBreakdown = ({ summary }: { summary: CourierCashSummary }) => (
+    <div className="grid gap-2 text-sm sm:grid-cols-2">
+        {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[])
+            .filter(method => summary.totalsByMethod[method] > 0)
+            .map(method => (
+                <div key={method} className="flex justify-between rounded-md border px-3 py-2">
+                    <span className="text-muted-foreground">{PAYMENT_METHOD_LABELS[method]}</span>
+                    <span className="font-medium">{formatCurrency(summary.totalsByMethod[method])}</span>
+                </div>
+            ))}
+        <div className="flex justify-between rounded-md border px-3 py-2">
+            <span className="text-muted-foreground">Base de vueltos</span>
+            <span className="font-medium">{formatCurrency(summary.changeFloat)}</span>
+        </div>
+        <div className="flex justify-between rounded-md border bg-muted px-3 py-2 font-semibold">
+            <span>Efectivo a entregar</span>
+            <span>{formatCurrency(summary.cashToReturn)}</span>
+        </div>
+    </div>
+);
+
+// Goods from failed attempts on the day, which the courier has to hand back before closing
+const ReturnsCard = ({ returns, date, courierId, canConfirm, onConfirm }: { returns: Order[], date: Date, courierId?: string, canConfirm: boolean, onConfirm: (order: Order, attemptIndex: number) => void }) => {
+    const attempts = returns.flatMap(order => (order.failedAttempts ?? [])
+        .map((attempt, index) => ({ order, attempt, index }))
+        .filter(({ attempt }) => isSameDay(new Date(attempt.attemptedAt), date) && (!courierId || attempt.deliveryPerson === courierId)));
+    if (attempts.length === 0) return null;
+    const pendingCount = attempts.filter(({ attempt }) => !attempt.goodsReturnedAt).length;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><PackageX className="h-5 w-5" /> Mercancía por Devolver</CardTitle>
+                <CardDescription>
+                    {pendingCount > 0
+                        ? `${pendingCount} ${pendingCount > 1 ? 'pedidos no entregados deben' : 'pedido no entregado debe'} volver a la farmacia.`
+                        : 'Toda la mercancía de los intentos fallidos fue recibida.'}
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Pedido</TableHead>
+                            <TableHead>Domiciliario</TableHead>
+                            <TableHead>Motivo</TableHead>
+                            <TableHead className="text-right">Productos</TableHead>
+                            <TableHead className="text-right">Estado</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {attempts.map(({ order, attempt, index }) => (
+                            <TableRow key={`${order.id}-${index}`}>
+                                <TableCell className="font-medium">#{order.id.slice(-6)}</TableCell>
+                                <TableCell>{attempt.deliveryPersonName || 'N/A'}</TableCell>
+                                <TableCell>{FAILED_DELIVERY_REASON_LABELS[attempt.reason]}</TableCell>
+                                <TableCell className="text-right">{order.items.reduce((sum, item) => sum + item.quantity, 0)}</TableCell>
+                                <TableCell className="text-right">
+                                    {attempt.goodsReturnedAt ? (
+                                        <Badge variant="success">Recibida</Badge>
+                                    ) : canConfirm ? (
+                                        <Button size="sm" variant="outline" onClick={() => onConfirm(order, index)}>Recibido</Button>
+                                    ) : (
+                                        <Badge variant="destructive">Pendiente</Badge>
+                                    )}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </CardContent>
+        </Card>
+    );
+};
+
 
 // --- Page ---
 export default function CuadreCajaPage() {
     const [currentUser, setCurrentUser] = useState<User | null>(null);
     const [orders, setOrders] = useState<Order[]>([]);
+    const [couriers, setCouriers] = useState<CourierCashSummary[]>([]);
+    const [returns, setReturns] = useState<Order[]>([]);
+    const [cashSessions, setCashSessions] = useState<CashSession[]>([]);
+    const [deliveryPeople, setDeliveryPeople] = useState<User[]>([]);
     const [date, setDate] = useState<Date>(new Date());
     const [isLoading, setIsLoading] = useState(true);
-    const [isStatusUpdating, setIsStatusUpdating] = useState(false);
     const { toast } = useToast();
 
     useEffect(() => {
@@ -96,6 +210,8 @@ export default function CuadreCajaPage() {
                 
                 const user = await getUserById(session.userId);
                 setCurrentUser(user);
+                // Staff open shifts for any courier, a courier only for themselves
+                setDeliveryPeople(hasPermission(user, 'cash.view') ? await getUsers('delivery') : user ? [user] : []);
             } catch (error) {
                 console.error("Failed to load user session:", error);
                 setIsLoading(false);
@@ -109,34 +225,38 @@ export default function CuadreCajaPage() {
         
         async function fetchDataForDate() {
             setIsLoading(true);
-            const data = await getCashReconciliationData(date, currentUser);
-            setOrders(data);
+            const [data, returnedOrders, sessions] = await Promise.all([
+                getCashReconciliationData(date),
+                getReturnsForReconciliation(date),
+                getCashSessions(date),
+            ]);
+            setOrders(data.orders);
+            setCouriers(data.couriers);
+            setReturns(returnedOrders);
+            setCashSessions(sessions);
             setIsLoading(false);
         }
 
         fetchDataForDate();
     }, [date, currentUser]);
 
-    const handleStatusChange = async (newStatus: DeliveryStatus) => {
-        if (!currentUser) return;
+    // Opening or closing a shift also changes the courier's availability
+    const handleSessionChange = async (session: CashSession) => {
+        setCashSessions(prev => [session, ...prev.filter(s => s.id !== session.id)]);
+        if (currentUser && hasPermission(currentUser, 'orders.deliver')) {
+            setCurrentUser(await getUserById(currentUser.id));
+        }
+    };
 
-        setIsStatusUpdating(true);
-        const result = await updateUserStatus(currentUser.id, newStatus);
-        
-        if (result.success && result.user) {
-            setCurrentUser(result.user);
-            toast({
-                title: "Estado Actualizado",
-                description: `Ahora estás ${newStatus === 'offline' ? 'desconectado' : 'disponible'}.`,
-            });
+    const handleConfirmReturn = async (order: Order, attemptIndex: number) => {
+        const result = await confirmGoodsReturned(order.id, attemptIndex);
+        if (result.success && result.order) {
+            const updatedOrder = result.order;
+            setReturns(prev => prev.map(o => (o.id === updatedOrder.id ? updatedOrder : o)));
+            toast({ title: "Mercancía Recibida", description: `Se registró la devolución del pedido #${order.id.slice(-6)}.` });
         } else {
-            toast({
-                variant: "destructive",
-                title: "Error",
-                description: result.message,
-            });
+            toast({ variant: "destructive", title: "Error", description: result.message });
         }
-        setIsStatusUpdating(false);
     };
 
     if (!currentUser && !isLoading) {
@@ -153,25 +273,16 @@ export default function CuadreCajaPage() {
         );
     }
     
-    const isDeliveryPerson = currentUser?.role === 'delivery';
+    // Without cash.view the user only reconciles their own cash
+    const isDeliveryPerson = !hasPermission(currentUser, 'cash.view');
 
     // --- Admin/Agent View ---
     const GeneralCashReconciliation = () => {
-        const totalCash = orders
-            .filter(o => o.paymentMethod === 'cash' && o.paymentAmount)
-            .reduce((sum, o) => sum + (o.paymentAmount || 0), 0);
-        const totalTransfer = orders.filter(o => o.paymentMethod === 'transfer').reduce((sum, o) => sum + o.total, 0);
+        const totals = paymentTotals(orders.flatMap(o => o.payments));
+        const totalCash = totals.cash;
+        const totalElectronic = electronicTotal(totals);
         const totalOrders = orders.length;
-        const totalCollected = totalCash + totalTransfer;
-
-        const ordersByDeliveryPerson = orders.reduce<Record<string, Order[]>>((acc, order) => {
-            const deliveryPersonName = order.assignedTo?.name;
-            if (!deliveryPersonName) return acc;
-
-            if (!acc[deliveryPersonName]) acc[deliveryPersonName] = [];
-            acc[deliveryPersonName].push(order);
-            return acc;
-        }, {});
+        const totalCollected = totalCash + totalElectronic;
 
         return (
             <div className="flex flex-col gap-8">
@@ -185,9 +296,10 @@ export default function CuadreCajaPage() {
                         <CardDescription>Totales combinados de todos los domiciliarios.</CardDescription>
                     </CardHeader>
                     <CardContent className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                        <UnverifiedTransfersAlert orders={orders} showQueueLink />
                         <StatCard icon={PackageCheck} title="Pedidos Entregados" value={totalOrders.toString()} />
                         <StatCard icon={HandCoins} title="Total Efectivo" value={formatCurrency(totalCash)} isCurrency className="text-success" />
-                        <StatCard icon={Smartphone} title="Total Transferencias" value={formatCurrency(totalTransfer)} isCurrency className="text-accent" />
+                        <StatCard icon={Smartphone} title="Transferencias y Datáfono" value={formatCurrency(totalElectronic)} isCurrency className="text-accent" />
                         <div className="flex items-start gap-4 rounded-lg border bg-primary text-primary-foreground p-4">
                             <Users className="h-8 w-8 text-primary-foreground/80" />
                             <div>
@@ -198,28 +310,30 @@ export default function CuadreCajaPage() {
                     </CardContent>
                 </Card>
 
+                <CashSessionsCard sessions={cashSessions} deliveryPeople={deliveryPeople} canClose={hasPermission(currentUser, 'cash.manage')} canApprove onSessionChange={handleSessionChange} />
+
+                <ReturnsCard returns={returns} date={date} canConfirm onConfirm={handleConfirmReturn} />
+
                 <div>
                     <h2 className="text-2xl font-bold font-headline mb-4">Desglose por Domiciliario</h2>
-                    {Object.keys(ordersByDeliveryPerson).length > 0 ? (
+                    {couriers.length > 0 ? (
                         <Accordion type="single" collapsible className="w-full">
-                            {Object.entries(ordersByDeliveryPerson).map(([name, personOrders]) => {
-                                const subTotal = personOrders.reduce((sum, order) => {
-                                    if (order.paymentMethod === 'cash') {
-                                        return sum + (order.paymentAmount || 0);
-                                    }
-                                    return sum + order.total;
-                                }, 0);
+                            {couriers.map((summary) => {
+                                const personOrders = orders.filter(order => order.assignedTo?.id === summary.deliveryPerson.id);
                                 return (
-                                    <AccordionItem value={name} key={name}>
+                                    <AccordionItem value={summary.deliveryPerson.id} key={summary.deliveryPerson.id}>
                                         <AccordionTrigger className="text-lg font-medium hover:no-underline">
                                             <div className="flex items-center gap-4">
-                                                <span>{name}</span>
-                                                <Badge variant="outline">{personOrders.length} entregas</Badge>
+                                                <span>{summary.deliveryPerson.name}</span>
+                                                <Badge variant="outline">{summary.orderCount} entregas</Badge>
                                             </div>
-                                            <span className="text-xl font-bold text-primary">{formatCurrency(subTotal)}</span>
+                                            <span className="text-xl font-bold text-primary" title="Efectivo a entregar">{formatCurrency(summary.cashToReturn)}</span>
                                         </AccordionTrigger>
                                         <AccordionContent>
-                                            <Card><CardContent className="pt-6"><OrdersTable orders={personOrders} showFooter={true} /></CardContent></Card>
+                                            <Card><CardContent className="pt-6 space-y-4">
+                                                <CashBreakdown summary={summary} />
+                                                <OrdersTable orders={personOrders} showFooter={true} />
+                                            </CardContent></Card>
                                         </AccordionContent>
                                     </AccordionItem>
                                 )
@@ -235,12 +349,10 @@ export default function CuadreCajaPage() {
 
     // --- Delivery Person View ---
     const PersonalCashReconciliation = () => {
-        const totalCash = orders
-            .filter(o => o.paymentMethod === 'cash' && o.paymentAmount)
-            .reduce((sum, o) => sum + (o.paymentAmount || 0), 0);
-        const totalTransfer = orders.filter(o => o.paymentMethod === 'transfer').reduce((sum, o) => sum + o.total, 0);
+        const totals = paymentTotals(orders.flatMap(o => o.payments));
         const totalOrders = orders.length;
-        const totalCollected = totalCash + totalTransfer;
+        const mySummary = couriers.find(summary => summary.deliveryPerson.id === currentUser?.id);
+        const changeFloat = mySummary?.changeFloat ?? 0;
         
         const isOffline = currentUser?.status === 'offline';
 
@@ -257,46 +369,31 @@ export default function CuadreCajaPage() {
                            </Badge>
                         </div>
                     </div>
-                    <div className="flex gap-2">
-                        {isOffline ? (
-                            <Button 
-                                variant="outline" 
-                                onClick={() => handleStatusChange('available')} 
-                                disabled={isStatusUpdating}
-                            >
-                                {isStatusUpdating ? <Loader2 className="mr-2 animate-spin" /> : <LogIn className="mr-2" />}
-                                Abrir Turno
-                            </Button>
-                        ) : (
-                             <Button 
-                                variant="destructive" 
-                                onClick={() => handleStatusChange('offline')} 
-                                disabled={isStatusUpdating}
-                            >
-                                {isStatusUpdating ? <Loader2 className="mr-2 animate-spin" /> : <LogOut className="mr-2" />}
-                                Cerrar Turno
-                            </Button>
-                        )}
-                    </div>
                 </div>
+                <CashSessionsCard sessions={cashSessions} deliveryPeople={deliveryPeople} canClose={hasPermission(currentUser, 'cash.manage')} canApprove={false} onSessionChange={handleSessionChange} />
                 <Card>
                     <CardHeader>
                         <CardTitle>Resumen del Día: {format(date, 'PPP', { locale: es })}</CardTitle>
                         <CardDescription>Tus totales de entregas y recaudos para la fecha seleccionada.</CardDescription>
                     </CardHeader>
                     <CardContent className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                        <UnverifiedTransfersAlert orders={orders} />
                         <StatCard icon={PackageCheck} title="Mis Entregas" value={totalOrders.toString()} />
-                        <StatCard icon={HandCoins} title="Mi Efectivo" value={formatCurrency(totalCash)} isCurrency className="text-success" />
-                        <StatCard icon={Smartphone} title="Mis Transferencias" value={formatCurrency(totalTransfer)} isCurrency className="text-accent" />
+                        <StatCard icon={HandCoins} title="Mi Efectivo" value={formatCurrency(totals.cash)} isCurrency className="text-success" />
+                        <StatCard icon={Smartphone} title="Transferencias y Datáfono" value={formatCurrency(electronicTotal(totals))} isCurrency className="text-accent" />
                         <div className="flex items-start gap-4 rounded-lg border bg-primary text-primary-foreground p-4">
                             <Users className="h-8 w-8 text-primary-foreground/80" />
                             <div>
-                                <p className="font-semibold">Mi Total Recaudado</p>
-                                <p className="text-2xl font-bold">{formatCurrency(totalCollected)}</p>
+                                <p className="font-semibold">Efectivo a Entregar</p>
+                                <p className="text-2xl font-bold">{formatCurrency(totals.cash + changeFloat)}</p>
+                                {changeFloat > 0 && (
+                                    <p className="text-xs text-primary-foreground/80">Incluye {formatCurrency(changeFloat)} de base de vueltos</p>
+                                )}
                             </div>
                         </div>
                     </CardContent>
                 </Card>
+                <ReturnsCard returns={returns} date={date} courierId={currentUser?.id} canConfirm={false} onConfirm={handleConfirmReturn} />
                 <Card>
                     <CardHeader><CardTitle>Desglose de Mis Entregas</CardTitle></CardHeader>
                     <CardContent><OrdersTable orders={orders} showFooter={true} /></CardContent>
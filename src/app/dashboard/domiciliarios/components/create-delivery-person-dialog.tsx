@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { passwordSchema } from "@/lib/password-policy";
 import { Loader2 } from 'lucide-react';
 
 import { Button } from "@/components/ui/button";
@@ -17,7 +18,7 @@ const formSchema = z.object({
     name: z.string().min(3, { message: "El nombre debe tener al menos 3 caracteres." }),
     phone: z.string().regex(/^\d{10}$/, { message: "El teléfono debe tener 10 dígitos." }),
     cedula: z.string().min(5, { message: "La cédula debe tener al menos 5 caracteres." }),
-    password: z.string().min(6, { message: "La contraseña debe tener al menos 6 caracteres." }),
+    password: passwordSchema,
 });
 
 interface CreateDeliveryPersonDialogProps {
@@ -3,6 +3,7 @@
 
 import { useState, useEffect } from 'react';
 import type { User, DeliveryStatus } from '@/types';
+import { hasPermission } from '@/lib/permissions';
 import { getUsers } from '@/actions/user-actions';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -42,6 +43,7 @@ export function DeliveryPeopleList({ initialDeliveryPeople, currentUser }: Deliv
     const [editingPerson, setEditingPerson] = useState<User | null>(null);
     const [viewingHistory, setViewingHistory] = useState<User | null>(null);
     const { toast } = useToast();
+    const canManage = hasPermission(currentUser, 'couriers.manage');
 
     useEffect(() => {
         const fetchDeliveryPeople = async () => {
@@ -68,7 +70,7 @@ export function DeliveryPeopleList({ initialDeliveryPeople, currentUser }: Deliv
     return (
         <>
             <div className="text-right mb-4">
-                 {currentUser.role === 'admin' && (
+                 {canManage && (
                     <Button onClick={() => setCreateDialogOpen(true)}>
                         <PlusCircle className="mr-2" />
                         Añadir Domiciliario
@@ -107,7 +109,7 @@ export function DeliveryPeopleList({ initialDeliveryPeople, currentUser }: Deliv
                             <TableCell className="font-medium">{domiciliario.name}</TableCell>
                             <TableCell>{domiciliario.phone}</TableCell>
                             <TableCell><StatusBadge status={domiciliario.status} /></TableCell>
-                            <TableCell>{domiciliario.activeRoute || 'N/A'}</TableCell>
+                            <TableCell>{domiciliario.activeRoute ? `Ruta #${domiciliario.activeRoute.slice(-6)}` : 'N/A'}</TableCell>
                             <TableCell>
                                 <DropdownMenu>
                                     <DropdownMenuTrigger asChild>
@@ -118,30 +120,34 @@ export function DeliveryPeopleList({ initialDeliveryPeople, currentUser }: Deliv
                                     </DropdownMenuTrigger>
                                     <DropdownMenuContent align="end">
                                         <DropdownMenuLabel>Acciones</DropdownMenuLabel>
-                                        <DropdownMenuItem onSelect={() => setEditingPerson(domiciliario)}>
-                                            Editar Domiciliario
-                                        </DropdownMenuItem>
+                                        {canManage && (
+                                            <DropdownMenuItem onSelect={() => setEditingPerson(domiciliario)}>
+                                                Editar Domiciliario
+                                            </DropdownMenuItem>
+                                        )}
                                         <DropdownMenuItem disabled>Asignar Ruta</DropdownMenuItem>
                                         <DropdownMenuItem onSelect={() => setViewingHistory(domiciliario)}>Ver Historial</DropdownMenuItem>
-                                        <AlertDialog>
-                                            <AlertDialogTrigger asChild>
-                                                 <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="text-destructive">
-                                                    Eliminar
-                                                </DropdownMenuItem>
-                                            </AlertDialogTrigger>
-                                            <AlertDialogContent>
-                                                <AlertDialogHeader>
-                                                    <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
-                                                    <AlertDialogDescription>
-                                                        Esta acción no se puede deshacer. Esto eliminará permanentemente al domiciliario.
-                                                    </AlertDialogDescription>
-                                                </AlertDialogHeader>
-                                                <AlertDialogFooter>
-                                                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                                                    <AlertDialogAction onClick={() => handleDelete(domiciliario.id)}>Continuar</AlertDialogAction>
-                                                </AlertDialogFooter>
-                                            </AlertDialogContent>
-                                        </AlertDialog>
+                                        {canManage && (
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild>
+                                                     <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="text-destructive">
+                                                        Eliminar
+                                                    </DropdownMenuItem>
+                                                </AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader>
+                                                        <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
+                                                        <AlertDialogDescription>
+                                                            Esta acción no se puede deshacer. Esto eliminará permanentemente al domiciliario.
+                                                        </AlertDialogDescription>
+                                                    </AlertDialogHeader>
+                                                    <AlertDialogFooter>
+                                                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                                        <AlertDialogAction onClick={() => handleDelete(domiciliario.id)}>Continuar</AlertDialogAction>
+                                                    </AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        )}
                                     </DropdownMenuContent>
                                 </DropdownMenu>
                             </TableCell>
@@ -1,13 +1,31 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import dynamic from 'next/dynamic';
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Order, User } from '@/types';
-import { getDeliveredOrdersByDeliveryPerson } from '@/actions/order-actions';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Slider } from "@/components/ui/slider";
+import { CalendarIcon, Pause, Play } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { CourierTrack, Order, User } from '@/types';
+import { getDeliveredOrdersByDeliveryPerson, getCourierTrack } from '@/actions/order-actions';
+import { PAYMENT_METHOD_LABELS } from '@/lib/payments';
+
+const TrackMap = dynamic(() => import('@/components/dashboard/track-map'), {
+    ssr: false,
+    loading: () => <Skeleton className="w-full h-full rounded-lg" />
+});
+
+// The replay covers any day in roughly this many frames, however many pings it has
+const REPLAY_FRAMES = 200;
+const REPLAY_FRAME_MS = 50;
 
 interface DeliveryPersonHistoryDialogProps {
     open: boolean;
@@ -18,6 +36,11 @@ interface DeliveryPersonHistoryDialogProps {
 export function DeliveryPersonHistoryDialog({ open, onOpenChange, person }: DeliveryPersonHistoryDialogProps) {
     const [orders, setOrders] = useState<Order[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [trackDate, setTrackDate] = useState<Date>(new Date());
+    const [track, setTrack] = useState<CourierTrack | null>(null);
+    const [isLoadingTrack, setIsLoadingTrack] = useState(false);
+    const [replayIndex, setReplayIndex] = useState(0);
+    const [isReplaying, setIsReplaying] = useState(false);
 
     useEffect(() => {
         if (open && person) {
@@ -37,60 +60,167 @@ export function DeliveryPersonHistoryDialog({ open, onOpenChange, person }: Deli
         }
     }, [open, person]);
 
+    useEffect(() => {
+        if (!open || !person) return;
+        const fetchTrack = async () => {
+            setIsLoadingTrack(true);
+            setIsReplaying(false);
+            const courierTrack = await getCourierTrack(person.id, trackDate);
+            setTrack(courierTrack);
+            // Show the whole day until the replay is started
+            setReplayIndex(Math.max(courierTrack.pings.length - 1, 0));
+            setIsLoadingTrack(false);
+        };
+        fetchTrack();
+    }, [open, person, trackDate]);
+
+    const pingCount = track?.pings.length ?? 0;
+
+    useEffect(() => {
+        if (!isReplaying) return;
+        const step = Math.max(1, Math.ceil(pingCount / REPLAY_FRAMES));
+        const timer = setInterval(() => {
+            setReplayIndex(current => {
+                const next = Math.min(current + step, pingCount - 1);
+                if (next >= pingCount - 1) setIsReplaying(false);
+                return next;
+            });
+        }, REPLAY_FRAME_MS);
+        return () => clearInterval(timer);
+    }, [isReplaying, pingCount]);
+
+    const handleToggleReplay = () => {
+        if (!isReplaying && replayIndex >= pingCount - 1) {
+            setReplayIndex(0); // Start over once the end was reached
+        }
+        setIsReplaying(current => !current);
+    };
+
     if (!person) return null;
 
+    const replayPing = track?.pings[replayIndex];
+
     const totalCollected = orders.reduce((sum, order) => sum + order.total, 0);
 
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
-            <DialogContent className="sm:max-w-2xl">
+            <DialogContent className="sm:max-w-3xl">
                 <DialogHeader>
                     <DialogTitle>Historial de Entregas de {person.name}</DialogTitle>
                     <DialogDescription>
                         Un resumen de los pedidos entregados por este domiciliario desde la base de datos.
                     </DialogDescription>
                 </DialogHeader>
-                <div className="py-4 max-h-[60vh] overflow-y-auto">
-                    {isLoading ? (
-                        <div className="space-y-2">
-                            <Skeleton className="h-8 w-full" />
-                            <Skeleton className="h-8 w-full" />
-                            <Skeleton className="h-8 w-full" />
+                <Tabs defaultValue="entregas">
+                    <TabsList>
+                        <TabsTrigger value="entregas">Entregas</TabsTrigger>
+                        <TabsTrigger value="recorrido">Recorrido</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="entregas">
+                        <div className="py-4 max-h-[60vh] overflow-y-auto">
+                            {isLoading ? (
+                                <div className="space-y-2">
+                                    <Skeleton className="h-8 w-full" />
+                                    <Skeleton className="h-8 w-full" />
+                                    <Skeleton className="h-8 w-full" />
+                                </div>
+                            ) : orders.length > 0 ? (
+                                <>
+                                    <div className="mb-4 text-lg">
+                                        <strong>Total Recaudado:</strong> {totalCollected.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}
+                                    </div>
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Pedido</TableHead>
+                                                <TableHead>Cliente</TableHead>
+                                                <TableHead>Método Pago</TableHead>
+                                                <TableHead className="text-right">Total</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {orders.map((order) => (
+                                                <TableRow key={order.id}>
+                                                    <TableCell className="font-medium">#{order.id.slice(-6)}</TableCell>
+                                                    <TableCell>{order.client.fullName}</TableCell>
+                                                    <TableCell>
+                                                        <div className="flex flex-wrap gap-1">
+                                                            {order.payments.map((payment, index) => (
+                                                                <Badge key={index} variant={payment.method === 'cash' ? 'success' : 'accent'}>
+                                                                    {PAYMENT_METHOD_LABELS[payment.method]}
+                                                                </Badge>
+                                                            ))}
+                                                        </div>
+                                                    </TableCell>
+                                                    <TableCell className="text-right">{order.total.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}</TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </>
+                            ) : (
+                                <p className="text-center text-muted-foreground pt-4">No se encontraron pedidos entregados para este domiciliario.</p>
+                            )}
                         </div>
-                    ) : orders.length > 0 ? (
-                        <>
-                            <div className="mb-4 text-lg">
-                                <strong>Total Recaudado:</strong> {totalCollected.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}
+                    </TabsContent>
+                    <TabsContent value="recorrido">
+                        <div className="py-4 space-y-4">
+                            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                                <Popover>
+                                    <PopoverTrigger asChild>
+                                        <Button variant="outline" className="w-[240px] justify-start text-left font-normal">
+                                            <CalendarIcon className="mr-2 h-4 w-4" />
+                                            {format(trackDate, "PPP", { locale: es })}
+                                        </Button>
+                                    </PopoverTrigger>
+                                    <PopoverContent className="w-auto p-0">
+                                        <Calendar
+                                            mode="single"
+                                            selected={trackDate}
+                                            onSelect={(newDate) => newDate && setTrackDate(newDate)}
+                                            disabled={(day) => day > new Date()}
+                                            initialFocus
+                                        />
+                                    </PopoverContent>
+                                </Popover>
+                                {track && !isLoadingTrack && (
+                                    <div className="text-sm text-muted-foreground">
+                                        <strong className="text-foreground">{(track.distanceMeters / 1000).toFixed(1)} km</strong> recorridos · {track.deliveredOrders.length} entrega(s)
+                                    </div>
+                                )}
+                            </div>
+                            <div className="h-[320px] rounded-lg border overflow-hidden">
+                                {isLoadingTrack || !track ? (
+                                    <Skeleton className="w-full h-full" />
+                                ) : (
+                                    <TrackMap pings={track.pings} deliveredOrders={track.deliveredOrders} replayIndex={replayIndex} />
+                                )}
                             </div>
-                            <Table>
-                                <TableHeader>
-                                    <TableRow>
-                                        <TableHead>Pedido</TableHead>
-                                        <TableHead>Cliente</TableHead>
-                                        <TableHead>Método Pago</TableHead>
-                                        <TableHead className="text-right">Total</TableHead>
-                                    </TableRow>
-                                </TableHeader>
-                                <TableBody>
-                                    {orders.map((order) => (
-                                        <TableRow key={order.id}>
-                                            <TableCell className="font-medium">#{order.id.slice(-6)}</TableCell>
-                                            <TableCell>{order.client.fullName}</TableCell>
-                                            <TableCell>
-                                                 <Badge variant={order.paymentMethod === 'cash' ? 'success' : 'accent'}>
-                                                    {order.paymentMethod === 'cash' ? 'Efectivo' : 'Transferencia'}
-                                                </Badge>
-                                            </TableCell>
-                                            <TableCell className="text-right">{order.total.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}</TableCell>
-                                        </TableRow>
-                                    ))}
-                                </TableBody>
-                            </Table>
-                        </>
-                    ) : (
-                        <p className="text-center text-muted-foreground pt-4">No se encontraron pedidos entregados para este domiciliario.</p>
-                    )}
-                </div>
+                            {track && !isLoadingTrack && (pingCount > 0 ? (
+                                <div className="flex items-center gap-4">
+                                    <Button variant="outline" size="icon" onClick={handleToggleReplay} aria-label={isReplaying ? 'Pausar' : 'Reproducir'}>
+                                        {isReplaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                                    </Button>
+                                    <Slider
+                                        value={[replayIndex]}
+                                        min={0}
+                                        max={Math.max(pingCount - 1, 0)}
+                                        step={1}
+                                        onValueChange={([value]) => {
+                                            setIsReplaying(false);
+                                            setReplayIndex(value);
+                                        }}
+                                    />
+                                    <span className="w-20 text-right text-sm tabular-nums text-muted-foreground">
+                                        {replayPing && format(new Date(replayPing.recordedAt), 'h:mm a')}
+                                    </span>
+                                </div>
+                            ) : (
+                                <p className="text-center text-muted-foreground">No hay ubicaciones registradas para este día.</p>
+                            ))}
+                        </div>
+                    </TabsContent>
+                </Tabs>
                 <DialogFooter>
                     <Button variant="outline" onClick={() => onOpenChange(false)}>Cerrar</Button>
                 </DialogFooter>
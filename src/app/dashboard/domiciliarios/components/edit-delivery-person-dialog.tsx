@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { passwordSchema } from "@/lib/password-policy";
 import { Loader2 } from 'lucide-react';
 
 import { Button } from "@/components/ui/button";
@@ -20,7 +21,7 @@ const formSchema = z.object({
     phone: z.string().regex(/^\d{10}$/, { message: "El teléfono debe tener 10 dígitos." }),
     cedula: z.string().min(5, { message: "La cédula debe tener al menos 5 caracteres." }),
     avatarUrl: z.string().url({ message: "Por favor, ingresa una URL de imagen válida." }).optional().or(z.literal('')),
-    password: z.string().min(6, { message: "La contraseña debe tener al menos 6 caracteres." }).optional().or(z.literal('')),
+    password: passwordSchema.optional().or(z.literal('')),
 });
 
 interface EditDeliveryPersonDialogProps {
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { subDays, format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { FlaggedDeliveriesByCourier, Order } from '@/types';
+import { getFlaggedDeliveriesReport } from '@/actions/order-actions';
+import { OrderDetailsDialog } from '../../pedidos/components/order-details-dialog';
+
+const PERIODS = [
+    { days: 7, label: 'Últimos 7 días' },
+    { days: 30, label: 'Últimos 30 días' },
+] as const;
+
+export function FlaggedDeliveriesReport() {
+    const [periodDays, setPeriodDays] = useState<number>(7);
+    const [report, setReport] = useState<FlaggedDeliveriesByCourier[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [viewingOrder, setViewingOrder] = useState<Order | null>(null);
+
+    useEffect(() => {
+        const fetchReport = async () => {
+            setIsLoading(true);
+            const today = new Date();
+            setReport(await getFlaggedDeliveriesReport(subDays(today, periodDays - 1), today));
+            setIsLoading(false);
+        };
+        fetchReport();
+    }, [periodDays]);
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                    <CardTitle>Entregas Fuera de Zona</CardTitle>
+                    <CardDescription>
+                        Pedidos confirmados como entregados lejos de la dirección del cliente o sin ubicación GPS.
+                    </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                    {PERIODS.map(period => (
+                        <Button
+                            key={period.days}
+                            size="sm"
+                            variant={periodDays === period.days ? 'default' : 'outline'}
+                            onClick={() => setPeriodDays(period.days)}
+                        >
+                            {period.label}
+                        </Button>
+                    ))}
+                </div>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="space-y-2">
+                        <Skeleton className="h-10 w-full" />
+                        <Skeleton className="h-10 w-full" />
+                    </div>
+                ) : report.length > 0 ? (
+                    <Accordion type="multiple" className="w-full">
+                        {report.map(({ deliveryPerson, deliveredCount, flaggedOrders }) => (
+                            <AccordionItem key={deliveryPerson.id} value={deliveryPerson.id}>
+                                <AccordionTrigger>
+                                    <div className="flex items-center gap-3">
+                                        <span className="font-medium">{deliveryPerson.name}</span>
+                                        <Badge variant="destructive">
+                                            <AlertTriangle className="mr-1 h-3 w-3" />
+                                            {flaggedOrders.length} de {deliveredCount}
+                                        </Badge>
+                                    </div>
+                                </AccordionTrigger>
+                                <AccordionContent>
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Pedido</TableHead>
+                                                <TableHead>Cliente</TableHead>
+                                                <TableHead>Confirmado</TableHead>
+                                                <TableHead className="text-right">Distancia</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {flaggedOrders.map(order => (
+                                                <TableRow key={order.id} className="cursor-pointer" onClick={() => setViewingOrder(order)}>
+                                                    <TableCell className="font-medium">#{order.id.slice(-6)}</TableCell>
+                                                    <TableCell>{order.client.fullName}</TableCell>
+                                                    <TableCell>
+                                                        {order.proofOfDelivery && format(new Date(order.proofOfDelivery.capturedAt), "d MMM, h:mm a", { locale: es })}
+                                                    </TableCell>
+                                                    <TableCell className="text-right">
+                                                        {order.proofOfDelivery?.distanceMeters !== undefined
+                                                            ? `${order.proofOfDelivery.distanceMeters.toLocaleString('es-CO')} m`
+                                                            : 'Sin ubicación'}
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </AccordionContent>
+                            </AccordionItem>
+                        ))}
+                    </Accordion>
+                ) : (
+                    <p className="text-center text-muted-foreground py-4">No hay entregas marcadas para revisión en este periodo.</p>
+                )}
+            </CardContent>
+            <OrderDetailsDialog
+                order={viewingOrder}
+                open={!!viewingOrder}
+                onOpenChange={(open) => { if (!open) setViewingOrder(null) }}
+            />
+        </Card>
+    );
+}
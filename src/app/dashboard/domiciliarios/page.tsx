@@ -1,7 +1,9 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { getUsers, getUserById } from '@/actions/user-actions';
 import type { User } from '@/types';
+import { hasPermission } from '@/lib/permissions';
 import { DeliveryPeopleList } from "./components/delivery-people-list";
+import { FlaggedDeliveriesReport } from "./components/flagged-deliveries-report";
 import { getSession } from '@/lib/auth';
 
 export default async function DomiciliariosPage() {
@@ -16,8 +18,8 @@ export default async function DomiciliariosPage() {
     }
 
     return (
-        <div>
-            <div className="flex items-center justify-between mb-8 flex-wrap gap-4">
+        <div className="space-y-8">
+            <div className="flex items-center justify-between flex-wrap gap-4">
                 <div>
                     <h1 className="text-3xl font-bold font-headline">Gestión de Domiciliarios</h1>
                     <p className="text-muted-foreground">Administra tu equipo de entrega y asigna rutas.</p>
@@ -34,6 +36,7 @@ export default async function DomiciliariosPage() {
                    <DeliveryPeopleList initialDeliveryPeople={deliveryPeople} currentUser={currentUser} />
                 </CardContent>
             </Card>
+            {hasPermission(currentUser, 'reports.view') && <FlaggedDeliveriesReport />}
         </div>
     );
 }
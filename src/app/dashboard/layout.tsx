@@ -4,6 +4,7 @@ import { Header } from '@/components/dashboard/header';
 import { getSession } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { getUserById } from '@/actions/user-actions';
+import { requireSession, AuthorizationError } from '@/lib/authorization';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Terminal } from 'lucide-react';
 
@@ -14,6 +15,16 @@ export default async function DashboardLayout({ children }: { children: ReactNod
     redirect('/');
   }
 
+  // A revoked session or a suspended account keeps a valid cookie, which would send the user
+  // from the login page straight back here, so it is dropped on the way out
+  const authSession = await requireSession().catch(error => {
+    if (error instanceof AuthorizationError) return null;
+    throw error;
+  });
+  if (!authSession) {
+    redirect('/api/logout');
+  }
+
   const currentUser = await getUserById(session.userId as string);
   
   if (!currentUser) {
@@ -30,6 +41,11 @@ export default async function DashboardLayout({ children }: { children: ReactNod
     );
   }
 
+  // Accounts with a password set by an admin or reset by someone else must pick their own first
+  if (currentUser.mustChangePassword) {
+    redirect('/cambiar-contrasena');
+  }
+
   return (
     <div className="flex min-h-screen w-full bg-muted/40">
       <Sidebar user={currentUser} />
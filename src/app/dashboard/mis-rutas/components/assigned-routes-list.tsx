@@ -1,12 +1,14 @@
 'use client';
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { CheckCircle2, Clock, DollarSign, MapPin } from "lucide-react";
+import { CheckCircle2, Clock, DollarSign, MapPin, PackageX } from "lucide-react";
 import type { Order, OrderStatus } from '@/types';
-import { useToast } from '@/hooks/use-toast';
-import { updateOrderStatus } from '@/actions/order-actions';
+import { ProofOfDeliveryDialog } from './proof-of-delivery-dialog';
+import { describePayment, PAYMENT_VERIFICATION_LABELS } from '@/lib/payments';
+import { FailedAttemptDialog } from './failed-attempt-dialog';
+import { PaymentReceiptButton } from '../../transferencias/components/payment-receipt-button';
 
 const StatusBadge = ({ status }: { status: OrderStatus }) => {
     switch (status) {
@@ -28,17 +30,20 @@ interface AssignedRoutesListProps {
 
 export function AssignedRoutesList({ initialOrders }: AssignedRoutesListProps) {
     const [orders, setOrders] = useState(initialOrders);
-    const { toast } = useToast();
+    const [deliveringOrder, setDeliveringOrder] = useState<Order | null>(null);
+    const [failingOrder, setFailingOrder] = useState<Order | null>(null);
 
-    const handleMarkDelivered = async (orderToUpdate: Order) => {
-        const result = await updateOrderStatus(orderToUpdate.id, 'delivered');
-        
-        if (result.success) {
-            setOrders(prev => prev.filter(o => o.id !== orderToUpdate.id));
-            toast({ title: 'Pedido Entregado', description: `El pedido de ${orderToUpdate.client.fullName} fue marcado como entregado.` });
-        } else {
-             toast({ variant: 'destructive', title: 'Error', description: result.message });
-        }
+    useEffect(() => {
+        setOrders(initialOrders);
+    }, [initialOrders]);
+
+    // Delivered orders and failed attempts both leave the courier's list
+    const handleOrderClosed = (closedOrder: Order) => {
+        setOrders(prev => prev.filter(o => o.id !== closedOrder.id));
+    };
+
+    const handleOrderUpdated = (updatedOrder: Order) => {
+        setOrders(prev => prev.map(o => (o.id === updatedOrder.id ? updatedOrder : o)));
     };
 
     return (
@@ -58,16 +63,43 @@ export function AssignedRoutesList({ initialOrders }: AssignedRoutesListProps) {
                                 <MapPin className="mr-2 h-4 w-4 text-muted-foreground" />
                                 <span>{order.deliveryLocation.address}</span>
                             </div>
-                            <div className="flex items-center text-sm">
-                                <DollarSign className="mr-2 h-4 w-4 text-muted-foreground" />
-                                <span>{order.total.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })} - <span className="font-semibold capitalize">{order.paymentMethod === 'cash' ? 'Efectivo' : 'Transferencia'}</span></span>
+                            <div className="flex items-start text-sm">
+                                <DollarSign className="mr-2 h-4 w-4 mt-0.5 text-muted-foreground" />
+                                <div>
+                                    <span className="font-semibold">{order.total.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}</span>
+                                    {order.payments.map((payment, index) => (
+                                        <div key={index} className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                                            <span>{describePayment(payment)}</span>
+                                            {payment.verificationStatus && (
+                                                <>
+                                                    <Badge variant={payment.verificationStatus === 'rejected' ? 'destructive' : 'outline'}>
+                                                        {PAYMENT_VERIFICATION_LABELS[payment.verificationStatus]}
+                                                    </Badge>
+                                                    {payment.verificationStatus !== 'verified' && (
+                                                        <PaymentReceiptButton orderId={order.id} paymentIndex={index} hasReceipt={!!payment.receiptUrl} onUploaded={handleOrderUpdated} />
+                                                    )}
+                                                </>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
                             </div>
                         </CardContent>
                         <CardFooter className="flex justify-end gap-2 border-t pt-4 mt-4">
-                            <Button size="sm" onClick={() => handleMarkDelivered(order)}>
-                                <CheckCircle2 className="mr-2 h-4 w-4" />
-                                Marcar como Entregado
-                            </Button>
+                            {order.status === 'in_transit' ? (
+                                <>
+                                    <Button size="sm" variant="outline" onClick={() => setFailingOrder(order)}>
+                                        <PackageX className="mr-2 h-4 w-4" />
+                                        No se pudo Entregar
+                                    </Button>
+                                    <Button size="sm" onClick={() => setDeliveringOrder(order)}>
+                                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                                        Marcar como Entregado
+                                    </Button>
+                                </>
+                            ) : (
+                                <p className="text-sm text-muted-foreground">Inicia la ruta para poder entregar este pedido.</p>
+                            )}
                         </CardFooter>
                     </Card>
                 ))
@@ -80,6 +112,18 @@ export function AssignedRoutesList({ initialOrders }: AssignedRoutesListProps) {
                     </CardContent>
                 </Card>
             )}
+            <ProofOfDeliveryDialog
+                order={deliveringOrder}
+                open={!!deliveringOrder}
+                onOpenChange={(open) => !open && setDeliveringOrder(null)}
+                onDelivered={handleOrderClosed}
+            />
+            <FailedAttemptDialog
+                order={failingOrder}
+                open={!!failingOrder}
+                onOpenChange={(open) => !open && setFailingOrder(null)}
+                onRecorded={handleOrderClosed}
+            />
         </div>
     );
 }
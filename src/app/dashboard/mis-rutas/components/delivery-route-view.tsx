@@ -3,32 +3,17 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { updateUserLocation } from '@/actions/user-actions';
+import { startDeliveryRoute } from '@/actions/order-actions';
 import { AssignedRoutesList } from "./assigned-routes-list";
 import { Card, CardContent } from "@/components/ui/card";
 import type { Order, Location } from '@/types';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { LocateFixed, MapIcon } from 'lucide-react';
+import { LocateFixed, MapIcon, Play, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { sendWhatsAppNotification } from '@/lib/whatsapp';
-
-
-// Haversine formula to calculate distance between two points on Earth
-const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const toRadians = (deg: number) => deg * Math.PI / 180;
-    const R = 6371e3; // metres
-    const φ1 = toRadians(lat1);
-    const φ2 = toRadians(lat2);
-    const Δφ = toRadians(lat2 - lat1);
-    const Δλ = toRadians(lon2 - lon1);
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c; // in metres
-};
+import { useDispatchEvents } from '@/hooks/use-dispatch-events';
+import { haversineMeters } from '@/lib/geo';
 
 
 // Haversine formula to calculate bearing between two points
@@ -54,6 +39,7 @@ export function DeliveryRouteView({ initialOrders, pharmacyLocation, sessionUser
     const [orders, setOrders] = useState<Order[]>(initialOrders);
     const [notifiedOrderIds, setNotifiedOrderIds] = useState<Set<string>>(new Set());
     const [error, setError] = useState<string | null>(null);
+    const [isStartingRoute, setIsStartingRoute] = useState(false);
     const { toast } = useToast();
 
     const lastPosition = useRef<{ lat: number, lng: number } | null>(null);
@@ -63,6 +49,22 @@ export function DeliveryRouteView({ initialOrders, pharmacyLocation, sessionUser
         setOrders(initialOrders);
     }, [initialOrders]);
 
+    // Orders assigned, reassigned or cancelled by the dispatcher show up without reloading
+    useDispatchEvents(event => {
+        if (event.type === 'courier.location') return;
+
+        const { order } = event;
+        const isMine = order.assignedTo?.id === sessionUserId && (order.status === 'assigned' || order.status === 'in_transit');
+        if (!isMine) {
+            setOrders(prev => prev.filter(o => o.id !== order.id));
+            return;
+        }
+        if (!orders.some(o => o.id === order.id)) {
+            toast({ title: 'Nuevo Pedido Asignado', description: `Pedido de ${order.client.fullName} en ${order.deliveryLocation.address}.` });
+        }
+        setOrders(prev => (prev.some(o => o.id === order.id) ? prev.map(o => (o.id === order.id ? order : o)) : [...prev, order]));
+    });
+
     useEffect(() => {
         if (!sessionUserId || orders.length === 0) return;
 
@@ -75,14 +77,15 @@ export function DeliveryRouteView({ initialOrders, pharmacyLocation, sessionUser
                     bearing = getBearing(lastPosition.current.lat, lastPosition.current.lng, latitude, longitude);
                 }
 
-                updateUserLocation(sessionUserId, { lat: latitude, lng: longitude, bearing });
+                updateUserLocation({ lat: latitude, lng: longitude, bearing });
                 
                 lastPosition.current = { lat: latitude, lng: longitude };
 
                 // --- Automatic Nearby Notification Logic ---
-                orders.forEach(order => {
+                // Only orders already on their way are announced, assigned ones are still at the pharmacy
+                orders.filter(order => order.status === 'in_transit').forEach(order => {
                     if (order.deliveryLocation.lat && order.deliveryLocation.lng && !notifiedOrderIds.has(order.id)) {
-                        const distance = getDistance(latitude, longitude, order.deliveryLocation.lat, order.deliveryLocation.lng);
+                        const distance = haversineMeters({ lat: latitude, lng: longitude }, { lat: order.deliveryLocation.lat, lng: order.deliveryLocation.lng });
                         
                         if (distance <= NEARBY_DISTANCE_METERS) {
                             sendWhatsAppNotification(order.client.phone, 'nearby', order);
@@ -110,6 +113,20 @@ export function DeliveryRouteView({ initialOrders, pharmacyLocation, sessionUser
         return () => navigator.geolocation.clearWatch(watchId);
     }, [sessionUserId, orders, toast, notifiedOrderIds]);
 
+    const handleStartRoute = async () => {
+        setIsStartingRoute(true);
+        const result = await startDeliveryRoute();
+
+        if (result.success && result.orders) {
+            const startedById = new Map<string, Order>(result.orders.map((order: Order) => [order.id, order]));
+            setOrders(prev => prev.map(order => startedById.get(order.id) ?? order));
+            toast({ title: 'Ruta Iniciada', description: `${result.message} Los clientes fueron notificados.` });
+        } else {
+            toast({ variant: 'destructive', title: 'Error al iniciar ruta', description: result.message });
+        }
+        setIsStartingRoute(false);
+    };
+
     const handleOpenGoogleMaps = () => {
         // pharmacyLocation is guaranteed to be present here because of the server-side check
         if (!pharmacyLocation?.lat || !pharmacyLocation?.lng) {
@@ -138,6 +155,8 @@ export function DeliveryRouteView({ initialOrders, pharmacyLocation, sessionUser
         window.open(googleMapsUrl, '_blank');
     };
 
+    const hasAssignedOrders = orders.some(order => order.status === 'assigned');
+
     if (error) {
          return (
              <Card>
@@ -155,12 +174,20 @@ export function DeliveryRouteView({ initialOrders, pharmacyLocation, sessionUser
                     <h1 className="text-3xl font-bold font-headline">Mis Rutas Asignadas</h1>
                     <p className="text-muted-foreground">Aquí puedes ver los detalles de los pedidos que debes entregar hoy.</p>
                 </div>
-                {orders.length > 0 && (
-                    <Button onClick={handleOpenGoogleMaps} size="lg">
-                        <MapIcon className="mr-2" />
-                        Iniciar Ruta en Google Maps
-                    </Button>
-                )}
+                <div className="flex flex-col sm:flex-row gap-2">
+                    {hasAssignedOrders && (
+                        <Button onClick={handleStartRoute} size="lg" disabled={isStartingRoute}>
+                            {isStartingRoute ? <Loader2 className="mr-2 animate-spin" /> : <Play className="mr-2" />}
+                            Iniciar Ruta
+                        </Button>
+                    )}
+                    {orders.length > 0 && (
+                        <Button onClick={handleOpenGoogleMaps} size="lg" variant={hasAssignedOrders ? 'outline' : 'default'}>
+                            <MapIcon className="mr-2" />
+                            Abrir en Google Maps
+                        </Button>
+                    )}
+                </div>
             </div>
              <Alert className="mb-6 bg-blue-50 border-blue-200 text-blue-800 dark:bg-blue-950 dark:border-blue-800 dark:text-blue-200">
                 <LocateFixed className="h-4 w-4 !text-blue-600 dark:!text-blue-400" />
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, PackageX } from 'lucide-react';
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from '@/hooks/use-toast';
+import { recordFailedAttempt } from '@/actions/order-actions';
+import { FAILED_DELIVERY_REASON_LABELS } from '@/lib/order-status';
+import type { FailedDeliveryReason, Order } from '@/types';
+
+const formSchema = z.object({
+    reason: z.enum(['absent', 'wrong_address', 'refused', 'no_cash'], { required_error: "Selecciona el motivo." }),
+    notes: z.string().max(500, { message: "Las notas no pueden superar 500 caracteres." }).optional(),
+});
+
+interface FailedAttemptDialogProps {
+    order: Order | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onRecorded?: (order: Order) => void;
+}
+
+export function FailedAttemptDialog({ order, open, onOpenChange, onRecorded }: FailedAttemptDialogProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { toast } = useToast();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+        defaultValues: { notes: "" },
+    });
+
+    useEffect(() => {
+        if (open) {
+            form.reset({ reason: undefined, notes: "" });
+        }
+    }, [open, form]);
+
+    const onSubmit = async (values: z.infer<typeof formSchema>) => {
+        if (!order) return;
+        setIsSubmitting(true);
+        const result = await recordFailedAttempt(order.id, values);
+        if (result.success && result.order) {
+            toast({ title: 'Intento Registrado', description: 'El pedido volvió a la cola de pendientes. Devuelve la mercancía en la farmacia.' });
+            onRecorded?.(result.order);
+            onOpenChange(false);
+        } else {
+            toast({ variant: 'destructive', title: 'Error al registrar', description: result.message });
+        }
+        setIsSubmitting(false);
+    };
+
+    if (!order) return null;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>No se pudo Entregar</DialogTitle>
+                    <DialogDescription>
+                        Pedido #{order.id.slice(-6)} de {order.client.fullName}. Se avisará al cliente por WhatsApp y el pedido se volverá a planificar.
+                    </DialogDescription>
+                </DialogHeader>
+                <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <FormField
+                            control={form.control}
+                            name="reason"
+                            render={({ field }) => (
+                                <FormItem className="space-y-3">
+                                    <FormLabel>Motivo</FormLabel>
+                                    <FormControl>
+                                        <RadioGroup onValueChange={field.onChange} value={field.value ?? ''} className="flex flex-col space-y-1">
+                                            {(Object.entries(FAILED_DELIVERY_REASON_LABELS) as [FailedDeliveryReason, string][]).map(([value, label]) => (
+                                                <FormItem key={value} className="flex items-center space-x-3 space-y-0">
+                                                    <FormControl>
+                                                        <RadioGroupItem value={value} />
+                                                    </FormControl>
+                                                    <FormLabel className="font-normal">{label}</FormLabel>
+                                                </FormItem>
+                                            ))}
+                                        </RadioGroup>
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="notes"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Notas</FormLabel>
+                                    <FormControl>
+                                        <Textarea placeholder="Ej: Nadie abre, el vecino dice que regresan en la tarde." {...field} />
+                                    </FormControl>
+                                    <FormDescription>Opcional. Ayuda a quien vuelva a intentar la entrega.</FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancelar</Button>
+                            <Button type="submit" variant="destructive" disabled={isSubmitting}>
+                                {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PackageX className="mr-2 h-4 w-4" />}
+                                Registrar Intento
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Camera, CheckCircle2, Loader2, LocateFixed, MapPinOff } from 'lucide-react';
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from '@/hooks/use-toast';
+import { deliverOrder } from '@/actions/order-actions';
+import { haversineMeters } from '@/lib/geo';
+import type { Order } from '@/types';
+import { SignaturePad } from './signature-pad';
+
+const formSchema = z.object({
+    recipientName: z.string().trim().min(3, { message: "Escribe el nombre de quien recibe el pedido." }),
+    recipientId: z.string().trim().regex(/^\d{5,12}$/, { message: "La cédula debe tener entre 5 y 12 dígitos." }),
+    photo: z.instanceof(File, { message: "Toma una foto de la entrega." }),
+    signature: z.string({ required_error: "Falta la firma de quien recibe." }).min(1, { message: "Falta la firma de quien recibe." }),
+});
+
+// Phone photos are several megabytes; the longest side is reduced to this before uploading
+const MAX_PHOTO_DIMENSION = 1280;
+
+function resizePhoto(file: File): Promise<File> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        const url = URL.createObjectURL(file);
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(image.width, image.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(image.width * scale);
+            canvas.height = Math.round(image.height * scale);
+            canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+            canvas.toBlob(
+                blob => (blob ? resolve(new File([blob], 'entrega.jpg', { type: 'image/jpeg' })) : reject(new Error('Could not encode photo'))),
+                'image/jpeg',
+                0.8
+            );
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Could not read photo'));
+        };
+        image.src = url;
+    });
+}
+
+interface ProofOfDeliveryDialogProps {
+    order: Order | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onDelivered?: (order: Order) => void;
+}
+
+export function ProofOfDeliveryDialog({ order, open, onOpenChange, onDelivered }: ProofOfDeliveryDialogProps) {
+    const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [position, setPosition] = useState<GeolocationCoordinates | null>(null);
+    const [isLocating, setIsLocating] = useState(false);
+    const { toast } = useToast();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+        defaultValues: {
+            recipientName: "",
+            recipientId: "",
+            signature: "",
+        },
+    });
+
+    // Each delivery starts from a fresh form, suggesting the client as the recipient
+    useEffect(() => {
+        if (open && order) {
+            form.reset({ recipientName: order.client.fullName, recipientId: "", signature: "" });
+            setPhotoPreview(null);
+        }
+    }, [open, order, form]);
+
+    // A fresh fix is taken when the dialog opens; the server compares it with the delivery address
+    useEffect(() => {
+        if (!open) return;
+        setPosition(null);
+        if (!navigator.geolocation) return;
+        setIsLocating(true);
+        navigator.geolocation.getCurrentPosition(
+            (result) => {
+                setPosition(result.coords);
+                setIsLocating(false);
+            },
+            (geoError) => {
+                console.error("Geolocation error:", geoError);
+                setIsLocating(false);
+            },
+            { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+        );
+    }, [open]);
+
+    useEffect(() => {
+        return () => {
+            if (photoPreview) URL.revokeObjectURL(photoPreview);
+        };
+    }, [photoPreview]);
+
+    const handlePhotoSelected = async (file: File | undefined, onChange: (file: File) => void) => {
+        if (!file) return;
+        try {
+            const resized = await resizePhoto(file);
+            onChange(resized);
+            setPhotoPreview(URL.createObjectURL(resized));
+        } catch (error) {
+            console.error('Failed to process delivery photo', error);
+            toast({ variant: 'destructive', title: 'Foto no válida', description: 'No se pudo leer la foto. Intenta tomarla de nuevo.' });
+        }
+    };
+
+    const onSubmit = async (values: z.infer<typeof formSchema>) => {
+        if (!order) return;
+        setIsSubmitting(true);
+
+        const formData = new FormData();
+        formData.append('recipientName', values.recipientName);
+        formData.append('recipientId', values.recipientId);
+        formData.append('photo', values.photo);
+        formData.append('signature', values.signature);
+        if (position) {
+            formData.append('lat', String(position.latitude));
+            formData.append('lng', String(position.longitude));
+            formData.append('accuracy', String(position.accuracy));
+        }
+
+        const result = await deliverOrder(order.id, formData);
+        if (result.success && result.order) {
+            toast({ title: 'Pedido Entregado', description: `El pedido de ${order.client.fullName} fue marcado como entregado.` });
+            onDelivered?.(result.order);
+            onOpenChange(false);
+        } else {
+            toast({ variant: 'destructive', title: 'Error al entregar', description: result.message });
+        }
+        setIsSubmitting(false);
+    };
+
+    if (!order) return null;
+
+    const { lat: stopLat, lng: stopLng } = order.deliveryLocation;
+    const distanceToStop = position && stopLat && stopLng
+        ? Math.round(haversineMeters({ lat: position.latitude, lng: position.longitude }, { lat: stopLat, lng: stopLng }))
+        : null;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md max-h-[95vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Prueba de Entrega</DialogTitle>
+                    <DialogDescription>
+                        Pedido #{order.id.slice(-6)} de {order.client.fullName}. Toma una foto, pide la firma y anota quién recibe.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex items-center gap-2 rounded-md border p-3 text-sm text-muted-foreground">
+                    {isLocating ? (
+                        <><Loader2 className="h-4 w-4 animate-spin" /> Obteniendo tu ubicación...</>
+                    ) : position ? (
+                        <><LocateFixed className="h-4 w-4" /> {distanceToStop !== null ? `Estás a ${distanceToStop} m de la dirección de entrega.` : 'Ubicación obtenida.'}</>
+                    ) : (
+                        <><MapPinOff className="h-4 w-4" /> No se pudo obtener tu ubicación. La entrega quedará marcada para revisión.</>
+                    )}
+                </div>
+                <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <FormField
+                            control={form.control}
+                            name="photo"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Foto de la Entrega</FormLabel>
+                                    {photoPreview && (
+                                        <img src={photoPreview} alt="Foto de la entrega" className="w-full max-h-48 object-cover rounded-md border" />
+                                    )}
+                                    <FormControl>
+                                        <label className="flex items-center justify-center gap-2 rounded-md border border-dashed p-3 text-sm cursor-pointer hover:bg-muted">
+                                            <Camera className="h-4 w-4" />
+                                            {photoPreview ? 'Tomar otra foto' : 'Tomar foto'}
+                                            <input
+                                                type="file"
+                                                accept="image/*"
+                                                capture="environment"
+                                                className="sr-only"
+                                                onChange={(event) => handlePhotoSelected(event.target.files?.[0], field.onChange)}
+                                            />
+                                        </label>
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="signature"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Firma de quien Recibe</FormLabel>
+                                    <SignaturePad onChange={(signature) => field.onChange(signature ?? '')} />
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="recipientName"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Nombre de quien Recibe</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Ej: Ana Pérez" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="recipientId"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Cédula de quien Recibe</FormLabel>
+                                    <FormControl>
+                                        <Input inputMode="numeric" placeholder="Ej: 1091234567" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancelar</Button>
+                            <Button type="submit" disabled={isSubmitting || isLocating}>
+                                {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                                Confirmar Entrega
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    );
+}
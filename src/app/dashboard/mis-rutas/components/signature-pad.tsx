@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Eraser } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface SignaturePadProps {
+    // Receives the signature as a PNG data URL after every stroke, or null once it is cleared
+    onChange: (signature: string | null) => void;
+}
+
+export function SignaturePad({ onChange }: SignaturePadProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const isDrawing = useRef(false);
+
+    // The canvas is sized in device pixels so strokes stay sharp on phone screens
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = canvas.offsetWidth * ratio;
+        canvas.height = canvas.offsetHeight * ratio;
+        const context = canvas.getContext('2d')!;
+        context.scale(ratio, ratio);
+        context.lineWidth = 2.5;
+        context.lineCap = 'round';
+        context.lineJoin = 'round';
+        context.strokeStyle = '#111827';
+    }, []);
+
+    const pointFrom = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        isDrawing.current = true;
+        const context = event.currentTarget.getContext('2d')!;
+        const { x, y } = pointFrom(event);
+        context.beginPath();
+        context.moveTo(x, y);
+        // A tap leaves a dot instead of nothing
+        context.lineTo(x + 0.1, y + 0.1);
+        context.stroke();
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!isDrawing.current) return;
+        const context = event.currentTarget.getContext('2d')!;
+        const { x, y } = pointFrom(event);
+        context.lineTo(x, y);
+        context.stroke();
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!isDrawing.current) return;
+        isDrawing.current = false;
+        onChange(event.currentTarget.toDataURL('image/png'));
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+        onChange(null);
+    };
+
+    return (
+        <div className="space-y-2">
+            <canvas
+                ref={canvasRef}
+                className="w-full h-40 rounded-md border bg-white touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+            />
+            <div className="flex justify-end">
+                <Button type="button" variant="ghost" size="sm" onClick={handleClear}>
+                    <Eraser className="mr-2 h-4 w-4" />
+                    Borrar firma
+                </Button>
+            </div>
+        </div>
+    );
+}
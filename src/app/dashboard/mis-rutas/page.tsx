@@ -3,6 +3,7 @@ import { getOrdersByDeliveryPerson } from "@/actions/order-actions";
 import { getPharmacySettings } from "@/actions/pharmacy-settings-actions";
 import { getUserById } from "@/actions/user-actions";
 import { getSession } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
 import { Card, CardContent } from "@/components/ui/card";
 import { DeliveryRouteView } from "./components/delivery-route-view";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -29,7 +30,7 @@ export default async function MisRutasPage() {
         getUserById(session.userId),
     ]);
 
-    if (currentUser?.role !== 'delivery') {
+    if (!hasPermission(currentUser, 'orders.deliver')) {
          return (
             <Card>
                 <CardContent className="p-8 text-center text-muted-foreground">
@@ -3,7 +3,7 @@
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Bike, DollarSign, Package, Map, ListOrdered } from 'lucide-react';
+import { Bike, DollarSign, Package, Map, ListOrdered, AlertTriangle } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { getDashboardStats, getOrders } from "@/actions/order-actions";
@@ -13,7 +13,10 @@ import type { OrderStatus, Order, User } from "@/types";
 import type { RouteInfo } from '@/components/dashboard/map-component';
 import { DashboardMap } from "./components/dashboard-map";
 import { getPharmacySettings } from "@/actions/pharmacy-settings-actions";
+import { getLowStockProducts } from "@/actions/product-actions";
+import { getOpenRoutes } from "@/actions/route-actions";
 import { getSession } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
 
 const getStatusBadge = (status: OrderStatus) => {
   switch (status) {
@@ -26,21 +29,6 @@ const getStatusBadge = (status: OrderStatus) => {
   }
 };
 
-const groupOrdersByDeliveryPerson = (orders: Order[]): Record<string, Order[]> => {
-    const assignedOrders = orders.filter(o => (o.status === 'in_transit' || o.status === 'assigned') && o.assignedTo);
-
-    return assignedOrders.reduce<Record<string, Order[]>>((acc, order) => {
-        if (order.assignedTo) {
-            const personId = order.assignedTo.id;
-            if (!acc[personId]) {
-                acc[personId] = [];
-            }
-            acc[personId].push(order);
-        }
-        return acc;
-    }, {});
-};
-
 const ROUTE_COLORS = ['hsl(var(--primary))', 'hsl(var(--chart-2))', 'hsl(var(--chart-4))', 'hsl(var(--destructive))', 'hsl(var(--accent))'];
 
 
@@ -53,14 +41,18 @@ export default async function DashboardPage() {
     return <p>Inicia sesión para ver el dashboard.</p>;
   }
   
-  const isDeliveryPerson = currentUser.role === 'delivery';
+  // Without orders.view the figures, map and lists only cover the user's own orders
+  const seesOwnOrdersOnly = !hasPermission(currentUser, 'orders.view');
+  const isCourier = hasPermission(currentUser, 'orders.deliver');
 
-  // Fetch data based on user role
-  const [stats, allOrders, deliveryPeople, pharmacySettings] = await Promise.all([
-    getDashboardStats(currentUser),
-    getOrders(), // Always fetch all orders
-    isDeliveryPerson ? [] : getUsers('delivery'),
+  // Fetch data based on user permissions
+  const [stats, allOrders, openRoutes, deliveryPeople, pharmacySettings, lowStockProducts] = await Promise.all([
+    getDashboardStats(),
+    getOrders(), // Without orders.view only the user's own
+    getOpenRoutes(),
+    hasPermission(currentUser, 'couriers.view') ? getUsers('delivery') : [],
     getPharmacySettings(),
+    hasPermission(currentUser, 'products.view') ? getLowStockProducts() : [],
   ]);
 
   const pharmacyLocation = {
@@ -69,37 +61,39 @@ export default async function DashboardPage() {
     lng: pharmacySettings.lng || -73.358425,
   };
   
-  const pendingOrders = isDeliveryPerson
+  const pendingOrders = seesOwnOrdersOnly
     ? [] // Delivery people don't see unassigned orders
     : allOrders
         .filter(o => o.status === 'pending')
         .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
     
-  let assignedRoutes = groupOrdersByDeliveryPerson(allOrders);
-  
-  // If the user is a delivery person, filter routes to only show their own
-  if (isDeliveryPerson) {
-      const myRoute = assignedRoutes[currentUser.id];
-      assignedRoutes = myRoute ? { [currentUser.id]: myRoute } : {};
-  }
+  const ordersById: Record<string, Order> = Object.fromEntries(allOrders.map(order => [order.id, order]));
+
+  // Users who only see their own orders only see their own route
+  const visibleRoutes = seesOwnOrdersOnly
+    ? openRoutes.filter(route => route.deliveryPerson === currentUser.id)
+    : openRoutes;
 
-  const routesForMap: RouteInfo[] = Object.entries(assignedRoutes)
-    .map(([personId, orders], index) => {
-        const deliveryPerson = isDeliveryPerson
+  const routesForMap: RouteInfo[] = visibleRoutes
+    .map((route, index) => {
+        const deliveryPerson = seesOwnOrdersOnly
             ? currentUser
-            : deliveryPeople.find(p => p.id === personId);
+            : deliveryPeople.find(p => p.id === route.deliveryPerson);
 
         if (!deliveryPerson) return null;
 
-        // Simple reordering by creation date as a stable sort
-        const reorderedOrders = orders.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+        // Stops keep the stored sequence; delivered ones are no longer drawn
+        const orders = route.stops
+            .map(orderId => ordersById[orderId])
+            .filter((o): o is Order => !!o && (o.status === 'assigned' || o.status === 'in_transit'));
             
         return {
             deliveryPerson,
-            orders: reorderedOrders,
+            orders,
             color: ROUTE_COLORS[index % ROUTE_COLORS.length],
             currentLocation: deliveryPerson.currentLocation,
             bearing: deliveryPerson.bearing,
+            plannedRoute: route,
         };
     })
     .filter((r): r is RouteInfo => r !== null);
@@ -109,14 +103,14 @@ export default async function DashboardPage() {
       <div>
         <h1 className="text-3xl font-bold font-headline">Dashboard</h1>
         <p className="text-muted-foreground">
-            {isDeliveryPerson ? `Resumen de tus entregas, ${currentUser.name}.` : 'Un resumen de la operación de hoy.'}
+            {seesOwnOrdersOnly ? `Resumen de tus entregas, ${currentUser.name}.` : 'Un resumen de la operación de hoy.'}
         </p>
       </div>
 
       <Card>
         <CardHeader>
           <CardTitle>
-            {isDeliveryPerson ? 'Mapa de Mi Ruta Actual' : 'Mapa de Entregas en Tiempo Real'}
+            {seesOwnOrdersOnly ? 'Mapa de Mi Ruta Actual' : 'Mapa de Entregas en Tiempo Real'}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -131,7 +125,7 @@ export default async function DashboardPage() {
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">{isDeliveryPerson ? 'Mis Pedidos del Día' : 'Pedidos del Día'}</CardTitle>
+            <CardTitle className="text-sm font-medium">{seesOwnOrdersOnly ? 'Mis Pedidos del Día' : 'Pedidos del Día'}</CardTitle>
             <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -140,7 +134,7 @@ export default async function DashboardPage() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">{isDeliveryPerson ? 'Mis Entregas Pendientes' : 'Entregas Pendientes'}</CardTitle>
+            <CardTitle className="text-sm font-medium">{seesOwnOrdersOnly ? 'Mis Entregas Pendientes' : 'Entregas Pendientes'}</CardTitle>
             <Bike className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -150,37 +144,85 @@ export default async function DashboardPage() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">{isDeliveryPerson ? 'Mi Recaudo del Día' : 'Total Recaudado (Hoy)'}</CardTitle>
+            <CardTitle className="text-sm font-medium">{seesOwnOrdersOnly ? 'Mi Recaudo del Día' : 'Total Recaudado (Hoy)'}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.dailyRevenue.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}</div>
-            <p className="text-xs text-muted-foreground">Caja parcial de entregados</p>
+            <p className="text-xs text-muted-foreground">
+              {stats.unverifiedRevenue > 0
+                ? `Confirmado. ${stats.unverifiedRevenue.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })} en transferencias por verificar`
+                : 'Caja parcial de entregados'}
+            </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">{isDeliveryPerson ? 'Mis Rutas' : 'Gestión de Rutas'}</CardTitle>
-            {isDeliveryPerson ? <ListOrdered className="h-4 w-4 text-muted-foreground" /> : <Map className="h-4 w-4 text-muted-foreground" />}
+            <CardTitle className="text-sm font-medium">{isCourier ? 'Mis Rutas' : 'Gestión de Rutas'}</CardTitle>
+            {isCourier ? <ListOrdered className="h-4 w-4 text-muted-foreground" /> : <Map className="h-4 w-4 text-muted-foreground" />}
           </CardHeader>
           <CardContent>
-            <div className="text-xl font-bold">{isDeliveryPerson ? 'Ver Mis Entregas' : 'Optimiza Entregas'}</div>
-            <p className="text-xs text-muted-foreground mb-4">{isDeliveryPerson ? 'Accede a los detalles de tu ruta.' : 'Planifica y asigna rutas.'}</p>
+            <div className="text-xl font-bold">{isCourier ? 'Ver Mis Entregas' : 'Optimiza Entregas'}</div>
+            <p className="text-xs text-muted-foreground mb-4">{isCourier ? 'Accede a los detalles de tu ruta.' : 'Planifica y asigna rutas.'}</p>
              <Button asChild size="sm">
-              <Link href={isDeliveryPerson ? '/dashboard/mis-rutas' : '/dashboard/rutas'}>
-                {isDeliveryPerson ? 'Ir a Mis Rutas' : 'Ir a Rutas'}
+              <Link href={isCourier ? '/dashboard/mis-rutas' : '/dashboard/rutas'}>
+                {isCourier ? 'Ir a Mis Rutas' : 'Ir a Rutas'}
               </Link>
             </Button>
           </CardContent>
         </Card>
       </div>
 
+      {lowStockProducts.length > 0 && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Productos con Stock Bajo
+            </CardTitle>
+            <CardDescription>
+                Estos productos tienen pocas unidades disponibles después de descontar las reservas de pedidos abiertos.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Producto</TableHead>
+                  <TableHead className="text-right">Reservado</TableHead>
+                  <TableHead className="text-right">Disponible</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lowStockProducts.map((product) => {
+                  const available = product.stock - (product.reserved || 0);
+                  return (
+                    <TableRow key={product.id}>
+                      <TableCell className="font-mono text-xs">{product.sku}</TableCell>
+                      <TableCell>{product.name} <span className="text-muted-foreground">({product.presentation})</span></TableCell>
+                      <TableCell className="text-right">{product.reserved || 0}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={available > 0 ? 'outline' : 'destructive'}>{available}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <Button asChild size="sm" variant="outline" className="mt-4">
+              <Link href="/dashboard/productos">Ir a Productos</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid gap-8 lg:grid-cols-3">
         <Card className="lg:col-span-2">
           <CardHeader>
-            <CardTitle>{isDeliveryPerson ? 'Mis Pedidos Recientes' : 'Pedidos Recientes'}</CardTitle>
+            <CardTitle>{seesOwnOrdersOnly ? 'Mis Pedidos Recientes' : 'Pedidos Recientes'}</CardTitle>
             <CardDescription>
-                {isDeliveryPerson ? 'Tus últimos 5 pedidos gestionados.' : 'Los últimos 5 pedidos gestionados en la plataforma.'}
+                {seesOwnOrdersOnly ? 'Tus últimos 5 pedidos gestionados.' : 'Los últimos 5 pedidos gestionados en la plataforma.'}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -217,9 +259,9 @@ export default async function DashboardPage() {
 
         <Card>
           <CardHeader>
-            <CardTitle>{isDeliveryPerson ? 'Mis Ingresos de la Semana' : 'Ingresos de la Semana'}</CardTitle>
+            <CardTitle>{seesOwnOrdersOnly ? 'Mis Ingresos de la Semana' : 'Ingresos de la Semana'}</CardTitle>
             <CardDescription>
-                {isDeliveryPerson ? 'Tus ventas de los últimos 7 días.' : 'Resumen de ventas de los últimos 7 días.'}
+                {seesOwnOrdersOnly ? 'Tus ventas de los últimos 7 días.' : 'Resumen de ventas de los últimos 7 días.'}
             </CardDescription>
           </CardHeader>
           <CardContent>
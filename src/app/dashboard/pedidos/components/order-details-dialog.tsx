@@ -6,9 +6,12 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { User, MapPin, DollarSign, Calendar, Bike } from 'lucide-react';
+import { User, MapPin, DollarSign, Calendar, Bike, Clock, AlertTriangle } from 'lucide-react';
+import { ORDER_PRIORITY_LABELS, FAILED_DELIVERY_REASON_LABELS, formatTimeWindow } from '@/lib/order-status';
+import { ProofOfDeliveryDetails } from './proof-of-delivery-details';
+import { describePayment, PAYMENT_VERIFICATION_LABELS } from '@/lib/payments';
 import type { Order, OrderStatus } from '@/types';
-import { formatDistanceToNow } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
 
 const statusConfig: Record<OrderStatus, { text: string, variant: BadgeProps['variant'] }> = {
@@ -29,7 +32,6 @@ export function OrderDetailsDialog({ order, open, onOpenChange }: OrderDetailsDi
     if (!order) return null;
 
     const { text, variant } = statusConfig[order.status];
-    const paymentMethodText = order.paymentMethod === 'cash' ? 'Efectivo' : 'Transferencia';
 
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
@@ -62,10 +64,33 @@ export function OrderDetailsDialog({ order, open, onOpenChange }: OrderDetailsDi
                             <Calendar className="h-4 w-4" />
                             <span>Realizado {formatDistanceToNow(new Date(order.createdAt), { addSuffix: true, locale: es })}</span>
                         </div>
-                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                            <DollarSign className="h-4 w-4" />
-                            <span>{paymentMethodText}</span>
+                         <div className="flex items-start gap-2 text-sm text-muted-foreground">
+                            <DollarSign className="h-4 w-4 mt-0.5" />
+                            <div className="space-y-0.5">
+                                {order.payments.map((payment, index) => (
+                                    <p key={index}>
+                                        {describePayment(payment)}
+                                        {payment.verificationStatus && ` · ${PAYMENT_VERIFICATION_LABELS[payment.verificationStatus]}`}
+                                        {payment.rejectionReason && payment.verificationStatus === 'rejected' && ` (${payment.rejectionReason})`}
+                                        {payment.receiptUrl && (
+                                            <> · <a href={payment.receiptUrl} target="_blank" rel="noopener noreferrer" className="underline">Ver comprobante</a></>
+                                        )}
+                                    </p>
+                                ))}
+                            </div>
                         </div>
+                        {order.timeWindow && (
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                <Clock className="h-4 w-4" />
+                                <span>Entregar entre {formatTimeWindow(order.timeWindow)}</span>
+                            </div>
+                        )}
+                        {order.priority && order.priority !== 'normal' && (
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                <AlertTriangle className="h-4 w-4" />
+                                <span>Prioridad: {ORDER_PRIORITY_LABELS[order.priority]}</span>
+                            </div>
+                        )}
                         {order.assignedTo && (
                             <div className="flex items-center gap-2 text-sm text-muted-foreground">
                                 <Bike className="h-4 w-4" />
@@ -95,10 +120,78 @@ export function OrderDetailsDialog({ order, open, onOpenChange }: OrderDetailsDi
                          </Table>
                     </div>
                     <Separator />
+                    {order.deliveryFee > 0 && (
+                        <div className="space-y-1 text-sm text-muted-foreground">
+                            <div className="flex justify-end"><span>Subtotal:</span><span className="ml-4">{order.subtotal.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}</span></div>
+                            <div className="flex justify-end"><span>Domicilio:</span><span className="ml-4">{order.deliveryFee.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}</span></div>
+                        </div>
+                    )}
                     <div className="flex justify-end items-center font-bold text-lg">
                         <span>Total:</span>
                         <span className="ml-4">{order.total.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}</span>
                     </div>
+                    {order.proofOfDelivery && (
+                        <>
+                            <Separator />
+                            <div className="space-y-2">
+                                <h4 className="font-semibold">Prueba de Entrega</h4>
+                                <ProofOfDeliveryDetails proof={order.proofOfDelivery} />
+                            </div>
+                        </>
+                    )}
+                    {order.failedAttempts && order.failedAttempts.length > 0 && (
+                        <>
+                            <Separator />
+                            <div className="space-y-2">
+                                <h4 className="font-semibold">Intentos de Entrega Fallidos</h4>
+                                <ul className="space-y-3">
+                                    {order.failedAttempts.map((attempt, index) => (
+                                        <li key={index} className="text-sm">
+                                            <div className="flex items-center gap-2">
+                                                <Badge variant="outline">{FAILED_DELIVERY_REASON_LABELS[attempt.reason]}</Badge>
+                                                <time className="text-xs text-muted-foreground">
+                                                    {format(new Date(attempt.attemptedAt), "d MMM yyyy, h:mm a", { locale: es })}
+                                                </time>
+                                            </div>
+                                            <p className="text-muted-foreground mt-1">
+                                                {attempt.deliveryPersonName || 'Domiciliario sin registrar'} · {attempt.goodsReturnedAt
+                                                    ? `Mercancía recibida por ${attempt.goodsReceivedByName || 'la farmacia'}`
+                                                    : 'Mercancía pendiente por devolver'}
+                                            </p>
+                                            {attempt.notes && <p className="italic mt-1">{attempt.notes}</p>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </>
+                    )}
+                    {order.statusHistory && order.statusHistory.length > 0 && (
+                        <>
+                            <Separator />
+                            <div className="space-y-2">
+                                <h4 className="font-semibold">Historial de Estados</h4>
+                                <ol className="relative border-l ml-2 space-y-4">
+                                    {order.statusHistory.map((change, index) => (
+                                        <li key={index} className="ml-4">
+                                            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                                            <div className="flex items-center gap-2">
+                                                <Badge variant={statusConfig[change.status].variant}>{statusConfig[change.status].text}</Badge>
+                                                <time className="text-xs text-muted-foreground">
+                                                    {format(new Date(change.changedAt), "d MMM yyyy, h:mm a", { locale: es })}
+                                                </time>
+                                            </div>
+                                            <p className="text-sm text-muted-foreground mt-1">
+                                                Por {change.changedByName || 'Sistema'}
+                                            </p>
+                                            {change.reason && (
+                                                <p className="text-sm italic mt-1">{change.reason}</p>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                        </>
+                    )}
                 </div>
                 <DialogFooter>
                     <Button variant="outline" onClick={() => onOpenChange(false)}>Cerrar</Button>
@@ -7,11 +7,17 @@ import { MoreHorizontal } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger, DropdownMenuSub, DropdownMenuSubTrigger, DropdownMenuSubContent, DropdownMenuPortal } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { OrderDetailsDialog } from './order-details-dialog';
+import { ProofOfDeliveryDialog } from '../../mis-rutas/components/proof-of-delivery-dialog';
+import { FailedAttemptDialog } from '../../mis-rutas/components/failed-attempt-dialog';
 import type { Order, OrderStatus, User } from '@/types';
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { updateOrderStatus } from '@/actions/order-actions';
+import { canTransition, ORDER_STATUS_TRANSITIONS } from '@/lib/order-status';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 
 const statusConfig: Record<OrderStatus, { text: string, variant: BadgeProps['variant'] }> = {
     in_transit: { text: "En Camino", variant: 'accent' },
@@ -34,10 +40,14 @@ interface OrdersListProps {
 
 export function OrdersList({ initialOrders, deliveryPeople }: OrdersListProps) {
     const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+    const [cancellingOrder, setCancellingOrder] = useState<Order | null>(null);
+    const [deliveringOrder, setDeliveringOrder] = useState<Order | null>(null);
+    const [failingOrder, setFailingOrder] = useState<Order | null>(null);
+    const [cancelReason, setCancelReason] = useState('');
     const { toast } = useToast();
 
-    const handleUpdateStatus = async (orderId: string, status: OrderStatus, assignedTo?: User) => {
-        const result = await updateOrderStatus(orderId, status, assignedTo);
+    const handleUpdateStatus = async (orderId: string, status: OrderStatus, assignedToId?: string, reason?: string) => {
+        const result = await updateOrderStatus(orderId, status, assignedToId, reason);
         
         if (result.success) {
              toast({
@@ -52,6 +62,13 @@ export function OrdersList({ initialOrders, deliveryPeople }: OrdersListProps) {
             });
         }
     };
+
+    const handleConfirmCancel = async () => {
+        if (!cancellingOrder) return;
+        await handleUpdateStatus(cancellingOrder.id, 'cancelled', undefined, cancelReason);
+        setCancellingOrder(null);
+        setCancelReason('');
+    };
     
     return (
         <>
@@ -95,37 +112,53 @@ export function OrdersList({ initialOrders, deliveryPeople }: OrdersListProps) {
                                         </DropdownMenuItem>
                                         
                                         <DropdownMenuSub>
-                                          <DropdownMenuSubTrigger disabled={pedido.status === 'delivered' || pedido.status === 'cancelled'}>
+                                          <DropdownMenuSubTrigger disabled={ORDER_STATUS_TRANSITIONS[pedido.status].length === 0}>
                                             Cambiar Estado
                                           </DropdownMenuSubTrigger>
                                           <DropdownMenuPortal>
                                               <DropdownMenuSubContent>
-                                                <DropdownMenuItem onSelect={() => handleUpdateStatus(pedido.id, 'delivered')}>
-                                                    Marcar como Entregado
-                                                </DropdownMenuItem>
+                                                {canTransition(pedido.status, 'delivered') && (
+                                                    <DropdownMenuItem onSelect={() => setDeliveringOrder(pedido)}>
+                                                        Marcar como Entregado
+                                                    </DropdownMenuItem>
+                                                )}
+                                                {pedido.status === 'in_transit' && (
+                                                    <DropdownMenuItem onSelect={() => setFailingOrder(pedido)}>
+                                                        Registrar Intento Fallido
+                                                    </DropdownMenuItem>
+                                                )}
 
-                                                <DropdownMenuSub>
-                                                    <DropdownMenuSubTrigger>Asignar / En Tránsito</DropdownMenuSubTrigger>
-                                                    <DropdownMenuPortal>
-                                                        <DropdownMenuSubContent>
-                                                            {deliveryPeople.map(person => (
-                                                                <DropdownMenuItem key={person.id} onSelect={() => handleUpdateStatus(pedido.id, 'assigned', person)}>
-                                                                    {person.name}
-                                                                </DropdownMenuItem>
-                                                            ))}
-                                                        </DropdownMenuSubContent>
-                                                    </DropdownMenuPortal>
-                                                </DropdownMenuSub>
+                                                {canTransition(pedido.status, 'assigned') && (
+                                                    <DropdownMenuSub>
+                                                        <DropdownMenuSubTrigger>{pedido.status === 'assigned' ? 'Reasignar' : 'Asignar'}</DropdownMenuSubTrigger>
+                                                        <DropdownMenuPortal>
+                                                            <DropdownMenuSubContent>
+                                                                {deliveryPeople
+                                                                    .filter(person => person.id !== pedido.assignedTo?.id)
+                                                                    .map(person => (
+                                                                        <DropdownMenuItem key={person.id} onSelect={() => handleUpdateStatus(pedido.id, 'assigned', person.id)}>
+                                                                            {person.name}
+                                                                        </DropdownMenuItem>
+                                                                    ))}
+                                                            </DropdownMenuSubContent>
+                                                        </DropdownMenuPortal>
+                                                    </DropdownMenuSub>
+                                                )}
                                                  
-                                                 <DropdownMenuItem onSelect={() => handleUpdateStatus(pedido.id, 'pending')}>
-                                                    Marcar como Pendiente
-                                                </DropdownMenuItem>
-                                                <DropdownMenuItem 
-                                                    className="text-destructive"
-                                                    onSelect={() => handleUpdateStatus(pedido.id, 'cancelled')}
-                                                >
-                                                    Cancelar Pedido
-                                                </DropdownMenuItem>
+                                                {/* Orders on their way come back through "Registrar Intento Fallido" */}
+                                                {canTransition(pedido.status, 'pending') && (
+                                                    <DropdownMenuItem onSelect={() => handleUpdateStatus(pedido.id, 'pending')}>
+                                                        Marcar como Pendiente
+                                                    </DropdownMenuItem>
+                                                )}
+                                                {canTransition(pedido.status, 'cancelled') && (
+                                                    <DropdownMenuItem 
+                                                        className="text-destructive"
+                                                        onSelect={() => setCancellingOrder(pedido)}
+                                                    >
+                                                        Cancelar Pedido
+                                                    </DropdownMenuItem>
+                                                )}
                                               </DropdownMenuSubContent>
                                           </DropdownMenuPortal>
                                         </DropdownMenuSub>
@@ -141,6 +174,39 @@ export function OrdersList({ initialOrders, deliveryPeople }: OrdersListProps) {
                 open={!!selectedOrder} 
                 onOpenChange={(open) => { if (!open) setSelectedOrder(null) }}
             />
+            <ProofOfDeliveryDialog
+                order={deliveringOrder}
+                open={!!deliveringOrder}
+                onOpenChange={(open) => { if (!open) setDeliveringOrder(null) }}
+            />
+            <FailedAttemptDialog
+                order={failingOrder}
+                open={!!failingOrder}
+                onOpenChange={(open) => { if (!open) setFailingOrder(null) }}
+            />
+            <AlertDialog open={!!cancellingOrder} onOpenChange={(open) => { if (!open) { setCancellingOrder(null); setCancelReason(''); } }}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>¿Cancelar el pedido #{cancellingOrder?.id.slice(-6)}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            Las unidades reservadas volverán al inventario. Esta acción no se puede deshacer.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="cancel-reason">Motivo</Label>
+                        <Textarea
+                            id="cancel-reason"
+                            placeholder="Ej: El cliente ya no necesita el pedido."
+                            value={cancelReason}
+                            onChange={(e) => setCancelReason(e.target.value)}
+                        />
+                    </div>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Volver</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleConfirmCancel}>Cancelar Pedido</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
         </>
     );
 }
\ No newline at end of file
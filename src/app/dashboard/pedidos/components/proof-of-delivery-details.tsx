@@ -0,0 +1,50 @@
+'use client';
+
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { AlertTriangle, IdCard, LocateFixed, User } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { ProofOfDelivery } from '@/types';
+
+interface ProofOfDeliveryDetailsProps {
+    proof: ProofOfDelivery;
+}
+
+export function ProofOfDeliveryDetails({ proof }: ProofOfDeliveryDetailsProps) {
+    return (
+        <div className="space-y-3">
+            <div className="space-y-1">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <User className="h-4 w-4" />
+                    <span>Recibió: {proof.recipientName}</span>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <IdCard className="h-4 w-4" />
+                    <span>C.C. {proof.recipientId}</span>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <LocateFixed className="h-4 w-4" />
+                    <span>
+                        {proof.distanceMeters !== undefined
+                            ? `Confirmada a ${proof.distanceMeters} m de la dirección`
+                            : proof.confirmedAt ? 'Confirmada con ubicación' : 'Confirmada sin ubicación'}
+                    </span>
+                </div>
+                {proof.outsideGeofence && (
+                    <Badge variant="destructive"><AlertTriangle className="mr-1 h-3 w-3" />Fuera de zona</Badge>
+                )}
+                <p className="text-xs text-muted-foreground">
+                    {format(new Date(proof.capturedAt), "d MMM yyyy, h:mm a", { locale: es })}
+                </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <a href={proof.photoUrl} target="_blank" rel="noopener noreferrer">
+                    <img src={proof.photoUrl} alt="Foto de la entrega" className="w-full h-32 object-cover rounded-md border" />
+                </a>
+                <a href={proof.signatureUrl} target="_blank" rel="noopener noreferrer">
+                    <img src={proof.signatureUrl} alt={`Firma de ${proof.recipientName}`} className="w-full h-32 object-contain rounded-md border bg-white" />
+                </a>
+            </div>
+        </div>
+    );
+}
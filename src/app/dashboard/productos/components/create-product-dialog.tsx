@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from 'lucide-react';
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from '@/hooks/use-toast';
+import { createProduct } from '@/actions/product-actions';
+
+const formSchema = z.object({
+    sku: z.string().trim().min(2, { message: "El SKU debe tener al menos 2 caracteres." }),
+    name: z.string().trim().min(3, { message: "El nombre debe tener al menos 3 caracteres." }),
+    presentation: z.string().trim().min(2, { message: "La presentación es obligatoria." }),
+    price: z.coerce.number().positive({ message: "El precio debe ser un número positivo." }),
+    stock: z.coerce.number().int({ message: "El stock debe ser un número entero." }).min(0, { message: "El stock no puede ser negativo." }),
+    barcode: z.string().optional(),
+});
+
+interface CreateProductDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function CreateProductDialog({ open, onOpenChange }: CreateProductDialogProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { toast } = useToast();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+        defaultValues: {
+            sku: "",
+            name: "",
+            presentation: "",
+            price: 0,
+            stock: 0,
+            barcode: "",
+        },
+    });
+
+    const onSubmit = async (values: z.infer<typeof formSchema>) => {
+        setIsSubmitting(true);
+        const result = await createProduct(values);
+
+        if (result.success) {
+            toast({
+                title: "Producto Creado",
+                description: result.message,
+            });
+            form.reset();
+            onOpenChange(false);
+        } else {
+            toast({
+                variant: 'destructive',
+                title: 'Error al crear producto',
+                description: result.message,
+            });
+        }
+        setIsSubmitting(false);
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Añadir Nuevo Producto</DialogTitle>
+                    <DialogDescription>
+                        Ingresa la información del producto. Estará disponible para los nuevos pedidos.
+                    </DialogDescription>
+                </DialogHeader>
+                <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <FormField
+                                control={form.control}
+                                name="sku"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>SKU</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="Ej: ACE-500" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="barcode"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Código de Barras</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="Opcional" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+                        <FormField
+                            control={form.control}
+                            name="name"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Nombre</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Ej: Acetaminofén 500 mg" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="presentation"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Presentación</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Ej: Caja x 20 tabletas" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <div className="grid grid-cols-2 gap-4">
+                            <FormField
+                                control={form.control}
+                                name="price"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Precio (COP)</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" placeholder="8500" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="stock"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Stock</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" placeholder="0" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => { if (!isSubmitting) { form.reset(); onOpenChange(false); }}}>Cancelar</Button>
+                            <Button type="submit" disabled={isSubmitting}>
+                                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                {isSubmitting ? 'Guardando...' : 'Guardar Producto'}
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from 'lucide-react';
+import type { Product } from '@/types';
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from '@/hooks/use-toast';
+import { updateProduct } from '@/actions/product-actions';
+
+const formSchema = z.object({
+    sku: z.string().trim().min(2, { message: "El SKU debe tener al menos 2 caracteres." }),
+    name: z.string().trim().min(3, { message: "El nombre debe tener al menos 3 caracteres." }),
+    presentation: z.string().trim().min(2, { message: "La presentación es obligatoria." }),
+    price: z.coerce.number().positive({ message: "El precio debe ser un número positivo." }),
+    stock: z.coerce.number().int({ message: "El stock debe ser un número entero." }).min(0, { message: "El stock no puede ser negativo." }),
+    barcode: z.string().optional(),
+});
+
+interface EditProductDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    product: Product | null;
+}
+
+export function EditProductDialog({ open, onOpenChange, product }: EditProductDialogProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { toast } = useToast();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+    });
+
+    useEffect(() => {
+        if (product) {
+            form.reset({
+                sku: product.sku,
+                name: product.name,
+                presentation: product.presentation,
+                price: product.price,
+                stock: product.stock,
+                barcode: product.barcode || "",
+            });
+        }
+    }, [product, form]);
+
+    if (!product) return null;
+
+    const onSubmit = async (values: z.infer<typeof formSchema>) => {
+        setIsSubmitting(true);
+        const result = await updateProduct(product.id, values);
+
+        if (result.success) {
+            toast({
+                title: "Producto Actualizado",
+                description: `La información de ${values.name} ha sido guardada.`,
+            });
+            onOpenChange(false);
+        } else {
+            toast({
+                variant: 'destructive',
+                title: 'Error al actualizar',
+                description: result.message,
+            });
+        }
+        setIsSubmitting(false);
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Editar Producto</DialogTitle>
+                    <DialogDescription>
+                        Actualiza el precio, el inventario o los datos del producto.
+                    </DialogDescription>
+                </DialogHeader>
+                <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <FormField
+                                control={form.control}
+                                name="sku"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>SKU</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="Ej: ACE-500" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="barcode"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Código de Barras</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="Opcional" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+                        <FormField
+                            control={form.control}
+                            name="name"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Nombre</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Ej: Acetaminofén 500 mg" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="presentation"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Presentación</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Ej: Caja x 20 tabletas" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <div className="grid grid-cols-2 gap-4">
+                            <FormField
+                                control={form.control}
+                                name="price"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Precio (COP)</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" placeholder="8500" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="stock"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Stock</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" placeholder="0" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => { if (!isSubmitting) { onOpenChange(false); }}}>Cancelar</Button>
+                            <Button type="submit" disabled={isSubmitting}>
+                                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                {isSubmitting ? 'Guardando...' : 'Guardar Cambios'}
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    );
+}
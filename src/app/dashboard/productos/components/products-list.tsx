@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import type { User, Product } from '@/types';
+import { hasPermission } from '@/lib/permissions';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { MoreHorizontal, PlusCircle } from "lucide-react";
+import { CreateProductDialog } from './create-product-dialog';
+import { EditProductDialog } from './edit-product-dialog';
+import { StockMovementsDialog } from './stock-movements-dialog';
+import { deleteProduct } from '@/actions/product-actions';
+import { useToast } from '@/hooks/use-toast';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+
+interface ProductsListProps {
+    initialProducts: Product[];
+    currentUser: User;
+}
+
+export function ProductsList({ initialProducts, currentUser }: ProductsListProps) {
+    const [isCreateDialogOpen, setCreateDialogOpen] = useState(false);
+    const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+    const [movementsProduct, setMovementsProduct] = useState<Product | null>(null);
+    const { toast } = useToast();
+
+    const canEdit = hasPermission(currentUser, 'products.edit');
+    const canDelete = hasPermission(currentUser, 'products.delete');
+
+    const handleDelete = async (productId: string) => {
+        const result = await deleteProduct(productId);
+        if (result.success) {
+            toast({ title: "Producto Eliminado", description: result.message });
+        } else {
+            toast({ variant: 'destructive', title: "Error", description: result.message });
+        }
+    };
+
+    return (
+        <>
+            <div className="text-right mb-4">
+                {canEdit && (
+                    <Button onClick={() => setCreateDialogOpen(true)}>
+                        <PlusCircle className="mr-2" />
+                        Añadir Producto
+                    </Button>
+                )}
+            </div>
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Nombre</TableHead>
+                        <TableHead>Presentación</TableHead>
+                        <TableHead className="text-right">Precio</TableHead>
+                        <TableHead className="text-right">Stock</TableHead>
+                        <TableHead className="text-right">Reservado</TableHead>
+                        <TableHead className="text-right">Disponible</TableHead>
+                        <TableHead>
+                            <span className="sr-only">Acciones</span>
+                        </TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {initialProducts.length > 0 ? initialProducts.map((product) => {
+                        const available = product.stock - (product.reserved || 0);
+                        return (
+                            <TableRow key={product.id}>
+                                <TableCell className="font-mono text-xs">{product.sku}</TableCell>
+                                <TableCell className="font-medium">{product.name}</TableCell>
+                                <TableCell>{product.presentation}</TableCell>
+                                <TableCell className="text-right">{product.price.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}</TableCell>
+                                <TableCell className="text-right">{product.stock}</TableCell>
+                                <TableCell className="text-right text-muted-foreground">{product.reserved || 0}</TableCell>
+                                <TableCell className="text-right">
+                                    <Badge variant={available > 0 ? 'outline' : 'destructive'}>{available}</Badge>
+                                </TableCell>
+                                <TableCell>
+                                    <DropdownMenu>
+                                        <DropdownMenuTrigger asChild>
+                                            <Button aria-haspopup="true" size="icon" variant="ghost">
+                                                <MoreHorizontal className="h-4 w-4" />
+                                                <span className="sr-only">Toggle menu</span>
+                                            </Button>
+                                        </DropdownMenuTrigger>
+                                        <DropdownMenuContent align="end">
+                                            <DropdownMenuLabel>Acciones</DropdownMenuLabel>
+                                            <DropdownMenuItem onSelect={() => setMovementsProduct(product)}>Ver Movimientos</DropdownMenuItem>
+                                            {canEdit && (
+                                                <DropdownMenuItem onSelect={() => setEditingProduct(product)}>Editar Producto</DropdownMenuItem>
+                                            )}
+                                            {canDelete && (
+                                                <AlertDialog>
+                                                    <AlertDialogTrigger asChild>
+                                                        <DropdownMenuItem
+                                                            onSelect={(e) => e.preventDefault()}
+                                                            className="text-destructive"
+                                                        >
+                                                            Eliminar
+                                                        </DropdownMenuItem>
+                                                    </AlertDialogTrigger>
+                                                    <AlertDialogContent>
+                                                        <AlertDialogHeader>
+                                                        <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
+                                                        <AlertDialogDescription>
+                                                            Esta acción no se puede deshacer. El producto dejará de estar disponible
+                                                            para nuevos pedidos.
+                                                        </AlertDialogDescription>
+                                                        </AlertDialogHeader>
+                                                        <AlertDialogFooter>
+                                                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                                        <AlertDialogAction onClick={() => handleDelete(product.id)}>Continuar</AlertDialogAction>
+                                                        </AlertDialogFooter>
+                                                    </AlertDialogContent>
+                                                </AlertDialog>
+                                            )}
+                                        </DropdownMenuContent>
+                                    </DropdownMenu>
+                                </TableCell>
+                            </TableRow>
+                        );
+                    }) : (
+                        <TableRow>
+                            <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                                No hay productos en el catálogo.
+                            </TableCell>
+                        </TableRow>
+                    )}
+                </TableBody>
+            </Table>
+            <CreateProductDialog
+                open={isCreateDialogOpen}
+                onOpenChange={setCreateDialogOpen}
+            />
+            <EditProductDialog
+                open={!!editingProduct}
+                onOpenChange={(open) => !open && setEditingProduct(null)}
+                product={editingProduct}
+            />
+            <StockMovementsDialog
+                open={!!movementsProduct}
+                onOpenChange={(open) => !open && setMovementsProduct(null)}
+                product={movementsProduct}
+            />
+        </>
+    );
+}
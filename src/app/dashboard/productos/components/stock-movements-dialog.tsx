@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { Product, StockMovement, StockMovementType } from '@/types';
+import { getStockMovements } from '@/actions/product-actions';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+const movementConfig: Record<StockMovementType, { text: string, variant: BadgeProps['variant'] }> = {
+    reserve: { text: "Reserva", variant: 'secondary' },
+    release: { text: "Liberación", variant: 'outline' },
+    consume: { text: "Entrega", variant: 'success' },
+    restock: { text: "Devolución", variant: 'accent' },
+    adjustment: { text: "Ajuste", variant: 'default' },
+};
+
+function formatDelta(delta: number) {
+    if (delta === 0) return '—';
+    return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+interface StockMovementsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    product: Product | null;
+}
+
+export function StockMovementsDialog({ open, onOpenChange, product }: StockMovementsDialogProps) {
+    const [movements, setMovements] = useState<StockMovement[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (open && product) {
+            const fetchMovements = async () => {
+                setIsLoading(true);
+                try {
+                    const productMovements = await getStockMovements(product.id);
+                    setMovements(productMovements);
+                } catch (error) {
+                    console.error("Failed to fetch stock movements", error);
+                } finally {
+                    setIsLoading(false);
+                }
+            };
+            fetchMovements();
+        }
+    }, [open, product]);
+
+    if (!product) return null;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Movimientos de {product.name}</DialogTitle>
+                    <DialogDescription>
+                        Las últimas reservas, entregas y ajustes de inventario de este producto.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="py-4 max-h-[60vh] overflow-y-auto">
+                    {isLoading ? (
+                         <div className="space-y-2">
+                            <Skeleton className="h-8 w-full" />
+                            <Skeleton className="h-8 w-full" />
+                            <Skeleton className="h-8 w-full" />
+                        </div>
+                    ) : movements.length > 0 ? (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Tipo</TableHead>
+                                    <TableHead>Pedido</TableHead>
+                                    <TableHead>Usuario</TableHead>
+                                    <TableHead className="text-right">Stock</TableHead>
+                                    <TableHead className="text-right">Reservado</TableHead>
+                                    <TableHead>Fecha</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {movements.map((movement) => (
+                                    <TableRow key={movement.id}>
+                                        <TableCell>
+                                            <Badge variant={movementConfig[movement.type].variant}>{movementConfig[movement.type].text}</Badge>
+                                        </TableCell>
+                                        <TableCell className="font-medium">{movement.order ? `#${movement.order.slice(-6)}` : '—'}</TableCell>
+                                        <TableCell>{movement.user || 'Sistema'}</TableCell>
+                                        <TableCell className="text-right font-mono">{formatDelta(movement.stockDelta)}</TableCell>
+                                        <TableCell className="text-right font-mono">{formatDelta(movement.reservedDelta)}</TableCell>
+                                        <TableCell>{formatDistanceToNow(new Date(movement.createdAt), { addSuffix: true, locale: es })}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    ) : (
+                        <p className="text-center text-muted-foreground pt-4">No hay movimientos registrados para este producto.</p>
+                    )}
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>Cerrar</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,39 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getProducts } from '@/actions/product-actions';
+import { ProductsList } from "./components/products-list";
+import { getSession } from "@/lib/auth";
+import { getUserById } from "@/actions/user-actions";
+
+export default async function ProductosPage() {
+    const session = await getSession();
+    const [products, currentUser] = await Promise.all([
+        getProducts(),
+        session ? getUserById(session.userId as string) : null
+    ]);
+
+    if (!currentUser) {
+        return <div>Inicia sesión para ver esta página.</div>;
+    }
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-8 flex-wrap gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold font-headline">Catálogo de Productos</h1>
+                    <p className="text-muted-foreground">Administra los productos, precios e inventario de la droguería.</p>
+                </div>
+            </div>
+            <Card>
+                <CardHeader>
+                    <CardTitle>Lista de Productos</CardTitle>
+                    <CardDescription>
+                        Aquí podrás ver, editar y añadir nuevos productos al catálogo.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                   <ProductsList initialProducts={products} currentUser={currentUser} />
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
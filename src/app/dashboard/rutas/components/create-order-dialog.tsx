@@ -2,18 +2,18 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { Order, User, Location, PaymentMethod, Client } from "@/types";
-import { Loader2, MapPin } from 'lucide-react';
+import type { Order, Location, PaymentMethod, Client, Product, OrderPriority, DeliveryZone, OutOfCoveragePolicy } from "@/types";
+import { Loader2, MapPin, Plus, Trash2 } from 'lucide-react';
 import dynamic from 'next/dynamic';
 
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from '@/hooks/use-toast';
 import { geocodeAddress } from '@/ai/flows/geocode-address-flow';
 import { reverseGeocode } from '@/ai/flows/reverse-geocode-flow';
@@ -21,6 +21,12 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { createOrder } from '@/actions/order-actions';
 import { Combobox } from '@/components/ui/combobox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ORDER_PRIORITY_LABELS } from '@/lib/order-status';
+import { parseAddress } from '@/lib/address';
+import { PAYMENT_METHOD_LABELS } from '@/lib/payments';
+import { quoteDeliveryFee, findDeliveryZone } from '@/lib/delivery-fee';
+import type { DeliveryPricing } from '@/models/pharmacy-settings-model';
 
 // Dynamically import map component to avoid SSR issues with Leaflet
 const AddressMapPicker = dynamic(() => import('./address-map-picker'), {
@@ -33,27 +39,55 @@ const formSchema = z.object({
     clientPhone: z.string().regex(/^\d{10}$/, { message: "El teléfono debe tener 10 dígitos." }),
     addressReference: z.string().min(5, { message: "La dirección de referencia es obligatoria." }),
     coordinates: z.string().optional(),
-    orderDetails: z.string().min(5, { message: "Los detalles del pedido son obligatorios." }),
-    total: z.coerce.number().positive({ message: "El total debe ser un número positivo." }),
-    paymentMethod: z.enum(['cash', 'transfer'], {
-        required_error: "Debes seleccionar un método de pago.",
-    }),
-    paymentAmount: z.coerce.number().optional(),
+    payments: z.array(z.object({
+        method: z.enum(['cash', 'transfer', 'card', 'nequi', 'daviplata'], {
+            required_error: "Debes seleccionar un método de pago.",
+        }),
+        amount: z.coerce.number().min(0),
+        tendered: z.coerce.number().optional(),
+        reference: z.string().optional(),
+    })).min(1),
+    priority: z.enum(['normal', 'high', 'urgent']),
+    windowStart: z.string().optional(),
+    windowEnd: z.string().optional(),
+}).refine(values => !values.windowStart || !values.windowEnd || values.windowEnd > values.windowStart, {
+    message: "La hora final debe ser posterior a la hora inicial.",
+    path: ['windowEnd'],
 });
 
 interface CreateOrderDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
-    agent: User;
     clients: Client[];
+    products: Product[];
     pharmacyLocation: { lat: number, lng: number };
+    deliveryPricing: DeliveryPricing;
+    deliveryZones: DeliveryZone[];
+    outOfCoveragePolicy: OutOfCoveragePolicy;
 }
 
-export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacyLocation }: CreateOrderDialogProps) {
+interface OrderLine {
+    product: Product;
+    quantity: number;
+}
+
+// Turns an "HH:mm" value from a time input into today's date at that time
+const todayAt = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const date = new Date();
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+};
+
+// Units already reserved by open orders cannot be sold again
+const availableUnits = (product: Product) => product.stock - (product.reserved || 0);
+
+export function CreateOrderDialog({ open, onOpenChange, clients, products, pharmacyLocation, deliveryPricing, deliveryZones, outOfCoveragePolicy }: CreateOrderDialogProps) {
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isLocating, setIsLocating] = useState(false);
     const [isReverseGeocoding, setIsReverseGeocoding] = useState(false);
     const [location, setLocation] = useState<Location | null>(null);
+    const [orderLines, setOrderLines] = useState<OrderLine[]>([]);
     const { toast } = useToast();
 
     const form = useForm<z.infer<typeof formSchema>>({
@@ -63,18 +97,37 @@ export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacy
             clientPhone: "",
             addressReference: "",
             coordinates: "",
-            orderDetails: "",
-            total: 0,
-            paymentMethod: "cash",
-            paymentAmount: 0,
+            payments: [{ method: "cash", amount: 0, tendered: 0, reference: "" }],
+            priority: "normal",
+            windowStart: "",
+            windowEnd: "",
         },
     });
 
-    const paymentMethod = form.watch('paymentMethod');
-    const total = form.watch('total');
-    const paymentAmount = form.watch('paymentAmount');
+    const { fields: paymentFields, append: appendPayment, remove: removePayment } = useFieldArray({ control: form.control, name: 'payments' });
+    const payments = form.watch('payments');
+    const subtotal = orderLines.reduce((sum, line) => sum + line.product.price * line.quantity, 0);
+    // Only an estimate until saved: createOrder quotes again and rejects the order if the fee moved
+    const destination = location?.lat && location?.lng ? { lat: location.lat, lng: location.lng } : null;
+    const deliveryZone = destination ? findDeliveryZone(deliveryZones, destination) : undefined;
+    // With no zones drawn every address is covered
+    const isOutOfCoverage = !!destination && deliveryZones.length > 0 && !deliveryZone;
+    const deliveryQuote = destination
+        ? quoteDeliveryFee(deliveryPricing, pharmacyLocation, destination, subtotal, deliveryZone)
+        : null;
+    const deliveryFee = deliveryQuote?.fee ?? 0;
+    const total = subtotal + deliveryFee;
+    const canonicalAddress = parseAddress(form.watch('addressReference') || '');
+
+    const paidTotal = payments.reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0);
+    const unpaid = total - paidTotal;
 
-    const change = (paymentAmount || 0) - total;
+    // With a single payment there is nothing to split: it always covers the whole order
+    useEffect(() => {
+        if (paymentFields.length === 1) {
+            form.setValue('payments.0.amount', total);
+        }
+    }, [total, paymentFields.length, form]);
 
     useEffect(() => {
         if (location) {
@@ -101,6 +154,31 @@ export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacy
         }
     };
 
+    const handleAddProduct = (productId: string) => {
+        const product = products.find(p => p.id === productId);
+        if (!product) return;
+
+        setOrderLines(prev => {
+            const existing = prev.find(line => line.product.id === productId);
+            if (existing) {
+                return prev.map(line => line.product.id === productId ? { ...line, quantity: Math.min(availableUnits(product), line.quantity + 1) } : line);
+            }
+            return [...prev, { product, quantity: 1 }];
+        });
+    };
+
+    const handleQuantityChange = (productId: string, quantity: number) => {
+        setOrderLines(prev => prev.map(line =>
+            line.product.id === productId
+                ? { ...line, quantity: Math.min(availableUnits(line.product), Math.max(1, Math.floor(quantity) || 1)) }
+                : line
+        ));
+    };
+
+    const handleRemoveProduct = (productId: string) => {
+        setOrderLines(prev => prev.filter(line => line.product.id !== productId));
+    };
+
     const handleLocateAddress = async () => {
         const address = form.getValues("addressReference");
         if (!address) {
@@ -110,7 +188,7 @@ export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacy
 
         setIsLocating(true);
         try {
-            const coordinates = await geocodeAddress({ address: `${address}, Ocaña, Norte de Santander` });
+            const coordinates = await geocodeAddress({ address });
             setLocation({ address, ...coordinates });
             toast({
               title: "Dirección Encontrada",
@@ -159,29 +237,62 @@ export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacy
             return;
         }
 
+        if (isOutOfCoverage && outOfCoveragePolicy === 'block') {
+            toast({
+                variant: 'destructive',
+                title: 'Fuera de Cobertura',
+                description: 'La dirección está fuera de las zonas donde entregamos. Ajusta el marcador o informa al cliente.',
+            });
+            return;
+        }
+
+        if (orderLines.length === 0) {
+            toast({
+                variant: 'destructive',
+                title: 'Productos Requeridos',
+                description: 'Agrega al menos un producto del catálogo al pedido.',
+            });
+            return;
+        }
+
+        if (unpaid !== 0) {
+            toast({
+                variant: 'destructive',
+                title: 'Pagos Incompletos',
+                description: `Los pagos deben sumar el total del pedido (${total.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}).`,
+            });
+            return;
+        }
+
         setIsSubmitting(true);
         
-        const items = [{
-            id: `prod-new-${Date.now()}`,
-            name: values.orderDetails.split(',')[0].trim() || 'Producto',
-            quantity: 1,
-            price: values.total
-        }];
+        const items = orderLines.map(line => ({
+            productId: line.product.id,
+            quantity: line.quantity,
+            price: line.product.price,
+        }));
 
-        const deliveryNotes = values.paymentMethod === 'cash' 
-            ? `Paga con: ${values.paymentAmount?.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}. Vueltos: ${((values.paymentAmount || 0) - values.total).toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}`
-            : '';
+        // "After 5pm" only sets a start and "before noon" only an end; the other side is the rest of the day
+        const timeWindow = values.windowStart || values.windowEnd
+            ? {
+                start: values.windowStart ? todayAt(values.windowStart) : new Date(),
+                end: todayAt(values.windowEnd || '23:59'),
+            }
+            : undefined;
 
         const result = await createOrder({
             clientName: values.clientName,
             clientPhone: values.clientPhone,
             deliveryLocation: { ...location, address: values.addressReference },
             items: items,
-            total: values.total,
-            paymentMethod: values.paymentMethod,
-            paymentAmount: values.paymentAmount,
-            createdBy: agent.id,
-            deliveryNotes: deliveryNotes
+            deliveryFee,
+            payments: values.payments
+                .filter(payment => payment.amount > 0)
+                .map(({ method, amount, tendered, reference }) => (method === 'cash'
+                    ? { method, amount, tendered: tendered || undefined }
+                    : { method, amount, reference: reference?.trim() || undefined })),
+            timeWindow,
+            priority: values.priority,
         });
 
         if (result.success && result.order) {
@@ -191,6 +302,7 @@ export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacy
             });
             form.reset();
             setLocation(null);
+            setOrderLines([]);
             onOpenChange(false);
         } else {
             toast({
@@ -205,6 +317,7 @@ export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacy
     const handleOpenChange = (isOpen: boolean) => {
       if (!isOpen) {
         setLocation(null);
+        setOrderLines([]);
         form.reset();
       }
       onOpenChange(isOpen);
@@ -215,6 +328,13 @@ export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacy
         label: `${client.fullName} - ${client.phone}`
     }));
 
+    const productOptions = products
+        .filter(product => availableUnits(product) > 0)
+        .map(product => ({
+            value: product.id,
+            label: `${product.name} (${product.presentation}) - ${product.price.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })} · ${availableUnits(product)} disp.`
+        }));
+
     return (
         <Dialog open={open} onOpenChange={handleOpenChange}>
             <DialogContent className="sm:max-w-4xl">
@@ -281,6 +401,9 @@ export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacy
                                                     <span className="sr-only">Ubicar en mapa</span>
                                                 </Button>
                                             </div>
+                                            {canonicalAddress.streetType && canonicalAddress.address !== field.value && (
+                                                <FormDescription>Se guardará como: {canonicalAddress.address}</FormDescription>
+                                            )}
                                             <FormMessage />
                                         </FormItem>
                                     )}
@@ -301,98 +424,269 @@ export function CreateOrderDialog({ open, onOpenChange, agent, clients, pharmacy
                                                     )}
                                                 </div>
                                             </FormControl>
+                                            {deliveryZone && <FormDescription>Zona: {deliveryZone.name}</FormDescription>}
+                                            {isOutOfCoverage && (
+                                                <FormDescription className="text-destructive">
+                                                    {outOfCoveragePolicy === 'block'
+                                                        ? 'Fuera de cobertura: no se puede tomar el pedido en esta dirección.'
+                                                        : 'Fuera de cobertura: confirma con el cliente antes de guardar.'}
+                                                </FormDescription>
+                                            )}
                                             <FormMessage />
                                         </FormItem>
                                     )}
                                 />
-                                <FormField
-                                    control={form.control}
-                                    name="orderDetails"
-                                    render={({ field }) => (
-                                        <FormItem>
-                                            <FormLabel>Productos del Pedido</FormLabel>
-                                            <FormControl>
-                                                <Textarea placeholder="Describe los productos, ej: 1x Acetaminofén, 2x Vitamina C" {...field} />
-                                            </FormControl>
-                                            <FormMessage />
-                                        </FormItem>
+                                <FormItem>
+                                    <FormLabel>Productos del Pedido</FormLabel>
+                                    <Combobox
+                                        options={productOptions}
+                                        onSelect={handleAddProduct}
+                                        selectText="Agregar producto..."
+                                        searchText="Buscar producto..."
+                                        notFoundText="No se encontró ningún producto disponible."
+                                    />
+                                    {orderLines.length > 0 && (
+                                        <Table>
+                                            <TableHeader>
+                                                <TableRow>
+                                                    <TableHead>Producto</TableHead>
+                                                    <TableHead className="w-20">Cant.</TableHead>
+                                                    <TableHead className="text-right">Subtotal</TableHead>
+                                                    <TableHead><span className="sr-only">Quitar</span></TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {orderLines.map(line => (
+                                                    <TableRow key={line.product.id}>
+                                                        <TableCell>
+                                                            <p className="font-medium">{line.product.name}</p>
+                                                            <p className="text-xs text-muted-foreground">{line.product.presentation}</p>
+                                                        </TableCell>
+                                                        <TableCell>
+                                                            <Input
+                                                                type="number"
+                                                                min={1}
+                                                                value={line.quantity}
+                                                                onChange={(e) => handleQuantityChange(line.product.id, Number(e.target.value))}
+                                                                className="h-8"
+                                                            />
+                                                        </TableCell>
+                                                        <TableCell className="text-right">
+                                                            {(line.product.price * line.quantity).toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}
+                                                        </TableCell>
+                                                        <TableCell>
+                                                            <Button type="button" variant="ghost" size="icon" onClick={() => handleRemoveProduct(line.product.id)}>
+                                                                <Trash2 className="h-4 w-4" />
+                                                                <span className="sr-only">Quitar producto</span>
+                                                            </Button>
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                            <TableFooter>
+                                                <TableRow>
+                                                    <TableCell colSpan={2}>Subtotal</TableCell>
+                                                    <TableCell className="text-right">
+                                                        {subtotal.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}
+                                                    </TableCell>
+                                                    <TableCell />
+                                                </TableRow>
+                                                <TableRow>
+                                                    <TableCell colSpan={2}>
+                                                        Domicilio
+                                                        {deliveryQuote ? (
+                                                            <p className="text-xs font-normal text-muted-foreground">
+                                                                {deliveryZone?.fee !== undefined ? `Tarifa fija de la zona ${deliveryZone.name}` : `${deliveryQuote.distanceKm.toLocaleString('es-CO')} km desde la farmacia`}
+                                                                {deliveryQuote.isFree ? ' · Gratis por el valor del pedido' : deliveryQuote.nightSurcharge > 0 && ' · Incluye recargo nocturno'}
+                                                            </p>
+                                                        ) : (
+                                                            <p className="text-xs font-normal text-muted-foreground">Ubica la dirección para calcularlo</p>
+                                                        )}
+                                                    </TableCell>
+                                                    <TableCell className="text-right">
+                                                        {deliveryFee.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}
+                                                    </TableCell>
+                                                    <TableCell />
+                                                </TableRow>
+                                                <TableRow>
+                                                    <TableCell colSpan={2} className="font-bold">Total a Pagar</TableCell>
+                                                    <TableCell className="text-right font-bold">
+                                                        {total.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}
+                                                    </TableCell>
+                                                    <TableCell />
+                                                </TableRow>
+                                            </TableFooter>
+                                        </Table>
                                     )}
-                                />
-                                <div className="grid grid-cols-2 gap-4">
-                                <FormField
-                                    control={form.control}
-                                    name="total"
-                                    render={({ field }) => (
-                                        <FormItem>
-                                            <FormLabel>Total a Pagar (COP)</FormLabel>
-                                            <FormControl>
-                                                <Input type="number" placeholder="25000" {...field} />
-                                            </FormControl>
-                                            <FormMessage />
-                                        </FormItem>
+                                </FormItem>
+                                <FormItem>
+                                    <div className="flex items-center justify-between">
+                                        <FormLabel>Pagos</FormLabel>
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => appendPayment({ method: 'transfer', amount: Math.max(unpaid, 0), tendered: 0, reference: '' })}
+                                        >
+                                            <Plus className="mr-1 h-4 w-4" />
+                                            Dividir pago
+                                        </Button>
+                                    </div>
+                                    <div className="space-y-3">
+                                        {paymentFields.map((paymentField, index) => {
+                                            const payment = payments[index];
+                                            const change = payment?.method === 'cash' ? (Number(payment.tendered) || 0) - (Number(payment.amount) || 0) : 0;
+                                            return (
+                                                <div key={paymentField.id} className="grid grid-cols-[1fr_1fr_auto] gap-2 p-3 border rounded-lg bg-muted/50">
+                                                    <FormField
+                                                        control={form.control}
+                                                        name={`payments.${index}.method`}
+                                                        render={({ field }) => (
+                                                            <FormItem>
+                                                                <Select onValueChange={field.onChange} value={field.value}>
+                                                                    <FormControl>
+                                                                        <SelectTrigger><SelectValue placeholder="Método" /></SelectTrigger>
+                                                                    </FormControl>
+                                                                    <SelectContent>
+                                                                        {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                                                                            <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                                                                        ))}
+                                                                    </SelectContent>
+                                                                </Select>
+                                                                <FormMessage />
+                                                            </FormItem>
+                                                        )}
+                                                    />
+                                                    <FormField
+                                                        control={form.control}
+                                                        name={`payments.${index}.amount`}
+                                                        render={({ field }) => (
+                                                            <FormItem>
+                                                                <FormControl>
+                                                                    <Input type="number" placeholder="Monto" readOnly={paymentFields.length === 1} {...field} />
+                                                                </FormControl>
+                                                                <FormMessage />
+                                                            </FormItem>
+                                                        )}
+                                                    />
+                                                    <Button
+                                                        type="button"
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        disabled={paymentFields.length === 1}
+                                                        onClick={() => removePayment(index)}
+                                                    >
+                                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                                        <span className="sr-only">Quitar pago</span>
+                                                    </Button>
+                                                    {payment?.method === 'cash' ? (
+                                                        <>
+                                                            <FormField
+                                                                control={form.control}
+                                                                name={`payments.${index}.tendered`}
+                                                                render={({ field }) => (
+                                                                    <FormItem>
+                                                                        <FormLabel className="text-xs">Paga con</FormLabel>
+                                                                        <FormControl>
+                                                                            <Input type="number" placeholder="50000" {...field} />
+                                                                        </FormControl>
+                                                                        <FormMessage />
+                                                                    </FormItem>
+                                                                )}
+                                                            />
+                                                            <FormItem>
+                                                                <FormLabel className="text-xs">Vueltos</FormLabel>
+                                                                <Input
+                                                                    readOnly
+                                                                    disabled
+                                                                    value={change > 0 ? change.toLocaleString('es-CO', { style: 'currency', currency: 'COP' }) : '$0'}
+                                                                    className="font-bold"
+                                                                />
+                                                            </FormItem>
+                                                        </>
+                                                    ) : (
+                                                        <FormField
+                                                            control={form.control}
+                                                            name={`payments.${index}.reference`}
+                                                            render={({ field }) => (
+                                                                <FormItem className="col-span-2">
+                                                                    <FormLabel className="text-xs">Referencia</FormLabel>
+                                                                    <FormControl>
+                                                                        <Input placeholder={payment?.method === 'card' ? 'Número del voucher' : 'Número de la transacción'} {...field} />
+                                                                    </FormControl>
+                                                                    <FormMessage />
+                                                                </FormItem>
+                                                            )}
+                                                        />
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                    {unpaid !== 0 && (
+                                        <FormDescription className="text-destructive">
+                                            {unpaid > 0
+                                                ? `Faltan ${unpaid.toLocaleString('es-CO', { style: 'currency', currency: 'COP' })} por asignar a un pago.`
+                                                : `Los pagos superan el total por ${(-unpaid).toLocaleString('es-CO', { style: 'currency', currency: 'COP' })}.`}
+                                        </FormDescription>
                                     )}
-                                />
+                                </FormItem>
                                 <FormField
                                     control={form.control}
-                                    name="paymentMethod"
+                                    name="priority"
                                     render={({ field }) => (
                                         <FormItem className="space-y-3">
-                                            <FormLabel>Método de Pago</FormLabel>
+                                            <FormLabel>Prioridad</FormLabel>
                                             <FormControl>
                                                 <RadioGroup
                                                     onValueChange={field.onChange}
-                                                    defaultValue={field.value}
+                                                    value={field.value}
                                                     className="flex pt-2 gap-4"
                                                 >
-                                                    <FormItem className="flex items-center space-x-2 space-y-0">
-                                                        <FormControl>
-                                                            <RadioGroupItem value="cash" id="cash" />
-                                                        </FormControl>
-                                                        <FormLabel htmlFor="cash" className="font-normal cursor-pointer">
-                                                            Efectivo
-                                                        </FormLabel>
-                                                    </FormItem>
-                                                    <FormItem className="flex items-center space-x-2 space-y-0">
-                                                        <FormControl>
-                                                            <RadioGroupItem value="transfer" id="transfer" />
-                                                        </FormControl>
-                                                        <FormLabel htmlFor="transfer" className="font-normal cursor-pointer">
-                                                            Transferencia
-                                                        </FormLabel>
-                                                    </FormItem>
+                                                    {(Object.keys(ORDER_PRIORITY_LABELS) as OrderPriority[]).map(priority => (
+                                                        <FormItem key={priority} className="flex items-center space-x-2 space-y-0">
+                                                            <FormControl>
+                                                                <RadioGroupItem value={priority} id={`priority-${priority}`} />
+                                                            </FormControl>
+                                                            <FormLabel htmlFor={`priority-${priority}`} className="font-normal cursor-pointer">
+                                                                {ORDER_PRIORITY_LABELS[priority]}
+                                                            </FormLabel>
+                                                        </FormItem>
+                                                    ))}
                                                 </RadioGroup>
                                             </FormControl>
                                             <FormMessage />
                                         </FormItem>
                                     )}
                                 />
+                                <div className="grid grid-cols-2 gap-4">
+                                    <FormField
+                                        control={form.control}
+                                        name="windowStart"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Entregar desde</FormLabel>
+                                                <FormControl>
+                                                    <Input type="time" {...field} />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name="windowEnd"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Entregar hasta</FormLabel>
+                                                <FormControl>
+                                                    <Input type="time" {...field} />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
                                 </div>
-                                {paymentMethod === 'cash' && (
-                                    <div className="grid grid-cols-2 gap-4 p-4 border rounded-lg bg-muted/50">
-                                        <FormField
-                                            control={form.control}
-                                            name="paymentAmount"
-                                            render={({ field }) => (
-                                                <FormItem>
-                                                    <FormLabel>Paga con</FormLabel>
-                                                    <FormControl>
-                                                        <Input type="number" placeholder="50000" {...field} />
-                                                    </FormControl>
-                                                    <FormMessage />
-                                                </FormItem>
-                                            )}
-                                        />
-                                        <FormItem>
-                                            <FormLabel>Vueltos</FormLabel>
-                                            <Input 
-                                                readOnly 
-                                                disabled 
-                                                value={change > 0 ? change.toLocaleString('es-CO', { style: 'currency', currency: 'COP' }) : '$0'}
-                                                className="font-bold text-lg"
-                                            />
-                                        </FormItem>
-                                    </div>
-                                )}
                              </div>
                              <div className="h-96 md:min-h-[500px] rounded-lg overflow-hidden border">
                                 <AddressMapPicker 
@@ -1,7 +1,9 @@
 import type { Order } from '@/types';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Package, User, MapPin } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Package, User, MapPin, Clock, RotateCcw } from 'lucide-react';
+import { ORDER_PRIORITY_LABELS, FAILED_DELIVERY_REASON_LABELS, formatTimeWindow } from '@/lib/order-status';
 
 interface OrderCardProps {
   order: Order;
@@ -15,6 +17,8 @@ export function OrderCard({ order, stopNumber, onAssign, onViewDetails }: OrderC
 
   const isPending = order.status === 'pending';
   const isAssigned = order.status === 'assigned' || order.status === 'in_transit';
+  const failedAttempts = order.failedAttempts ?? [];
+  const lastAttempt = failedAttempts[failedAttempts.length - 1];
 
   return (
     <Card className="relative pl-6">
@@ -35,12 +39,28 @@ export function OrderCard({ order, stopNumber, onAssign, onViewDetails }: OrderC
         </CardDescription>
         <CardDescription className="flex items-center gap-2">
             <MapPin className="h-4 w-4" /> {order.deliveryLocation.address}
+            {order.deliveryZoneName && <Badge variant="outline">{order.deliveryZoneName}</Badge>}
         </CardDescription>
       </CardHeader>
-      <CardContent className="py-2">
+      <CardContent className="py-2 space-y-1">
          <div className="text-sm text-muted-foreground flex items-center gap-2">
             <Package className="h-4 w-4" /> {totalItems} {totalItems > 1 ? 'productos' : 'producto'}
+            {order.priority && order.priority !== 'normal' && (
+              <Badge variant={order.priority === 'urgent' ? 'destructive' : 'secondary'}>{ORDER_PRIORITY_LABELS[order.priority]}</Badge>
+            )}
         </div>
+        {order.timeWindow && (
+          <div className="text-sm text-muted-foreground flex items-center gap-2">
+            <Clock className="h-4 w-4" /> {formatTimeWindow(order.timeWindow)}
+          </div>
+        )}
+        {lastAttempt && (
+          <div className="text-sm text-muted-foreground flex items-center gap-2">
+            <RotateCcw className="h-4 w-4" />
+            <Badge variant="outline">{failedAttempts.length + 1}º intento</Badge>
+            Último: {FAILED_DELIVERY_REASON_LABELS[lastAttempt.reason]}
+          </div>
+        )}
       </CardContent>
       <CardFooter className="flex justify-end gap-2 pt-2">
         <Button variant="outline" size="sm" onClick={() => onViewDetails(order)}>Ver Detalles</Button>
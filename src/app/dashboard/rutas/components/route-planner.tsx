@@ -1,23 +1,27 @@
 
 'use client';
 
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useCallback } from 'react';
 import dynamic from 'next/dynamic';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Bot, PlusCircle, Loader2, User as UserIcon, Map as MapIcon } from 'lucide-react';
+import { Bot, PlusCircle, Loader2, User as UserIcon, Map as MapIcon, CheckCheck, X } from 'lucide-react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import type { Order, User, Client } from '@/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Order, User, Client, Product, Route, DispatchEvent, DeliveryZone, OutOfCoveragePolicy } from '@/types';
 import { OrderCard } from './order-card';
 import { CreateOrderDialog } from './create-order-dialog';
 import { AssignDeliveryDialog } from './assign-delivery-dialog';
 import { useToast } from "@/hooks/use-toast";
 import { optimizePharmacyRoute } from '@/ai/flows/optimize-pharmacy-route';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { RouteInfo } from '@/components/dashboard/map-component';
+import type { RouteInfo, CourierLocation } from '@/components/dashboard/map-component';
 import { OrderDetailsDialog } from '../../pedidos/components/order-details-dialog';
 import { updateOrderStatus } from '@/actions/order-actions';
+import { optimizeRoute, saveRoutePlan } from '@/actions/route-actions';
+import { useDispatchEvents } from '@/hooks/use-dispatch-events';
+import type { DeliveryPricing } from '@/models/pharmacy-settings-model';
 
 
 const MapComponent = dynamic(() => import('@/components/dashboard/map-component'), {
@@ -25,13 +29,41 @@ const MapComponent = dynamic(() => import('@/components/dashboard/map-component'
   loading: () => <Skeleton className="w-full h-full rounded-lg" />
 });
 
+const ROUTE_COLORS = ['hsl(var(--primary))', 'hsl(var(--chart-2))', 'hsl(var(--chart-4))', 'hsl(var(--destructive))', 'hsl(var(--accent))'];
+
+// A route suggested by the optimizer for one courier, before anything is assigned
+interface ProposedRouteInfo {
+  deliveryPerson: User;
+  orders: Order[];
+  color: string;
+  estimatedDistance: string;
+  estimatedTime: string;
+  encodedPolyline: string;
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+const ALL_ZONES = 'all';
+const OUTSIDE_ZONES = 'outside';
+
+const formatRouteEstimate = (route: Route) => {
+  const km = ((route.estimatedDistanceMeters ?? 0) / 1000).toFixed(1);
+  const minutes = Math.round((route.estimatedDurationSeconds ?? 0) / 60);
+  return `${km} km · ${minutes} min`;
+};
+
 interface RoutePlannerProps {
   initialPendingOrders: Order[];
   initialRoutesForMap: RouteInfo[];
   deliveryPeople: User[];
   clients: Client[];
-  agent: User;
+  products: Product[];
   pharmacyLocation: { lat: number, lng: number };
+  maxOrdersPerRoute: number;
+  routeOptimizer: 'openrouteservice' | 'local';
+  deliveryPricing: DeliveryPricing;
+  deliveryZones: DeliveryZone[];
+  outOfCoveragePolicy: OutOfCoveragePolicy;
 }
 
 export function RoutePlanner({ 
@@ -39,8 +71,13 @@ export function RoutePlanner({
   initialRoutesForMap, 
   deliveryPeople, 
   clients, 
-  agent, 
-  pharmacyLocation 
+  products,
+  pharmacyLocation,
+  maxOrdersPerRoute,
+  routeOptimizer,
+  deliveryPricing,
+  deliveryZones,
+  outOfCoveragePolicy
 }: RoutePlannerProps) {
   const [pendingOrders, setPendingOrders] = useState<Order[]>(initialPendingOrders);
   const [routesForMap, setRoutesForMap] = useState<RouteInfo[]>(initialRoutesForMap);
@@ -49,15 +86,78 @@ export function RoutePlanner({
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [viewingOrderDetails, setViewingOrderDetails] = useState<Order | null>(null);
   const [isOptimizing, setIsOptimizing] = useState(false);
-  const [optimizedPolyline, setOptimizedPolyline] = useState<string | null>(null);
+  const [proposedRoutes, setProposedRoutes] = useState<ProposedRouteInfo[]>([]);
+  const [isAssigningProposal, setIsAssigningProposal] = useState(false);
+  const [unassignedOrders, setUnassignedOrders] = useState<{ order: Order; reason: string }[]>([]);
+  const [optimizingRouteId, setOptimizingRouteId] = useState<string | null>(null);
+  const [courierLocations, setCourierLocations] = useState<Record<string, CourierLocation>>({});
+  const [zoneFilter, setZoneFilter] = useState<string>(ALL_ZONES);
   const { toast } = useToast();
 
+  // Listing, drawing and optimizing all work on the zone being dispatched
+  const visiblePendingOrders = useMemo(() => {
+    if (zoneFilter === ALL_ZONES) return pendingOrders;
+    if (zoneFilter === OUTSIDE_ZONES) return pendingOrders.filter(order => !order.deliveryZone);
+    return pendingOrders.filter(order => order.deliveryZone === zoneFilter);
+  }, [pendingOrders, zoneFilter]);
+
   // Effect to sync state with server-side props when they change (due to revalidation)
   useEffect(() => {
     setPendingOrders(initialPendingOrders);
     setRoutesForMap(initialRoutesForMap);
   }, [initialPendingOrders, initialRoutesForMap]);
 
+  // Other agents' changes and courier positions arrive live, without waiting for a revalidation
+  const handleDispatchEvent = useCallback((event: DispatchEvent) => {
+    if (event.type === 'courier.location') {
+      setCourierLocations(current => ({ ...current, [event.deliveryPersonId]: { ...event.location, bearing: event.bearing } }));
+      return;
+    }
+
+    const { order } = event;
+    setPendingOrders(current => {
+      if (order.status !== 'pending') return current.filter(o => o.id !== order.id);
+      const index = current.findIndex(o => o.id === order.id);
+      return index === -1 ? [...current, order] : current.map(o => (o.id === order.id ? order : o));
+    });
+    setRoutesForMap(current => {
+      const isOnRoute = order.status === 'assigned' || order.status === 'in_transit';
+      const courierId = isOnRoute ? order.assignedTo?.id : undefined;
+
+      const routes = current.map(route => {
+        const index = route.orders.findIndex(o => o.id === order.id);
+        if (route.deliveryPerson.id === courierId) {
+          const orders = index === -1 ? [...route.orders, order] : route.orders.map(o => (o.id === order.id ? order : o));
+          // A new stop makes the stored optimization stale, as on the server
+          const plannedRoute = index === -1 && route.plannedRoute
+            ? { ...route.plannedRoute, encodedPolyline: undefined, optimizedAt: undefined }
+            : route.plannedRoute;
+          return { ...route, orders, plannedRoute };
+        }
+        if (index === -1) return route;
+        return {
+          ...route,
+          orders: route.orders.filter(o => o.id !== order.id),
+          plannedRoute: route.plannedRoute && { ...route.plannedRoute, encodedPolyline: undefined, optimizedAt: undefined },
+        };
+      });
+
+      const deliveryPerson = deliveryPeople.find(person => person.id === courierId);
+      if (deliveryPerson && !routes.some(route => route.deliveryPerson.id === deliveryPerson.id)) {
+        routes.push({
+          deliveryPerson,
+          orders: [order],
+          color: ROUTE_COLORS[routes.length % ROUTE_COLORS.length],
+          currentLocation: deliveryPerson.currentLocation,
+          bearing: deliveryPerson.bearing,
+        });
+      }
+      return routes.filter(route => route.orders.length > 0);
+    });
+  }, [deliveryPeople]);
+
+  useDispatchEvents(handleDispatchEvent);
+
   const handleOpenAssignDialog = (order: Order) => {
     setSelectedOrder(order);
     setAssignDialogOpen(true);
@@ -68,22 +168,23 @@ export function RoutePlanner({
   };
   
   const handleConfirmAssignment = async (orderId: string, deliveryPerson: User) => {
-    const result = await updateOrderStatus(orderId, 'assigned', deliveryPerson);
+    const result = await updateOrderStatus(orderId, 'assigned', deliveryPerson.id);
 
     if (result.success && result.order) {
         toast({
             title: 'Pedido Asignado',
-            description: `El pedido #${orderId.slice(-6)} se asignó a ${deliveryPerson.name}. Se enviará una notificación.`,
+            description: `El pedido #${orderId.slice(-6)} se asignó a ${deliveryPerson.name}. El cliente será notificado cuando inicie la ruta.`,
         });
-        // After assigning an order that was part of an optimized route, clear the polyline
-        setOptimizedPolyline(null);
+        // A manual assignment makes the current proposal obsolete
+        setProposedRoutes([]);
+        setUnassignedOrders([]);
     } else {
         toast({ variant: 'destructive', title: 'Error al asignar', description: result.message });
     }
   };
 
   const handleOptimizeRoute = async () => {
-    if (pendingOrders.length === 0) {
+    if (visiblePendingOrders.length === 0) {
       toast({
         variant: "destructive",
         title: "No hay pedidos pendientes",
@@ -91,29 +192,77 @@ export function RoutePlanner({
       });
       return;
     }
+    const availableDeliveryPeople = deliveryPeople.filter(person => person.status === 'available');
+    if (availableDeliveryPeople.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "No hay domiciliarios disponibles",
+        description: "Se necesita al menos un domiciliario disponible para proponer rutas.",
+      });
+      return;
+    }
     setIsOptimizing(true);
-    setOptimizedPolyline(null); // Clear previous polyline
+    setProposedRoutes([]); // Clear previous proposal
+    setUnassignedOrders([]);
     try {
       const input = {
         startCoords: { lat: pharmacyLocation.lat, lng: pharmacyLocation.lng },
-        orders: pendingOrders.map(order => ({
+        orders: visiblePendingOrders.map(order => ({
           orderId: order.id,
           address: order.deliveryLocation.address,
-        }))
+          coords: order.deliveryLocation.lat != null && order.deliveryLocation.lng != null
+            ? { lat: order.deliveryLocation.lat, lng: order.deliveryLocation.lng }
+            : undefined,
+          timeWindow: order.timeWindow,
+          priority: order.priority,
+        })),
+        // Each available courier leaves from where they are, or from the pharmacy if their location is unknown
+        vehicles: availableDeliveryPeople.map(person => ({
+          id: person.id,
+          start: person.currentLocation ?? { lat: pharmacyLocation.lat, lng: pharmacyLocation.lng },
+          capacity: maxOrdersPerRoute,
+        })),
+        solver: routeOptimizer,
       };
       
       const result = await optimizePharmacyRoute(input);
-      
-      const reorderedOrders = result.optimizedRoute.map(routeStop => {
-        return pendingOrders.find(order => order.id === routeStop.orderId);
-      }).filter((o): o is Order => !!o);
 
-      setPendingOrders(reorderedOrders);
-      setOptimizedPolyline(result.encodedPolyline);
+      const proposals = result.routes
+        .map((route, index) => {
+          const deliveryPerson = availableDeliveryPeople.find(person => person.id === route.vehicleId);
+          if (!deliveryPerson) return null;
+          const orders = route.optimizedRoute
+            .map(routeStop => visiblePendingOrders.find(order => order.id === routeStop.orderId))
+            .filter((o): o is Order => !!o);
+          return {
+            deliveryPerson,
+            orders,
+            color: ROUTE_COLORS[index % ROUTE_COLORS.length],
+            estimatedDistance: route.estimatedDistance,
+            estimatedTime: route.estimatedTime,
+            encodedPolyline: route.encodedPolyline,
+            distanceMeters: route.distanceMeters,
+            durationSeconds: route.durationSeconds,
+          };
+        })
+        .filter((p): p is ProposedRouteInfo => p !== null);
+
+      // Proposed orders first in route order; anything the optimizer could not place stays at the end
+      const proposedOrders = proposals.flatMap(proposal => proposal.orders);
+      const unplacedOrders = visiblePendingOrders.filter(order => !proposedOrders.includes(order));
+
+      setPendingOrders([...proposedOrders, ...unplacedOrders]);
+      setProposedRoutes(proposals);
+      setUnassignedOrders(result.unassigned
+        .map(({ orderId, reason }) => ({ order: visiblePendingOrders.find(order => order.id === orderId), reason }))
+        .filter((u): u is { order: Order; reason: string } => !!u.order));
       
       toast({
-        title: "Ruta Optimizada",
-        description: `Ruta calculada en ${result.estimatedTime}. La lista de pedidos pendientes ha sido reordenada.`,
+        title: "Rutas Propuestas",
+        description: `Se propusieron ${proposals.length} ruta(s) para ${proposedOrders.length} pedido(s).`
+          + (result.unassigned.length > 0 ? ` ${result.unassigned.length} pedido(s) quedaron sin asignar.` : '')
+          + (result.solver === 'local' ? ' Calculada sin conexión con distancias en línea recta.' : '')
+          + ' Revisa la propuesta antes de asignarla.',
       });
 
     } catch (error: any) {
@@ -128,6 +277,74 @@ export function RoutePlanner({
     }
   };
 
+  const handleAssignAllProposed = async () => {
+    setIsAssigningProposal(true);
+    let assignedCount = 0;
+    const failures: string[] = [];
+    const unsavedPlans: string[] = [];
+
+    for (const proposal of proposedRoutes) {
+      const assignedOrderIds: string[] = [];
+      // Assigning in sequence appends the orders to the courier's route in the proposed order
+      for (const order of proposal.orders) {
+        const result = await updateOrderStatus(order.id, 'assigned', proposal.deliveryPerson.id);
+        if (result.success) {
+          assignedOrderIds.push(order.id);
+          assignedCount++;
+        } else {
+          failures.push(`#${order.id.slice(-6)}: ${result.message}`);
+        }
+      }
+
+      if (assignedOrderIds.length === proposal.orders.length) {
+        const planResult = await saveRoutePlan(proposal.deliveryPerson.id, {
+          orderIds: assignedOrderIds,
+          encodedPolyline: proposal.encodedPolyline,
+          distanceMeters: proposal.distanceMeters,
+          durationSeconds: proposal.durationSeconds,
+        });
+        // The orders stay assigned; only the planned order and map line are missing
+        if (!planResult.success) {
+          unsavedPlans.push(`${proposal.deliveryPerson.name}: ${planResult.message}`);
+        }
+      }
+    }
+
+    if (failures.length === 0 && unsavedPlans.length === 0) {
+      toast({
+        title: 'Rutas Asignadas',
+        description: `${assignedCount} pedido(s) asignados según la propuesta.`,
+      });
+    } else if (failures.length === 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Plan de ruta sin guardar',
+        description: `${assignedCount} pedido(s) asignados, pero no se guardó el orden de la ruta de ${unsavedPlans.join(' ')}`,
+      });
+    } else {
+      toast({
+        variant: 'destructive',
+        title: 'Asignación incompleta',
+        description: `${assignedCount} pedido(s) asignados. No se pudieron asignar: ${failures.join(' ')}${unsavedPlans.length > 0 ? ` Sin plan guardado: ${unsavedPlans.join(' ')}` : ''}`,
+      });
+    }
+    setProposedRoutes([]);
+    setUnassignedOrders([]);
+    setIsAssigningProposal(false);
+  };
+
+  const handleOptimizeAssignedRoute = async (routeId: string) => {
+    setOptimizingRouteId(routeId);
+    const result = await optimizeRoute(routeId);
+
+    if (result.success) {
+      toast({ title: 'Ruta Optimizada', description: `${result.message} El domiciliario verá los pedidos en este orden.` });
+    } else {
+      toast({ variant: 'destructive', title: 'Error de Optimización', description: result.message });
+    }
+    setOptimizingRouteId(null);
+  };
+
   const handleOpenGoogleMaps = (route: RouteInfo) => {
     const origin = `${pharmacyLocation.lat},${pharmacyLocation.lng}`;
     
@@ -169,24 +386,40 @@ export function RoutePlanner({
             <PlusCircle className="mr-2 h-4 w-4" />
             Crear Pedido
           </Button>
-          <Button onClick={handleOptimizeRoute} disabled={isOptimizing || pendingOrders.length === 0}>
+          <Button onClick={handleOptimizeRoute} disabled={isOptimizing || visiblePendingOrders.length === 0}>
             {isOptimizing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Bot className="mr-2 h-4 w-4" />}
-            {isOptimizing ? "Optimizando..." : "Optimizar Ruta con IA"}
+            {isOptimizing ? "Optimizando..." : "Optimizar y Repartir"}
           </Button>
         </div>
       </div>
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-[minmax(0,_1fr)_minmax(0,_2fr)] h-[calc(100vh-14rem)]">
         <div className="flex flex-col gap-4">
             <Card>
-                <CardHeader>
-                    <CardTitle>Pedidos Pendientes ({pendingOrders.length})</CardTitle>
-                    <CardDescription>Pedidos esperando para ser asignados a una ruta.</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                    <div className="space-y-1.5">
+                        <CardTitle>Pedidos Pendientes ({visiblePendingOrders.length})</CardTitle>
+                        <CardDescription>Pedidos esperando para ser asignados a una ruta.</CardDescription>
+                    </div>
+                    {deliveryZones.length > 0 && (
+                        <Select value={zoneFilter} onValueChange={setZoneFilter}>
+                            <SelectTrigger className="w-40">
+                                <SelectValue placeholder="Zona" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_ZONES}>Todas las zonas</SelectItem>
+                                {deliveryZones.map(zone => (
+                                    <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                                ))}
+                                <SelectItem value={OUTSIDE_ZONES}>Fuera de cobertura</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    )}
                 </CardHeader>
                 <CardContent>
                     <ScrollArea className="h-48">
                         <div className="space-y-4 pr-4">
-                        {pendingOrders.length > 0 ? (
-                            pendingOrders.map((order, index) => (
+                        {visiblePendingOrders.length > 0 ? (
+                            visiblePendingOrders.map((order, index) => (
                             <OrderCard 
                                 key={order.id} 
                                 order={order} 
@@ -203,10 +436,51 @@ export function RoutePlanner({
                 </CardContent>
             </Card>
 
+            {(proposedRoutes.length > 0 || unassignedOrders.length > 0) && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Propuesta de Rutas</CardTitle>
+                        <CardDescription>Reparto sugerido entre los domiciliarios disponibles.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {proposedRoutes.map(proposal => (
+                            <div key={proposal.deliveryPerson.id} className="flex items-center justify-between text-sm">
+                                <div className="flex items-center gap-2">
+                                    <div className="h-2 w-2 rounded-full" style={{ backgroundColor: proposal.color }} />
+                                    <UserIcon className="h-4 w-4 text-muted-foreground" />
+                                    <span>{proposal.deliveryPerson.name} ({proposal.orders.length} pedidos)</span>
+                                </div>
+                                <span className="text-muted-foreground">{proposal.estimatedDistance} · {proposal.estimatedTime.replace('minutes', 'min')}</span>
+                            </div>
+                        ))}
+                        {unassignedOrders.length > 0 && (
+                            <div className="space-y-1 pt-2 border-t">
+                                <p className="text-sm font-medium">Sin asignar</p>
+                                {unassignedOrders.map(({ order, reason }) => (
+                                    <p key={order.id} className="text-sm text-muted-foreground">
+                                        Pedido #{order.id.slice(-6)}: {reason}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+                        <div className="flex gap-2 pt-2">
+                            <Button size="sm" onClick={handleAssignAllProposed} disabled={isAssigningProposal || proposedRoutes.length === 0}>
+                                {isAssigningProposal ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCheck className="mr-2 h-4 w-4" />}
+                                Asignar Todo según Propuesta
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => { setProposedRoutes([]); setUnassignedOrders([]); }} disabled={isAssigningProposal}>
+                                <X className="mr-2 h-4 w-4" />
+                                Descartar
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
             <Card className="flex-1 flex flex-col">
                 <CardHeader>
                     <CardTitle>Rutas Asignadas</CardTitle>
-                    <CardDescription>Pedidos en curso agrupados por domiciliario.</CardDescription>
+                    <CardDescription>Pedidos en curso en el orden de entrega de cada domiciliario.</CardDescription>
                 </CardHeader>
                 <ScrollArea className="flex-1">
                     <CardContent>
@@ -219,8 +493,29 @@ export function RoutePlanner({
                                                 <div className="h-2 w-2 rounded-full" style={{ backgroundColor: route.color }} />
                                                 <UserIcon className="h-4 w-4 text-muted-foreground" />
                                                 <span>{route.deliveryPerson.name} ({route.orders.length} pedidos)</span>
+                                                {route.plannedRoute?.optimizedAt && (
+                                                    <span className="text-xs text-muted-foreground">
+                                                        · {formatRouteEstimate(route.plannedRoute)}
+                                                    </span>
+                                                )}
                                             </div>
                                         </AccordionTrigger>
+                                        {route.plannedRoute && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                disabled={optimizingRouteId === route.plannedRoute.id}
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    handleOptimizeAssignedRoute(route.plannedRoute!.id);
+                                                }}
+                                            >
+                                                {optimizingRouteId === route.plannedRoute.id
+                                                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                                    : <Bot className="mr-2 h-4 w-4" />}
+                                                Optimizar
+                                            </Button>
+                                        )}
                                         <Button 
                                             variant="ghost" 
                                             size="sm" 
@@ -270,8 +565,9 @@ export function RoutePlanner({
             <MapComponent 
                 pharmacyLocation={pharmacyLocation} 
                 routes={routesForMap} 
-                pendingOrders={pendingOrders} 
-                optimizedPolyline={optimizedPolyline} 
+                pendingOrders={visiblePendingOrders} 
+                proposedRoutes={proposedRoutes} 
+                courierLocations={courierLocations}
             />
           </CardContent>
         </Card>
@@ -279,9 +575,12 @@ export function RoutePlanner({
       <CreateOrderDialog 
         open={isCreateDialogOpen} 
         onOpenChange={setCreateDialogOpen}
-        agent={agent}
         clients={clients}
+        products={products}
         pharmacyLocation={pharmacyLocation}
+        deliveryPricing={deliveryPricing}
+        deliveryZones={deliveryZones}
+        outOfCoveragePolicy={outOfCoveragePolicy}
       />
       <AssignDeliveryDialog 
         open={isAssignDialogOpen}
@@ -5,33 +5,27 @@ import { getUsers, getUserById } from "@/actions/user-actions";
 import { RoutePlanner } from "./components/route-planner";
 import type { Order } from "@/types";
 import { getClients } from "@/actions/client-actions";
+import { getProducts } from "@/actions/product-actions";
 import { getPharmacySettings } from "@/actions/pharmacy-settings-actions";
+import { getOpenRoutes } from "@/actions/route-actions";
+import { getDeliveryZones } from "@/actions/delivery-zone-actions";
 import { getSession } from "@/lib/auth";
 import type { RouteInfo } from "@/components/dashboard/map-component";
+import { DEFAULT_DELIVERY_PRICING } from "@/lib/delivery-fee";
 
 const ROUTE_COLORS = ['hsl(var(--primary))', 'hsl(var(--chart-2))', 'hsl(var(--chart-4))', 'hsl(var(--destructive))', 'hsl(var(--accent))'];
 
 
-const groupOrdersByDeliveryPerson = (orders: Order[]): Record<string, Order[]> => {
-    const assignedOrders = orders.filter(o => (o.status === 'in_transit' || o.status === 'assigned') && o.assignedTo);
-
-    return assignedOrders.reduce<Record<string, Order[]>>((acc, order) => {
-        const personId = order.assignedTo!.id;
-        if (!acc[personId]) {
-            acc[personId] = [];
-        }
-        acc[personId].push(order);
-        return acc;
-    }, {});
-};
-
 export default async function RutasPage() {
   const session = await getSession();
-  const [allOrders, deliveryPeople, clients, pharmacySettings, agentUser] = await Promise.all([
+  const [allOrders, openRoutes, deliveryPeople, clients, products, pharmacySettings, deliveryZones, agentUser] = await Promise.all([
     getOrders(),
+    getOpenRoutes(),
     getUsers('delivery'),
     getClients(),
+    getProducts(),
     getPharmacySettings(),
+    getDeliveryZones(),
     session ? getUserById(session.userId as string) : null
   ]);
   
@@ -49,22 +43,26 @@ export default async function RutasPage() {
     .filter(o => o.status === 'pending')
     .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
     
-  const assignedRoutes = groupOrdersByDeliveryPerson(allOrders);
+  const ordersById: Record<string, Order> = Object.fromEntries(allOrders.map(order => [order.id, order]));
 
-  const routesForMap: RouteInfo[] = Object.entries(assignedRoutes)
-    .map(([personId, orders], index) => {
-        const deliveryPerson = deliveryPeople.find(p => p.id === personId);
+  const routesForMap: RouteInfo[] = openRoutes
+    .map((route, index) => {
+        const deliveryPerson = deliveryPeople.find(p => p.id === route.deliveryPerson);
 
         if (!deliveryPerson) return null;
-        
-        const reorderedOrders = orders.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+        // Stops keep the stored sequence; delivered ones are no longer drawn
+        const orders = route.stops
+            .map(orderId => ordersById[orderId])
+            .filter((o): o is Order => !!o && (o.status === 'assigned' || o.status === 'in_transit'));
             
         return {
             deliveryPerson,
-            orders: reorderedOrders,
+            orders,
             color: ROUTE_COLORS[index % ROUTE_COLORS.length],
             currentLocation: deliveryPerson.currentLocation,
             bearing: deliveryPerson.bearing,
+            plannedRoute: route,
         };
     })
     .filter((r): r is RouteInfo => r !== null);
@@ -76,8 +74,13 @@ export default async function RutasPage() {
       initialRoutesForMap={routesForMap}
       deliveryPeople={deliveryPeople}
       clients={clients}
-      agent={agentUser}
+      products={products}
       pharmacyLocation={{ lat: pharmacyLocation.lat, lng: pharmacyLocation.lng }}
+      maxOrdersPerRoute={pharmacySettings.maxOrdersPerRoute || 8}
+      routeOptimizer={pharmacySettings.routeOptimizer || 'openrouteservice'}
+      deliveryPricing={pharmacySettings.deliveryPricing ?? DEFAULT_DELIVERY_PRICING}
+      deliveryZones={deliveryZones}
+      outOfCoveragePolicy={pharmacySettings.outOfCoveragePolicy ?? 'warn'}
     />
   );
 }
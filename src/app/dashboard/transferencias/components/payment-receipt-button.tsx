@@ -0,0 +1,55 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { uploadPaymentReceipt } from '@/actions/order-actions';
+import type { Order } from '@/types';
+
+interface PaymentReceiptButtonProps {
+    orderId: string;
+    paymentIndex: number;
+    hasReceipt: boolean;
+    onUploaded?: (order: Order) => void;
+}
+
+// Picks a screenshot of the transfer (or takes a photo of the client's phone) and attaches it to the payment
+export function PaymentReceiptButton({ orderId, paymentIndex, hasReceipt, onUploaded }: PaymentReceiptButtonProps) {
+    const [isUploading, setIsUploading] = useState(false);
+    const { toast } = useToast();
+
+    const handleFileSelected = async (file: File | undefined) => {
+        if (!file) return;
+        setIsUploading(true);
+        const formData = new FormData();
+        formData.append('receipt', file);
+        const result = await uploadPaymentReceipt(orderId, paymentIndex, formData);
+        if (result.success && result.order) {
+            toast({ title: 'Comprobante Guardado', description: 'El agente lo revisará al verificar la transferencia.' });
+            onUploaded?.(result.order);
+        } else {
+            toast({ variant: 'destructive', title: 'Error al subir el comprobante', description: result.message });
+        }
+        setIsUploading(false);
+    };
+
+    return (
+        <Button asChild size="sm" variant="outline" disabled={isUploading}>
+            <label className="cursor-pointer">
+                {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                {hasReceipt ? 'Cambiar comprobante' : 'Subir comprobante'}
+                <input
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    className="sr-only"
+                    disabled={isUploading}
+                    onChange={(event) => {
+                        handleFileSelected(event.target.files?.[0]);
+                        event.target.value = '';
+                    }}
+                />
+            </label>
+        </Button>
+    );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { BadgeCheck, Receipt, XCircle } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from '@/hooks/use-toast';
+import { reviewTransferPayment } from '@/actions/order-actions';
+import { ORDER_STATUS_LABELS } from '@/lib/order-status';
+import { PAYMENT_METHOD_LABELS } from '@/lib/payments';
+import type { Order } from '@/types';
+import { PaymentReceiptButton } from './payment-receipt-button';
+
+const formatCurrency = (amount: number) => amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
+
+interface TransferVerificationQueueProps {
+    initialOrders: Order[];
+}
+
+export function TransferVerificationQueue({ initialOrders }: TransferVerificationQueueProps) {
+    const [orders, setOrders] = useState(initialOrders);
+    const [rejecting, setRejecting] = useState<{ order: Order; paymentIndex: number } | null>(null);
+    const [rejectionReason, setRejectionReason] = useState('');
+    const { toast } = useToast();
+
+    // One row per transfer still waiting, an order split across two transfers shows twice
+    const pendingPayments = orders.flatMap(order => order.payments
+        .map((payment, paymentIndex) => ({ order, payment, paymentIndex }))
+        .filter(({ payment }) => payment.verificationStatus === 'pending_verification'));
+
+    const replaceOrder = (updatedOrder: Order) => {
+        setOrders(prev => prev.map(order => (order.id === updatedOrder.id ? updatedOrder : order)));
+    };
+
+    const handleReview = async (order: Order, paymentIndex: number, decision: 'verified' | 'rejected', reason?: string) => {
+        const result = await reviewTransferPayment(order.id, paymentIndex, decision, reason);
+        if (result.success && result.order) {
+            toast({ title: decision === 'verified' ? 'Transferencia Verificada' : 'Transferencia Rechazada', description: `Pedido #${order.id.slice(-6)} de ${order.client.fullName}.` });
+            replaceOrder(result.order);
+        } else {
+            toast({ variant: 'destructive', title: 'Error al verificar', description: result.message });
+        }
+    };
+
+    const handleConfirmReject = async () => {
+        if (!rejecting) return;
+        await handleReview(rejecting.order, rejecting.paymentIndex, 'rejected', rejectionReason);
+        setRejecting(null);
+        setRejectionReason('');
+    };
+
+    return (
+        <>
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Pedido</TableHead>
+                        <TableHead>Cliente</TableHead>
+                        <TableHead>Método</TableHead>
+                        <TableHead>Referencia</TableHead>
+                        <TableHead>Comprobante</TableHead>
+                        <TableHead>Registrado</TableHead>
+                        <TableHead className="text-right">Monto</TableHead>
+                        <TableHead><span className="sr-only">Acciones</span></TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {pendingPayments.length > 0 ? pendingPayments.map(({ order, payment, paymentIndex }) => (
+                        <TableRow key={`${order.id}-${paymentIndex}`}>
+                            <TableCell className="font-medium">
+                                #{order.id.slice(-6)}
+                                <p className="text-xs text-muted-foreground">{ORDER_STATUS_LABELS[order.status]}</p>
+                            </TableCell>
+                            <TableCell>{order.client.fullName}</TableCell>
+                            <TableCell><Badge variant="accent">{PAYMENT_METHOD_LABELS[payment.method]}</Badge></TableCell>
+                            <TableCell>{payment.reference || <span className="text-muted-foreground">Sin referencia</span>}</TableCell>
+                            <TableCell>
+                                <div className="flex items-center gap-2">
+                                    {payment.receiptUrl && (
+                                        <Button asChild size="icon" variant="ghost">
+                                            <a href={payment.receiptUrl} target="_blank" rel="noopener noreferrer">
+                                                <Receipt className="h-4 w-4" />
+                                                <span className="sr-only">Ver comprobante</span>
+                                            </a>
+                                        </Button>
+                                    )}
+                                    <PaymentReceiptButton orderId={order.id} paymentIndex={paymentIndex} hasReceipt={!!payment.receiptUrl} onUploaded={replaceOrder} />
+                                </div>
+                            </TableCell>
+                            <TableCell>{formatDistanceToNow(new Date(order.createdAt), { addSuffix: true, locale: es })}</TableCell>
+                            <TableCell className="text-right font-medium">{formatCurrency(payment.amount)}</TableCell>
+                            <TableCell>
+                                <div className="flex justify-end gap-2">
+                                    <Button size="sm" variant="outline" onClick={() => setRejecting({ order, paymentIndex })}>
+                                        <XCircle className="mr-2 h-4 w-4" />
+                                        Rechazar
+                                    </Button>
+                                    <Button size="sm" onClick={() => handleReview(order, paymentIndex, 'verified')}>
+                                        <BadgeCheck className="mr-2 h-4 w-4" />
+                                        Verificar
+                                    </Button>
+                                </div>
+                            </TableCell>
+                        </TableRow>
+                    )) : (
+                        <TableRow>
+                            <TableCell colSpan={8} className="h-24 text-center">No hay transferencias por verificar.</TableCell>
+                        </TableRow>
+                    )}
+                </TableBody>
+            </Table>
+            <AlertDialog open={!!rejecting} onOpenChange={(open) => { if (!open) { setRejecting(null); setRejectionReason(''); } }}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>¿Rechazar la transferencia del pedido #{rejecting?.order.id.slice(-6)}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            El pago no contará como recaudo hasta que se suba un comprobante nuevo y se verifique.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="rejection-reason">Motivo</Label>
+                        <Textarea
+                            id="rejection-reason"
+                            placeholder="Ej: La transferencia no aparece en la cuenta."
+                            value={rejectionReason}
+                            onChange={(e) => setRejectionReason(e.target.value)}
+                        />
+                    </div>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Volver</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleConfirmReject} disabled={!rejectionReason.trim()}>Rechazar</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+}
@@ -0,0 +1,27 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getTransferVerificationQueue } from "@/actions/order-actions";
+import { TransferVerificationQueue } from "./components/transfer-verification-queue";
+
+export default async function TransferenciasPage() {
+    const orders = await getTransferVerificationQueue();
+
+    return (
+        <div>
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold font-headline">Verificación de Transferencias</h1>
+                <p className="text-muted-foreground">Confirma en la app del banco los pagos por transferencia, Nequi y Daviplata.</p>
+            </div>
+            <Card>
+                <CardHeader>
+                    <CardTitle>Transferencias por Verificar</CardTitle>
+                    <CardDescription>
+                        Los pagos sin verificar no cuentan como recaudo confirmado. Los más antiguos aparecen primero.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <TransferVerificationQueue initialOrders={orders} />
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -32,8 +33,8 @@ export default function LoginPage() {
       const data = await response.json();
 
       if (response.ok && data.success) {
-        // Redirect to dashboard on successful login
-        router.push('/dashboard');
+        // Redirect to dashboard on successful login, unless the password must be replaced first
+        router.push(data.user?.mustChangePassword ? '/cambiar-contrasena' : '/dashboard');
       } else {
         setError(data.message || 'Error desconocido.');
       }
@@ -75,7 +76,12 @@ export default function LoginPage() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="password">Contraseña</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Contraseña</Label>
+                  <Link href="/recuperar-contrasena" className="text-xs text-muted-foreground underline-offset-4 hover:underline">
+                    ¿Olvidaste tu contraseña?
+                  </Link>
+                </div>
                 <Input 
                   id="password" 
                   type="password" 
@@ -0,0 +1,177 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Logo } from '@/components/icons/logo';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+import { requestPasswordReset, resetPasswordWithCode } from '@/actions/user-actions';
+import { PASSWORD_MIN_LENGTH } from '@/lib/password-policy';
+
+// First the cédula to send the code to, then the code with the new password
+type Step = 'request' | 'reset' | 'done';
+
+export default function RecoverPasswordPage() {
+  const [step, setStep] = useState<Step>('request');
+  const [cedula, setCedula] = useState('');
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+    const result = await requestPasswordReset(cedula);
+    if (result.success) {
+      setNotice(result.message);
+      setStep('reset');
+    } else {
+      setError(result.message);
+    }
+    setIsLoading(false);
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (newPassword !== confirmPassword) {
+      setError('Las contraseñas no coinciden.');
+      return;
+    }
+
+    setIsLoading(true);
+    const result = await resetPasswordWithCode({ cedula, code, newPassword });
+    if (result.success) {
+      setNotice(result.message);
+      setStep('done');
+    } else {
+      setError(result.message);
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-secondary/50 p-4">
+      <main className="flex flex-1 flex-col items-center justify-center">
+        <Card className="w-full max-w-sm">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4">
+              <Logo className="h-12 w-12 text-primary" />
+            </div>
+            <CardTitle className="font-headline text-2xl">Recuperar Contraseña</CardTitle>
+            <CardDescription>Te enviaremos un código por WhatsApp al teléfono de tu cuenta.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {notice && !error && (
+              <Alert>
+                <AlertDescription>{notice}</AlertDescription>
+              </Alert>
+            )}
+
+            {step === 'request' && (
+              <form onSubmit={handleRequest} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="cedula">Cédula o ID de usuario</Label>
+                  <Input
+                    id="cedula"
+                    type="text"
+                    placeholder="Tu número de cédula"
+                    required
+                    value={cedula}
+                    onChange={(e) => setCedula(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {isLoading ? 'Enviando...' : 'Enviar Código'}
+                </Button>
+              </form>
+            )}
+
+            {step === 'reset' && (
+              <form onSubmit={handleReset} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="code">Código</Label>
+                  <Input
+                    id="code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="6 dígitos"
+                    required
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword">Nueva contraseña</Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    required
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    disabled={isLoading}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Mínimo {PASSWORD_MIN_LENGTH} caracteres, con letras y números. No puede ser una de tus contraseñas recientes.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirmar contraseña</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {isLoading ? 'Guardando...' : 'Cambiar Contraseña'}
+                </Button>
+                <Button type="button" variant="ghost" className="w-full" onClick={() => { setStep('request'); setError(null); setNotice(null); }} disabled={isLoading}>
+                  Pedir otro código
+                </Button>
+              </form>
+            )}
+
+            {step === 'done' && (
+              <Button asChild className="w-full">
+                <Link href="/">Ir a Iniciar Sesión</Link>
+              </Button>
+            )}
+
+            {step !== 'done' && (
+              <div className="text-center">
+                <Link href="/" className="text-sm text-muted-foreground underline-offset-4 hover:underline">
+                  Volver a iniciar sesión
+                </Link>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <footer className="py-4 text-center text-xs text-muted-foreground">
+        Copyright © 2025. Todos los derechos reservados. Diseñado por C &amp; J Soluciones en Ingeniería.
+      </footer>
+    </div>
+  );
+}
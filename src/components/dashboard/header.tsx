@@ -5,27 +5,30 @@ import { useRouter } from 'next/navigation';
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
 import { Button } from "@/components/ui/button"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
-import { PanelLeft, LayoutDashboard, Bike, Users, Map, ClipboardList, Settings, Search, ListOrdered, Calculator, Headset } from 'lucide-react'
+import { PanelLeft, LayoutDashboard, Bike, Users, Map, ClipboardList, Settings, Search, ListOrdered, Calculator, Landmark, Headset, Pill } from 'lucide-react'
 import { Logo } from "../icons/logo"
 import { Input } from "../ui/input"
 import { Avatar, AvatarFallback, AvatarImage } from "../ui/avatar"
-import type { User, Role } from "@/types"
+import type { User, Permission } from "@/types"
+import { hasPermission } from "@/lib/permissions"
 
-const navLinks: { href: string; icon: React.ElementType; label: string; roles: Role[] }[] = [
-    { href: '/dashboard', icon: LayoutDashboard, label: 'Dashboard', roles: ['admin', 'agent', 'delivery'] },
-    { href: '/dashboard/pedidos', icon: ClipboardList, label: 'Pedidos', roles: ['admin', 'agent'] },
-    { href: '/dashboard/clientes', icon: Users, label: 'Clientes', roles: ['admin', 'agent'] },
-    { href: '/dashboard/agentes', icon: Headset, label: 'Agentes', roles: ['admin'] },
-    { href: '/dashboard/domiciliarios', icon: Bike, label: 'Domiciliarios', roles: ['admin', 'agent'] },
-    { href: '/dashboard/rutas', icon: Map, label: 'Rutas', roles: ['admin', 'agent'] },
-    { href: '/dashboard/mis-rutas', icon: ListOrdered, label: 'Mis Rutas', roles: ['delivery'] },
-    { href: '/dashboard/cuadre-caja', icon: Calculator, label: 'Cuadre de Caja', roles: ['admin', 'agent', 'delivery'] },
-    { href: '/dashboard/configuracion', icon: Settings, label: 'Configuración', roles: ['admin', 'agent', 'delivery'] },
+const navLinks: { href: string; icon: React.ElementType; label: string; permission?: Permission }[] = [
+    { href: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
+    { href: '/dashboard/pedidos', icon: ClipboardList, label: 'Pedidos', permission: 'orders.view' },
+    { href: '/dashboard/clientes', icon: Users, label: 'Clientes', permission: 'clients.view' },
+    { href: '/dashboard/productos', icon: Pill, label: 'Productos', permission: 'products.view' },
+    { href: '/dashboard/agentes', icon: Headset, label: 'Agentes', permission: 'users.manage' },
+    { href: '/dashboard/domiciliarios', icon: Bike, label: 'Domiciliarios', permission: 'couriers.view' },
+    { href: '/dashboard/rutas', icon: Map, label: 'Rutas', permission: 'routes.plan' },
+    { href: '/dashboard/mis-rutas', icon: ListOrdered, label: 'Mis Rutas', permission: 'orders.deliver' },
+    { href: '/dashboard/cuadre-caja', icon: Calculator, label: 'Cuadre de Caja' },
+    { href: '/dashboard/transferencias', icon: Landmark, label: 'Transferencias', permission: 'transfers.verify' },
+    { href: '/dashboard/configuracion', icon: Settings, label: 'Configuración' },
 ];
 
 export function Header({ user }: { user: User }) {
     const router = useRouter();
-    const accessibleNavLinks = navLinks.filter(link => link.roles.includes(user.role));
+    const accessibleNavLinks = navLinks.filter(link => !link.permission || hasPermission(user, link.permission));
     const userInitials = user.name.split(' ').map(n => n[0]).join('').substring(0, 2).toUpperCase();
     
     const handleLogout = async () => {
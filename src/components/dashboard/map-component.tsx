@@ -4,7 +4,7 @@
 import { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import type { Map as LeafletMap, LayerGroup, Marker as LeafletMarker } from 'leaflet';
-import type { Order, Location, User } from '@/types';
+import type { Order, Location, User, Route } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 
 // Fix for default icon issue with Leaflet in React
@@ -103,6 +103,7 @@ export interface RouteInfo {
     color: string;
     currentLocation?: { lat: number, lng: number };
     bearing?: number;
+    plannedRoute?: Route; // The stored route, with its optimized polyline when there is one
 }
 
 interface MapComponentProps {
@@ -110,15 +111,26 @@ interface MapComponentProps {
     routes: RouteInfo[];
     pendingOrders: Order[];
     className?: string;
-    optimizedPolyline?: string | null;
+    proposedRoutes?: { encodedPolyline: string; color: string }[]; // Optimizer proposals not yet assigned
+    courierLocations?: Record<string, CourierLocation>; // Live positions by delivery person id, newer than the routes' currentLocation
 }
 
-const MapComponent = ({ pharmacyLocation, routes, pendingOrders, className, optimizedPolyline }: MapComponentProps) => {
+export interface CourierLocation {
+    lat: number;
+    lng: number;
+    bearing?: number;
+}
+
+// How long a motorcycle takes to glide to a newly reported position
+const MARKER_ANIMATION_MS = 1000;
+
+const MapComponent = ({ pharmacyLocation, routes, pendingOrders, className, proposedRoutes, courierLocations }: MapComponentProps) => {
     const mapContainerRef = useRef<HTMLDivElement>(null);
     const mapRef = useRef<LeafletMap | null>(null);
     const markersRef = useRef<LayerGroup>(new L.LayerGroup());
     const motorcycleMarkersRef = useRef<Record<string, LeafletMarker>>({});
-    const polylineRef = useRef<L.Polyline | null>(null);
+    const markerAnimationsRef = useRef<Record<string, number>>({});
+    const polylinesRef = useRef<L.Polyline[]>([]);
     const { toast } = useToast();
 
     useEffect(() => {
@@ -136,6 +148,7 @@ const MapComponent = ({ pharmacyLocation, routes, pendingOrders, className, opti
         }
 
         return () => {
+            Object.values(markerAnimationsRef.current).forEach(frame => cancelAnimationFrame(frame));
             if (mapRef.current) {
                 mapRef.current.remove();
                 mapRef.current = null;
@@ -168,17 +181,6 @@ const MapComponent = ({ pharmacyLocation, routes, pendingOrders, className, opti
              }
         });
         
-        // --- Manage motorcycle markers for assigned routes ---
-        const currentMotorcycleIds = new Set(routes.map(r => r.deliveryPerson.id));
-
-        // Remove markers for routes that are no longer assigned
-        Object.keys(motorcycleMarkersRef.current).forEach(personId => {
-            if (!currentMotorcycleIds.has(personId)) {
-                motorcycleMarkersRef.current[personId].remove();
-                delete motorcycleMarkersRef.current[personId];
-            }
-        });
-
         routes.forEach(route => {
             // Draw the order markers for the assigned route
             route.orders.forEach((order, index) => {
@@ -192,42 +194,35 @@ const MapComponent = ({ pharmacyLocation, routes, pendingOrders, className, opti
                 }
             });
             
-            // Draw or update the motorcycle marker
-            const personId = route.deliveryPerson.id;
-            const hasValidCurrentLocation = route.currentLocation && typeof route.currentLocation.lat === 'number' && typeof route.currentLocation.lng === 'number';
-            
-            if (hasValidCurrentLocation) {
-                const location = route.currentLocation!;
-                const icon = createMotorcycleIcon(route.color, route.bearing);
+            if (route.plannedRoute?.encodedPolyline) {
+                // @ts-ignore
+                const decodedRoute = L.Polyline.fromEncoded(route.plannedRoute.encodedPolyline).getLatLngs();
+                markersRef.current.addLayer(L.polyline(decodedRoute, { color: route.color, weight: 4, opacity: 0.7, dashArray: '8 6' }));
+            }
 
-                if (motorcycleMarkersRef.current[personId]) {
-                    motorcycleMarkersRef.current[personId].setLatLng([location.lat, location.lng]);
-                    motorcycleMarkersRef.current[personId].setIcon(icon);
-                } else {
-                    const motorcycleMarker = L.marker([location.lat, location.lng], {
-                        icon,
-                        zIndexOffset: 1000
-                    }).bindPopup(`<b>${route.deliveryPerson.name}</b><br/>En ruta...`);
-                    motorcycleMarker.addTo(map);
-                    motorcycleMarkersRef.current[personId] = motorcycleMarker;
-                }
-                allMarkersBounds.push(L.latLng(location.lat, location.lng));
+            if (route.currentLocation && typeof route.currentLocation.lat === 'number' && typeof route.currentLocation.lng === 'number') {
+                allMarkersBounds.push(L.latLng(route.currentLocation.lat, route.currentLocation.lng));
             }
         });
         
-         if (optimizedPolyline) {
-            if (polylineRef.current) {
-                polylineRef.current.remove();
-            }
-            // @ts-ignore
-            const decoded = L.Polyline.fromEncoded(optimizedPolyline).getLatLngs();
-            polylineRef.current = L.polyline(decoded, { color: 'hsl(var(--accent))', weight: 5, opacity: 0.8 }).addTo(map);
-            map.fitBounds(polylineRef.current.getBounds(), { padding: [50, 50] });
+        polylinesRef.current.forEach(polyline => polyline.remove());
+        polylinesRef.current = [];
+
+        if (proposedRoutes && proposedRoutes.length > 0) {
+            polylinesRef.current = proposedRoutes
+                .filter(proposal => proposal.encodedPolyline)
+                .map(proposal => {
+                    // @ts-ignore
+                    const decoded = L.Polyline.fromEncoded(proposal.encodedPolyline).getLatLngs();
+                    return L.polyline(decoded, { color: proposal.color, weight: 5, opacity: 0.8 }).addTo(map);
+                });
+        }
+
+        if (polylinesRef.current.length > 0) {
+            const proposalBounds = L.latLngBounds([]);
+            polylinesRef.current.forEach(polyline => proposalBounds.extend(polyline.getBounds()));
+            map.fitBounds(proposalBounds, { padding: [50, 50] });
         } else {
-            if (polylineRef.current) {
-                polylineRef.current.remove();
-                polylineRef.current = null;
-            }
             if (allMarkersBounds.length > 1 && map.getBoundsZoom(L.latLngBounds(allMarkersBounds))) {
                 map.fitBounds(L.latLngBounds(allMarkersBounds), { padding: [50, 50] });
             } else if (allMarkersBounds.length === 1) {
@@ -247,7 +242,64 @@ const MapComponent = ({ pharmacyLocation, routes, pendingOrders, className, opti
                 description: `${ordersWithoutCoords.length} pedido(s) no tienen coordenadas y no se mostrarán en el mapa.`,
             });
         }
-    }, [routes, pendingOrders, pharmacyLocation, toast, optimizedPolyline]);
+    }, [routes, pendingOrders, pharmacyLocation, toast, proposedRoutes]);
+
+    // Motorcycles are kept apart from the other markers so live positions move them without refitting the map
+    useEffect(() => {
+        if (!mapRef.current) return;
+
+        const map = mapRef.current;
+        const currentMotorcycleIds = new Set(routes.map(r => r.deliveryPerson.id));
+
+        // Remove markers for routes that are no longer assigned
+        Object.keys(motorcycleMarkersRef.current).forEach(personId => {
+            if (!currentMotorcycleIds.has(personId)) {
+                cancelAnimationFrame(markerAnimationsRef.current[personId]);
+                motorcycleMarkersRef.current[personId].remove();
+                delete motorcycleMarkersRef.current[personId];
+            }
+        });
+
+        routes.forEach(route => {
+            const personId = route.deliveryPerson.id;
+            const location = courierLocations?.[personId] ?? (route.currentLocation && { ...route.currentLocation, bearing: route.bearing });
+            if (!location || typeof location.lat !== 'number' || typeof location.lng !== 'number') return;
+
+            const icon = createMotorcycleIcon(route.color, location.bearing);
+            const existingMarker = motorcycleMarkersRef.current[personId];
+
+            if (!existingMarker) {
+                const motorcycleMarker = L.marker([location.lat, location.lng], {
+                    icon,
+                    zIndexOffset: 1000
+                }).bindPopup(`<b>${route.deliveryPerson.name}</b><br/>En ruta...`);
+                motorcycleMarker.addTo(map);
+                motorcycleMarkersRef.current[personId] = motorcycleMarker;
+                return;
+            }
+
+            existingMarker.setIcon(icon);
+            const from = existingMarker.getLatLng();
+            if (from.lat === location.lat && from.lng === location.lng) return;
+
+            // Glide from wherever the marker is now, even halfway through the previous move
+            cancelAnimationFrame(markerAnimationsRef.current[personId]);
+            const startedAt = performance.now();
+            const step = (now: number) => {
+                const progress = Math.min((now - startedAt) / MARKER_ANIMATION_MS, 1);
+                existingMarker.setLatLng([
+                    from.lat + (location.lat - from.lat) * progress,
+                    from.lng + (location.lng - from.lng) * progress,
+                ]);
+                if (progress < 1) {
+                    markerAnimationsRef.current[personId] = requestAnimationFrame(step);
+                } else {
+                    delete markerAnimationsRef.current[personId];
+                }
+            };
+            markerAnimationsRef.current[personId] = requestAnimationFrame(step);
+        });
+    }, [routes, courierLocations]);
 
     return <div ref={mapContainerRef} className={className || "w-full h-full rounded-lg z-0"} />;
 };
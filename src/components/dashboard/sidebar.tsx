@@ -4,24 +4,27 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Logo } from '@/components/icons/logo';
-import { LayoutDashboard, Bike, Users, Map, ClipboardList, LogOut, Settings, ListOrdered, Calculator, Headset } from 'lucide-react';
-import type { User, Role } from '@/types';
+import { LayoutDashboard, Bike, Users, Map, ClipboardList, LogOut, Settings, ListOrdered, Calculator, Landmark, Headset, Pill } from 'lucide-react';
+import type { User, Permission } from '@/types';
+import { hasPermission } from '@/lib/permissions';
 import { Button } from '../ui/button';
 
-const navItems: { href: string; icon: React.ElementType; label: string; roles: Role[] }[] = [
-  { href: '/dashboard', icon: LayoutDashboard, label: 'Dashboard', roles: ['admin', 'agent', 'delivery'] },
-  { href: '/dashboard/pedidos', icon: ClipboardList, label: 'Pedidos', roles: ['admin', 'agent'] },
-  { href: '/dashboard/clientes', icon: Users, label: 'Clientes', roles: ['admin', 'agent'] },
-  { href: '/dashboard/agentes', icon: Headset, label: 'Agentes', roles: ['admin'] },
-  { href: '/dashboard/domiciliarios', icon: Bike, label: 'Domiciliarios', roles: ['admin', 'agent'] },
-  { href: '/dashboard/rutas', icon: Map, label: 'Rutas', roles: ['admin', 'agent'] },
-  { href: '/dashboard/mis-rutas', icon: ListOrdered, label: 'Mis Rutas', roles: ['delivery'] },
-  { href: '/dashboard/cuadre-caja', icon: Calculator, label: 'Cuadre de Caja', roles: ['admin', 'agent', 'delivery'] },
+const navItems: { href: string; icon: React.ElementType; label: string; permission?: Permission }[] = [
+  { href: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
+  { href: '/dashboard/pedidos', icon: ClipboardList, label: 'Pedidos', permission: 'orders.view' },
+  { href: '/dashboard/clientes', icon: Users, label: 'Clientes', permission: 'clients.view' },
+  { href: '/dashboard/productos', icon: Pill, label: 'Productos', permission: 'products.view' },
+  { href: '/dashboard/agentes', icon: Headset, label: 'Agentes', permission: 'users.manage' },
+  { href: '/dashboard/domiciliarios', icon: Bike, label: 'Domiciliarios', permission: 'couriers.view' },
+  { href: '/dashboard/rutas', icon: Map, label: 'Rutas', permission: 'routes.plan' },
+  { href: '/dashboard/mis-rutas', icon: ListOrdered, label: 'Mis Rutas', permission: 'orders.deliver' },
+  { href: '/dashboard/cuadre-caja', icon: Calculator, label: 'Cuadre de Caja' },
+  { href: '/dashboard/transferencias', icon: Landmark, label: 'Transferencias', permission: 'transfers.verify' },
 ];
 
 export function Sidebar({ user }: { user: User }) {
   const router = useRouter();
-  const accessibleNavItems = navItems.filter(item => item.roles.includes(user.role));
+  const accessibleNavItems = navItems.filter(item => !item.permission || hasPermission(user, item.permission));
   
   const handleLogout = async () => {
     await fetch('/api/logout', { method: 'POST' });
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import type { Map as LeafletMap, LayerGroup, Marker as LeafletMarker, Polyline as LeafletPolyline } from 'leaflet';
+import type { LocationPing, Order } from '@/types';
+
+const createStopIcon = (number: number) => {
+    const style = `
+      background-color: hsl(var(--chart-2));
+      color: white;
+      border-radius: 9999px;
+      width: 1.75rem;
+      height: 1.75rem;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-weight: 700;
+      font-size: 0.875rem;
+      border: 2px solid white;
+      box-shadow: 0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1);
+    `;
+    return new L.DivIcon({
+        html: `<div style="${style}">${number}</div>`,
+        className: 'bg-transparent border-none',
+        iconSize: [28, 28],
+        iconAnchor: [14, 28],
+    });
+};
+
+const createPositionIcon = () => {
+    const style = `
+      background-color: hsl(var(--primary));
+      border-radius: 9999px;
+      width: 1.25rem;
+      height: 1.25rem;
+      border: 3px solid white;
+      box-shadow: 0 0 0 4px hsl(var(--primary) / 0.3);
+    `;
+    return new L.DivIcon({
+        html: `<div style="${style}"></div>`,
+        className: 'bg-transparent border-none',
+        iconSize: [20, 20],
+        iconAnchor: [10, 10],
+    });
+};
+
+interface TrackMapProps {
+    pings: LocationPing[];
+    deliveredOrders: Order[];
+    replayIndex: number; // Ping the courier is drawn at; the path up to it is highlighted
+    className?: string;
+}
+
+/**
+ * Replays a courier's recorded path: the whole day is drawn faintly,
+ * the part driven up to the replay position solidly, with delivered stops numbered in delivery order.
+ */
+const TrackMap = ({ pings, deliveredOrders, replayIndex, className }: TrackMapProps) => {
+    const mapContainerRef = useRef<HTMLDivElement>(null);
+    const mapRef = useRef<LeafletMap | null>(null);
+    const layersRef = useRef<LayerGroup>(new L.LayerGroup());
+    const drivenRef = useRef<LeafletPolyline | null>(null);
+    const positionRef = useRef<LeafletMarker | null>(null);
+
+    useEffect(() => {
+        if (mapContainerRef.current && !mapRef.current) {
+            const map = L.map(mapContainerRef.current).setView([8.250876, -73.358425], 14);
+
+            L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+                attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            }).addTo(map);
+
+            layersRef.current.addTo(map);
+            mapRef.current = map;
+        }
+
+        return () => {
+            if (mapRef.current) {
+                mapRef.current.remove();
+                mapRef.current = null;
+            }
+        };
+    }, []); // Only runs once on mount
+
+    useEffect(() => {
+        if (!mapRef.current) return;
+
+        const map = mapRef.current;
+        layersRef.current.clearLayers();
+        drivenRef.current = null;
+        positionRef.current = null;
+
+        const bounds: L.LatLng[] = [];
+        const path = pings.map(ping => L.latLng(ping.lat, ping.lng));
+        bounds.push(...path);
+
+        if (path.length > 0) {
+            layersRef.current.addLayer(L.polyline(path, { color: 'hsl(var(--muted-foreground))', weight: 4, opacity: 0.4 }));
+            drivenRef.current = L.polyline([], { color: 'hsl(var(--primary))', weight: 5, opacity: 0.9 });
+            layersRef.current.addLayer(drivenRef.current);
+            positionRef.current = L.marker(path[0], { icon: createPositionIcon(), zIndexOffset: 1000 });
+            layersRef.current.addLayer(positionRef.current);
+        }
+
+        deliveredOrders.forEach((order, index) => {
+            if (!order.deliveryLocation.lat || !order.deliveryLocation.lng) return;
+            const position = L.latLng(order.deliveryLocation.lat, order.deliveryLocation.lng);
+            bounds.push(position);
+            const marker = L.marker(position, { icon: createStopIcon(index + 1) })
+                .bindPopup(`<b>#${index + 1} - Pedido de ${order.client.fullName}</b><br />${order.deliveryLocation.address}`);
+            layersRef.current.addLayer(marker);
+        });
+
+        if (bounds.length > 1) {
+            map.fitBounds(L.latLngBounds(bounds), { padding: [30, 30] });
+        } else if (bounds.length === 1) {
+            map.setView(bounds[0], 16);
+        }
+    }, [pings, deliveredOrders]);
+
+    // Moving through the replay only redraws the driven part, the map keeps its view
+    useEffect(() => {
+        if (!drivenRef.current || !positionRef.current || pings.length === 0) return;
+        const index = Math.min(Math.max(replayIndex, 0), pings.length - 1);
+        drivenRef.current.setLatLngs(pings.slice(0, index + 1).map(ping => L.latLng(ping.lat, ping.lng)));
+        positionRef.current.setLatLng([pings[index].lat, pings[index].lng]);
+    }, [pings, deliveredOrders, replayIndex]);
+
+    return <div ref={mapContainerRef} className={className || "w-full h-full rounded-lg z-0"} />;
+};
+
+export default TrackMap;
@@ -56,6 +56,7 @@ export function Combobox({ options, onSelect, selectText = "Select...", searchTe
                 <CommandItem
                   key={option.value}
                   value={option.value}
+                  keywords={[option.label]}
                   onSelect={(currentValue) => {
                     setValue(currentValue === value ? "" : currentValue)
                     setOpen(false)
@@ -0,0 +1,24 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { DispatchEvent } from '@/types';
+
+/**
+ * Subscribes to the live dispatch stream for as long as the component is mounted.
+ * The browser reconnects on its own if the connection drops.
+ */
+export function useDispatchEvents(onEvent: (event: DispatchEvent) => void) {
+  const handlerRef = useRef(onEvent);
+
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  });
+
+  useEffect(() => {
+    const source = new EventSource('/api/events');
+    source.onmessage = (message) => {
+      handlerRef.current(JSON.parse(message.data));
+    };
+    return () => source.close();
+  }, []);
+}
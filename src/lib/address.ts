@@ -0,0 +1,163 @@
+import type { Location, StreetType } from '@/types';
+
+// Every delivery address is in the pharmacy's city, so it is left out of canonical addresses
+export const SERVICE_CITY = 'Ocaña, Norte de Santander';
+
+const STREET_TYPE_ALIASES: Record<StreetType, string[]> = {
+    Calle: ['calle', 'clle', 'cll', 'cl'],
+    Carrera: ['carrera', 'carr', 'cra', 'kra', 'crr', 'kr', 'cr', 'k'],
+    Transversal: ['transversal', 'transv', 'trans', 'trv', 'tv', 'tr'],
+    Diagonal: ['diagonal', 'diag', 'dg'],
+    Avenida: ['avenida', 'avda', 'ave', 'av'],
+};
+
+// Longest aliases first so "cra" is not read as "cr" followed by an "a"
+const ALIASES = Object.entries(STREET_TYPE_ALIASES)
+    .flatMap(([type, aliases]) => aliases.map(alias => ({ type: type as StreetType, alias })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+const ALIAS_PATTERN = ALIASES.map(({ alias }) => alias).join('|');
+
+// "12", "12A", "12 bis", "12A bis B"
+const NUMBER_PATTERN = '\\d+(?:\\s?[a-z](?![a-z]))?(?:\\s?bis(?![a-z]))?(?:\\s?[a-z](?![a-z]))?';
+const NUMBER_SIGN_PATTERN = '(?:#|n[oº°]\\.?|n[uú]m(?:ero)?\\.?)';
+
+const STREET_REGEX = new RegExp(
+    `^(${ALIAS_PATTERN})\\.?\\s*(?:(${ALIAS_PATTERN})\\.?\\s*)?(${NUMBER_PATTERN})(?:\\s*${NUMBER_SIGN_PATTERN}\\s*|\\s+)(${NUMBER_PATTERN})\\s*[-–]\\s*(\\d+[a-z]?)(?![\\w])`,
+    'i'
+);
+const NEIGHBOURHOOD_REGEX = /(?:^|[\s,;])(?:barrio|bario|brr?\.?|b\/)\s*([^,;]+)/i;
+// Where a neighbourhood name ends and a reference or complement starts
+const REFERENCE_START_REGEX = /\s+(?:frente|cerca|al lado|junto|detr[aá]s|diagonal a|esquina|casa|apto|apartamento|interior|int|piso|local|edificio|conjunto|torre|bloque|manzana|mz)\b/i;
+const CITY_SUFFIX_REGEX = /[\s,]+oca[nñ]a\b.*$/i;
+
+const streetTypeOf = (alias: string) => ALIASES.find(entry => entry.alias === alias.toLowerCase())!.type;
+
+// "12 a bis" -> "12A Bis"
+function formatNumber(value: string) {
+    return value
+        .replace(/\s+/g, ' ')
+        .replace(/(\d+)\s?([a-z])(?![a-z])/i, (_, digits: string, letter: string) => `${digits}${letter.toUpperCase()}`)
+        .replace(/\s?bis\b/i, ' Bis')
+        .replace(/Bis\s?([a-z])$/i, (_, letter: string) => `Bis ${letter.toUpperCase()}`)
+        .trim();
+}
+
+function toTitleCase(value: string) {
+    return value
+        .toLowerCase()
+        .split(' ')
+        .filter(Boolean)
+        .map((word, index) => (index > 0 && ['de', 'del', 'la', 'las', 'los', 'y'].includes(word) ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+        .join(' ');
+}
+
+const trimSeparators = (value: string) => value.replace(/^[\s,;.\-–]+|[\s,;.\-–]+$/g, '');
+
+/**
+ * Parses an address written in Colombian nomenclature, e.g. "Cra 12 # 10-50 barrio centro frente al parque",
+ * into its parts and a canonical address ("Carrera 12 # 10-50, Barrio Centro, frente al parque").
+ * Addresses that do not follow the nomenclature are kept as typed, without the parts.
+ */
+export function parseAddress(rawAddress: string): Location {
+    const text = rawAddress.replace(/\s+/g, ' ').trim().replace(CITY_SUFFIX_REGEX, '');
+    const match = text.match(STREET_REGEX);
+    if (!match) {
+        return { address: trimSeparators(text) };
+    }
+
+    const [streetPart, typeAlias, innerTypeAlias, streetNumber, crossNumber, plate] = match;
+    const streetType = streetTypeOf(typeAlias);
+    // "Avenida Carrera 30" keeps both words; any other doubled type is a typo
+    const innerType = innerTypeAlias && streetType === 'Avenida' ? `${streetTypeOf(innerTypeAlias)} ` : '';
+
+    let rest = text.slice(streetPart.length);
+    let neighbourhood: string | undefined;
+    const neighbourhoodMatch = rest.match(NEIGHBOURHOOD_REGEX);
+    if (neighbourhoodMatch) {
+        const name = neighbourhoodMatch[1].split(REFERENCE_START_REGEX)[0];
+        neighbourhood = toTitleCase(trimSeparators(name)) || undefined;
+        const start = neighbourhoodMatch.index! + neighbourhoodMatch[0].indexOf(neighbourhoodMatch[1]);
+        rest = rest.slice(0, neighbourhoodMatch.index) + ' ' + rest.slice(start + name.length);
+    }
+    const reference = trimSeparators(rest.replace(/\s+/g, ' ')) || undefined;
+
+    const location: Location = {
+        address: '',
+        streetType,
+        streetNumber: `${innerType}${formatNumber(streetNumber)}`,
+        crossNumber: formatNumber(crossNumber),
+        plate: plate.toUpperCase(),
+        neighbourhood,
+        reference,
+    };
+    location.address = [streetAddress(location), neighbourhood && `Barrio ${neighbourhood}`, reference].filter(Boolean).join(', ');
+    return location;
+}
+
+// "Carrera 12 # 10-50", or the address as typed when it could not be parsed
+export function streetAddress(location: Location) {
+    if (!location.streetType) return location.address;
+    return `${location.streetType} ${location.streetNumber} # ${location.crossNumber}-${location.plate}`;
+}
+
+/**
+ * The text sent to geocoders: street and neighbourhood in the service city. References
+ * such as "frente al parque" only confuse them, so they are left out.
+ */
+export function geocodingQuery(location: Location) {
+    const neighbourhood = location.neighbourhood ? `Barrio ${location.neighbourhood}` : undefined;
+    return [streetAddress(location), neighbourhood, SERVICE_CITY].filter(Boolean).join(', ');
+}
+
+/**
+ * Reduces an address to a stable key so the same place typed in slightly different
+ * ways ("Calle 11 #15-01", "calle 11 # 15 - 01") is recognised as one address.
+ */
+export function normalizeAddress(address: string) {
+    return address
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '') // Drop accents
+        .toLowerCase()
+        .replace(/\s*([#-])\s*/g, '$1')
+        .replace(/[^a-z0-9#\- ]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// Addresses stored before the parser existed only have the typed text
+const parseAddressIfNeeded = (location: Location) => (location.streetType ? location : parseAddress(location.address));
+
+const UNIT_TYPE_ALIASES: Record<string, string[]> = {
+    apto: ['apartamento', 'apto', 'apt', 'ap'],
+    interior: ['interior', 'int'],
+    torre: ['torre'],
+    bloque: ['bloque', 'bl'],
+    casa: ['casa'],
+    local: ['local'],
+    oficina: ['oficina', 'of'],
+};
+const UNIT_ALIASES = Object.entries(UNIT_TYPE_ALIASES)
+    .flatMap(([type, aliases]) => aliases.map(alias => ({ type, alias })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+// "apto 301", "int. 2", "casa #5", "torre B"; a unit needs a number or a single letter, so "casa azul" is not one
+const UNIT_REGEX = new RegExp(
+    `\\b(${UNIT_ALIASES.map(({ alias }) => alias).join('|')})\\.?\\s*(?:${NUMBER_SIGN_PATTERN}\\s*)?(\\d+[a-z]?|[a-z])(?![\\w])`,
+    'gi'
+);
+
+// "Apto 301 int. 2" -> "apto 301 interior 2"
+function unitsOf(location: Location) {
+    return [...normalizeAddress(location.reference ?? '').matchAll(UNIT_REGEX)]
+        .map(([, alias, unit]) => `${UNIT_ALIASES.find(entry => entry.alias === alias)!.type} ${unit}`)
+        .join(' ');
+}
+
+/**
+ * Two addresses with the same street, number, plate and units (apartment, interior, tower...)
+ * are the same place, whatever the other references say.
+ */
+export function isSameAddress(a: Location, b: Location) {
+    const [parsedA, parsedB] = [parseAddressIfNeeded(a), parseAddressIfNeeded(b)];
+    return normalizeAddress(streetAddress(parsedA)) === normalizeAddress(streetAddress(parsedB))
+        && unitsOf(parsedA) === unitsOf(parsedB);
+}
@@ -25,9 +25,10 @@ export async function decrypt(session: string | undefined = '') {
   }
 }
 
-export async function createSession(userId: string, userRole: string, userName: string, userAvatar: string) {
+// `sessionId` is the id of the server-side session document, stored as the token's jti
+export async function createSession(sessionId: string, userId: string, userRole: string, userName: string, userAvatar: string) {
   const expiresAt = new Date(Date.now() + 2 * 60 * 60 * 1000); // 2 hours
-  const session = await encrypt({ userId, userRole, userName, userAvatar, expiresAt });
+  const session = await encrypt({ jti: sessionId, userId, userRole, userName, userAvatar, expiresAt });
 
   cookies().set('session', session, {
     httpOnly: true,
@@ -53,8 +54,8 @@ export async function updateSession(request: NextRequest) {
     const session = sessionCookie?.value;
 
     if (!session) {
-      // If no session and trying to access dashboard, redirect to login
-      if (request.nextUrl.pathname.startsWith('/dashboard')) {
+      // If no session and trying to access dashboard or change the password, redirect to login
+      if (request.nextUrl.pathname.startsWith('/dashboard') || request.nextUrl.pathname === '/cambiar-contrasena') {
         return NextResponse.redirect(new URL('/', request.url));
       }
       return NextResponse.next();
@@ -0,0 +1,180 @@
+import { getSession } from './auth';
+import connectDB from './mongoose';
+import { resolvePermissions } from './permissions';
+import { touchUserSession } from './session-store';
+import UserModel from '@/models/user-model';
+import CustomRoleModel from '@/models/custom-role-model';
+import type { Permission, Role } from '@/types';
+
+// The session user as the server actions see it, with the permissions of their current role
+export interface AuthSession {
+    sessionId: string;
+    userId: string;
+    userRole: Role;
+    userName: string;
+    permissions: Permission[];
+    mustChangePassword: boolean;
+}
+
+export class AuthorizationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthorizationError';
+    }
+}
+
+/**
+ * Permission needed to call each server action; `null` means any signed-in
+ * user. The sidebar hides pages by permission, but actions can be called
+ * directly, so this is the list that counts. Actions open to everyone check in
+ * their body that a user without the broader permission only touches their
+ * own orders, route, cash and profile.
+ */
+export const ACTION_PERMISSIONS = {
+    // Orders
+    getOrders: null,
+    getOrdersByDeliveryPerson: null,
+    getOrdersByClientId: 'clients.view',
+    getDeliveredOrdersByDeliveryPerson: 'couriers.view',
+    getCourierTrack: 'couriers.view',
+    createOrder: 'orders.create',
+    // Cancelling needs orders.cancel and every other change orders.assign; checked in the body
+    updateOrderStatus: null,
+    // The courier the order is assigned to, or someone with orders.assign; checked in the body
+    deliverOrder: null,
+    recordFailedAttempt: null,
+    confirmGoodsReturned: 'cash.manage',
+    startDeliveryRoute: 'orders.deliver',
+    getDashboardStats: null,
+    getFlaggedDeliveriesReport: 'reports.view',
+    getReturnsForReconciliation: null,
+    getTransferVerificationQueue: 'transfers.verify',
+    uploadPaymentReceipt: null,
+    reviewTransferPayment: 'transfers.verify',
+    getCashReconciliationData: null,
+    // Cash sessions
+    getCashSessions: null,
+    openCashSession: null,
+    closeCashSession: 'cash.manage',
+    approveCashSessionDifference: 'cash.approve',
+    // Routes
+    getOpenRoutes: null,
+    optimizeRoute: 'routes.plan',
+    saveRoutePlan: 'routes.plan',
+    optimizePharmacyRoute: 'routes.plan',
+    // Clients
+    getClients: 'clients.view',
+    createClient: 'clients.create',
+    updateClient: 'clients.edit',
+    deleteClient: 'clients.delete',
+    // Products
+    getProducts: 'products.view',
+    getLowStockProducts: 'products.view',
+    getStockMovements: 'products.view',
+    createProduct: 'products.edit',
+    updateProduct: 'products.edit',
+    deleteProduct: 'products.delete',
+    // Users and roles
+    getUsers: 'couriers.view',
+    getAllUsers: 'users.manage',
+    getUserByCedula: 'users.manage',
+    getUserById: null,
+    createUser: null,
+    updateUser: null,
+    deleteUser: null,
+    assignUserRole: 'roles.manage',
+    updateUserLocation: 'orders.deliver',
+    updateUserStatus: null,
+    // Couriers need couriers.manage and everyone else users.manage; checked in the body
+    setUserSuspended: null,
+    getRecentFailedLogins: 'users.manage',
+    changePassword: null,
+    // Anyone for their own sessions, users.manage for someone else's; checked in the body
+    getUserSessions: null,
+    revokeUserSession: null,
+    revokeAllUserSessions: null,
+    getCustomRoles: 'roles.manage',
+    createCustomRole: 'roles.manage',
+    updateCustomRole: 'roles.manage',
+    deleteCustomRole: 'roles.manage',
+    // Settings and zones
+    getPharmacySettings: null,
+    updatePharmacySettings: 'settings.edit',
+    updateDeliveryPricing: 'settings.edit',
+    updateOutOfCoveragePolicy: 'settings.edit',
+    getDeliveryZones: null,
+    createDeliveryZone: 'settings.edit',
+    updateDeliveryZone: 'settings.edit',
+    deleteDeliveryZone: 'settings.edit',
+    // Geocoding
+    geocodeAddress: null,
+    reverseGeocode: null,
+} satisfies Record<string, Permission | null>;
+
+export type ProtectedAction = keyof typeof ACTION_PERMISSIONS;
+
+const FORBIDDEN_MESSAGE = 'No tienes permiso para realizar esta acción.';
+const SESSION_EXPIRED_MESSAGE = 'Tu sesión expiró. Vuelve a iniciar sesión.';
+
+/**
+ * Reads the account from the database rather than the cookie, so a role change,
+ * an edited custom role or a suspension applies on the user's next action. The
+ * cookie must also point at a stored session, which is how sessions are revoked.
+ */
+export async function requireSession(): Promise<AuthSession> {
+    const session = await getSession();
+    if (!session?.userId) throw new AuthorizationError(SESSION_EXPIRED_MESSAGE);
+    return loadSession(session.jti as string | undefined, session.userId as string);
+}
+
+/**
+ * Builds the `AuthSession` for a stored session without reading the cookie, for
+ * long-lived requests that check again after the cookie was read.
+ */
+export async function loadSession(sessionId: string | undefined, userId: string): Promise<AuthSession> {
+    const expired = new AuthorizationError(SESSION_EXPIRED_MESSAGE);
+    await connectDB();
+    if (!await touchUserSession(sessionId, userId)) throw expired;
+    const user = await UserModel.findById(userId).select('name role customRole accountStatus mustChangePassword').lean();
+    if (!user) throw expired;
+    if (user.accountStatus === 'suspended') {
+        throw new AuthorizationError('Tu cuenta está suspendida. Habla con un administrador.');
+    }
+    const customRole = user.customRole ? await CustomRoleModel.findById(user.customRole).lean() : null;
+
+    return {
+        sessionId: sessionId as string,
+        userId,
+        userRole: user.role,
+        userName: user.name,
+        permissions: resolvePermissions(user.role, customRole),
+        mustChangePassword: !!user.mustChangePassword,
+    };
+}
+
+export function requirePermission(session: AuthSession, permission: Permission) {
+    if (!session.permissions.includes(permission)) {
+        throw new AuthorizationError(FORBIDDEN_MESSAGE);
+    }
+}
+
+// What a user who still has to replace an assigned password may do meanwhile
+const ALLOWED_BEFORE_PASSWORD_CHANGE: ProtectedAction[] = ['getUserById', 'changePassword'];
+
+/** Checks the session against the permission listed for the action in `ACTION_PERMISSIONS`. */
+export async function authorize(action: ProtectedAction): Promise<AuthSession> {
+    const session = await requireSession();
+    if (session.mustChangePassword && !ALLOWED_BEFORE_PASSWORD_CHANGE.includes(action)) {
+        throw new AuthorizationError('Debes cambiar tu contraseña antes de continuar.');
+    }
+    const permission: Permission | null = ACTION_PERMISSIONS[action];
+    if (permission) requirePermission(session, permission);
+    return session;
+}
+
+/** A user may act on their own records; acting on someone else's needs `permission`. */
+export function requireSelfOrPermission(session: AuthSession, permission: Permission, userId: string | undefined) {
+    if (session.userId !== userId) {
+        requirePermission(session, permission);
+    }
+}
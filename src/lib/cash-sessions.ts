@@ -0,0 +1,25 @@
+import mongoose, { type ClientSession } from 'mongoose';
+import CashSessionModel from '@/models/cash-session-model';
+
+/**
+ * Adds the cash part of a delivered order to its courier's open session. A courier who delivers
+ * without one gets a session opened with no float, so the cash still has to be counted at closing.
+ * Must run inside the same transaction as the delivery.
+ */
+export async function recordCashCollection(deliveryPersonId: string, orderId: string, amount: number, session?: ClientSession) {
+    if (amount <= 0) return null;
+    const order = new mongoose.Types.ObjectId(orderId);
+    await CashSessionModel.updateOne(
+        { deliveryPerson: deliveryPersonId, status: 'open' },
+        { $setOnInsert: { openingFloat: 0, openedAt: new Date(), openedByName: 'Apertura automática', collections: [], cashCollected: 0 } },
+        { upsert: true, session }
+    );
+    return CashSessionModel.findOneAndUpdate(
+        { deliveryPerson: deliveryPersonId, status: 'open', 'collections.order': { $ne: order } },
+        {
+            $push: { collections: { order, amount, collectedAt: new Date() } },
+            $inc: { cashCollected: amount },
+        },
+        { new: true, session }
+    );
+}
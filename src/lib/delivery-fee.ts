@@ -0,0 +1,78 @@
+import type { DeliveryPricing } from '@/models/pharmacy-settings-model';
+import type { DeliveryZone, GeoJsonPolygon } from '@/types';
+import { haversineMeters } from './geo';
+
+type LatLng = { lat: number; lng: number };
+
+// Night hours are the pharmacy's, not the server's, which runs in UTC
+const PHARMACY_TIME_ZONE = 'America/Bogota';
+// Fees are charged in whole hundreds of pesos so couriers are not asked for coins
+const FEE_ROUNDING = 100;
+
+export const DEFAULT_DELIVERY_PRICING: DeliveryPricing = {
+    baseFee: 3000,
+    perKmFee: 1000,
+    freeDeliveryThreshold: 0,
+    nightSurcharge: 2000,
+    nightStartHour: 21,
+    nightEndHour: 6,
+};
+
+export interface DeliveryFeeQuote {
+    fee: number;
+    distanceKm: number;
+    zone?: string; // Delivery zone the address falls in, if any
+    nightSurcharge: number; // Part of the fee due to the hour, before free delivery is applied
+    isFree: boolean;
+}
+
+/**
+ * Ray casting against the outer ring of a GeoJSON polygon; holes are not
+ * supported since zones are drawn as simple areas.
+ */
+export function isInsidePolygon(point: LatLng, polygon: GeoJsonPolygon) {
+    const ring = polygon.coordinates[0] ?? [];
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [lngI, latI] = ring[i];
+        const [lngJ, latJ] = ring[j];
+        const crosses = (latI > point.lat) !== (latJ > point.lat)
+            && point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI;
+        if (crosses) inside = !inside;
+    }
+    return inside;
+}
+
+/**
+ * The browser's version of the 2dsphere lookup `createOrder` makes, used to
+ * warn about an address before the order is saved.
+ */
+export function findDeliveryZone<Zone extends Pick<DeliveryZone, 'polygon'>>(zones: Zone[], point: LatLng) {
+    return zones.find(zone => isInsidePolygon(point, zone.polygon));
+}
+
+export function isNightTime(pricing: Pick<DeliveryPricing, 'nightStartHour' | 'nightEndHour'>, at: Date) {
+    const { nightStartHour: start, nightEndHour: end } = pricing;
+    if (start === end) return false;
+    const hour = Number(new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: PHARMACY_TIME_ZONE }).format(at));
+    return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Prices a delivery from the pharmacy settings. A zone with a fixed fee
+ * replaces the flat and per-km fees; the night surcharge is added on top, and
+ * orders over the free-delivery threshold pay nothing. Runs in the order
+ * dialog to show the fee and again in `createOrder`, which is the one that counts.
+ */
+export function quoteDeliveryFee(pricing: DeliveryPricing, pharmacy: LatLng, destination: LatLng, subtotal: number, zone?: Pick<DeliveryZone, 'name' | 'fee'>, at: Date = new Date()): DeliveryFeeQuote {
+    const distanceKm = Math.round(haversineMeters(pharmacy, destination) / 100) / 10;
+    const nightSurcharge = isNightTime(pricing, at) ? pricing.nightSurcharge : 0;
+
+    if (pricing.freeDeliveryThreshold > 0 && subtotal >= pricing.freeDeliveryThreshold) {
+        return { fee: 0, distanceKm, zone: zone?.name, nightSurcharge, isFree: true };
+    }
+
+    const baseFee = zone?.fee !== undefined ? zone.fee : pricing.baseFee + pricing.perKmFee * distanceKm;
+    const fee = Math.ceil((baseFee + nightSurcharge) / FEE_ROUNDING) * FEE_ROUNDING;
+    return { fee, distanceKm, zone: zone?.name, nightSurcharge, isFree: false };
+}
@@ -0,0 +1,70 @@
+import mongoose, { type ClientSession } from 'mongoose';
+import RouteModel from '@/models/route-model';
+import OrderModel from '@/models/order-model';
+import UserModel from '@/models/user-model';
+
+const OPEN_ROUTE_STATUSES = ['planned', 'in_progress'];
+
+// Adding or removing a stop invalidates whatever the optimizer computed for the old sequence
+const clearOptimization = {
+    encodedPolyline: 1,
+    estimatedDistanceMeters: 1,
+    estimatedDurationSeconds: 1,
+    optimizedAt: 1,
+};
+
+/**
+ * Appends an order to the end of its courier's open route, planning a new route if there is none.
+ */
+export async function addStopToRoute(deliveryPersonId: string, orderId: string, session?: ClientSession) {
+    return RouteModel.findOneAndUpdate(
+        { deliveryPerson: deliveryPersonId, status: { $in: OPEN_ROUTE_STATUSES } },
+        {
+            $setOnInsert: { deliveryPerson: deliveryPersonId, status: 'planned' },
+            $addToSet: { stops: new mongoose.Types.ObjectId(orderId) },
+            $unset: clearOptimization,
+        },
+        { upsert: true, new: true, session }
+    );
+}
+
+/**
+ * Takes an order off the open route it belongs to, e.g. when it is unassigned, reassigned or cancelled.
+ * A planned route left without stops is discarded.
+ */
+export async function removeStopFromRoute(orderId: string, session?: ClientSession) {
+    const route = await RouteModel.findOneAndUpdate(
+        { stops: orderId, status: { $in: OPEN_ROUTE_STATUSES } },
+        { $pull: { stops: new mongoose.Types.ObjectId(orderId) }, $unset: clearOptimization },
+        { new: true, session }
+    );
+
+    if (route && route.status === 'planned' && route.stops.length === 0) {
+        route.status = 'cancelled';
+        await route.save({ session });
+    }
+    return route;
+}
+
+/**
+ * Closes the courier's open route once none of its orders are still waiting to be delivered.
+ * Returns true when the route was closed.
+ */
+export async function closeRouteIfFinished(deliveryPersonId: string, session?: ClientSession) {
+    const route = await RouteModel.findOne({ deliveryPerson: deliveryPersonId, status: { $in: OPEN_ROUTE_STATUSES } }).session(session ?? null);
+    if (!route) return false;
+
+    const openStops = await OrderModel.countDocuments({
+        _id: { $in: route.stops },
+        status: { $in: ['assigned', 'in_transit'] },
+    }).session(session ?? null);
+    if (openStops > 0) return false;
+
+    const deliveredStops = await OrderModel.countDocuments({ _id: { $in: route.stops }, status: 'delivered' }).session(session ?? null);
+    route.status = deliveredStops > 0 ? 'completed' : 'cancelled';
+    route.completedAt = new Date();
+    await route.save({ session });
+
+    await UserModel.updateOne({ _id: deliveryPersonId, activeRoute: route._id }, { $set: { activeRoute: null } }, { session });
+    return true;
+}
@@ -0,0 +1,25 @@
+import { EventEmitter } from 'events';
+import type { DispatchEvent } from '@/types';
+
+/**
+ * In-process bus between server actions and the /api/events stream. It lives on the
+ * global object so hot reloads in development keep a single emitter, like the database
+ * connection does. Only clients connected to the same server process receive the events.
+ */
+let emitter: EventEmitter = (global as any).dispatchEvents;
+
+if (!emitter) {
+    emitter = (global as any).dispatchEvents = new EventEmitter();
+    emitter.setMaxListeners(0); // One listener per open page
+}
+
+export function publishDispatchEvent(event: DispatchEvent) {
+    emitter.emit('event', event);
+}
+
+export function subscribeToDispatchEvents(listener: (event: DispatchEvent) => void) {
+    emitter.on('event', listener);
+    return () => {
+        emitter.off('event', listener);
+    };
+}
@@ -0,0 +1,12 @@
+type LatLng = { lat: number; lng: number };
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+// Straight-line distance over the Earth's surface, accurate enough across a town
+export function haversineMeters(from: LatLng, to: LatLng) {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(to.lat - from.lat);
+    const dLng = toRadians(to.lng - from.lng);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,119 @@
+import type { GeocoderName } from '@/models/geocode-cache-model';
+import { normalizeAddress } from './address';
+
+type LatLng = { lat: number; lng: number };
+
+export interface Geocoder {
+    // Resolves an address to coordinates, or null when the provider has no match for it
+    geocode(address: string, focus: LatLng): Promise<LatLng | null>;
+}
+
+const openRouteServiceGeocoder: Geocoder = {
+    async geocode(address, focus) {
+        const apiKey = process.env.OPENROUTESERVICE_API_KEY;
+        if (!apiKey || apiKey === 'tu_clave_de_api') {
+            throw new Error("OpenRouteService API key is not configured in .env file.");
+        }
+
+        const url = new URL('https://api.openrouteservice.org/geocode/search');
+        url.searchParams.append('text', address);
+        // Focus search around the pharmacy to improve results
+        url.searchParams.append('focus.point.lon', focus.lng.toString());
+        url.searchParams.append('focus.point.lat', focus.lat.toString());
+        url.searchParams.append('boundary.country', 'COL');
+        url.searchParams.append('layers', 'address,street');
+
+        const response = await fetch(url.toString(), {
+            method: 'GET',
+            headers: {
+                'Authorization': apiKey,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (response.status === 403) {
+            throw new Error("OpenRouteService API error: Forbidden. Check if the API key is valid or has enough credits.");
+        }
+
+        const data = await response.json();
+
+        if (!response.ok) {
+            const errorDetails = data?.error?.message || response.statusText;
+            throw new Error(`OpenRouteService API error: ${errorDetails}`);
+        }
+
+        if (!data.features || data.features.length === 0) return null;
+        const [lng, lat] = data.features[0].geometry.coordinates;
+        return { lat, lng };
+    },
+};
+
+// A self-hosted Nominatim instance, e.g. NOMINATIM_URL=http://localhost:8080
+const nominatimGeocoder: Geocoder = {
+    async geocode(address, focus) {
+        const baseUrl = process.env.NOMINATIM_URL;
+        if (!baseUrl) {
+            throw new Error("Nominatim URL is not configured in .env file.");
+        }
+
+        // Prefer results within roughly 5 km of the pharmacy without excluding the rest
+        const delta = 0.05;
+        const url = new URL('/search', baseUrl);
+        url.searchParams.append('q', address);
+        url.searchParams.append('format', 'jsonv2');
+        url.searchParams.append('limit', '1');
+        url.searchParams.append('countrycodes', 'co');
+        url.searchParams.append('viewbox', [focus.lng - delta, focus.lat + delta, focus.lng + delta, focus.lat - delta].join(','));
+
+        const response = await fetch(url.toString(), {
+            method: 'GET',
+            headers: { 'Accept': 'application/json' }
+        });
+
+        if (!response.ok) {
+            throw new Error(`Nominatim error: ${response.status} ${response.statusText}`);
+        }
+
+        const results = await response.json();
+        if (!Array.isArray(results) || results.length === 0) return null;
+        return { lat: Number(results[0].lat), lng: Number(results[0].lon) };
+    },
+};
+
+// Approximate centre of Ocaña neighbourhoods, for when no online geocoder is available.
+// Only the neighbourhood is resolved, so the agent should still adjust the pin on the map.
+const OCANA_NEIGHBOURHOODS: { name: string; lat: number; lng: number }[] = [
+    { name: 'Centro', lat: 8.2375, lng: -73.3563 },
+    { name: 'San Agustín', lat: 8.2392, lng: -73.3548 },
+    { name: 'Santa Clara', lat: 8.2361, lng: -73.3581 },
+    { name: 'El Carmen', lat: 8.2349, lng: -73.3552 },
+    { name: 'La Primavera', lat: 8.2418, lng: -73.3532 },
+    { name: 'Cristo Rey', lat: 8.2410, lng: -73.3600 },
+    { name: 'Buenos Aires', lat: 8.2331, lng: -73.3590 },
+    { name: 'La Costa', lat: 8.2440, lng: -73.3575 },
+    { name: 'El Dorado', lat: 8.2305, lng: -73.3530 },
+    { name: 'Villa Paraíso', lat: 8.2465, lng: -73.3510 },
+    { name: 'Las Llanadas', lat: 8.2290, lng: -73.3615 },
+    { name: 'Marabel', lat: 8.2488, lng: -73.3595 },
+    { name: 'Barrio Nuevo', lat: 8.2385, lng: -73.3620 },
+    { name: 'Circunvalar', lat: 8.2432, lng: -73.3490 },
+    { name: 'Los Almendros', lat: 8.2270, lng: -73.3560 },
+    { name: 'Santa Lucía', lat: 8.2342, lng: -73.3505 },
+];
+
+const gazetteerGeocoder: Geocoder = {
+    async geocode(address) {
+        const normalized = normalizeAddress(address);
+        // Longer names first so the most specific neighbourhood wins
+        const match = [...OCANA_NEIGHBOURHOODS]
+            .sort((a, b) => b.name.length - a.name.length)
+            .find(neighbourhood => normalized.includes(normalizeAddress(neighbourhood.name)));
+        return match ? { lat: match.lat, lng: match.lng } : null;
+    },
+};
+
+export const GEOCODERS: Record<GeocoderName, Geocoder> = {
+    openrouteservice: openRouteServiceGeocoder,
+    nominatim: nominatimGeocoder,
+    gazetteer: gazetteerGeocoder,
+};
@@ -0,0 +1,133 @@
+import mongoose, { type ClientSession } from 'mongoose';
+import ProductModel from '@/models/product-model';
+import StockMovementModel from '@/models/stock-movement-model';
+import type { OrderItem, OrderStatus, StockMovementType } from '@/types';
+
+/**
+ * Thrown inside a transaction when a product does not have enough units.
+ * Aborting the transaction rolls back every movement made so far.
+ */
+export class InsufficientStockError extends Error {
+    constructor(public productName: string) {
+        super(`No hay stock suficiente de ${productName}.`);
+        this.name = 'InsufficientStockError';
+    }
+}
+
+// Where the units of an order live for a given order status.
+type StockState = 'reserved' | 'consumed' | 'released';
+
+const stockStateFor = (status: OrderStatus): StockState => {
+    switch (status) {
+        case 'delivered':
+            return 'consumed';
+        case 'cancelled':
+            return 'released';
+        default:
+            return 'reserved';
+    }
+};
+
+// How stock and reserved units change when an order's items move between states.
+const transitions: Record<StockState, Partial<Record<StockState, { type: StockMovementType; stock: number; reserved: number }>>> = {
+    reserved: {
+        consumed: { type: 'consume', stock: -1, reserved: -1 },
+        released: { type: 'release', stock: 0, reserved: -1 },
+    },
+    consumed: {
+        reserved: { type: 'restock', stock: 1, reserved: 1 },
+        released: { type: 'restock', stock: 1, reserved: 0 },
+    },
+    released: {
+        reserved: { type: 'reserve', stock: 0, reserved: 1 },
+        consumed: { type: 'consume', stock: -1, reserved: 0 },
+    },
+};
+
+interface MovementContext {
+    orderId?: string;
+    userId?: string;
+    session: ClientSession;
+}
+
+async function applyMovement(
+    item: OrderItem,
+    movement: { type: StockMovementType; stock: number; reserved: number },
+    { orderId, userId, session }: MovementContext
+) {
+    // Orders created before the catalog existed carry free-text items without a product id
+    if (!mongoose.Types.ObjectId.isValid(item.id)) return;
+
+    const stockDelta = movement.stock * item.quantity;
+    const reservedDelta = movement.reserved * item.quantity;
+
+    // Units can only be reserved or taken out of what is on hand and not already held by another order
+    const filter: Record<string, any> = { _id: item.id };
+    if (reservedDelta > 0 || stockDelta < 0) {
+        const needed = Math.max(reservedDelta, -stockDelta);
+        const held = stockDelta < 0 && reservedDelta < 0 ? -reservedDelta : 0;
+        filter.$expr = { $gte: [{ $subtract: ['$stock', { $subtract: ['$reserved', held] }] }, needed] };
+    }
+
+    const product = await ProductModel.findOneAndUpdate(
+        filter,
+        { $inc: { stock: stockDelta, reserved: reservedDelta } },
+        { new: true, session }
+    );
+
+    if (!product) {
+        const exists = await ProductModel.exists({ _id: item.id }).session(session);
+        // A product deleted from the catalog no longer has stock to track
+        if (!exists) return;
+        throw new InsufficientStockError(item.name);
+    }
+
+    await StockMovementModel.create([{
+        product: item.id,
+        order: orderId,
+        user: userId,
+        type: movement.type,
+        quantity: item.quantity,
+        stockDelta,
+        reservedDelta,
+    }], { session });
+}
+
+/**
+ * Holds the units of a newly created order so they cannot be sold twice.
+ */
+export async function reserveOrderStock(items: OrderItem[], context: MovementContext) {
+    for (const item of items) {
+        await applyMovement(item, transitions.released.reserved!, context);
+    }
+}
+
+/**
+ * Moves an order's units between reserved, consumed and released according to
+ * its status change. Must run inside the same transaction as the status update.
+ */
+export async function applyOrderStockTransition(items: OrderItem[], from: OrderStatus, to: OrderStatus, context: MovementContext) {
+    const movement = transitions[stockStateFor(from)][stockStateFor(to)];
+    if (!movement) return;
+
+    for (const item of items) {
+        await applyMovement(item, movement, context);
+    }
+}
+
+/**
+ * Records a manual change of the on-hand quantity made from the catalog.
+ */
+export async function recordStockAdjustment(productId: string, previousStock: number, newStock: number, context: Omit<MovementContext, 'orderId'>) {
+    const delta = newStock - previousStock;
+    if (delta === 0) return;
+
+    await StockMovementModel.create([{
+        product: productId,
+        user: context.userId,
+        type: 'adjustment',
+        quantity: Math.abs(delta),
+        stockDelta: delta,
+        reservedDelta: 0,
+    }], { session: context.session });
+}
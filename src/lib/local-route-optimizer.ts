@@ -0,0 +1,168 @@
+import type { OrderStop, ProposedRoute, UnassignedOrder, Vehicle } from '@/ai/flows/optimize-pharmacy-route';
+import { haversineMeters } from './geo';
+
+type LatLng = { lat: number; lng: number };
+
+export interface LocatedOrderStop extends OrderStop {
+    coords: LatLng;
+}
+
+// Average speed of a motorbike across town, used to turn straight-line distance into time
+const AVERAGE_SPEED_METERS_PER_SECOND = 25_000 / 3600;
+const SERVICE_SECONDS = 300;
+const PRIORITY_RANK: Record<NonNullable<OrderStop['priority']>, number> = {
+    normal: 0,
+    high: 1,
+    urgent: 2,
+};
+
+/**
+ * Encodes points with the polyline algorithm (precision 5), the same format
+ * OpenRouteService returns, so the map draws both kinds of route the same way.
+ */
+export function encodePolyline(points: LatLng[]) {
+    let encoded = '';
+    let previousLat = 0;
+    let previousLng = 0;
+
+    const encodeValue = (value: number) => {
+        let shifted = value < 0 ? ~(value << 1) : value << 1;
+        let chunk = '';
+        while (shifted >= 0x20) {
+            chunk += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+            shifted >>= 5;
+        }
+        return chunk + String.fromCharCode(shifted + 63);
+    };
+
+    for (const point of points) {
+        const lat = Math.round(point.lat * 1e5);
+        const lng = Math.round(point.lng * 1e5);
+        encoded += encodeValue(lat - previousLat) + encodeValue(lng - previousLng);
+        previousLat = lat;
+        previousLng = lng;
+    }
+    return encoded;
+}
+
+export function describeUnassignedOrder(order: OrderStop) {
+    if (order.timeWindow) {
+        if (new Date(order.timeWindow.end).getTime() <= Date.now()) {
+            return 'La franja horaria de entrega ya pasó.';
+        }
+        return 'No alcanza a entregarse dentro de la franja horaria solicitada.';
+    }
+    return 'Los domiciliarios disponibles no tienen capacidad para este pedido.';
+}
+
+// Drives the stops in order from the start, waiting for windows that have not opened yet.
+// Travel and service time are counted in the duration; waiting is not, as with OpenRouteService.
+function simulateRoute(start: LatLng, stops: LocatedOrderStop[], departure: number) {
+    let position = start;
+    let clock = departure;
+    let distanceMeters = 0;
+    let durationSeconds = 0;
+
+    for (const stop of stops) {
+        const legMeters = haversineMeters(position, stop.coords);
+        const legSeconds = legMeters / AVERAGE_SPEED_METERS_PER_SECOND;
+        clock += legSeconds * 1000;
+        if (stop.timeWindow) {
+            if (clock > new Date(stop.timeWindow.end).getTime()) {
+                return { distanceMeters, durationSeconds, feasible: false };
+            }
+            clock = Math.max(clock, new Date(stop.timeWindow.start).getTime());
+        }
+        clock += SERVICE_SECONDS * 1000;
+        distanceMeters += legMeters;
+        durationSeconds += legSeconds + SERVICE_SECONDS;
+        position = stop.coords;
+    }
+    return { distanceMeters, durationSeconds, feasible: true };
+}
+
+// Reverses stretches of the route while that makes it shorter and keeps every stop on time
+function improveWithTwoOpt(start: LatLng, stops: LocatedOrderStop[], departure: number) {
+    let best = stops;
+    let bestDistance = simulateRoute(start, best, departure).distanceMeters;
+    let improved = true;
+
+    while (improved) {
+        improved = false;
+        for (let i = 0; i < best.length - 1; i++) {
+            for (let j = i + 1; j < best.length; j++) {
+                const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+                const result = simulateRoute(start, candidate, departure);
+                if (result.feasible && result.distanceMeters < bestDistance - 1) {
+                    best = candidate;
+                    bestDistance = result.distanceMeters;
+                    improved = true;
+                }
+            }
+        }
+    }
+    return best;
+}
+
+/**
+ * Plans routes without any network access: stops are handed out by nearest
+ * neighbour across all vehicles and each route is then polished with 2-opt.
+ * Distances are straight lines, so estimates are lower than real road routes.
+ */
+export function solveRoutesLocally(orders: LocatedOrderStop[], vehicles: Vehicle[]) {
+    const departure = Date.now();
+    const unassigned: UnassignedOrder[] = [];
+
+    // Orders no vehicle can reach in time, even going straight there, are left out first
+    const reachable = orders.filter(order => vehicles.some(vehicle => simulateRoute(vehicle.start, [order], departure).feasible));
+    orders
+        .filter(order => !reachable.includes(order))
+        .forEach(order => unassigned.push({ orderId: order.orderId, reason: describeUnassignedOrder(order) }));
+
+    // When there are more orders than seats, the most urgent ones get them
+    const byPriority = [...reachable].sort((a, b) => PRIORITY_RANK[b.priority ?? 'normal'] - PRIORITY_RANK[a.priority ?? 'normal']);
+    const totalCapacity = vehicles.reduce((sum, vehicle) => sum + vehicle.capacity, 0);
+    const remaining = byPriority.slice(0, totalCapacity);
+    byPriority.slice(totalCapacity).forEach(order => unassigned.push({ orderId: order.orderId, reason: describeUnassignedOrder(order) }));
+
+    const plans = vehicles.map(vehicle => ({ vehicle, stops: [] as LocatedOrderStop[] }));
+
+    while (remaining.length > 0) {
+        let best: { plan: (typeof plans)[number]; orderIndex: number; meters: number } | null = null;
+
+        for (const plan of plans) {
+            if (plan.stops.length >= plan.vehicle.capacity) continue;
+            const position = plan.stops.length > 0 ? plan.stops[plan.stops.length - 1].coords : plan.vehicle.start;
+            for (let orderIndex = 0; orderIndex < remaining.length; orderIndex++) {
+                const meters = haversineMeters(position, remaining[orderIndex].coords);
+                if (best && meters >= best.meters) continue;
+                if (!simulateRoute(plan.vehicle.start, [...plan.stops, remaining[orderIndex]], departure).feasible) continue;
+                best = { plan, orderIndex, meters };
+            }
+        }
+
+        // Nothing left fits in any vehicle's capacity or time windows
+        if (!best) break;
+        best.plan.stops.push(remaining[best.orderIndex]);
+        remaining.splice(best.orderIndex, 1);
+    }
+    remaining.forEach(order => unassigned.push({ orderId: order.orderId, reason: describeUnassignedOrder(order) }));
+
+    const routes: ProposedRoute[] = plans
+        .filter(plan => plan.stops.length > 0)
+        .map(({ vehicle, stops }) => {
+            const sequence = improveWithTwoOpt(vehicle.start, stops, departure);
+            const { distanceMeters, durationSeconds } = simulateRoute(vehicle.start, sequence, departure);
+            return {
+                vehicleId: vehicle.id || undefined,
+                optimizedRoute: sequence.map((stop, index) => ({ orderId: stop.orderId, stopNumber: index + 1 })),
+                estimatedDistance: `${(distanceMeters / 1000).toFixed(1)} km`,
+                estimatedTime: `${Math.round(durationSeconds / 60)} minutes`,
+                encodedPolyline: encodePolyline([vehicle.start, ...sequence.map(stop => stop.coords)]),
+                distanceMeters: Math.round(distanceMeters),
+                durationSeconds: Math.round(durationSeconds),
+            };
+        });
+
+    return { routes, unassigned };
+}
@@ -0,0 +1,84 @@
+import { headers } from 'next/headers';
+import { addDays, subMinutes } from 'date-fns';
+import FailedLoginModel from '@/models/failed-login-model';
+import type { FailedLoginReason } from '@/types';
+
+// Failures that lock a cédula or an IP out, and for how long they count
+export const MAX_FAILURES_PER_CEDULA = 5;
+export const MAX_FAILURES_PER_IP = 20;
+export const LOCKOUT_MINUTES = 15;
+// Reset codes that may be asked for from one IP, and sent for one cédula, within an hour
+export const MAX_RESET_REQUESTS_PER_IP = 5;
+export const MAX_RESET_REQUESTS_PER_CEDULA = 3;
+export const RESET_REQUEST_WINDOW_MINUTES = 60;
+// How long failed logins stay listed for the admins
+const FAILED_LOGIN_RETENTION_DAYS = 30;
+// Attempts stored for the audit list that do not count as failures themselves
+const NOT_COUNTED_REASONS: FailedLoginReason[] = ['locked_out', 'reset_requested'];
+// Stored when the caller's address cannot be trusted; such attempts skip the per-IP limits
+const UNKNOWN_IP = 'desconocida';
+
+export interface LoginClient {
+    ip: string;
+    userAgent?: string;
+}
+
+/**
+ * The caller's address as seen by the proxies in front of the app. Anyone can send
+ * X-Forwarded-For, so it is only read when TRUSTED_PROXY_HOPS says how many proxies
+ * append to it, and then the entry the outermost one added is taken.
+ */
+export async function getLoginClient(): Promise<LoginClient> {
+    const requestHeaders = await headers();
+    const trustedHops = Number(process.env.TRUSTED_PROXY_HOPS) || 0;
+    const forwardedFor = requestHeaders.get('x-forwarded-for')?.split(',').map(entry => entry.trim()) ?? [];
+    const ip = trustedHops > 0 && forwardedFor.length >= trustedHops ? forwardedFor[forwardedFor.length - trustedHops] : '';
+    return {
+        ip: ip || UNKNOWN_IP,
+        userAgent: requestHeaders.get('user-agent') || undefined,
+    };
+}
+
+/**
+ * Whether the cédula or the IP has failed too often in the last minutes. Failures
+ * of a cédula before its last successful login do not count, and neither do
+ * attempts turned away while locked, so waiting out the lockout is enough.
+ */
+export async function isLockedOut(cedula: string, client: LoginClient, lastLoginAt?: Date) {
+    const windowStart = subMinutes(new Date(), LOCKOUT_MINUTES);
+    const cedulaSince = lastLoginAt && lastLoginAt > windowStart ? lastLoginAt : windowStart;
+    const [cedulaFailures, ipFailures] = await Promise.all([
+        FailedLoginModel.countDocuments({ cedula, reason: { $nin: NOT_COUNTED_REASONS }, attemptedAt: { $gt: cedulaSince } }),
+        client.ip === UNKNOWN_IP
+            ? 0
+            : FailedLoginModel.countDocuments({ ip: client.ip, reason: { $nin: NOT_COUNTED_REASONS }, attemptedAt: { $gt: windowStart } }),
+    ]);
+    return cedulaFailures >= MAX_FAILURES_PER_CEDULA || ipFailures >= MAX_FAILURES_PER_IP;
+}
+
+/**
+ * Whether too many reset codes were asked for this cédula or from this IP in the last
+ * hour. The cédula limit caps the codes an account is sent, whoever keeps asking.
+ */
+export async function isResetThrottled(cedula: string, client: LoginClient) {
+    const windowStart = subMinutes(new Date(), RESET_REQUEST_WINDOW_MINUTES);
+    const [cedulaRequests, ipRequests] = await Promise.all([
+        FailedLoginModel.countDocuments({ cedula, reason: 'reset_requested', attemptedAt: { $gt: windowStart } }),
+        client.ip === UNKNOWN_IP
+            ? 0
+            : FailedLoginModel.countDocuments({ ip: client.ip, reason: 'reset_requested', attemptedAt: { $gt: windowStart } }),
+    ]);
+    return cedulaRequests >= MAX_RESET_REQUESTS_PER_CEDULA || ipRequests >= MAX_RESET_REQUESTS_PER_IP;
+}
+
+export async function recordFailedLogin(cedula: string, client: LoginClient, reason: FailedLoginReason) {
+    const attemptedAt = new Date();
+    await FailedLoginModel.create({
+        cedula,
+        ip: client.ip,
+        userAgent: client.userAgent,
+        reason,
+        attemptedAt,
+        expiresAt: addDays(attemptedAt, FAILED_LOGIN_RETENTION_DAYS),
+    });
+}
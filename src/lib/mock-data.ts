@@ -30,8 +30,10 @@ let ordersDB: Order[] = [
         createdAt: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
         assignedTo: mockDeliveryPeople[1],
         createdBy: mockUserAgent,
+        subtotal: 75500,
+        deliveryFee: 0,
         total: 75500,
-        paymentMethod: 'cash'
+        payments: [{ method: 'cash', amount: 75500 }]
     },
     { 
         id: 'ORD002', 
@@ -41,8 +43,10 @@ let ordersDB: Order[] = [
         status: 'pending',
         createdAt: new Date(Date.now() - 20 * 60 * 1000).toISOString(),
         createdBy: mockUserAgent,
+        subtotal: 32000,
+        deliveryFee: 0,
         total: 32000,
-        paymentMethod: 'transfer'
+        payments: [{ method: 'transfer', amount: 32000 }]
     },
     { 
         id: 'ORD003', 
@@ -56,8 +60,10 @@ let ordersDB: Order[] = [
         createdAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
         assignedTo: mockDeliveryPeople[0],
         createdBy: mockUserAgent,
+        subtotal: 112000,
+        deliveryFee: 0,
         total: 112000,
-        paymentMethod: 'transfer'
+        payments: [{ method: 'transfer', amount: 112000 }]
     },
     { 
         id: 'ORD004', 
@@ -68,8 +74,10 @@ let ordersDB: Order[] = [
         createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
         assignedTo: mockDeliveryPeople[1],
         createdBy: mockUserAgent,
+        subtotal: 45000,
+        deliveryFee: 0,
         total: 45000,
-        paymentMethod: 'cash'
+        payments: [{ method: 'cash', amount: 45000 }]
     },
     { 
         id: 'ORD005', 
@@ -80,8 +88,10 @@ let ordersDB: Order[] = [
         createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
         assignedTo: mockDeliveryPeople[0],
         createdBy: mockUserAgent,
+        subtotal: 92000,
+        deliveryFee: 0,
         total: 92000,
-        paymentMethod: 'cash'
+        payments: [{ method: 'cash', amount: 92000 }]
     },
     { 
         id: 'ORD006', 
@@ -91,8 +101,10 @@ let ordersDB: Order[] = [
         status: 'cancelled',
         createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString(),
         createdBy: mockUserAgent,
+        subtotal: 15000,
+        deliveryFee: 0,
         total: 15000,
-        paymentMethod: 'cash'
+        payments: [{ method: 'cash', amount: 15000 }]
     },
      { 
         id: 'ORD007', 
@@ -103,8 +115,10 @@ let ordersDB: Order[] = [
         createdAt: new Date(Date.now() - 15 * 60 * 1000).toISOString(),
         assignedTo: mockDeliveryPeople[2],
         createdBy: mockUserAgent,
+        subtotal: 60000,
+        deliveryFee: 0,
         total: 60000,
-        paymentMethod: 'cash'
+        payments: [{ method: 'cash', amount: 60000 }]
     },
 ];
 
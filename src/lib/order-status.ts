@@ -0,0 +1,47 @@
+import type { FailedDeliveryReason, OrderPriority, OrderStatus, TimeWindow } from '@/types';
+import { format } from 'date-fns';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+    pending: 'Pendiente',
+    assigned: 'Asignado',
+    in_transit: 'En Camino',
+    delivered: 'Entregado',
+    cancelled: 'Cancelado',
+};
+
+/**
+ * The only status changes an order may go through. Delivered and cancelled are final.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['assigned', 'cancelled'],
+    // 'assigned' again means handing the order to a different courier, 'pending' takes it off the courier.
+    // An order only goes out for delivery when its courier starts the route from Mis Rutas.
+    assigned: ['assigned', 'in_transit', 'pending', 'cancelled'],
+    // Once the goods leave the pharmacy the order can no longer be cancelled. It only returns
+    // to the queue through a failed attempt, so the attempt is logged and the goods are expected back.
+    in_transit: ['delivered'],
+    delivered: [],
+    cancelled: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus, viaFailedAttempt = false) {
+    return ORDER_STATUS_TRANSITIONS[from].includes(to) || (viaFailedAttempt && from === 'in_transit' && to === 'pending');
+}
+
+export const FAILED_DELIVERY_REASON_LABELS: Record<FailedDeliveryReason, string> = {
+    absent: 'Cliente ausente',
+    wrong_address: 'Dirección incorrecta',
+    refused: 'Pedido rechazado',
+    no_cash: 'Cliente sin efectivo',
+};
+
+export const ORDER_PRIORITY_LABELS: Record<OrderPriority, string> = {
+    normal: 'Normal',
+    high: 'Alta',
+    urgent: 'Urgente',
+};
+
+// e.g. "5:00 PM - 7:30 PM"
+export function formatTimeWindow(timeWindow: TimeWindow) {
+    return `${format(new Date(timeWindow.start), 'h:mm a')} - ${format(new Date(timeWindow.end), 'h:mm a')}`;
+}
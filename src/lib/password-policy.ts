@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const PASSWORD_MIN_LENGTH = 8;
+// A new password may not match the current one or the ones before it, up to this many in total
+export const PASSWORD_HISTORY_SIZE = 5;
+
+// Shared by the server actions and the forms so both reject the same passwords
+export const passwordSchema = z.string()
+    .min(PASSWORD_MIN_LENGTH, { message: `La contraseña debe tener al menos ${PASSWORD_MIN_LENGTH} caracteres.` })
+    .regex(/[A-Za-zÁÉÍÓÚÑáéíóúñ]/, { message: "La contraseña debe tener al menos una letra." })
+    .regex(/\d/, { message: "La contraseña debe tener al menos un número." });
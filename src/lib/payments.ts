@@ -0,0 +1,79 @@
+import type { CourierCashSummary, Order, Payment, PaymentMethod, PaymentVerificationStatus } from '@/types';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    cash: 'Efectivo',
+    transfer: 'Transferencia',
+    card: 'Datáfono',
+    nequi: 'Nequi',
+    daviplata: 'Daviplata',
+};
+
+// Paid into the pharmacy's bank accounts and checked by hand; a card is confirmed by the datáfono itself
+export const VERIFIABLE_PAYMENT_METHODS: PaymentMethod[] = ['transfer', 'nequi', 'daviplata'];
+
+export const PAYMENT_VERIFICATION_LABELS: Record<PaymentVerificationStatus, string> = {
+    pending_verification: 'Por verificar',
+    verified: 'Verificado',
+    rejected: 'Rechazado',
+};
+
+// Payments without a status were recorded before verification existed and count as confirmed
+export const isConfirmedPayment = (payment: Payment) => !payment.verificationStatus || payment.verificationStatus === 'verified';
+
+const emptyTotals = (): Record<PaymentMethod, number> => ({ cash: 0, transfer: 0, card: 0, nequi: 0, daviplata: 0 });
+
+/**
+ * Orders stored before split payments only have a single method and, for cash,
+ * the amount the client paid with. They are read as one payment of the whole total.
+ */
+export function legacyPayments(order: { total: number; paymentMethod?: 'cash' | 'transfer'; paymentAmount?: number }): Payment[] {
+    if (order.paymentMethod !== 'cash') {
+        return [{ method: 'transfer', amount: order.total }];
+    }
+    const tendered = order.paymentAmount && order.paymentAmount > order.total ? order.paymentAmount : undefined;
+    return [{ method: 'cash', amount: order.total, tendered, change: tendered ? tendered - order.total : undefined }];
+}
+
+const formatCurrency = (amount: number) => amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
+
+// "Efectivo $20.000 (paga con $50.000, vueltos $30.000)", "Nequi $15.000 · Ref. 4821"
+export function describePayment(payment: Payment) {
+    const base = `${PAYMENT_METHOD_LABELS[payment.method]} ${formatCurrency(payment.amount)}`;
+    if (payment.method === 'cash') {
+        return payment.tendered ? `${base} (paga con ${formatCurrency(payment.tendered)}, vueltos ${formatCurrency(payment.change ?? 0)})` : base;
+    }
+    return payment.reference ? `${base} · Ref. ${payment.reference}` : base;
+}
+
+export function paymentTotals(payments: Pick<Payment, 'method' | 'amount'>[]) {
+    return payments.reduce((totals, payment) => {
+        totals[payment.method] += payment.amount;
+        return totals;
+    }, emptyTotals());
+}
+
+/**
+ * Groups delivered orders by courier. Each courier hands in the cash of their sales plus
+ * the change float they left with: the change given to clients came out of the bills they were paid with.
+ */
+export function summarizeCourierCash(orders: Order[]): CourierCashSummary[] {
+    const byCourier = new Map<string, CourierCashSummary>();
+    for (const order of orders) {
+        if (!order.assignedTo) continue;
+        let summary = byCourier.get(order.assignedTo.id);
+        if (!summary) {
+            summary = { deliveryPerson: order.assignedTo, orderCount: 0, totalsByMethod: emptyTotals(), changeFloat: 0, cashToReturn: 0 };
+            byCourier.set(order.assignedTo.id, summary);
+        }
+        summary.orderCount++;
+        for (const payment of order.payments) {
+            summary.totalsByMethod[payment.method] += payment.amount;
+            summary.changeFloat += payment.change ?? 0;
+        }
+        summary.cashToReturn = summary.totalsByMethod.cash + summary.changeFloat;
+    }
+    return [...byCourier.values()].sort((a, b) => a.deliveryPerson.name.localeCompare(b.deliveryPerson.name));
+}
+
+// What a courier has to hand back when closing a cash session
+export const expectedCash = (session: { openingFloat: number; cashCollected: number }) => session.openingFloat + session.cashCollected;
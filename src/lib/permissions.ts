@@ -0,0 +1,67 @@
+import type { CustomRole, Permission, Role, User } from '@/types';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    'orders.view': 'Ver todos los pedidos',
+    'orders.create': 'Tomar pedidos',
+    'orders.assign': 'Asignar y devolver pedidos a la cola',
+    'orders.cancel': 'Cancelar pedidos',
+    'orders.deliver': 'Repartir pedidos asignados',
+    'routes.plan': 'Planear y optimizar rutas',
+    'clients.view': 'Ver clientes',
+    'clients.create': 'Crear clientes',
+    'clients.edit': 'Editar clientes',
+    'clients.delete': 'Eliminar clientes',
+    'products.view': 'Ver productos e inventario',
+    'products.edit': 'Crear y editar productos',
+    'products.delete': 'Eliminar productos',
+    'couriers.view': 'Ver domiciliarios y sus recorridos',
+    'couriers.manage': 'Crear, editar y eliminar domiciliarios',
+    'reports.view': 'Ver entregas fuera del radio',
+    'cash.view': 'Ver el cuadre de caja de todos',
+    'cash.manage': 'Abrir y cerrar turnos y recibir devoluciones',
+    'cash.approve': 'Aprobar diferencias de caja',
+    'transfers.verify': 'Verificar transferencias',
+    'users.manage': 'Gestionar agentes y administradores',
+    'roles.manage': 'Crear roles y cambiar el rol de los usuarios',
+    'settings.edit': 'Editar la configuración de la farmacia',
+};
+
+// How the permissions are grouped in the role editor
+export const PERMISSION_GROUPS: { label: string; permissions: Permission[] }[] = [
+    { label: 'Pedidos y Rutas', permissions: ['orders.view', 'orders.create', 'orders.assign', 'orders.cancel', 'orders.deliver', 'routes.plan'] },
+    { label: 'Clientes', permissions: ['clients.view', 'clients.create', 'clients.edit', 'clients.delete'] },
+    { label: 'Productos', permissions: ['products.view', 'products.edit', 'products.delete'] },
+    { label: 'Domiciliarios', permissions: ['couriers.view', 'couriers.manage', 'reports.view'] },
+    { label: 'Caja', permissions: ['cash.view', 'cash.manage', 'cash.approve', 'transfers.verify'] },
+    { label: 'Administración', permissions: ['users.manage', 'roles.manage', 'settings.edit'] },
+];
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+// Only couriers carry orders, so only roles based on 'delivery' may hold it
+export const COURIER_PERMISSION: Permission = 'orders.deliver';
+
+/**
+ * What each built-in role may do. Admins always get every other permission so
+ * a custom role can never lock everyone out of the configuration.
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    admin: ALL_PERMISSIONS.filter(permission => permission !== COURIER_PERMISSION),
+    agent: [
+        'orders.view', 'orders.create', 'orders.assign', 'orders.cancel', 'routes.plan',
+        'clients.view', 'clients.edit', 'clients.delete',
+        'products.view',
+        'couriers.view', 'couriers.manage',
+        'cash.view', 'cash.manage', 'cash.approve', 'transfers.verify',
+    ],
+    delivery: ['orders.deliver'],
+};
+
+export function resolvePermissions(role: Role, customRole?: Pick<CustomRole, 'permissions'> | null): Permission[] {
+    if (role === 'admin' || !customRole) return ROLE_PERMISSIONS[role];
+    return role === 'delivery' ? customRole.permissions : customRole.permissions.filter(permission => permission !== COURIER_PERMISSION);
+}
+
+export function hasPermission(user: Pick<User, 'permissions'> | null | undefined, permission: Permission) {
+    return !!user?.permissions?.includes(permission);
+}
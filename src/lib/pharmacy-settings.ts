@@ -0,0 +1,48 @@
+import connectDB from './mongoose';
+import { DEFAULT_DELIVERY_PRICING } from './delivery-fee';
+import PharmacySettingsModel, { type PharmacySettingsDocument } from '@/models/pharmacy-settings-model';
+
+// There is a single settings document, created with the defaults on first read
+export const PHARMACY_SETTINGS_ID = 'main_pharmacy';
+export const DEFAULT_PHARMACY_SETTINGS = {
+    name: 'Droguería Avenida',
+    address: 'Avenida Cra 30 # 22-10, Bogotá',
+    phone: '601-555-4321',
+    lat: 8.250876,
+    lng: -73.358425,
+    maxOrdersPerRoute: 8,
+    routeOptimizer: 'openrouteservice' as const,
+    geocoder: 'openrouteservice' as const,
+    locationRetentionDays: 30,
+    deliveryGeofenceMeters: 150,
+    deliveryPricing: DEFAULT_DELIVERY_PRICING,
+    outOfCoveragePolicy: 'warn' as const,
+};
+
+export function toPlainSettings(doc: PharmacySettingsDocument | null): any {
+    if (!doc) return null;
+    const plain = doc.toObject({ getters: true, versionKey: false });
+    plain.id = plain._id.toString();
+    delete plain._id;
+    delete plain.singleton; // Don't expose this implementation detail
+    return plain;
+}
+
+/**
+ * Reads the settings for server code that already checked the caller, such as
+ * other actions. Pages go through `getPharmacySettings`, which checks the session.
+ */
+export async function readPharmacySettings() {
+    await connectDB();
+    const settings = await PharmacySettingsModel.findOneAndUpdate(
+        { singleton: PHARMACY_SETTINGS_ID },
+        { 
+            $setOnInsert: {
+                singleton: PHARMACY_SETTINGS_ID,
+                ...DEFAULT_PHARMACY_SETTINGS
+            }
+        },
+        { upsert: true, new: true }
+    );
+    return toPlainSettings(settings);
+}
@@ -0,0 +1,59 @@
+import { addHours, subMinutes } from 'date-fns';
+import mongoose from 'mongoose';
+import { createSession, deleteSession, getSession } from './auth';
+import connectDB from './mongoose';
+import type { LoginClient } from './login-throttle';
+import UserSessionModel from '@/models/user-session-model';
+import type { User } from '@/types';
+
+// Matches the cookie lifetime; both are pushed forward while the user is active
+const SESSION_HOURS = 2;
+// lastSeenAt is only rewritten this often so every action does not cost a write
+const TOUCH_INTERVAL_MINUTES = 1;
+
+/** Stores a session for the user and sets the cookie that points at it. */
+export async function openUserSession(user: Pick<User, 'id' | 'role' | 'name' | 'avatarUrl'>, client: LoginClient) {
+    await connectDB();
+    const now = new Date();
+    const session = await UserSessionModel.create({
+        user: user.id,
+        ip: client.ip,
+        userAgent: client.userAgent,
+        lastSeenAt: now,
+        expiresAt: addHours(now, SESSION_HOURS),
+    });
+    await createSession(session.id as string, user.id, user.role, user.name, user.avatarUrl || '');
+}
+
+/**
+ * Whether the session still exists for the user, extending it on use. Tokens
+ * issued before sessions were stored have no id and no longer count.
+ */
+export async function touchUserSession(sessionId: string | undefined, userId: string) {
+    if (!sessionId || !mongoose.isValidObjectId(sessionId)) return false;
+    const now = new Date();
+    const session = await UserSessionModel.findOne({ _id: sessionId, user: userId, expiresAt: { $gt: now } }).select('lastSeenAt');
+    if (!session) return false;
+    if (session.lastSeenAt < subMinutes(now, TOUCH_INTERVAL_MINUTES)) {
+        await UserSessionModel.updateOne({ _id: sessionId }, { $set: { lastSeenAt: now, expiresAt: addHours(now, SESSION_HOURS) } });
+    }
+    return true;
+}
+
+/** Logs everyone using the account out, optionally keeping the session making the request. */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string) {
+    const filter: Record<string, unknown> = { user: userId };
+    if (exceptSessionId) filter._id = { $ne: exceptSessionId };
+    const { deletedCount } = await UserSessionModel.deleteMany(filter);
+    return deletedCount;
+}
+
+/** Removes the current session on logout, both the document and the cookie. */
+export async function closeCurrentSession() {
+    const session = await getSession();
+    await connectDB();
+    if (typeof session?.jti === 'string' && mongoose.isValidObjectId(session.jti)) {
+        await UserSessionModel.deleteOne({ _id: session.jti });
+    }
+    await deleteSession();
+}
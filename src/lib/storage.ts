@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface StoredFile {
+    data: Buffer;
+    contentType: string;
+}
+
+export interface FileStorage {
+    // Stores the file under key, replacing any file already there, and returns the URL it is served from
+    save(key: string, data: Buffer, contentType: string): Promise<string>;
+    // Returns null when there is no file under key
+    read(key: string): Promise<StoredFile | null>;
+}
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.webp': 'image/webp',
+    '.pdf': 'application/pdf',
+};
+
+// Keys are generated by the app, but are still checked so a crafted URL cannot read outside the folder
+const SAFE_KEY_REGEX = /^[a-z0-9][a-z0-9_\-]*(?:\/[a-z0-9][a-z0-9_\-.]*)*$/i;
+
+export function isSafeStorageKey(key: string) {
+    return SAFE_KEY_REGEX.test(key) && !key.includes('..');
+}
+
+/**
+ * Keeps files on the server's disk, under UPLOADS_DIR or ./uploads. Files are served
+ * through /api/files so only users who may see the order can download them.
+ */
+class LocalFileStorage implements FileStorage {
+    constructor(private readonly rootDir: string) {}
+
+    private resolve(key: string) {
+        if (!isSafeStorageKey(key)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return path.join(this.rootDir, key);
+    }
+
+    async save(key: string, data: Buffer, contentType: string) {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, data);
+        return `/api/files/${key}`;
+    }
+
+    async read(key: string) {
+        try {
+            const data = await fs.readFile(this.resolve(key));
+            const contentType = CONTENT_TYPES_BY_EXTENSION[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+            return { data, contentType };
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+}
+
+export function getFileStorage(): FileStorage {
+    return new LocalFileStorage(process.env.UPLOADS_DIR || path.join(process.cwd(), 'uploads'));
+}
+
+export const EXTENSIONS_BY_CONTENT_TYPE: Record<string, string> = Object.fromEntries(
+    Object.entries(CONTENT_TYPES_BY_EXTENSION).filter(([extension]) => extension !== '.jpeg').map(([extension, type]) => [type, extension])
+);
+
+/**
+ * Decodes a data URL such as the one returned by canvas.toDataURL().
+ * Returns null when the text is not a base64 data URL.
+ */
+export function decodeDataUrl(dataUrl: string): StoredFile | null {
+    const match = dataUrl.match(/^data:([\w/+.-]+);base64,(.+)$/);
+    if (!match) return null;
+    return { contentType: match[1], data: Buffer.from(match[2], 'base64') };
+}
@@ -1,6 +1,7 @@
 import type { Order } from '@/types';
+import { FAILED_DELIVERY_REASON_LABELS } from './order-status';
 
-type NotificationType = 'created' | 'in_transit' | 'nearby' | 'delivered';
+type NotificationType = 'created' | 'in_transit' | 'nearby' | 'delivered' | 'failed_attempt';
 
 const getMessage = (type: NotificationType, order: Order): string => {
     const pharmacyName = "Droguería Avenida";
@@ -14,23 +15,21 @@ const getMessage = (type: NotificationType, order: Order): string => {
             return `¡Atención! Nuestro domiciliario está cerca de tu ubicación (${order.deliveryLocation.address}) con tu pedido #${order.id.slice(-6)}. ¡Prepárate para recibirlo!`;
         case 'delivered':
             return `¡Pedido #${order.id.slice(-6)} entregado! ✅ Gracias por confiar en ${pharmacyName}. ¡Que tengas un excelente día!`;
+        case 'failed_attempt':
+            const lastAttempt = order.failedAttempts?.[order.failedAttempts.length - 1];
+            const reason = lastAttempt ? ` (${FAILED_DELIVERY_REASON_LABELS[lastAttempt.reason].toLowerCase()})` : '';
+            return `Hola ${order.client.fullName}, intentamos entregar tu pedido #${order.id.slice(-6)} de ${pharmacyName} en ${order.deliveryLocation.address}, pero no fue posible${reason}. 📦 Responde este mensaje para acordar una nueva entrega.`;
     }
 }
 
-/**
- * Sends a notification to the client via the external message API from the server.
- * @param phone The client's phone number.
- * @param type The type of notification to send.
- * @param order The order details.
- */
-export const sendWhatsAppNotification = async (phone: string, type: NotificationType, order: Order) => {
-    const message = getMessage(type, order);
+// Posts a text message to the external message API; failures are logged, not thrown
+const sendWhatsAppMessage = async (phone: string, message: string, description: string): Promise<boolean> => {
     const phoneDigits = phone.replace(/\D/g, '').slice(-10);
 
     const endpoint = 'http://149.130.175.81:3000/send-message/';
 
     try {
-        console.log(`Sending '${type}' notification to ${phoneDigits}`);
+        console.log(`Sending ${description} to ${phoneDigits}`);
         const response = await fetch(endpoint, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
@@ -44,9 +43,30 @@ export const sendWhatsAppNotification = async (phone: string, type: Notification
         
         const responseData = await response.json();
         console.log(`Successfully sent message. API Response:`, responseData);
+        return true;
 
     } catch (error) {
         console.error('Failed to send WhatsApp notification via API:', error);
         // We don't re-throw to avoid breaking the parent process, but log it clearly.
+        return false;
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Sends a notification to the client via the external message API from the server.
+ * @param phone The client's phone number.
+ * @param type The type of notification to send.
+ * @param order The order details.
+ */
+export const sendWhatsAppNotification = async (phone: string, type: NotificationType, order: Order) => {
+    await sendWhatsAppMessage(phone, getMessage(type, order), `'${type}' notification`);
+};
+
+/**
+ * Sends a one-time password reset code to a user's phone.
+ * @returns Whether the message API accepted the message.
+ */
+export const sendPasswordResetCode = async (phone: string, code: string, validMinutes: number) => {
+    const message = `Tu código para restablecer la contraseña de Droguería Avenida es ${code}. Vence en ${validMinutes} minutos. Si no lo pediste, ignora este mensaje. 🔒`;
+    return sendWhatsAppMessage(phone, message, 'password reset code');
+};
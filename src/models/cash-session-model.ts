@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document, models, Model, Types } from 'mongoose';
+import type { CashSession as CashSessionType, CashCollection } from '@/types';
+
+// A courier has at most one open session; once closed (with any difference approved) it is never edited again.
+export interface CashSessionDocument extends Omit<CashSessionType, 'id' | 'deliveryPerson' | 'openedAt' | 'collections' | 'closedAt' | 'approvedAt'>, Document {
+    deliveryPerson: Types.ObjectId;
+    openedAt: Date;
+    collections: (Omit<CashCollection, 'order' | 'collectedAt'> & { order: Types.ObjectId; collectedAt: Date })[];
+    closedAt?: Date;
+    approvedAt?: Date;
+}
+
+const CashCollectionSchema = new Schema({
+    order: { type: Schema.Types.ObjectId, ref: 'Order', required: true },
+    amount: { type: Number, required: true },
+    collectedAt: { type: Date, required: true, default: Date.now },
+}, { _id: false });
+
+const CashSessionSchema: Schema<CashSessionDocument> = new Schema({
+    deliveryPerson: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    status: { type: String, required: true, enum: ['open', 'pending_approval', 'closed'], default: 'open' },
+    openingFloat: { type: Number, required: true, min: 0 },
+    openedAt: { type: Date, required: true, default: Date.now },
+    openedByName: { type: String },
+    collections: { type: [CashCollectionSchema], default: [] },
+    cashCollected: { type: Number, required: true, default: 0 },
+    countedCash: { type: Number },
+    difference: { type: Number },
+    closingNotes: { type: String },
+    closedAt: { type: Date },
+    closedByName: { type: String },
+    approvedByName: { type: String },
+    approvedAt: { type: Date },
+    approvalNotes: { type: String },
+}, {
+    timestamps: true
+});
+
+CashSessionSchema.index({ deliveryPerson: 1 }, { unique: true, partialFilterExpression: { status: 'open' } });
+CashSessionSchema.index({ openedAt: -1 });
+
+const CashSessionModel: Model<CashSessionDocument> = models.CashSession || mongoose.model<CashSessionDocument>('CashSession', CashSessionSchema);
+
+export default CashSessionModel;
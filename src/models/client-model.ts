@@ -5,6 +5,12 @@ const LocationSchema: Schema<Location> = new Schema({
     address: { type: String, required: true },
     lat: { type: Number },
     lng: { type: Number },
+    streetType: { type: String, enum: ['Calle', 'Carrera', 'Transversal', 'Diagonal', 'Avenida'] },
+    streetNumber: { type: String },
+    crossNumber: { type: String },
+    plate: { type: String },
+    neighbourhood: { type: String },
+    reference: { type: String },
 }, { _id: false });
 
 export interface ClientDocument extends Omit<ClientType, 'id'>, Document {}
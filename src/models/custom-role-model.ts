@@ -0,0 +1,21 @@
+import mongoose, { Schema, Document, models, Model } from 'mongoose';
+import type { CustomRole as CustomRoleType } from '@/types';
+import { ALL_PERMISSIONS } from '@/lib/permissions';
+
+export interface CustomRoleDocument extends Omit<CustomRoleType, 'id'>, Document {
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CustomRoleSchema: Schema<CustomRoleDocument> = new Schema({
+    name: { type: String, required: true, unique: true, trim: true },
+    description: { type: String, trim: true },
+    baseRole: { type: String, required: true, enum: ['agent', 'delivery'] },
+    permissions: { type: [{ type: String, enum: ALL_PERMISSIONS }], default: [] },
+}, {
+    timestamps: true
+});
+
+const CustomRoleModel: Model<CustomRoleDocument> = models.CustomRole || mongoose.model<CustomRoleDocument>('CustomRole', CustomRoleSchema);
+
+export default CustomRoleModel;
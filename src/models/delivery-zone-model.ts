@@ -0,0 +1,25 @@
+import mongoose, { Schema, Document, models, Model } from 'mongoose';
+import type { DeliveryZone as DeliveryZoneType } from '@/types';
+
+export interface DeliveryZoneDocument extends Omit<DeliveryZoneType, 'id'>, Document {
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const DeliveryZoneSchema: Schema<DeliveryZoneDocument> = new Schema({
+    name: { type: String, required: true, unique: true, trim: true },
+    fee: { type: Number, min: 0 },
+    polygon: {
+        type: { type: String, enum: ['Polygon'], required: true },
+        coordinates: { type: [[[Number]]], required: true },
+    },
+}, {
+    timestamps: true
+});
+
+// Finding the zone of an order's address is a $geoIntersects query against the polygons
+DeliveryZoneSchema.index({ polygon: '2dsphere' });
+
+const DeliveryZoneModel: Model<DeliveryZoneDocument> = models.DeliveryZone || mongoose.model<DeliveryZoneDocument>('DeliveryZone', DeliveryZoneSchema);
+
+export default DeliveryZoneModel;
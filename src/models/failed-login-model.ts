@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document, models, Model } from 'mongoose';
+import type { FailedLogin as FailedLoginType } from '@/types';
+
+// One document per rejected login. Each carries its own expiry so the history
+// cleans itself up; the lockout only looks at the last few minutes of it.
+export interface FailedLoginDocument extends Omit<FailedLoginType, 'id' | 'userName' | 'attemptedAt'>, Document {
+    attemptedAt: Date;
+    expiresAt: Date;
+}
+
+const FailedLoginSchema: Schema<FailedLoginDocument> = new Schema({
+    cedula: { type: String, required: true, trim: true },
+    ip: { type: String, required: true },
+    userAgent: { type: String },
+    reason: { type: String, required: true, enum: ['unknown_user', 'wrong_password', 'wrong_reset_code', 'suspended', 'locked_out', 'reset_requested'] },
+    attemptedAt: { type: Date, required: true, default: Date.now },
+    expiresAt: { type: Date, required: true },
+});
+
+// The lockout counts recent failures per cédula and per IP
+FailedLoginSchema.index({ cedula: 1, attemptedAt: -1 });
+FailedLoginSchema.index({ ip: 1, attemptedAt: -1 });
+// MongoDB deletes each record once its expiresAt has passed
+FailedLoginSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const FailedLoginModel: Model<FailedLoginDocument> = models.FailedLogin || mongoose.model<FailedLoginDocument>('FailedLogin', FailedLoginSchema);
+
+export default FailedLoginModel;
@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document, models, Model } from 'mongoose';
+
+export type GeocoderName = 'openrouteservice' | 'nominatim' | 'gazetteer';
+
+// One entry per normalized address, so every address is only looked up once. Only
+// providers that locate the address itself are cached, the gazetteer is approximate.
+export interface GeocodeCacheDocument extends Document {
+    normalizedAddress: string;
+    address: string; // As it was first looked up
+    lat: number;
+    lng: number;
+    provider: Exclude<GeocoderName, 'gazetteer'>;
+    hits: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const GeocodeCacheSchema: Schema<GeocodeCacheDocument> = new Schema({
+    normalizedAddress: { type: String, required: true, unique: true },
+    address: { type: String, required: true },
+    lat: { type: Number, required: true },
+    lng: { type: Number, required: true },
+    provider: { type: String, required: true, enum: ['openrouteservice', 'nominatim'] },
+    hits: { type: Number, required: true, default: 0 },
+}, {
+    timestamps: true
+});
+
+const GeocodeCacheModel: Model<GeocodeCacheDocument> = models.GeocodeCache || mongoose.model<GeocodeCacheDocument>('GeocodeCache', GeocodeCacheSchema);
+
+export default GeocodeCacheModel;
@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document, models, Model, Types } from 'mongoose';
+import type { LocationPing as LocationPingType } from '@/types';
+
+// Pings are only ever appended. Each one carries its own expiry so changing the retention
+// in the settings applies to new pings without rebuilding the TTL index.
+export interface LocationPingDocument extends Omit<LocationPingType, 'id' | 'deliveryPerson' | 'recordedAt'>, Document {
+    deliveryPerson: Types.ObjectId;
+    recordedAt: Date;
+    expiresAt: Date;
+}
+
+const LocationPingSchema: Schema<LocationPingDocument> = new Schema({
+    deliveryPerson: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    lat: { type: Number, required: true },
+    lng: { type: Number, required: true },
+    bearing: { type: Number },
+    recordedAt: { type: Date, required: true, default: Date.now },
+    expiresAt: { type: Date, required: true },
+});
+
+// Replaying a day reads one courier's pings in time order
+LocationPingSchema.index({ deliveryPerson: 1, recordedAt: 1 });
+// MongoDB deletes each ping once its expiresAt has passed
+LocationPingSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LocationPingModel: Model<LocationPingDocument> = models.LocationPing || mongoose.model<LocationPingDocument>('LocationPing', LocationPingSchema);
+
+export default LocationPingModel;
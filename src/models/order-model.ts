@@ -1,28 +1,97 @@
 
 import mongoose, { Schema, Document, models, Model, Types } from 'mongoose';
-import type { Order as OrderType, Location, OrderItem } from '@/types';
+import type { Order as OrderType, Location, OrderItem, OrderStatusChange, TimeWindow, ProofOfDelivery, DeliveryAttempt, Payment } from '@/types';
 import UserModel from './user-model'; // Import User model to ensure it's registered
 
 const LocationSchema: Schema<Location> = new Schema({
     address: { type: String, required: true },
     lat: { type: Number },
     lng: { type: Number },
+    streetType: { type: String, enum: ['Calle', 'Carrera', 'Transversal', 'Diagonal', 'Avenida'] },
+    streetNumber: { type: String },
+    crossNumber: { type: String },
+    plate: { type: String },
+    neighbourhood: { type: String },
+    reference: { type: String },
 }, { _id: false });
 
 const OrderItemSchema: Schema<OrderItem> = new Schema({
     id: { type: String, required: true },
+    sku: { type: String },
     name: { type: String, required: true },
     quantity: { type: Number, required: true },
     price: { type: Number, required: true },
 }, { _id: false });
 
+const PaymentSchema: Schema<Payment> = new Schema({
+    method: { type: String, required: true, enum: ['cash', 'transfer', 'card', 'nequi', 'daviplata'] },
+    amount: { type: Number, required: true },
+    tendered: { type: Number },
+    change: { type: Number },
+    reference: { type: String },
+    verificationStatus: { type: String, enum: ['pending_verification', 'verified', 'rejected'] },
+    receiptUrl: { type: String },
+    verifiedByName: { type: String },
+    verifiedAt: { type: Date },
+    rejectionReason: { type: String },
+}, { _id: false });
+
+const StatusChangeSchema = new Schema({
+    status: { type: String, required: true, enum: ['pending', 'assigned', 'in_transit', 'delivered', 'cancelled'] },
+    changedAt: { type: Date, required: true, default: Date.now },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    changedByName: { type: String },
+    reason: { type: String },
+}, { _id: false });
+
+const TimeWindowSchema = new Schema({
+    start: { type: Date, required: true },
+    end: { type: Date, required: true },
+}, { _id: false });
+
+const ProofOfDeliverySchema = new Schema({
+    photoUrl: { type: String, required: true },
+    signatureUrl: { type: String, required: true },
+    recipientName: { type: String, required: true },
+    recipientId: { type: String, required: true },
+    capturedAt: { type: Date, required: true, default: Date.now },
+    confirmedAt: {
+        type: new Schema({
+            lat: { type: Number, required: true },
+            lng: { type: Number, required: true },
+            accuracyMeters: { type: Number },
+        }, { _id: false }),
+    },
+    distanceMeters: { type: Number },
+    outsideGeofence: { type: Boolean, required: true, default: false },
+}, { _id: false });
+
+const DeliveryAttemptSchema = new Schema({
+    reason: { type: String, required: true, enum: ['absent', 'wrong_address', 'refused', 'no_cash'] },
+    notes: { type: String },
+    deliveryPerson: { type: Schema.Types.ObjectId, ref: 'User' },
+    deliveryPersonName: { type: String },
+    attemptedAt: { type: Date, required: true, default: Date.now },
+    goodsReturnedAt: { type: Date },
+    goodsReceivedByName: { type: String },
+}, { _id: false });
+
 // This interface represents the Order document in MongoDB.
 // It replaces reference types (like Client, User) with their MongoDB ObjectId equivalents.
-export interface OrderDocument extends Omit<OrderType, 'id' | 'client' | 'assignedTo' | 'createdBy' | 'createdAt'>, Document {
+export interface OrderDocument extends Omit<OrderType, 'id' | 'client' | 'assignedTo' | 'createdBy' | 'createdAt' | 'statusHistory' | 'timeWindow' | 'proofOfDelivery' | 'failedAttempts' | 'payments' | 'deliveryZone'>, Document {
     client: Types.ObjectId;
+    deliveryZone?: Types.ObjectId;
     assignedTo?: Types.ObjectId;
     createdBy: Types.ObjectId;
     createdAt: Date;
+    timeWindow?: Record<keyof TimeWindow, Date>;
+    statusHistory: (Omit<OrderStatusChange, 'changedAt' | 'changedBy'> & { changedAt: Date; changedBy?: Types.ObjectId })[];
+    proofOfDelivery?: Omit<ProofOfDelivery, 'capturedAt'> & { capturedAt: Date };
+    payments: (Omit<Payment, 'verifiedAt'> & { verifiedAt?: Date })[];
+    failedAttempts: (Omit<DeliveryAttempt, 'deliveryPerson' | 'attemptedAt' | 'goodsReturnedAt'> & { deliveryPerson?: Types.ObjectId; attemptedAt: Date; goodsReturnedAt?: Date })[];
+    // Only set on orders created before split payments, see legacyPayments
+    paymentMethod?: 'cash' | 'transfer';
+    paymentAmount?: number;
 }
 
 const OrderSchema: Schema<OrderDocument> = new Schema({
@@ -32,14 +101,30 @@ const OrderSchema: Schema<OrderDocument> = new Schema({
     status: { type: String, required: true, enum: ['pending', 'assigned', 'in_transit', 'delivered', 'cancelled'] },
     assignedTo: { type: Schema.Types.ObjectId, ref: 'User' },
     createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    subtotal: { type: Number },
+    deliveryFee: { type: Number, min: 0, default: 0 },
+    deliveryZone: { type: Schema.Types.ObjectId, ref: 'DeliveryZone' },
+    deliveryZoneName: { type: String },
     total: { type: Number, required: true },
-    paymentMethod: { type: String, required: true, enum: ['cash', 'transfer'] },
+    payments: { type: [PaymentSchema], default: [] },
+    paymentMethod: { type: String, enum: ['cash', 'transfer'] },
     paymentAmount: { type: Number },
     deliveryNotes: { type: String },
+    timeWindow: { type: TimeWindowSchema },
+    priority: { type: String, enum: ['normal', 'high', 'urgent'], default: 'normal' },
+    statusHistory: { type: [StatusChangeSchema], default: [] },
+    proofOfDelivery: { type: ProofOfDeliverySchema },
+    failedAttempts: { type: [DeliveryAttemptSchema], default: [] },
 }, {
     timestamps: true // This will add createdAt and updatedAt
 });
 
+// The verification queue only looks at orders with a transfer still to be checked
+OrderSchema.index({ 'payments.verificationStatus': 1, createdAt: 1 });
+
+// The flagged deliveries report only looks at the few orders confirmed away from their address
+OrderSchema.index({ 'proofOfDelivery.outsideGeofence': 1, assignedTo: 1 }, { partialFilterExpression: { 'proofOfDelivery.outsideGeofence': true } });
+
 const OrderModel: Model<OrderDocument> = models.Order || mongoose.model<OrderDocument>('Order', OrderSchema);
 
 export default OrderModel;
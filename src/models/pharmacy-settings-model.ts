@@ -1,5 +1,16 @@
 
 import mongoose, { Schema, Document, models, Model } from 'mongoose';
+import type { GeocoderName } from './geocode-cache-model';
+import type { OutOfCoveragePolicy } from '@/types';
+
+export interface DeliveryPricing {
+    baseFee: number; // Charged on every delivery outside a priced zone
+    perKmFee: number; // Added per straight-line kilometre from the pharmacy, outside priced zones
+    freeDeliveryThreshold: number; // Orders whose products add up to this much ship free; 0 turns it off
+    nightSurcharge: number;
+    nightStartHour: number; // Hours in Colombian time; the night window may wrap past midnight
+    nightEndHour: number;
+}
 
 export interface PharmacySettings {
     name: string;
@@ -7,6 +18,13 @@ export interface PharmacySettings {
     phone: string;
     lat?: number;
     lng?: number;
+    maxOrdersPerRoute: number; // Capacity of each courier when the optimizer splits orders between them
+    routeOptimizer: 'openrouteservice' | 'local'; // 'local' skips OpenRouteService and plans with straight-line distances
+    geocoder: GeocoderName; // Provider used to turn addresses into coordinates, biased towards lat/lng
+    locationRetentionDays: number; // How long couriers' GPS pings are kept before MongoDB expires them
+    deliveryGeofenceMeters: number; // Deliveries confirmed farther than this from the address are flagged
+    deliveryPricing: DeliveryPricing;
+    outOfCoveragePolicy: OutOfCoveragePolicy; // What happens to addresses outside every delivery zone
 }
 
 export interface PharmacySettingsDocument extends PharmacySettings, Document {
@@ -19,6 +37,20 @@ const PharmacySettingsSchema: Schema<PharmacySettingsDocument> = new Schema({
     phone: { type: String, required: true },
     lat: { type: Number },
     lng: { type: Number },
+    maxOrdersPerRoute: { type: Number, required: true, min: 1, default: 8 },
+    routeOptimizer: { type: String, enum: ['openrouteservice', 'local'], default: 'openrouteservice' },
+    geocoder: { type: String, enum: ['openrouteservice', 'nominatim', 'gazetteer'], default: 'openrouteservice' },
+    locationRetentionDays: { type: Number, required: true, min: 1, default: 30 },
+    deliveryGeofenceMeters: { type: Number, required: true, min: 10, default: 150 },
+    deliveryPricing: {
+        baseFee: { type: Number, min: 0, default: 3000 },
+        perKmFee: { type: Number, min: 0, default: 1000 },
+        freeDeliveryThreshold: { type: Number, min: 0, default: 0 },
+        nightSurcharge: { type: Number, min: 0, default: 2000 },
+        nightStartHour: { type: Number, min: 0, max: 23, default: 21 },
+        nightEndHour: { type: Number, min: 0, max: 23, default: 6 },
+    },
+    outOfCoveragePolicy: { type: String, enum: ['block', 'warn'], default: 'warn' },
     singleton: {
         type: String,
         default: 'main_pharmacy',
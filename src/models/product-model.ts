@@ -0,0 +1,20 @@
+import mongoose, { Schema, Document, models, Model } from 'mongoose';
+import type { Product as ProductType } from '@/types';
+
+export interface ProductDocument extends Omit<ProductType, 'id'>, Document {}
+
+const ProductSchema: Schema<ProductDocument> = new Schema({
+    sku: { type: String, required: true, unique: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    presentation: { type: String, required: true, trim: true },
+    price: { type: Number, required: true, min: 0 },
+    stock: { type: Number, required: true, min: 0, default: 0 },
+    reserved: { type: Number, required: true, min: 0, default: 0 },
+    barcode: { type: String, trim: true, unique: true, sparse: true },
+}, {
+    timestamps: true
+});
+
+const ProductModel: Model<ProductDocument> = models.Product || mongoose.model<ProductDocument>('Product', ProductSchema);
+
+export default ProductModel;
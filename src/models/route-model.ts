@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document, models, Model, Types } from 'mongoose';
+import type { Route as RouteType } from '@/types';
+
+// A courier has at most one open (planned or in_progress) route; assigned orders are appended to it as stops.
+export interface RouteDocument extends Omit<RouteType, 'id' | 'deliveryPerson' | 'stops' | 'optimizedAt' | 'startedAt' | 'completedAt' | 'createdAt'>, Document {
+    deliveryPerson: Types.ObjectId;
+    stops: Types.ObjectId[];
+    optimizedAt?: Date;
+    startedAt?: Date;
+    completedAt?: Date;
+    createdAt: Date;
+}
+
+const RouteSchema: Schema<RouteDocument> = new Schema({
+    deliveryPerson: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    stops: [{ type: Schema.Types.ObjectId, ref: 'Order' }],
+    status: { type: String, required: true, enum: ['planned', 'in_progress', 'completed', 'cancelled'], default: 'planned' },
+    encodedPolyline: { type: String },
+    estimatedDistanceMeters: { type: Number },
+    estimatedDurationSeconds: { type: Number },
+    optimizedAt: { type: Date },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+}, {
+    timestamps: true
+});
+
+RouteSchema.index({ deliveryPerson: 1, status: 1 });
+RouteSchema.index({ deliveryPerson: 1 }, { unique: true, partialFilterExpression: { status: { $in: ['planned', 'in_progress'] } } });
+RouteSchema.index({ stops: 1 });
+
+const RouteModel: Model<RouteDocument> = models.Route || mongoose.model<RouteDocument>('Route', RouteSchema);
+
+export default RouteModel;
@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document, models, Model, Types } from 'mongoose';
+import type { StockMovement as StockMovementType } from '@/types';
+
+// Every change to a product's stock or reservations is appended here; rows are never updated.
+export interface StockMovementDocument extends Omit<StockMovementType, 'id' | 'product' | 'order' | 'user' | 'createdAt'>, Document {
+    product: Types.ObjectId;
+    order?: Types.ObjectId;
+    user?: Types.ObjectId;
+    createdAt: Date;
+}
+
+const StockMovementSchema: Schema<StockMovementDocument> = new Schema({
+    product: { type: Schema.Types.ObjectId, ref: 'Product', required: true, index: true },
+    order: { type: Schema.Types.ObjectId, ref: 'Order', index: true },
+    user: { type: Schema.Types.ObjectId, ref: 'User' },
+    type: { type: String, required: true, enum: ['reserve', 'release', 'consume', 'restock', 'adjustment'] },
+    quantity: { type: Number, required: true },
+    stockDelta: { type: Number, required: true, default: 0 },
+    reservedDelta: { type: Number, required: true, default: 0 },
+}, {
+    timestamps: { createdAt: true, updatedAt: false }
+});
+
+const StockMovementModel: Model<StockMovementDocument> = models.StockMovement || mongoose.model<StockMovementDocument>('StockMovement', StockMovementSchema);
+
+export default StockMovementModel;
@@ -16,11 +16,24 @@ const PointSchema = new Schema({
 
 
 // The User interface from types/index.ts might need to be extended for the document
-export interface UserDocument extends Omit<UserType, 'id'>, Document {}
+export interface UserDocument extends Omit<UserType, 'id' | 'customRole' | 'suspendedAt' | 'lastLoginAt'>, Document {
+    customRole?: mongoose.Types.ObjectId | null;
+    suspendedAt?: Date;
+    lastLoginAt?: Date;
+    passwordHistory: string[];
+    passwordReset?: {
+        codeHash: string;
+        expiresAt: Date;
+        attempts: number;
+        sentAt: Date;
+    };
+}
 
 const UserSchema: Schema<UserDocument> = new Schema({
     name: { type: String, required: true },
     role: { type: String, required: true, enum: ['admin', 'agent', 'delivery'] },
+    // When set, its permissions replace the defaults of `role`, which must match the custom role's base role
+    customRole: { type: Schema.Types.ObjectId, ref: 'CustomRole', default: null },
     cedula: { type: String, required: true, unique: true },
     phone: { type: String, required: true },
     avatarUrl: { type: String },
@@ -29,8 +42,27 @@ const UserSchema: Schema<UserDocument> = new Schema({
         required: true,
         enum: ['available', 'in_route', 'offline'],
     },
-    activeRoute: { type: String },
-    password: { type: String, required: true },
+    accountStatus: { type: String, enum: ['active', 'suspended'], default: 'active' },
+    suspendedAt: { type: Date },
+    // Failed logins before this no longer count toward a lockout
+    lastLoginAt: { type: Date },
+    activeRoute: { type: Schema.Types.ObjectId, ref: 'Route' },
+    // Password fields stay out of every query and populate unless selected with '+'
+    password: { type: String, required: true, select: false },
+    mustChangePassword: { type: Boolean, default: false },
+    // Hashes of the previous passwords, newest first, so they cannot be reused
+    passwordHistory: { type: [String], default: [], select: false },
+    // Pending one-time code sent over WhatsApp; only its hash is stored
+    passwordReset: {
+        type: new Schema({
+            codeHash: { type: String, required: true },
+            expiresAt: { type: Date, required: true },
+            attempts: { type: Number, default: 0 },
+            sentAt: { type: Date, required: true },
+        }, { _id: false }),
+        required: false,
+        select: false,
+    },
     currentLocation: {
         type: PointSchema,
         required: false, // Explicitly not required on creation
@@ -0,0 +1,27 @@
+import mongoose, { Schema, Document, models, Model, Types } from 'mongoose';
+import type { UserSession as UserSessionType } from '@/types';
+
+// Revoking a session deletes its document; expired ones are removed by the TTL index
+export interface UserSessionDocument extends Omit<UserSessionType, 'id' | 'user' | 'createdAt' | 'lastSeenAt' | 'current'>, Document {
+    user: Types.ObjectId;
+    lastSeenAt: Date;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const UserSessionSchema: Schema<UserSessionDocument> = new Schema({
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    ip: { type: String, required: true },
+    userAgent: { type: String },
+    lastSeenAt: { type: Date, required: true, default: Date.now },
+    expiresAt: { type: Date, required: true },
+}, {
+    timestamps: true
+});
+
+UserSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const UserSessionModel: Model<UserSessionDocument> = models.UserSession || mongoose.model<UserSessionDocument>('UserSession', UserSessionSchema);
+
+export default UserSessionModel;
@@ -1,16 +1,44 @@
 
 export type Role = 'admin' | 'agent' | 'delivery';
 export type DeliveryStatus = 'available' | 'in_route' | 'offline';
+// A suspended account cannot sign in and its open sessions stop working
+export type AccountStatus = 'active' | 'suspended';
+
+// What a user may do; the built-in roles and custom roles are bundles of these
+export type Permission =
+  | 'orders.view' | 'orders.create' | 'orders.assign' | 'orders.cancel' | 'orders.deliver'
+  | 'routes.plan'
+  | 'clients.view' | 'clients.create' | 'clients.edit' | 'clients.delete'
+  | 'products.view' | 'products.edit' | 'products.delete'
+  | 'couriers.view' | 'couriers.manage' | 'reports.view'
+  | 'cash.view' | 'cash.manage' | 'cash.approve' | 'transfers.verify'
+  | 'users.manage' | 'roles.manage' | 'settings.edit';
+
+export interface CustomRole {
+  id: string;
+  name: string;
+  description?: string;
+  // Holders of a delivery-based role are couriers: they get routes, cash sessions and GPS tracking
+  baseRole: Exclude<Role, 'admin'>;
+  permissions: Permission[];
+}
 
 export interface User {
   id: string;
   name: string;
   role: Role;
+  customRole?: string | null; // CustomRole id; the user then has its permissions instead of the role's
+  customRoleName?: string;
+  permissions?: Permission[]; // Resolved on the server so the browser can show or hide actions
   cedula: string;
   phone: string;
   avatarUrl?: string;
   status?: DeliveryStatus;
-  activeRoute?: string | null;
+  accountStatus?: AccountStatus; // Missing on accounts created before suspension existed, which are active
+  suspendedAt?: string; // ISO date string
+  lastLoginAt?: string; // ISO date string
+  mustChangePassword?: boolean; // Set when someone else chose the password, until the user picks their own
+  activeRoute?: string | null; // Id of the Route the courier is currently driving
   password?: string;
   currentLocation?: {
     lat: number;
@@ -19,10 +47,19 @@ export interface User {
   bearing?: number;
 }
 
+export type StreetType = 'Calle' | 'Carrera' | 'Transversal' | 'Diagonal' | 'Avenida';
+
 export interface Location {
-  address: string;
+  address: string; // Canonical form when the address could be parsed
   lat?: number;
   lng?: number;
+  // Parts of a Colombian address, e.g. "Carrera 12 # 10-50"
+  streetType?: StreetType;
+  streetNumber?: string; // "12", "12A Bis"
+  crossNumber?: string; // The cross street after the "#"
+  plate?: string; // Metres from the corner, after the "-"
+  neighbourhood?: string;
+  reference?: string; // e.g. "frente al parque"
 }
 
 export interface Client {
@@ -34,13 +71,112 @@ export interface Client {
 }
 
 export type OrderStatus = 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled';
-export type PaymentMethod = 'cash' | 'transfer';
+export type PaymentMethod = 'cash' | 'transfer' | 'card' | 'nequi' | 'daviplata';
+export type OrderPriority = 'normal' | 'high' | 'urgent';
 
-export interface OrderItem {
+export type PaymentVerificationStatus = 'pending_verification' | 'verified' | 'rejected';
+
+// One of the tenders an order is paid with; an order can be split across several
+export interface Payment {
+  method: PaymentMethod;
+  amount: number; // Part of the order total settled by this payment
+  tendered?: number; // Cash only: what the client pays with, when it is more than the amount
+  change?: number; // Cash only: change owed to the client, which the courier carries from the pharmacy
+  reference?: string; // Transfer or Nequi/Daviplata reference, or the card voucher number
+  // Transfers and Nequi/Daviplata only: an agent checks the bank app before counting them as revenue
+  verificationStatus?: PaymentVerificationStatus;
+  receiptUrl?: string; // Screenshot of the transfer, uploaded by the courier or an agent
+  verifiedByName?: string;
+  verifiedAt?: string; // ISO date string
+  rejectionReason?: string;
+}
+
+export interface TimeWindow {
+  start: string; // ISO date string
+  end: string; // ISO date string
+}
+
+export interface Product {
   id: string;
+  sku: string;
   name: string;
-  quantity: number;
+  presentation: string; // e.g. "Caja x 20 tabletas"
   price: number;
+  stock: number; // Units physically on hand
+  reserved?: number; // Units held by open orders, still on hand
+  barcode?: string;
+}
+
+export type StockMovementType = 'reserve' | 'release' | 'consume' | 'restock' | 'adjustment';
+
+export interface StockMovement {
+  id: string;
+  product: string;
+  order?: string;
+  user?: string;
+  type: StockMovementType;
+  quantity: number;
+  stockDelta: number;
+  reservedDelta: number;
+  createdAt: string; // ISO date string
+}
+
+export interface OrderItem {
+  id: string; // Product id from the catalog
+  sku?: string;
+  name: string;
+  quantity: number;
+  price: number; // Unit price at the time of the order
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  changedAt: string; // ISO date string
+  changedBy?: string; // Id of the user who made the change
+  changedByName?: string; // Name at the time of the change, kept if the user is later removed
+  reason?: string;
+}
+
+export type FailedDeliveryReason = 'absent' | 'wrong_address' | 'refused' | 'no_cash';
+
+// A trip to the client that ended without a delivery; the order went back to the pending queue
+export interface DeliveryAttempt {
+  reason: FailedDeliveryReason;
+  notes?: string;
+  deliveryPerson?: string; // User id of the courier who made the attempt
+  deliveryPersonName?: string;
+  attemptedAt: string; // ISO date string
+  goodsReturnedAt?: string; // ISO date string, when the pharmacy got the goods back
+  goodsReceivedByName?: string;
+}
+
+// Evidence collected at the door; an order cannot be marked delivered without it
+export interface ProofOfDelivery {
+  photoUrl: string;
+  signatureUrl: string;
+  recipientName: string;
+  recipientId: string; // Cédula of whoever received the order
+  capturedAt: string; // ISO date string
+  // Where the delivery was confirmed from, as reported by the device's GPS
+  confirmedAt?: { lat: number; lng: number; accuracyMeters?: number };
+  distanceMeters?: number; // From confirmedAt to the order's deliveryLocation
+  outsideGeofence: boolean; // Confirmed too far from the address, or without a location, so it needs review
+}
+
+// What a courier collected on a day's deliveries and the cash they have to hand in
+export interface CourierCashSummary {
+  deliveryPerson: User;
+  orderCount: number;
+  totalsByMethod: Record<PaymentMethod, number>;
+  changeFloat: number; // Change taken from the pharmacy to give back on cash payments
+  cashToReturn: number; // Cash sales plus the change float
+}
+
+// Deliveries flagged for review, grouped by the courier who confirmed them
+export interface FlaggedDeliveriesByCourier {
+  deliveryPerson: User;
+  deliveredCount: number;
+  flaggedOrders: Order[];
 }
 
 export interface Order {
@@ -52,8 +188,123 @@ export interface Order {
   createdAt: string; // ISO date string
   assignedTo?: User; // Delivery user
   createdBy: User; // Agent user
-  total: number;
-  paymentMethod: PaymentMethod;
-  paymentAmount?: number;
+  subtotal: number; // Products only
+  deliveryFee: number;
+  deliveryZone?: string; // DeliveryZone id; missing when the address was outside every zone
+  deliveryZoneName?: string; // As the zone was named when the order was taken
+  total: number; // Subtotal plus delivery fee, what the payments add up to
+  payments: Payment[];
   deliveryNotes?: string;
+  timeWindow?: TimeWindow; // The customer only wants to receive the order between these times
+  priority?: OrderPriority;
+  statusHistory?: OrderStatusChange[];
+  proofOfDelivery?: ProofOfDelivery;
+  failedAttempts?: DeliveryAttempt[];
+}
+
+export type CashSessionStatus = 'open' | 'pending_approval' | 'closed';
+
+// Cash taken on one delivered order during a shift
+export interface CashCollection {
+  order: string; // Order id
+  amount: number; // Cash part of the order's payments
+  collectedAt: string; // ISO date string
+}
+
+// A courier's shift holding the pharmacy's cash: the float they left with, what they collected and what they handed back
+export interface CashSession {
+  id: string;
+  deliveryPerson: User;
+  status: CashSessionStatus;
+  openingFloat: number;
+  openedAt: string; // ISO date string
+  openedByName?: string;
+  collections: CashCollection[];
+  cashCollected: number;
+  countedCash?: number; // What was counted when the courier handed the cash back
+  difference?: number; // Counted minus expected (float plus collected); negative when the courier came up short
+  closingNotes?: string;
+  closedAt?: string; // ISO date string
+  closedByName?: string;
+  approvedByName?: string; // Admin or agent who accepted the difference
+  approvedAt?: string; // ISO date string
+  approvalNotes?: string;
+}
+
+export type RouteStatus = 'planned' | 'in_progress' | 'completed' | 'cancelled';
+
+export interface Route {
+  id: string;
+  deliveryPerson: string; // User id of the courier
+  stops: string[]; // Order ids in the sequence they will be delivered
+  status: RouteStatus;
+  encodedPolyline?: string;
+  estimatedDistanceMeters?: number;
+  estimatedDurationSeconds?: number;
+  optimizedAt?: string; // ISO date string
+  startedAt?: string; // ISO date string
+  completedAt?: string; // ISO date string
+  createdAt: string; // ISO date string
+}
+
+// A GPS fix reported by a courier while in route, kept to replay where they went
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: number[][][]; // Rings of [lng, lat] positions, each closed by repeating its first position
+}
+
+// An area the pharmacy delivers to, drawn on the map in Configuración
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  fee?: number; // Fixed delivery price inside the zone; without it the distance-based fee applies
+  polygon: GeoJsonPolygon;
 }
+
+export type OutOfCoveragePolicy = 'block' | 'warn';
+
+// A signed-in browser; the session cookie only holds this document's id and stops working once it is gone
+export interface UserSession {
+  id: string;
+  user: string; // User id
+  ip: string;
+  userAgent?: string;
+  createdAt: string; // ISO date string
+  lastSeenAt: string; // ISO date string
+  current?: boolean; // Set when listing, for the session making the request
+}
+
+// `reset_requested` is not a failure; it is stored alongside them to throttle reset codes
+export type FailedLoginReason = 'unknown_user' | 'wrong_password' | 'wrong_reset_code' | 'suspended' | 'locked_out' | 'reset_requested';
+
+export interface FailedLogin {
+  id: string;
+  cedula: string;
+  userName?: string; // Set when the cédula belongs to an account
+  ip: string;
+  userAgent?: string;
+  reason: FailedLoginReason;
+  attemptedAt: string; // ISO date string
+}
+
+export interface LocationPing {
+  id: string;
+  deliveryPerson: string; // User id of the courier
+  lat: number;
+  lng: number;
+  bearing?: number;
+  recordedAt: string; // ISO date string
+}
+
+// A courier's day: the path they drove and the orders they delivered along it
+export interface CourierTrack {
+  pings: LocationPing[];
+  deliveredOrders: Order[];
+  distanceMeters: number;
+}
+
+// Pushed to open pages over /api/events so they can update without reloading
+export type DispatchEvent =
+  | { type: 'order.created'; order: Order }
+  | { type: 'order.updated'; order: Order; previousDeliveryPersonId?: string }
+  | { type: 'courier.location'; deliveryPersonId: string; location: { lat: number; lng: number }; bearing?: number };